@@ -0,0 +1,105 @@
+/**
+ * Chantastik synced-lyrics embed loader.
+ *
+ *   <div data-chantastik-embed="SHARE_TOKEN" data-theme="dark"></div>
+ *   <script src="https://<chantastik host>/embed.js" async></script>
+ *
+ * Every element with a data-chantastik-embed attribute gets an auto-resizing
+ * iframe of the shared project. Optional attributes: data-theme (light, dark
+ * or system) and data-colors="false" to skip the colours of the cover art.
+ *
+ * The element fires DOM events named chantastik:<type> with the message as
+ * `detail`: ready, error, play, pause, ended, timeupdate ({ currentTime,
+ * duration }) and linechange ({ index, line }). Control a player with
+ * ChantastikEmbed.play(element), pause(element) and seek(element, seconds).
+ * Elements added later are mounted with ChantastikEmbed.mount(element).
+ */
+(function () {
+	var SOURCE = 'chantastik-embed';
+	var script = document.currentScript;
+	var origin = new URL(script ? script.src : '/', window.location.href).origin;
+	var frames = [];
+
+	function frameOf(element) {
+		for (var i = 0; i < frames.length; i++) {
+			if (frames[i].element === element) return frames[i].iframe;
+		}
+		return null;
+	}
+
+	function send(element, message) {
+		var iframe = frameOf(element);
+		if (iframe && iframe.contentWindow) {
+			iframe.contentWindow.postMessage(message, origin);
+		}
+	}
+
+	function mount(element) {
+		var token = element.getAttribute('data-chantastik-embed');
+		if (!token || frameOf(element)) return;
+
+		var params = new URLSearchParams();
+		var theme = element.getAttribute('data-theme');
+		if (theme) params.set('theme', theme);
+		if (element.getAttribute('data-colors') === 'false') {
+			params.set('colors', 'false');
+		}
+
+		var iframe = document.createElement('iframe');
+		var query = params.toString();
+		iframe.src =
+			origin + '/embed/' + encodeURIComponent(token) + (query ? '?' + query : '');
+		iframe.title = 'Synced lyrics';
+		iframe.allow = 'autoplay';
+		iframe.loading = 'lazy';
+		iframe.style.width = '100%';
+		iframe.style.height = '160px';
+		iframe.style.border = '0';
+		iframe.style.display = 'block';
+
+		frames.push({ element: element, iframe: iframe });
+		element.appendChild(iframe);
+	}
+
+	window.addEventListener('message', function (event) {
+		var data = event.data;
+		if (event.origin !== origin || !data || data.source !== SOURCE) return;
+
+		for (var i = 0; i < frames.length; i++) {
+			var frame = frames[i];
+			if (frame.iframe.contentWindow !== event.source) continue;
+
+			if (data.type === 'resize') {
+				frame.iframe.style.height = data.height + 'px';
+			}
+			frame.element.dispatchEvent(
+				new CustomEvent('chantastik:' + data.type, { detail: data })
+			);
+		}
+	});
+
+	window.ChantastikEmbed = {
+		mount: mount,
+		play: function (element) {
+			send(element, { type: 'play' });
+		},
+		pause: function (element) {
+			send(element, { type: 'pause' });
+		},
+		seek: function (element, time) {
+			send(element, { type: 'seek', time: time });
+		},
+	};
+
+	function mountAll() {
+		var elements = document.querySelectorAll('[data-chantastik-embed]');
+		for (var i = 0; i < elements.length; i++) mount(elements[i]);
+	}
+
+	// An async script may run before the rest of the page is parsed
+	if (document.readyState === 'loading') {
+		document.addEventListener('DOMContentLoaded', mountAll);
+	} else {
+		mountAll();
+	}
+})();
@@ -20,7 +20,7 @@ export const Audio = memo(() => {
 
 	return (
 		<audio
-			src={getAudioUrl(audio?.id ?? '')}
+			src={getAudioUrl(audio?.id ?? '', audio?.updatedAt)}
 			ref={audioRef}
 			title={audio?.metadata?.title}
 			preload="auto"
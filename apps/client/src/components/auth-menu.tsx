@@ -0,0 +1,112 @@
+import { memo } from 'react';
+import { Loader2, LogIn, LogOut, UserRound } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { useAuthMenu } from '@/hooks/use-auth-menu';
+
+export const AuthMenu = memo(() => {
+	const {
+		user,
+		open,
+		setOpen,
+		mode,
+		toggleMode,
+		credentials,
+		updateCredentials,
+		handleSubmit,
+		isSubmitting,
+		error,
+		handleLogout,
+		isLoggingOut,
+	} = useAuthMenu();
+
+	if (user) {
+		return (
+			<div className="flex items-center gap-2" data-testid="auth-user">
+				<span className="hidden md:flex items-center gap-1 text-sm text-muted-foreground">
+					<UserRound className="h-4 w-4" />
+					<span className="max-w-40 truncate">{user.name || user.email}</span>
+				</span>
+				<Button
+					size="icon"
+					variant="ghost"
+					className="h-9 w-9"
+					onClick={handleLogout}
+					disabled={isLoggingOut}
+					title="Sign out"
+					data-testid="auth-logout"
+				>
+					<LogOut className="h-4 w-4" />
+				</Button>
+			</div>
+		);
+	}
+
+	return (
+		<Popover open={open} onOpenChange={setOpen}>
+			<PopoverTrigger asChild>
+				<Button variant="outline" size="sm" data-testid="auth-login-trigger">
+					<LogIn className="h-4 w-4" />
+					Sign in
+				</Button>
+			</PopoverTrigger>
+			<PopoverContent align="end" className="w-72" data-testid="auth-form">
+				<form onSubmit={handleSubmit} className="flex flex-col gap-3">
+					<p className="text-sm font-medium">
+						{mode === 'login' ? 'Sign in' : 'Create an account'}
+					</p>
+					{mode === 'register' && (
+						<Input
+							value={credentials.name}
+							onChange={(e) => updateCredentials({ name: e.target.value })}
+							placeholder="Name (optional)"
+							autoComplete="name"
+							data-testid="auth-name"
+						/>
+					)}
+					<Input
+						type="email"
+						value={credentials.email}
+						onChange={(e) => updateCredentials({ email: e.target.value })}
+						placeholder="Email"
+						autoComplete="email"
+						required
+						data-testid="auth-email"
+					/>
+					<Input
+						type="password"
+						value={credentials.password}
+						onChange={(e) => updateCredentials({ password: e.target.value })}
+						placeholder="Password"
+						autoComplete={
+							mode === 'login' ? 'current-password' : 'new-password'
+						}
+						minLength={mode === 'register' ? 8 : undefined}
+						required
+						data-testid="auth-password"
+					/>
+					{error && (
+						<p className="text-xs text-destructive" data-testid="auth-error">
+							{error.message}
+						</p>
+					)}
+					<Button type="submit" disabled={isSubmitting} data-testid="auth-submit">
+						{isSubmitting && <Loader2 className="h-4 w-4 animate-spin" />}
+						{mode === 'login' ? 'Sign in' : 'Create account'}
+					</Button>
+					<button
+						type="button"
+						onClick={toggleMode}
+						className="text-xs text-muted-foreground hover:text-foreground underline underline-offset-4"
+						data-testid="auth-toggle-mode"
+					>
+						{mode === 'login'
+							? 'No account yet? Create one'
+							: 'Already registered? Sign in'}
+					</button>
+				</form>
+			</PopoverContent>
+		</Popover>
+	);
+});
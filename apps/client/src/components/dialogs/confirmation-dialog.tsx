@@ -130,3 +130,22 @@ export const createSaveConfirmationDialog = (props: {
 		variant="default"
 	/>
 );
+
+export const createConflictConfirmationDialog = (props: {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	onConfirm: (e: { preventDefault: () => void }) => void;
+	onCancel?: () => void;
+	isLoading?: boolean;
+	itemName?: string;
+}) => (
+	<ConfirmationDialog
+		{...props}
+		title={`${props.itemName || 'Item'} changed on the server`}
+		description="Someone else saved a newer version while you were editing. Overwrite it with your changes, or discard yours and load the server copy?"
+		confirmText="Overwrite"
+		cancelText="Load server copy"
+		loadingText="Saving..."
+		variant="destructive"
+	/>
+);
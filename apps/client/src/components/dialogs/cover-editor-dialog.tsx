@@ -0,0 +1,158 @@
+import { useEffect, useState } from 'react';
+import { ConfirmationDialog } from './confirmation-dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Slider } from '../ui/slider';
+import { DEFAULT_COVER_CROP, useProjectCover } from '@/hooks/use-project-cover';
+import type { CoverCrop } from '@/data/api';
+import { COVER_ACCEPT } from '@/lib/utils';
+
+type CoverEditorDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+};
+
+const cropControls: {
+	key: keyof CoverCrop;
+	label: string;
+	min: number;
+}[] = [
+	{ key: 'x', label: 'Horizontal position', min: 0 },
+	{ key: 'y', label: 'Vertical position', min: 0 },
+	{ key: 'size', label: 'Zoom out', min: 0.1 },
+];
+
+/**
+ * Shows the square the server keeps: object-fit cover gives the crop at full
+ * size, the scale around the same position zooms in to smaller sizes
+ */
+const CropPreview = ({ src, crop }: { src: string; crop: CoverCrop }) => {
+	const position = `${crop.x * 100}% ${crop.y * 100}%`;
+
+	return (
+		<div
+			className="relative w-48 h-48 mx-auto rounded-lg overflow-hidden bg-muted"
+			data-testid="cover-crop-preview"
+		>
+			<img
+				src={src}
+				alt="Cover preview"
+				className="absolute inset-0 w-full h-full object-cover"
+				style={{
+					objectPosition: position,
+					transformOrigin: position,
+					transform: `scale(${1 / crop.size})`,
+				}}
+			/>
+		</div>
+	);
+};
+
+export function CoverEditorDialog({ open, onOpenChange }: CoverEditorDialogProps) {
+	const [file, setFile] = useState<File | null>(null);
+	const [filePreview, setFilePreview] = useState<string | null>(null);
+	const [crop, setCrop] = useState<CoverCrop>(DEFAULT_COVER_CROP);
+
+	const handleOpenChange = (next: boolean) => {
+		if (!next) {
+			setFile(null);
+			setCrop(DEFAULT_COVER_CROP);
+		}
+		onOpenChange(next);
+	};
+
+	const { cover, originalUrl, coverUrl, saveCover, removeCover, isSaving } =
+		useProjectCover({ onSaved: () => handleOpenChange(false) });
+
+	// Start from the stored crop when editing an uploaded cover
+	useEffect(() => {
+		if (open && cover) setCrop(cover.crop);
+	}, [open, cover]);
+
+	useEffect(() => {
+		if (!file) {
+			setFilePreview(null);
+			return;
+		}
+		const url = URL.createObjectURL(file);
+		setFilePreview(url);
+		return () => URL.revokeObjectURL(url);
+	}, [file]);
+
+	// Only an uploaded image can be cropped, the embedded art is shown as is
+	const canCrop = !!file || !!cover;
+	const previewSrc = filePreview ?? originalUrl ?? coverUrl(512);
+
+	const handleConfirm = (e: { preventDefault: () => void }) => {
+		// Keep the dialog open until the cover was saved
+		e.preventDefault();
+		if (!canCrop) return;
+
+		saveCover({ crop, file });
+	};
+
+	return (
+		<ConfirmationDialog
+			open={open}
+			onOpenChange={handleOpenChange}
+			title="Cover art"
+			description="Upload an image for this project and pick the square shown on project cards, in the player and behind the lyrics."
+			confirmText="Save"
+			loadingText="Saving..."
+			onConfirm={handleConfirm}
+			isLoading={isSaving || !canCrop}
+		>
+			<Input
+				type="file"
+				accept={COVER_ACCEPT}
+				onChange={(e) => {
+					setFile(e.target.files?.[0] ?? null);
+					setCrop(DEFAULT_COVER_CROP);
+				}}
+				data-testid="cover-file-input"
+			/>
+			{previewSrc ? (
+				<CropPreview
+					src={previewSrc}
+					crop={canCrop ? crop : DEFAULT_COVER_CROP}
+				/>
+			) : (
+				<p
+					className="text-sm text-muted-foreground"
+					data-testid="cover-editor-empty"
+				>
+					This track has no cover art, the videos use a plain
+					background until you upload one.
+				</p>
+			)}
+			{canCrop &&
+				cropControls.map(({ key, label, min }) => (
+					<label key={key} className="block space-y-2 text-sm">
+						<span className="text-muted-foreground">{label}</span>
+						<Slider
+							value={[crop[key]]}
+							min={min}
+							max={1}
+							step={0.01}
+							onValueChange={([value]) =>
+								setCrop((current) => ({ ...current, [key]: value }))
+							}
+							data-testid={`cover-crop-${key}`}
+						/>
+					</label>
+				))}
+			{cover && !file && (
+				<Button
+					type="button"
+					variant="outline"
+					size="sm"
+					onClick={removeCover}
+					disabled={isSaving}
+					data-testid="remove-cover-button"
+				>
+					Remove uploaded cover
+				</Button>
+			)}
+		</ConfirmationDialog>
+	);
+}
@@ -0,0 +1,59 @@
+import { FolderOpen } from 'lucide-react';
+import { ConfirmationDialog } from './confirmation-dialog';
+import { Button } from '../ui/button';
+import { useDuplicateAudio } from '@/hooks/use-duplicate-audio';
+
+// Shown when an uploaded file is already stored
+export function DuplicateAudioDialog() {
+	const {
+		duplicateAudio,
+		openExistingProject,
+		createProjectFromAudio,
+		dismiss,
+		isCreating,
+	} = useDuplicateAudio();
+
+	const handleConfirm = (e: { preventDefault: () => void }) => {
+		// The dialog closes once the project exists
+		e.preventDefault();
+		createProjectFromAudio();
+	};
+
+	const projects = duplicateAudio?.projects ?? [];
+
+	return (
+		<ConfirmationDialog
+			open={!!duplicateAudio}
+			onOpenChange={(open) => !open && dismiss()}
+			title="This track is already uploaded"
+			description={`${duplicateAudio?.existingFile.filename ?? 'This file'} is stored already. Open a project that uses it, or start a new project on the same audio without uploading it again.`}
+			confirmText="Create new project"
+			loadingText="Creating..."
+			onConfirm={handleConfirm}
+			isLoading={isCreating}
+		>
+			{projects.length > 0 && (
+				<ul className="space-y-2" data-testid="duplicate-audio-projects">
+					{projects.map((project) => (
+						<li
+							key={project.id}
+							className="flex items-center justify-between gap-2"
+						>
+							<span className="text-sm truncate">{project.name}</span>
+							<Button
+								type="button"
+								variant="outline"
+								size="sm"
+								onClick={() => openExistingProject(project.id)}
+								disabled={isCreating}
+							>
+								<FolderOpen className="h-4 w-4" />
+								Open existing project
+							</Button>
+						</li>
+					))}
+				</ul>
+			)}
+		</ConfirmationDialog>
+	);
+}
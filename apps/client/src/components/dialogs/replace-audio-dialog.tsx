@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { ConfirmationDialog } from './confirmation-dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useReplaceAudio } from '@/hooks/use-replace-audio';
+import type { LyricsTiming } from '@/data/api';
+import { AUDIO_ACCEPT } from '@/lib/utils';
+
+type ReplaceAudioDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	audioId: string;
+	projectId?: string;
+};
+
+const timingOptions: { value: LyricsTiming; label: string }[] = [
+	{ value: 'none', label: 'Keep timings' },
+	{ value: 'offset', label: 'Shift' },
+	{ value: 'stretch', label: 'Stretch to new length' },
+];
+
+export function ReplaceAudioDialog({
+	open,
+	onOpenChange,
+	audioId,
+	projectId,
+}: ReplaceAudioDialogProps) {
+	const [file, setFile] = useState<File | null>(null);
+	const [timing, setTiming] = useState<LyricsTiming>('none');
+	const [offset, setOffset] = useState('0');
+
+	const handleOpenChange = (next: boolean) => {
+		if (!next) {
+			setFile(null);
+			setTiming('none');
+			setOffset('0');
+		}
+		onOpenChange(next);
+	};
+
+	const { mutate, isPending } = useReplaceAudio({
+		onSuccess: () => handleOpenChange(false),
+	});
+
+	const handleConfirm = (e: { preventDefault: () => void }) => {
+		// Keep the dialog open until the upload finished
+		e.preventDefault();
+		if (!file) return;
+
+		mutate({
+			audioId,
+			file,
+			options: {
+				timing: projectId ? timing : 'none',
+				offset: timing === 'offset' ? Number(offset) || 0 : undefined,
+			},
+		});
+	};
+
+	return (
+		<ConfirmationDialog
+			open={open}
+			onOpenChange={handleOpenChange}
+			title="Replace audio"
+			description="Upload a new version of this track. Metadata and cover art are read from the new file."
+			confirmText="Replace"
+			loadingText="Uploading..."
+			onConfirm={handleConfirm}
+			isLoading={isPending || !file}
+		>
+			<Input
+				type="file"
+				accept={AUDIO_ACCEPT}
+				onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+				data-testid="replace-audio-file"
+			/>
+			{projectId && (
+				<div className="space-y-2">
+					<p className="text-sm font-medium">Lyric timings</p>
+					<p className="text-xs text-muted-foreground">
+						Applies to every project that uses this track.
+					</p>
+					<div className="flex flex-wrap gap-2">
+						{timingOptions.map((option) => (
+							<Button
+								key={option.value}
+								type="button"
+								size="sm"
+								variant={timing === option.value ? 'default' : 'outline'}
+								onClick={() => setTiming(option.value)}
+							>
+								{option.label}
+							</Button>
+						))}
+					</div>
+					{timing === 'offset' && (
+						<label className="flex items-center gap-2 text-sm text-muted-foreground">
+							Seconds to add (negative to move earlier)
+							<Input
+								type="number"
+								step="0.1"
+								value={offset}
+								onChange={(e) => setOffset(e.target.value)}
+								className="w-24"
+							/>
+						</label>
+					)}
+					{timing === 'stretch' && (
+						<p className="text-xs text-muted-foreground">
+							Timestamps are scaled by the ratio of the new duration to
+							the old one.
+						</p>
+					)}
+				</div>
+			)}
+		</ConfirmationDialog>
+	);
+}
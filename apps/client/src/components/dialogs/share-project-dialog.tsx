@@ -0,0 +1,99 @@
+import { Copy } from 'lucide-react';
+import { ConfirmationDialog } from './confirmation-dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { useShareProject } from '@/hooks/use-share-project';
+import type { Project } from '@/data/api';
+
+type ShareProjectDialogProps = {
+	open: boolean;
+	onOpenChange: (open: boolean) => void;
+	project: Project | null;
+};
+
+export function ShareProjectDialog({
+	open,
+	onOpenChange,
+	project,
+}: ShareProjectDialogProps) {
+	const {
+		shareUrl,
+		embedCode,
+		createLink,
+		revokeLink,
+		copyLink,
+		copyEmbedCode,
+		isPending,
+	} = useShareProject(project);
+
+	const handleConfirm = (e: { preventDefault: () => void }) => {
+		// Keep the dialog open to show or clear the link
+		e.preventDefault();
+		if (shareUrl) revokeLink();
+		else createLink();
+	};
+
+	return (
+		<ConfirmationDialog
+			open={open}
+			onOpenChange={onOpenChange}
+			title={`Share ${project?.name ?? 'project'}`}
+			description={
+				shareUrl
+					? 'Anyone with this link can play the track and read the lyrics. Revoking it disables the link at once.'
+					: 'Create a read-only link to play the track with its synced lyrics, no account needed.'
+			}
+			confirmText={shareUrl ? 'Revoke link' : 'Create link'}
+			cancelText="Close"
+			loadingText={shareUrl ? 'Revoking...' : 'Creating...'}
+			onConfirm={handleConfirm}
+			isLoading={isPending}
+			variant={shareUrl ? 'destructive' : 'default'}
+		>
+			{shareUrl && (
+				<div className="flex items-center gap-2">
+					<Input
+						readOnly
+						value={shareUrl}
+						onFocus={(e) => e.target.select()}
+						data-testid="share-link"
+					/>
+					<Button
+						type="button"
+						variant="outline"
+						size="icon"
+						onClick={copyLink}
+						data-testid="share-copy"
+					>
+						<Copy className="h-4 w-4" />
+						<span className="sr-only">Copy link</span>
+					</Button>
+				</div>
+			)}
+			{embedCode && (
+				<div className="flex items-start gap-2">
+					<Textarea
+						readOnly
+						rows={2}
+						value={embedCode}
+						onFocus={(e) => e.target.select()}
+						className="font-mono text-xs"
+						aria-label="Embed code"
+						data-testid="share-embed-code"
+					/>
+					<Button
+						type="button"
+						variant="outline"
+						size="icon"
+						onClick={copyEmbedCode}
+						data-testid="share-embed-copy"
+					>
+						<Copy className="h-4 w-4" />
+						<span className="sr-only">Copy embed code</span>
+					</Button>
+				</div>
+			)}
+		</ConfirmationDialog>
+	);
+}
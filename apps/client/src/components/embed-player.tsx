@@ -0,0 +1,104 @@
+import { getShareUrl } from '@/data/api';
+import { useEmbedMessages } from '@/hooks/use-embed-messages';
+import { useSharedProject } from '@/hooks/use-shared-project';
+import { createLineSeeker } from '@/lib/utils';
+import { Music } from 'lucide-react';
+import { memo, useMemo, useRef, useState } from 'react';
+import { YoutubeLink } from './shared-player';
+import { SyncedLyrics } from './synced-lyrics';
+import { Skeleton } from './ui/skeleton';
+import { WithColorFlow } from './with-color-flow';
+
+type Props = {
+	token: string;
+	// Colour the widget from the cover art, else the plain light/dark theme
+	colors: boolean;
+};
+
+// Compact player rendered inside the iframe of the embed loader (public/embed.js)
+export const EmbedPlayer = memo(({ token, colors }: Props) => {
+	const { data: project, isLoading, isError } = useSharedProject(token);
+	const audioRef = useRef<HTMLAudioElement>(null);
+	const containerRef = useRef<HTMLDivElement>(null);
+	const [coverFailed, setCoverFailed] = useState(false);
+	const seekToLine = useMemo(() => createLineSeeker(audioRef), []);
+
+	const { postLineChange } = useEmbedMessages({
+		audioRef,
+		containerRef,
+		ready: !!project,
+		failed: isError,
+	});
+
+	return (
+		<WithColorFlow coverUrl={colors && project ? project.coverUrl : null}>
+			<div
+				ref={containerRef}
+				className="bg-background text-foreground p-4 space-y-4"
+				data-testid="embed-player"
+			>
+				{isLoading && <Skeleton className="h-16 w-full" />}
+				{(isError || (!isLoading && !project)) && (
+					<p className="text-center text-sm text-muted-foreground py-4">
+						These lyrics are no longer shared.
+					</p>
+				)}
+				{project && (
+					<>
+						<div className="flex items-center gap-3">
+							{coverFailed ? (
+								<div className="h-12 w-12 shrink-0 rounded-md bg-muted flex items-center justify-center">
+									<Music className="h-5 w-5 text-muted-foreground" />
+								</div>
+							) : (
+								<img
+									src={project.coverUrl}
+									alt=""
+									className="h-12 w-12 shrink-0 rounded-md object-cover"
+									onError={() => setCoverFailed(true)}
+								/>
+							)}
+							<div className="min-w-0 flex-1">
+								<p className="font-medium truncate">
+									{project.title || project.name}
+								</p>
+								{project.artist && (
+									<p className="text-sm text-muted-foreground truncate">
+										{project.artist}
+									</p>
+								)}
+							</div>
+							<a
+								href={getShareUrl(token)}
+								target="_blank"
+								rel="noreferrer"
+								className="text-xs text-muted-foreground hover:underline shrink-0"
+							>
+								Open in Chantastik
+							</a>
+						</div>
+						{project.audioUrl ? (
+							<audio
+								ref={audioRef}
+								src={project.audioUrl}
+								controls
+								preload="metadata"
+								className="w-full"
+							/>
+						) : (
+							project.youtube && <YoutubeLink youtube={project.youtube} />
+						)}
+						{project.lines.length > 0 && (
+							<SyncedLyrics
+								lyricLines={project.lines}
+								audioRef={audioRef}
+								onSeek={seekToLine}
+								onActiveLineChange={postLineChange}
+							/>
+						)}
+					</>
+				)}
+			</div>
+		</WithColorFlow>
+	);
+});
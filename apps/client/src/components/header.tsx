@@ -2,14 +2,20 @@ import { Link } from '@tanstack/react-router';
 import { AudioWaveform } from 'lucide-react';
 import { memo } from 'react';
 import { ProjectsDrawer } from './project-drawer';
+import { ProjectSearch } from './project-search';
+import { AuthMenu } from './auth-menu';
 import { ThemeModeToggle } from './theme-mode-toggle';
 import { createDeleteConfirmationDialog } from './dialogs/confirmation-dialog';
+import { ShareProjectDialog } from './dialogs/share-project-dialog';
 import { useHeaderProjectActions } from '@/hooks/use-header-project-actions';
 
 const HeaderContent = memo(() => {
 	const {
 		handleProjectSelected,
 		handleProjectDelete,
+		handleProjectShare,
+		closeShareDialog,
+		projectToShare,
 		confirmDelete,
 		cancelDelete,
 		showDeleteDialog,
@@ -31,11 +37,14 @@ const HeaderContent = memo(() => {
 					</div>
 
 					<div className="flex items-center gap-4">
+						<ProjectSearch onProjectSelected={handleProjectSelected} />
 						<ProjectsDrawer
 							onProjectSelected={handleProjectSelected}
 							onDeleteProject={handleProjectDelete}
+							onShareProject={handleProjectShare}
 						/>
 						<ThemeModeToggle />
+						<AuthMenu />
 						<div className="hidden sm:block text-sm text-muted-foreground">
 							made by{' '}
 							<a
@@ -59,6 +68,12 @@ const HeaderContent = memo(() => {
 				isLoading: isDeleting,
 				itemName: 'project',
 			})}
+
+			<ShareProjectDialog
+				open={projectToShare !== null}
+				onOpenChange={(open) => !open && closeShareDialog()}
+				project={projectToShare}
+			/>
 		</>
 	);
 });
@@ -0,0 +1,148 @@
+import { useRef } from 'react';
+import { Film, ImageIcon, Loader2, Trash2, Type, Upload } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { Button } from '../ui/button';
+import RenderWhen from '../render-when';
+import { useProjectAssets } from '@/hooks/use-project-assets';
+import { ASSET_ACCEPT } from '@/lib/utils';
+import type { AssetKind, RenderAssetSlot } from '@/data/api';
+
+const kindIcons: Record<AssetKind, LucideIcon> = {
+	image: ImageIcon,
+	video: Film,
+	font: Type,
+};
+
+// Render slots each kind of asset can fill
+const kindSlots: Record<AssetKind, { slot: RenderAssetSlot; label: string }[]> =
+	{
+		image: [
+			{ slot: 'background', label: 'Background' },
+			{ slot: 'logo', label: 'Logo' },
+		],
+		video: [{ slot: 'background', label: 'Background' }],
+		font: [{ slot: 'font', label: 'Font' }],
+	};
+
+export const AssetPicker = () => {
+	const inputRef = useRef<HTMLInputElement>(null);
+	const {
+		assets,
+		renderAssets,
+		isLoading,
+		canEdit,
+		canDelete,
+		uploadAsset,
+		deleteAsset,
+		toggleSlot,
+		isUploading,
+		isUpdating,
+	} = useProjectAssets();
+
+	const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+		const file = event.target.files?.[0];
+		if (file) uploadAsset(file);
+		event.target.value = '';
+	};
+
+	return (
+		<div className="space-y-2 py-3" data-testid="asset-picker">
+			<div className="flex items-center justify-between">
+				<p className="text-sm font-medium">Video assets</p>
+				<RenderWhen condition={canEdit}>
+					<Button
+						variant="outline"
+						size="sm"
+						onClick={() => inputRef.current?.click()}
+						disabled={isUploading}
+						data-testid="upload-asset-button"
+					>
+						{isUploading ? (
+							<Loader2 className="w-4 h-4 mr-2 animate-spin" />
+						) : (
+							<Upload className="w-4 h-4 mr-2" />
+						)}
+						Upload
+					</Button>
+					<input
+						ref={inputRef}
+						type="file"
+						accept={ASSET_ACCEPT}
+						className="hidden"
+						onChange={handleFileChange}
+						data-testid="asset-file-input"
+					/>
+				</RenderWhen>
+			</div>
+
+			<RenderWhen
+				condition={assets.length > 0}
+				fallback={
+					<p
+						className="text-sm text-muted-foreground"
+						data-testid="asset-picker-empty"
+					>
+						{isLoading
+							? 'Loading assets...'
+							: 'Upload an image, a short video loop or a font to use it instead of the cover art.'}
+					</p>
+				}
+			>
+				<ul className="space-y-1" data-testid="asset-list">
+					{assets.map((asset) => {
+						const Icon = kindIcons[asset.kind];
+						const inUse = Object.values(renderAssets).includes(
+							asset.id
+						);
+						return (
+							<li
+								key={asset.id}
+								className="flex items-center gap-2 text-sm"
+								data-testid="asset-item"
+							>
+								<Icon className="w-4 h-4 shrink-0 text-muted-foreground" />
+								<span className="truncate flex-1">
+									{asset.filename}
+								</span>
+								{kindSlots[asset.kind].map(({ slot, label }) => (
+									<Button
+										key={slot}
+										variant={
+											renderAssets[slot] === asset.id
+												? 'default'
+												: 'outline'
+										}
+										size="sm"
+										className="h-7 px-2"
+										disabled={!canEdit || isUpdating}
+										onClick={() => toggleSlot(slot, asset)}
+										data-testid={`asset-slot-${slot}`}
+									>
+										{label}
+									</Button>
+								))}
+								<RenderWhen condition={canDelete}>
+									<Button
+										variant="ghost"
+										size="sm"
+										className="h-7 w-7 p-0"
+										title={
+											inUse
+												? 'Remove it from the video first'
+												: 'Delete asset'
+										}
+										disabled={inUse}
+										onClick={() => deleteAsset(asset.id)}
+										data-testid="delete-asset-button"
+									>
+										<Trash2 className="w-4 h-4" />
+									</Button>
+								</RenderWhen>
+							</li>
+						);
+					})}
+				</ul>
+			</RenderWhen>
+		</div>
+	);
+};
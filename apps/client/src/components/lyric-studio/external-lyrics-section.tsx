@@ -3,7 +3,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Textarea } from '../ui/textarea';
 import { Button } from '../ui/button';
 import { useExternalLyricsSection } from '@/hooks/use-external-lyrics-section';
-import type { AudioMeta } from '@/data/types';
+import { useAudioMetadata } from '@/hooks/use-audio-metadata';
 
 export function ExternalLyricsSection() {
 	const {
@@ -14,17 +14,15 @@ export function ExternalLyricsSection() {
 		isConvertDisabled,
 	} = useExternalLyricsSection();
 
-	const handleGoogleSearch = () => {
-		const storedAudioMetadata =
-			localStorage.getItem(`currentAudioMetadata`);
-		if (!storedAudioMetadata) return null;
+	const { metadata } = useAudioMetadata();
 
-		const audioMetadata: AudioMeta = JSON.parse(storedAudioMetadata);
+	const handleGoogleSearch = () => {
+		if (!metadata) return;
 
 		const url = new URL('https://www.google.com/search');
 		url.searchParams.append(
 			'q',
-			`${audioMetadata?.metadata?.artist} ${audioMetadata?.metadata?.title} lyrics`
+			[metadata.artist, metadata.title, 'lyrics'].filter(Boolean).join(' ')
 		);
 		window.open(url.toString(), '_blank');
 	};
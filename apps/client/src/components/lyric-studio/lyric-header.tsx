@@ -1,24 +1,47 @@
 import { CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
-import { ArrowUpFromLine, CloudDownload, Download, Music } from 'lucide-react';
+import {
+	ArrowUpFromLine,
+	CloudDownload,
+	Download,
+	FileAudio,
+	Music,
+} from 'lucide-react';
 import { memo } from 'react';
 import { useAppStore } from '@/stores/app/store';
 import { useSaveLyricsHandler } from '@/hooks/use-save-lyrics-handler';
 import { useLrcFileHandler } from '@/hooks/use-lrc-file-handler';
+import { useGetLyrics } from '@/hooks/use-get-lyrics';
+import { useAudioMetadata } from '@/hooks/use-audio-metadata';
+import { getTaggedAudioUrl } from '@/data/api';
+import { createConflictConfirmationDialog } from '../dialogs/confirmation-dialog';
 
 export const LyricHeader = memo(function LyricHeader() {
 	const trackLoaded = useAppStore((state) => state.trackLoaded);
 	const currentProjectId = useAppStore((state) => state.projectId);
 	const lyricLines = useAppStore((state) => state.lyricLines);
+	const audio = useAppStore((state) => state.audio);
 	const {
 		areLyricLinesWithoutTimestamps,
 		handleDownload,
 		isValidLyricLines,
 	} = useAppStore.getState();
 
-	const { handleSaveLyrics, saveLyricsMutation } = useSaveLyricsHandler();
+	const {
+		handleSaveLyrics,
+		saveLyricsMutation,
+		showConflictDialog,
+		handleOverwriteLyrics,
+		handleUseServerLyrics,
+		closeConflictDialog,
+	} = useSaveLyricsHandler();
 	const { loadFromLrcFile, fileInputRef, handleLrcFileChange } =
 		useLrcFileHandler();
+	// Shares its cache with the editor, the server tags the saved lyrics
+	const { data: savedLyrics } = useGetLyrics({
+		projectId: currentProjectId ?? '',
+	});
+	const { metadata } = useAudioMetadata();
 
 	const downloadLrcButtonDisabled =
 		!isValidLyricLines() ||
@@ -30,6 +53,25 @@ export const LyricHeader = memo(function LyricHeader() {
 		!currentProjectId ||
 		!lyricLines?.length;
 	
+	// Only uploaded MP3 files can carry ID3 tags
+	const isTaggedMp3ButtonDisabled =
+		!currentProjectId ||
+		!audio?.id ||
+		audio.id.startsWith('youtube-virtual-') ||
+		audio.contentType !== 'audio/mpeg' ||
+		!savedLyrics?.lines?.length;
+
+	// The browser downloads the file, the editor stays open
+	const handleDownloadTaggedMp3 = () => {
+		if (!audio?.id || !currentProjectId) return;
+
+		const link = document.createElement('a');
+		link.href = getTaggedAudioUrl(audio.id, currentProjectId);
+		document.body.appendChild(link);
+		link.click();
+		document.body.removeChild(link);
+	};
+
 	if (!trackLoaded) {
 		return null;
 	}
@@ -70,7 +112,7 @@ export const LyricHeader = memo(function LyricHeader() {
 						Load from LRC
 					</Button>
 					<Button
-						onClick={handleDownload}
+						onClick={() => handleDownload(metadata)}
 						disabled={downloadLrcButtonDisabled}
 						variant={
 							!isValidLyricLines() || lyricLines.length === 0
@@ -87,6 +129,21 @@ export const LyricHeader = memo(function LyricHeader() {
 						<Download className="h-4 w-4" />
 						Download LRC
 					</Button>
+					<Button
+						onClick={handleDownloadTaggedMp3}
+						variant="outline"
+						className="gap-2 w-full md:w-auto"
+						disabled={isTaggedMp3ButtonDisabled}
+						title={
+							audio?.contentType === 'audio/mpeg'
+								? 'Download the MP3 with the saved lyrics in its tags'
+								: 'Only uploaded MP3 files can be tagged'
+						}
+						data-testid="download-tagged-mp3-button"
+					>
+						<FileAudio className="h-4 w-4" />
+						Download tagged MP3
+					</Button>
 					<Button
 						onClick={handleSaveLyrics}
 						variant="default"
@@ -102,6 +159,15 @@ export const LyricHeader = memo(function LyricHeader() {
 					</Button>
 				</div>
 			</div>
+
+			{createConflictConfirmationDialog({
+				open: showConflictDialog,
+				onOpenChange: (open) => !open && closeConflictDialog(),
+				onConfirm: handleOverwriteLyrics,
+				onCancel: handleUseServerLyrics,
+				isLoading: saveLyricsMutation.isPending,
+				itemName: 'Lyrics',
+			})}
 		</CardHeader>
 	);
 });
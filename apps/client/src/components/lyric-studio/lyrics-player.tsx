@@ -5,7 +5,7 @@ import { LyricsPreviewCard } from '../lyrics-preview-card';
 import { useCallback, useMemo, useState } from 'react';
 import type { LyricsProps } from '@/remotion/schema';
 import { VideoPlayer } from './video-player';
-import { getAudioUrl, getCoverArtUrl } from '@/data/api';
+import { getAudioUrl } from '@/data/api';
 import { useAppStore } from '@/stores/app/store';
 import { useVideoRefContext } from '@/hooks/use-video-ref-context';
 import { useAudioRefContext } from '@/hooks/use-audio-ref-context';
@@ -14,16 +14,21 @@ import { useColorFlow } from '@/hooks/use-color-flow';
 import { Button } from '../ui/button';
 import { toast } from 'sonner';
 import { useRenderVideo } from '@/hooks/use-render-video';
-import type { AspectRatioType, AudioMeta } from '@/data/types';
+import type { AspectRatioType } from '@/data/types';
 import { AnimatePresence, motion } from 'motion/react';
 import { RenderWhen } from '../render-when';
 import { PlayerToolbar } from './player-toolbar';
+import { AssetPicker } from './asset-picker';
+import { useProjectAssets } from '@/hooks/use-project-assets';
+import { useProjectCover } from '@/hooks/use-project-cover';
+import { useAudioMetadata } from '@/hooks/use-audio-metadata';
 
 export const LyricsPlayer = () => {
 	const { audioRef } = useAudioRefContext();
 	const { videoRef } = useVideoRefContext();
 
-	const theme = useColorFlow();
+	const { hasCover, coverUrl } = useProjectCover();
+	const theme = useColorFlow(hasCover ? coverUrl(512) : null);
 
 	const { lyricLines, trackLoaded } = useAppStore(
 		useShallow((state) => ({
@@ -33,6 +38,8 @@ export const LyricsPlayer = () => {
 	);
 
 	const audio = useAppStore((state) => state.audio);
+	const { metadata } = useAudioMetadata();
+	const { sources } = useProjectAssets();
 	const [aspectRatio, setAspectRatio] =
 		useState<AspectRatioType>('horizontal');
  
@@ -65,27 +72,44 @@ export const LyricsPlayer = () => {
 		return Math.max(audioFrames, lastLyricFrame) + 30;
 	}, [lyricsData, audioRef.current?.duration]);
 
+	// Assets picked from the library replace the project cover, without
+	// either the themes keep their plain background
+	const backgroundCover = hasCover ? coverUrl(1080) : null;
+	const assetProps = useMemo(
+		() => ({
+			...sources,
+			backgroundImage:
+				sources.backgroundImage ?? backgroundCover ?? undefined,
+		}),
+		[sources, backgroundCover]
+	);
+
+	// The themes credit the track with the tags edited in the lyric studio
+	const trackProps = useMemo(
+		() => ({ title: metadata?.title, artist: metadata?.artist }),
+		[metadata]
+	);
+
 	const inputProps = useMemo(() => {
 		return {
 			lyrics: lyricsData,
-			backgroundImage: getCoverArtUrl(audio?.id ?? ''),
+			...assetProps,
+			...trackProps,
 			theme,
 		} as LyricsProps;
-	}, [lyricsData]);
+	}, [lyricsData, assetProps, trackProps]);
 
 	const renderInputProps = useMemo(() => {
 		return {
 			lyrics: lyricsData,
-			backgroundImage: getCoverArtUrl(audio?.id ?? ''),
+			...assetProps,
+			...trackProps,
 			audioSrc: getAudioUrl(audio?.id ?? ''),
 		} as LyricsProps;
-	}, [lyricsData]);
+	}, [lyricsData, assetProps, trackProps]);
 
 	const handleRenderVideo = useCallback(() => {
-		const storedAudioMetadata =
-			localStorage.getItem(`currentAudioMetadata`);
-
-		if (!storedAudioMetadata || lyricsData.length === 0) {
+		if (!audio?.id || lyricsData.length === 0) {
 			toast.error('Cannot render video', {
 				description:
 					'Please ensure audio is loaded and lyrics are added',
@@ -93,9 +117,7 @@ export const LyricsPlayer = () => {
 			return;
 		}
 
-		const audioMetadata: AudioMeta = JSON.parse(storedAudioMetadata);
-
-		const fileName = `${audioMetadata.metadata?.title || 'lyrics'}-${audioMetadata.metadata?.artist || 'unknown'}.mp4`;
+		const fileName = `${metadata?.title || 'lyrics'}-${metadata?.artist || 'unknown'}.mp4`;
 
 		// Start SSE connection for progress updates
 		const eventSource = new EventSource(
@@ -135,7 +157,14 @@ export const LyricsPlayer = () => {
 			outputFileName: fileName,
 			totalFrames: totalFrames,
 		});
-	}, [lyricsData, renderInputProps, renderVideoMutation, totalFrames]);
+	}, [
+		audio?.id,
+		metadata,
+		lyricsData,
+		renderInputProps,
+		renderVideoMutation,
+		totalFrames,
+	]);
 
 	if (!trackLoaded) {
 		return null; // Don't render if video preview is not shown
@@ -217,6 +246,7 @@ export const LyricsPlayer = () => {
 						aspectRatio={aspectRatio}
 						onAspectRatioChange={setAspectRatio}
 					/>
+					<AssetPicker />
 					<VideoPlayer
 						playerRef={videoRef}
 						inputProps={inputProps}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Save, Tag } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { useAudioMetadata } from '@/hooks/use-audio-metadata';
+import type { Metadata } from '@/data/types';
+
+type TrackDetailsForm = {
+	title: string;
+	artist: string;
+	album: string;
+	year: string;
+	genre: string; // comma-separated
+};
+
+const fields: {
+	key: keyof TrackDetailsForm;
+	label: string;
+	placeholder?: string;
+}[] = [
+	{ key: 'title', label: 'Title' },
+	{ key: 'artist', label: 'Artist' },
+	{ key: 'album', label: 'Album' },
+	{ key: 'year', label: 'Year', placeholder: 'YYYY' },
+	{ key: 'genre', label: 'Genre', placeholder: 'Pop, Dance' },
+];
+
+const toForm = (metadata?: Partial<Metadata>): TrackDetailsForm => ({
+	title: metadata?.title ?? '',
+	artist: metadata?.artist ?? '',
+	album: metadata?.album ?? '',
+	year: metadata?.year ?? '',
+	genre: metadata?.genre?.join(', ') ?? '',
+});
+
+export function TrackDetails() {
+	const { metadata, canEdit, isYoutube, saveMetadata, isSaving } =
+		useAudioMetadata();
+	const [form, setForm] = useState<TrackDetailsForm>(() => toForm(metadata));
+
+	// Start over from the stored tags once they load or were saved
+	useEffect(() => {
+		setForm(toForm(metadata));
+	}, [metadata]);
+
+	const isYearValid = /^(\d{4})?$/.test(form.year.trim());
+	const isChanged =
+		JSON.stringify(form) !== JSON.stringify(toForm(metadata));
+
+	const handleSubmit = (event: React.FormEvent) => {
+		event.preventDefault();
+		if (!isYearValid) return;
+
+		// Empty fields remove the tag
+		saveMetadata({
+			title: form.title.trim(),
+			artist: form.artist.trim(),
+			album: form.album.trim(),
+			year: form.year.trim(),
+			genre: form.genre
+				.split(',')
+				.map((genre) => genre.trim())
+				.filter(Boolean),
+		});
+	};
+
+	return (
+		<Card
+			className="pt-0 shadow-none overflow-hidden"
+			data-testid="track-details"
+		>
+			<CardHeader className="border-b pt-6">
+				<CardTitle className="flex items-center gap-2 py-3">
+					<Tag className="h-5 w-5 text-primary" />
+					Track details
+				</CardTitle>
+			</CardHeader>
+			<CardContent className="px-4">
+				<form className="space-y-3" onSubmit={handleSubmit}>
+					{fields.map(({ key, label, placeholder }) => (
+						<label key={key} className="block space-y-1 text-sm">
+							<span className="text-muted-foreground">{label}</span>
+							<Input
+								value={form[key]}
+								placeholder={placeholder}
+								disabled={!canEdit || isSaving}
+								aria-invalid={key === 'year' && !isYearValid}
+								onChange={(e) =>
+									setForm((current) => ({
+										...current,
+										[key]: e.target.value,
+									}))
+								}
+								data-testid={`track-details-${key}`}
+							/>
+						</label>
+					))}
+					<p
+						className="text-xs text-muted-foreground"
+						data-testid="track-details-help-text"
+					>
+						{isYoutube
+							? 'YouTube videos keep the title and channel of the video.'
+							: 'Used by the LRC export, the video file name and the lyrics search.'}
+					</p>
+					<Button
+						type="submit"
+						size="sm"
+						className="gap-2"
+						disabled={
+							!canEdit || isSaving || !isChanged || !isYearValid
+						}
+						data-testid="save-track-details-button"
+					>
+						<Save className="h-4 w-4" />
+						{isSaving ? 'Saving...' : 'Save details'}
+					</Button>
+				</form>
+			</CardContent>
+		</Card>
+	);
+}
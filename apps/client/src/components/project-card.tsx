@@ -1,8 +1,8 @@
-import { Trash2 } from 'lucide-react';
+import { Copy, Download, Share2, Trash2, type LucideIcon } from 'lucide-react';
 import { Button } from './ui/button';
 import { Card, CardHeader, CardTitle } from './ui/card';
 import { memo } from 'react';
-import { getCoverArtUrl, type Project } from '@/data/api';
+import { getProjectCoverUrl, type Project } from '@/data/api';
 
 const CoverArt = memo<{ project: Project }>(({ project }) => {
 	const onError = (e: React.SyntheticEvent<HTMLImageElement, Event>) => {
@@ -15,7 +15,11 @@ const CoverArt = memo<{ project: Project }>(({ project }) => {
 	return (
 		<div className="w-20 h-20 rounded-lg overflow-hidden">
 			<img
-				src={getCoverArtUrl(project.audioId)}
+				src={getProjectCoverUrl(
+					project.id,
+					160,
+					project.cover?.updatedAt
+				)}
 				alt={`Cover art for ${project.name}`}
 				className="w-full h-full object-cover"
 				onError={onError}
@@ -44,41 +48,82 @@ const Info = memo<{
 	</div>
 ));
 
+const CardAction = memo<{
+	label: string;
+	icon: LucideIcon;
+	testId: string;
+	onClick: () => void;
+}>(({ label, icon: Icon, testId, onClick }) => (
+	<Button
+		variant="outline"
+		size="icon"
+		className="h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity duration-200"
+		onClick={(e: React.MouseEvent<HTMLButtonElement>) => {
+			e.stopPropagation();
+			onClick();
+		}}
+		data-testid={testId}
+		aria-label={label}
+	>
+		<Icon className="h-9 w-9" />
+		<span className="sr-only">{label}</span>
+	</Button>
+));
+
+// Each action shows a button only when its handler is passed
 export const ProjectCard = memo<{
 	project: Project;
 	onSelect: (project: Project) => void;
-	onDelete: (projectId: string) => void;
+	onDelete?: (projectId: string) => void;
+	onShare?: (project: Project) => void;
+	onExport?: (project: Project) => void;
+	onDuplicate?: (project: Project) => void;
 	formatDate: (date: string) => string;
-}>(({ project, onSelect, onDelete, formatDate }) => {
-    
-    const handleTrashClick = (e: React.MouseEvent<HTMLButtonElement>) => {
-        e.stopPropagation();
-        onDelete(project.id);
-    };
-    
-    return (
-		<Card
-			className="hover:shadow-none shadow-none transition-all duration-200 cursor-pointer group h-full flex flex-col relative"
-			onClick={() => onSelect(project)}
-			data-testid="project-card"
-		>
-			<Button
-				variant="outline"
-				size="icon"
-				className="absolute bottom-3 right-3 h-8 w-8 opacity-0 group-hover:opacity-100 transition-opacity duration-200 z-10"
-				onClick={handleTrashClick}
-				data-testid="delete-project-button"
-				aria-label='Delete project'
-			>
-				<Trash2 className="h-9 w-9" />
-				<span className="sr-only">Delete project</span>
-			</Button>
-			<CardHeader className="flex-shrink-0" data-testid="project-card-header">
-				<div className="flex items-center gap-6" data-testid="project-card-content">
-					<CoverArt project={project} />
-					<Info project={project} formatDate={formatDate} />
-				</div>
-			</CardHeader>
-		</Card>
-    );
-});
+}>(({ project, onSelect, onDelete, onShare, onExport, onDuplicate, formatDate }) => (
+	<Card
+		className="hover:shadow-none shadow-none transition-all duration-200 cursor-pointer group h-full flex flex-col relative"
+		onClick={() => onSelect(project)}
+		data-testid="project-card"
+	>
+		<div className="absolute bottom-3 right-3 flex gap-1 z-10">
+			{onDuplicate && (
+				<CardAction
+					label="Duplicate project"
+					icon={Copy}
+					testId="duplicate-project-button"
+					onClick={() => onDuplicate(project)}
+				/>
+			)}
+			{onExport && (
+				<CardAction
+					label="Export project"
+					icon={Download}
+					testId="export-project-button"
+					onClick={() => onExport(project)}
+				/>
+			)}
+			{onShare && (
+				<CardAction
+					label="Share project"
+					icon={Share2}
+					testId="share-project-button"
+					onClick={() => onShare(project)}
+				/>
+			)}
+			{onDelete && (
+				<CardAction
+					label="Delete project"
+					icon={Trash2}
+					testId="delete-project-button"
+					onClick={() => onDelete(project.id)}
+				/>
+			)}
+		</div>
+		<CardHeader className="flex-shrink-0" data-testid="project-card-header">
+			<div className="flex items-center gap-6" data-testid="project-card-content">
+				<CoverArt project={project} />
+				<Info project={project} formatDate={formatDate} />
+			</div>
+		</CardHeader>
+	</Card>
+));
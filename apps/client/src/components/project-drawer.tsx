@@ -1,4 +1,4 @@
-import { memo } from 'react';
+import { memo, useMemo, useState } from 'react';
 import {
 	Drawer,
 	DrawerClose,
@@ -9,21 +9,30 @@ import {
 	DrawerTitle,
 	DrawerTrigger,
 } from './ui/drawer';
-import { FolderOpen, RefreshCw, X } from 'lucide-react';
+import { FolderOpen, Loader2, Plus, RefreshCw, Users, X } from 'lucide-react';
 import { Button } from './ui/button';
 import { ProjectListSkeleton } from './project-list-skeleton';
-import { type Project } from '@/data/api';
+import {
+	type Project,
+	type ProjectFilters,
+	type ProjectSort,
+	type WorkspaceSummary,
+} from '@/data/api';
 import { ScrollArea } from './ui/scroll-area';
 import { useProjectDrawer } from '@/hooks/use-project-drawer';
 import { ProjectCard } from './project-card';
+import { Badge } from './ui/badge';
+import { Input } from './ui/input';
+import { cn } from '@/lib/utils';
 
 type Props = {
 	onProjectSelected: (project: Project) => void;
 	onDeleteProject: (projectId: string) => void;
+	onShareProject?: (project: Project) => void;
 };
 
 export const ProjectsDrawer = memo<Props>(
-	({ onProjectSelected, onDeleteProject }) => {
+	({ onProjectSelected, onDeleteProject, onShareProject }) => {
 		const {
 			closeRef,
 			projects,
@@ -32,24 +41,70 @@ export const ProjectsDrawer = memo<Props>(
 			error,
 			formatDate,
 			handleProjectDelete,
+			handleProjectShare,
+			handleProjectExport,
+			handleProjectDuplicate,
 			handleProjectSelect,
 			refetch: reloadProjects,
+			filters,
+			updateFilters,
+			clearFilters,
+			loadMoreRef,
+			hasNextPage,
+			isFetchingNextPage,
+			workspaces,
+			currentWorkspace,
+			currentWorkspaceId,
+			selectWorkspace,
+			createWorkspace,
+			isCreatingWorkspace,
+			canDeleteProjects,
+			canShareProjects,
+			canExportProjects,
+			canDuplicateProjects,
 		} = useProjectDrawer({
 			onProjectSelected,
 			onDeleteProject,
+			onShareProject,
 		});
 
 		const renderContent = () => {
-			if (isLoading || isFetching) return <ProjectListSkeleton />;
+			if (isLoading || (isFetching && !isFetchingNextPage)) {
+				return <ProjectListSkeleton />;
+			}
 			if (error) return <Error />;
 			if (projects && projects.length > 0) {
 				return (
-					<Grid
-						projects={projects}
-						onProjectSelect={handleProjectSelect}
-						onProjectDelete={handleProjectDelete}
-						formatDate={formatDate}
-					/>
+					<>
+						<Grid
+							projects={projects}
+							onProjectSelect={handleProjectSelect}
+							onProjectDelete={
+								canDeleteProjects ? handleProjectDelete : undefined
+							}
+							onProjectShare={
+								canShareProjects ? handleProjectShare : undefined
+							}
+							onProjectExport={
+								canExportProjects ? handleProjectExport : undefined
+							}
+							onProjectDuplicate={
+								canDuplicateProjects ? handleProjectDuplicate : undefined
+							}
+							formatDate={formatDate}
+						/>
+						{hasNextPage && (
+							<div
+								ref={loadMoreRef}
+								className="flex justify-center py-4"
+								data-testid="projects-load-more"
+							>
+								{isFetchingNextPage && (
+									<Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+								)}
+							</div>
+						)}
+					</>
 				);
 			}
 			return <Empty />;
@@ -69,7 +124,9 @@ export const ProjectsDrawer = memo<Props>(
 							<div>
 								<DrawerTitle data-testid="projects-drawer-title">Projects</DrawerTitle>
 								<DrawerDescription data-testid="projects-drawer-description">
-									Select a project to continue working on.
+									{currentWorkspace
+										? `${currentWorkspace.name} · your role: ${currentWorkspace.role}`
+										: 'Select a project to continue working on.'}
 								</DrawerDescription>
 							</div>
 							<Button
@@ -83,6 +140,19 @@ export const ProjectsDrawer = memo<Props>(
 								<span className="sr-only">Reload projects</span>
 							</Button>
 						</div>
+						<WorkspaceSwitcher
+							workspaces={workspaces}
+							currentWorkspaceId={currentWorkspaceId}
+							onSelect={selectWorkspace}
+							onCreate={createWorkspace}
+							isCreating={isCreatingWorkspace}
+						/>
+						<FilterChips
+							filters={filters}
+							projects={projects}
+							onChange={updateFilters}
+							onClear={clearFilters}
+						/>
 					</DrawerHeader>
 					<ScrollArea className="h-[60vh] w-full p-4" data-testid="projects-scroll-area">
 						<div data-testid="projects-content">
@@ -109,6 +179,204 @@ export const ProjectsDrawer = memo<Props>(
 	}
 );
 
+const sortOptions: { value: ProjectSort; label: string }[] = [
+	{ value: 'updatedAt', label: 'Recently updated' },
+	{ value: 'createdAt', label: 'Recently created' },
+	{ value: 'name', label: 'Name' },
+];
+
+const Chip = memo<{
+	active: boolean;
+	onClick: () => void;
+	children: React.ReactNode;
+	'data-testid'?: string;
+}>(({ active, onClick, children, ...props }) => (
+	<Badge asChild variant={active ? 'default' : 'outline'}>
+		<button
+			type="button"
+			aria-pressed={active}
+			onClick={onClick}
+			className={cn('cursor-pointer', !active && 'hover:bg-accent')}
+			{...props}
+		>
+			{children}
+		</button>
+	</Badge>
+));
+
+const WorkspaceSwitcher = memo<{
+	workspaces: WorkspaceSummary[];
+	currentWorkspaceId: string | null;
+	onSelect: (workspaceId: string | null) => void;
+	onCreate: (name: string) => void;
+	isCreating: boolean;
+}>(({ workspaces, currentWorkspaceId, onSelect, onCreate, isCreating }) => {
+	const [creating, setCreating] = useState(false);
+	const [name, setName] = useState('');
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!name.trim()) return;
+		onCreate(name.trim());
+		setName('');
+		setCreating(false);
+	};
+
+	return (
+		<div
+			className="flex flex-wrap items-center gap-2 px-4 pt-3 sm:px-0"
+			data-testid="workspace-switcher"
+		>
+			<Users className="h-4 w-4 text-muted-foreground" />
+			<Chip
+				active={currentWorkspaceId === null}
+				onClick={() => onSelect(null)}
+				data-testid="workspace-personal"
+			>
+				Personal
+			</Chip>
+			{workspaces.map((workspace) => (
+				<Chip
+					key={workspace.workspaceId}
+					active={currentWorkspaceId === workspace.workspaceId}
+					onClick={() => onSelect(workspace.workspaceId)}
+					data-testid={`workspace-${workspace.workspaceId}`}
+				>
+					{workspace.name}
+					<span className="ml-1 opacity-70">{workspace.role}</span>
+				</Chip>
+			))}
+			{creating ? (
+				<form className="flex items-center gap-1" onSubmit={handleSubmit}>
+					<Input
+						autoFocus
+						value={name}
+						onChange={(e) => setName(e.target.value)}
+						placeholder="Workspace name"
+						className="h-7 w-40 text-xs"
+						maxLength={100}
+						data-testid="workspace-name-input"
+					/>
+					<Button
+						type="submit"
+						size="sm"
+						className="h-7 px-2 text-xs"
+						disabled={isCreating || !name.trim()}
+						data-testid="workspace-create-submit"
+					>
+						Create
+					</Button>
+				</form>
+			) : (
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 px-2 text-xs"
+					onClick={() => setCreating(true)}
+					data-testid="workspace-create"
+				>
+					<Plus className="h-3 w-3" />
+					New workspace
+				</Button>
+			)}
+		</div>
+	);
+});
+
+const FilterChips = memo<{
+	filters: ProjectFilters;
+	projects?: Project[];
+	onChange: (changes: Partial<ProjectFilters>) => void;
+	onClear: () => void;
+}>(({ filters, projects, onChange, onClear }) => {
+	const activeTags = filters.tags ?? [];
+	const sort = filters.sort ?? 'updatedAt';
+
+	// Offer the tags of the loaded projects, keeping selected ones visible
+	const tags = useMemo(() => {
+		const found = new Set(activeTags);
+		for (const project of projects ?? []) {
+			for (const tag of project.metadata?.tags ?? []) found.add(tag);
+		}
+		return [...found].slice(0, 12);
+	}, [projects, activeTags]);
+
+	const toggleTag = (tag: string) => {
+		const next = activeTags.includes(tag)
+			? activeTags.filter((t) => t !== tag)
+			: [...activeTags, tag];
+		onChange({ tags: next.length ? next : undefined });
+	};
+
+	const hasFilters =
+		activeTags.length > 0 ||
+		filters.category !== undefined ||
+		filters.public !== undefined;
+
+	return (
+		<div
+			className="flex flex-wrap items-center gap-2 px-4 pt-3 sm:px-0"
+			data-testid="projects-filter-chips"
+		>
+			{sortOptions.map((option) => (
+				<Chip
+					key={option.value}
+					active={sort === option.value}
+					onClick={() => onChange({ sort: option.value })}
+					data-testid={`projects-sort-${option.value}`}
+				>
+					{option.label}
+				</Chip>
+			))}
+			<span className="mx-1 h-4 w-px bg-border" />
+			<Chip
+				active={filters.category === 'youtube-import'}
+				onClick={() =>
+					onChange({
+						category:
+							filters.category === 'youtube-import'
+								? undefined
+								: 'youtube-import',
+					})
+				}
+				data-testid="projects-filter-youtube"
+			>
+				YouTube
+			</Chip>
+			<Chip
+				active={filters.public === true}
+				onClick={() =>
+					onChange({ public: filters.public ? undefined : true })
+				}
+				data-testid="projects-filter-public"
+			>
+				Public
+			</Chip>
+			{tags.map((tag) => (
+				<Chip
+					key={tag}
+					active={activeTags.includes(tag)}
+					onClick={() => toggleTag(tag)}
+					data-testid={`projects-filter-tag-${tag}`}
+				>
+					#{tag}
+				</Chip>
+			))}
+			{hasFilters && (
+				<Button
+					variant="ghost"
+					size="sm"
+					className="h-6 px-2 text-xs"
+					onClick={onClear}
+					data-testid="projects-filter-clear"
+				>
+					Clear filters
+				</Button>
+			)}
+		</div>
+	);
+});
+
 const Empty = memo(() => (
 	<div className="text-center py-12" data-testid="projects-empty-state">
 		<div className="w-16 h-16 mx-auto mb-4 rounded-full bg-muted flex items-center justify-center" data-testid="projects-empty-icon">
@@ -134,9 +402,12 @@ const Error = memo(() => (
 const Grid = memo<{
 	projects: Project[];
 	onProjectSelect: (project: Project) => void;
-	onProjectDelete: (projectId: string) => void;
+	onProjectDelete?: (projectId: string) => void;
+	onProjectShare?: (project: Project) => void;
+	onProjectExport?: (project: Project) => void;
+	onProjectDuplicate?: (project: Project) => void;
 	formatDate: (date: string) => string;
-}>(({ projects, onProjectSelect, onProjectDelete, formatDate }) => (
+}>(({ projects, onProjectSelect, onProjectDelete, onProjectShare, onProjectExport, onProjectDuplicate, formatDate }) => (
 	<div className="grid gap-3 grid-cols-1 md:grid-cols-2 lg:grid-cols-3 auto-rows-fr container mx-auto max-w-8xl" data-testid="projects-grid">
 		{projects.map((project) => (
 			<ProjectCard
@@ -144,6 +415,9 @@ const Grid = memo<{
 				project={project}
 				onSelect={onProjectSelect}
 				onDelete={onProjectDelete}
+				onShare={onProjectShare}
+				onExport={onProjectExport}
+				onDuplicate={onProjectDuplicate}
 				formatDate={formatDate}
 				data-testid={`project-card-${project.id}`}
 			/>
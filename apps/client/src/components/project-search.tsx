@@ -0,0 +1,125 @@
+import { memo } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { Input } from './ui/input';
+import { Popover, PopoverAnchor, PopoverContent } from './ui/popover';
+import { type Project, type SearchHit } from '@/data/api';
+import { useProjectSearch } from '@/hooks/use-project-search';
+import { formatTimestamp } from '@/lib/utils';
+
+type Props = {
+	onProjectSelected: (project: Pick<Project, 'id' | 'audioId'>) => void;
+};
+
+const fieldLabels: Record<SearchHit['field'], string> = {
+	lyrics: 'Lyrics',
+	name: 'Project',
+	title: 'Title',
+	artist: 'Artist',
+	album: 'Album',
+};
+
+export const ProjectSearch = memo<Props>(({ onProjectSelected }) => {
+	const {
+		query,
+		setQuery,
+		open,
+		setOpen,
+		hits,
+		isSearching,
+		error,
+		handleHitSelect,
+	} = useProjectSearch({ onProjectSelected });
+
+	const renderResults = () => {
+		if (error) {
+			return (
+				<p className="p-3 text-sm text-destructive" data-testid="search-error">
+					Search failed. Please try again.
+				</p>
+			);
+		}
+		if (!hits) {
+			return (
+				<p className="p-3 text-sm text-muted-foreground">
+					Type at least 2 characters to search lyrics and projects.
+				</p>
+			);
+		}
+		if (hits.length === 0) {
+			return (
+				<p className="p-3 text-sm text-muted-foreground" data-testid="search-empty">
+					No matches for “{query.trim()}”.
+				</p>
+			);
+		}
+		return (
+			<ul className="max-h-80 overflow-y-auto py-1" data-testid="search-results">
+				{hits.map((hit) => (
+					<li key={`${hit.projectId}-${hit.field}-${hit.lineId ?? ''}`}>
+						<Hit hit={hit} onSelect={handleHitSelect} />
+					</li>
+				))}
+			</ul>
+		);
+	};
+
+	return (
+		<Popover open={open && query.trim().length > 0} onOpenChange={setOpen}>
+			<PopoverAnchor asChild>
+				<div className="relative w-40 sm:w-64">
+					<Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+					<Input
+						type="search"
+						value={query}
+						onChange={(e) => {
+							setQuery(e.target.value);
+							setOpen(true);
+						}}
+						onFocus={() => setOpen(true)}
+						onKeyDown={(e) => {
+							if (e.key === 'Escape') setOpen(false);
+							if (e.key === 'Enter' && hits?.[0]) handleHitSelect(hits[0]);
+						}}
+						placeholder="Search lyrics..."
+						aria-label="Search lyrics and projects"
+						className="h-9 pl-8 pr-8"
+						data-testid="project-search-input"
+					/>
+					{isSearching && (
+						<Loader2 className="absolute right-2.5 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+					)}
+				</div>
+			</PopoverAnchor>
+			<PopoverContent
+				align="end"
+				className="w-80 p-0 sm:w-96"
+				onOpenAutoFocus={(e) => e.preventDefault()}
+				data-testid="project-search-results"
+			>
+				{renderResults()}
+			</PopoverContent>
+		</Popover>
+	);
+});
+
+const Hit = memo<{
+	hit: SearchHit;
+	onSelect: (hit: SearchHit) => void;
+}>(({ hit, onSelect }) => (
+	<button
+		type="button"
+		onClick={() => onSelect(hit)}
+		className="flex w-full flex-col gap-0.5 px-3 py-2 text-left hover:bg-accent focus-visible:bg-accent focus-visible:outline-none"
+		data-testid="search-hit"
+	>
+		<span className="line-clamp-2 text-sm">{hit.text}</span>
+		<span className="flex items-center gap-2 text-xs text-muted-foreground">
+			<span className="truncate">{hit.projectName}</span>
+			<span>·</span>
+			<span>{fieldLabels[hit.field]}</span>
+			{hit.timestamp !== undefined && (
+				<span className="font-mono">{formatTimestamp(hit.timestamp)}</span>
+			)}
+		</span>
+	</button>
+));
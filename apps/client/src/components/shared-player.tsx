@@ -0,0 +1,118 @@
+import { useSharedProject } from '@/hooks/use-shared-project';
+import { createLineSeeker } from '@/lib/utils';
+import { ExternalLink, Music } from 'lucide-react';
+import { memo, useMemo, useRef, useState } from 'react';
+import { SyncedLyrics } from './synced-lyrics';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Skeleton } from './ui/skeleton';
+import { WithColorFlow } from './with-color-flow';
+
+type Props = {
+	token: string;
+};
+
+// Read-only player of a shared project. It keeps its own audio element so the
+// editor state of a signed-in visitor is left untouched.
+export const SharedPlayer = memo(({ token }: Props) => {
+	const { data: project, isLoading, isError } = useSharedProject(token);
+	const audioRef = useRef<HTMLAudioElement>(null);
+	const [coverFailed, setCoverFailed] = useState(false);
+	const seekToLine = useMemo(() => createLineSeeker(audioRef), []);
+
+	if (isLoading) {
+		return (
+			<div className="container mx-auto max-w-2xl py-10 px-4 space-y-4">
+				<Skeleton className="h-24 w-full" />
+				<Skeleton className="h-64 w-full" />
+			</div>
+		);
+	}
+
+	if (isError || !project) {
+		return (
+			<div
+				className="container mx-auto max-w-2xl py-20 px-4 text-center"
+				data-testid="shared-player-error"
+			>
+				<h1 className="text-2xl font-semibold mb-2">Link unavailable</h1>
+				<p className="text-muted-foreground">
+					This share link does not exist or was revoked by its owner.
+				</p>
+			</div>
+		);
+	}
+
+	return (
+		<WithColorFlow coverUrl={project.coverUrl}>
+			<div className="container mx-auto max-w-2xl py-10 px-4">
+				<Card>
+					<CardHeader className="flex flex-row items-center gap-4">
+						{coverFailed ? (
+							<div className="h-20 w-20 rounded-md bg-muted flex items-center justify-center">
+								<Music className="h-8 w-8 text-muted-foreground" />
+							</div>
+						) : (
+							<img
+								src={project.coverUrl}
+								alt=""
+								className="h-20 w-20 rounded-md object-cover"
+								onError={() => setCoverFailed(true)}
+							/>
+						)}
+						<div className="min-w-0">
+							<CardTitle className="truncate" data-testid="shared-title">
+								{project.title || project.name}
+							</CardTitle>
+							{project.artist && (
+								<p className="text-sm text-muted-foreground truncate">
+									{project.artist}
+								</p>
+							)}
+						</div>
+					</CardHeader>
+					<CardContent className="space-y-6">
+						{project.audioUrl ? (
+							<audio
+								ref={audioRef}
+								src={project.audioUrl}
+								controls
+								preload="metadata"
+								className="w-full"
+								data-testid="shared-audio"
+							/>
+						) : (
+							project.youtube && <YoutubeLink youtube={project.youtube} />
+						)}
+						{project.lines.length > 0 ? (
+							<SyncedLyrics
+								lyricLines={project.lines}
+								audioRef={audioRef}
+								onSeek={seekToLine}
+							/>
+						) : (
+							<p className="text-center text-muted-foreground">
+								No lyrics yet
+							</p>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+		</WithColorFlow>
+	);
+});
+
+export const YoutubeLink = ({
+	youtube,
+}: {
+	youtube: { videoId: string; url?: string };
+}) => (
+	<a
+		href={youtube.url ?? `https://www.youtube.com/watch?v=${youtube.videoId}`}
+		target="_blank"
+		rel="noreferrer"
+		className="inline-flex items-center gap-2 text-sm text-primary hover:underline"
+	>
+		<ExternalLink className="h-4 w-4" />
+		Listen on YouTube
+	</a>
+);
@@ -1,5 +1,5 @@
 import type { LyricLine } from "@/data/types";
-import { cn } from "@/lib/utils";
+import { cn, formatLRCTimestamp } from "@/lib/utils";
 import { useAppStore } from "@/stores/app/store";
 import type { PlayerRef } from "@remotion/player";
 import { Lrc, Runner } from "lrc-kit";
@@ -8,41 +8,53 @@ import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
 type Props = {
 	lyricLines: LyricLine[];
 	audioRef: React.RefObject<HTMLAudioElement | null>;
-	videoRef: React.RefObject<PlayerRef | null>;
+	videoRef?: React.RefObject<PlayerRef | null>;
+	// Replaces the store's jumpToLyricLine, for players outside the editor
+	onSeek?: (line: LyricLine) => void;
+	onActiveLineChange?: (line: LyricLine | null, index: number | null) => void;
 };
 
 export const SyncedLyrics = memo(
-	({ audioRef, videoRef, lyricLines }: Props) => {
+	({ audioRef, videoRef, lyricLines, onSeek, onActiveLineChange }: Props) => {
 		const activeLineRef = useRef<HTMLDivElement>(null);
 
-		const { jumpToLyricLine, generateLRC } = useAppStore.getState();
+		const { jumpToLyricLine } = useAppStore.getState();
 
 		const [activeIndex, setActiveIndex] = useState<number | null>(null);
 
-		const runner = useMemo(() => {
-			const lrcData = generateLRC();
-
-			let lrcContent = `[ti:${lrcData.metadata.title}]\n`;
-			lrcContent += `[ar:${lrcData.metadata.artist}]\n`;
-			lrcContent += `[al:${lrcData.metadata.album}]\n\n`;
+		// Same order as the LRC export: untimed lines count as 0
+		const sortedLines = useMemo(
+			() =>
+				[...lyricLines].sort(
+					(a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0)
+				),
+			[lyricLines]
+		);
 
-			lrcData.metadata.timestamps.forEach(({ time, text }) => {
-				lrcContent += `[${time}]${text}\n`;
-			});
+		const runner = useMemo(() => {
+			const lrcContent = sortedLines
+				.map(
+					(line) =>
+						`[${formatLRCTimestamp(line.timestamp ?? 0)}]${line.text}`
+				)
+				.join('\n');
 			return new Runner(Lrc.parse(lrcContent));
-		}, [lyricLines]);
+		}, [sortedLines]);
 
 		const handleLineClick = useCallback(
 			(line: LyricLine, isActive: boolean) => {
-				if (!isActive) {
-					jumpToLyricLine({
-						id: line.id,
-						audioRef: audioRef,
-						videoRef: videoRef,
-					});
+				if (isActive) return;
+				if (onSeek) {
+					onSeek(line);
+					return;
 				}
+				jumpToLyricLine({
+					id: line.id,
+					audioRef: audioRef,
+					videoRef: videoRef,
+				});
 			},
-			[jumpToLyricLine, audioRef, videoRef]
+			[jumpToLyricLine, onSeek, audioRef, videoRef]
 		);
 
 		useEffect(() => {
@@ -64,10 +76,20 @@ export const SyncedLyrics = memo(
 			};
 		}, [audioRef, runner]);
 
+		const activeLine =
+			activeIndex !== null ? (sortedLines[activeIndex] ?? null) : null;
+
+		useEffect(() => {
+			onActiveLineChange?.(
+				activeLine,
+				activeLine ? lyricLines.indexOf(activeLine) : null
+			);
+		}, [activeLine]);
+
 		return (
 			<div className="flex flex-col items-center justify-center h-full relative">
 				{lyricLines.map((line, index) => {
-					const isActive = index === activeIndex;
+					const isActive = line === activeLine;
 
 					return (
 						<p
@@ -1,19 +1,29 @@
 import { useAudioRefContext } from '@/hooks/use-audio-ref-context';
 import { cn } from '@/lib/utils';
 import { usePlayerStore } from '@/stores/player/store';
+import { useAudioPeaks } from '@/hooks/use-audio-peaks';
 import { useEffect, useState } from 'react';
 import { useShallow } from 'zustand/react/shallow';
 
+const WAVE_BARS = 50;
+
+// Keeps silent parts visible and clickable, and stands in while loading
+const MIN_BAR_HEIGHT = 0.05;
+
 export const Waveform = () => {
 	const { audioRef } = useAudioRefContext();
 
-	const { duration, isPlaying, waveBars } = usePlayerStore(
+	const { duration, isPlaying } = usePlayerStore(
 		useShallow((state) => ({
 			duration: state.duration,
 			isPlaying: state.isPlaying,
-			waveBars: state.waveBars,
 		}))
 	);
+	const { peaks } = useAudioPeaks(WAVE_BARS);
+	const waveBars =
+		peaks.length > 0
+			? peaks.map((peak) => Math.max(peak, MIN_BAR_HEIGHT))
+			: Array.from({ length: WAVE_BARS }, () => MIN_BAR_HEIGHT);
 
 	const [position, setPosition] = useState(0);
 
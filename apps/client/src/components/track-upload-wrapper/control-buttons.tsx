@@ -1,15 +1,19 @@
-import { Minimize2, X } from 'lucide-react';
+import { FileAudio, ImageIcon, Minimize2, X } from 'lucide-react';
 import { Button } from '../ui/button';
 
 type ControlButtonsProps = {
 	onRetract: () => void;
 	onRemove: () => void;
+	onReplace?: () => void;
+	onEditCover?: () => void;
 	isUploading: boolean;
 };
 
 export function ControlButtons({
 	onRetract,
 	onRemove,
+	onReplace,
+	onEditCover,
 	isUploading,
 }: ControlButtonsProps) {
 	return (
@@ -23,6 +27,30 @@ export function ControlButtons({
 			>
 				<Minimize2 className="h-4 w-4 text-muted-foreground rotate-180" />
 			</Button>
+			{onReplace && (
+				<Button
+					size="icon"
+					variant="ghost"
+					className="h-8 w-8 rounded-full bg-transparent hover:bg-muted focus-visible:outline-1"
+					onClick={onReplace}
+					title="Replace audio"
+					disabled={isUploading}
+				>
+					<FileAudio className="h-4 w-4 text-muted-foreground" />
+				</Button>
+			)}
+			{onEditCover && (
+				<Button
+					size="icon"
+					variant="ghost"
+					className="h-8 w-8 rounded-full bg-transparent hover:bg-muted focus-visible:outline-1"
+					onClick={onEditCover}
+					title="Edit cover art"
+					disabled={isUploading}
+				>
+					<ImageIcon className="h-4 w-4 text-muted-foreground" />
+				</Button>
+			)}
 			<Button
 				size="icon"
 				variant="ghost"
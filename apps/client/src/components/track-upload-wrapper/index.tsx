@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { Minimize2 } from 'lucide-react';
 import { LoadingProgress } from '@/components/track-upload-wrapper/loading-progress';
 import { RetractButton } from '@/components/track-upload-wrapper/retract-button';
@@ -6,6 +7,10 @@ import { UploadZone } from '@/components/track-upload-wrapper/upload-zone';
 import { ControlButtons } from '@/components/track-upload-wrapper/control-buttons';
 import { PlayerSection } from '@/components/track-upload-wrapper/player-section';
 import { createDeleteConfirmationDialog } from '@/components/dialogs/confirmation-dialog';
+import { ReplaceAudioDialog } from '@/components/dialogs/replace-audio-dialog';
+import { DuplicateAudioDialog } from '@/components/dialogs/duplicate-audio-dialog';
+import { CoverEditorDialog } from '@/components/dialogs/cover-editor-dialog';
+import { useAppStore } from '@/stores/app/store';
 import { useTrackUpload } from '@/hooks/use-track-upload';
 import { motion } from 'motion/react';
 import { YouTubeSearch } from './youtube-search';
@@ -30,6 +35,9 @@ export function TrackUploadWrapper({
 		isUploading,
 		isLoadingAudioMetadata,
 		fileInputRef,
+		uploadPhase,
+		uploadParts,
+		uploadError,
 
 		// Actions
 		handleInputChange,
@@ -37,13 +45,31 @@ export function TrackUploadWrapper({
 		handleBrowseClick,
 		toggleRetracted,
 		setShowConfirmDialog,
+		pauseUpload,
+		resumeUpload,
+		retryUpload,
+		cancelUpload,
 
 		// Drag handlers
 		dragHandlers,
 	} = useTrackUpload();
+	const projectId = useAppStore((state) => state.projectId);
+	const [showReplaceDialog, setShowReplaceDialog] = useState(false);
+	const [showCoverDialog, setShowCoverDialog] = useState(false);
 
 	if (isUploading || isLoadingAudioMetadata) {
-		return <LoadingProgress audioFileName={audioFile?.name} />;
+		return (
+			<LoadingProgress
+				audioFileName={audioFile?.name}
+				phase={uploadPhase}
+				parts={uploadParts}
+				error={uploadError}
+				onPause={pauseUpload}
+				onResume={resumeUpload}
+				onRetry={retryUpload}
+				onCancel={cancelUpload}
+			/>
+		);
 	}
 
 	return (
@@ -101,6 +127,7 @@ export function TrackUploadWrapper({
 				</motion.div>
 			)}
 			<YouTubeSearch />
+			<DuplicateAudioDialog />
 
 			{/* Player interface */}
 			{audio?.id && (
@@ -128,6 +155,14 @@ export function TrackUploadWrapper({
 							<ControlButtons
 								onRetract={toggleRetracted}
 								onRemove={() => setShowConfirmDialog(true)}
+								onReplace={
+									audio.id.startsWith('youtube-virtual-')
+										? undefined
+										: () => setShowReplaceDialog(true)
+								}
+								onEditCover={
+									projectId ? () => setShowCoverDialog(true) : undefined
+								}
 								isUploading={isUploading}
 							/>
 
@@ -150,6 +185,20 @@ export function TrackUploadWrapper({
 									'Are you sure you want to remove this track?',
 								confirmText: 'Remove',
 							})}
+
+							<ReplaceAudioDialog
+								open={showReplaceDialog}
+								onOpenChange={setShowReplaceDialog}
+								audioId={audio.id}
+								projectId={projectId}
+							/>
+
+							{projectId && (
+								<CoverEditorDialog
+									open={showCoverDialog}
+									onOpenChange={setShowCoverDialog}
+								/>
+							)}
 						</>
 					)}
 				</motion.div>
@@ -1,39 +1,152 @@
+import { Pause, Play, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import type {
+	UploadPartProgress,
+	UploadPhase,
+} from '@/stores/track-upload/store';
+
 type LoadingProgressProps = {
 	audioFileName?: string;
+	phase?: UploadPhase;
+	parts?: UploadPartProgress[];
+	error?: string | null;
+	onPause?: () => void;
+	onResume?: () => void;
+	onRetry?: () => void;
+	onCancel?: () => void;
+};
+
+const phaseLabels: Record<UploadPhase, string> = {
+	idle: 'Processing',
+	uploading: 'Uploading',
+	paused: 'Paused',
+	completing: 'Processing',
+	error: 'Upload failed',
+};
+
+const partColors: Record<UploadPartProgress['status'], string> = {
+	pending: 'bg-primary/40',
+	uploading: 'bg-primary/70',
+	done: 'bg-primary',
+	error: 'bg-destructive',
 };
 
-export function LoadingProgress({ audioFileName }: LoadingProgressProps) {
+export function LoadingProgress({
+	audioFileName,
+	phase = 'idle',
+	parts = [],
+	error,
+	onPause,
+	onResume,
+	onRetry,
+	onCancel,
+}: LoadingProgressProps) {
+	const showsParts =
+		parts.length > 0 &&
+		(phase === 'uploading' || phase === 'paused' || phase === 'error');
+
+	const total = parts.reduce((sum, part) => sum + part.size, 0);
+	const loaded = parts.reduce((sum, part) => sum + part.loaded, 0);
+	const percent = total > 0 ? Math.round((loaded / total) * 100) : 0;
+	const doneCount = parts.filter((part) => part.status === 'done').length;
+
 	return (
 		<div className="container mx-auto px-4">
 			<div className="flex flex-col items-center justify-center w-full max-w-xl mx-auto p-6 rounded-xl border-2 border-dashed border-primary/30 bg-background/95 backdrop-blur-md shadow-lg animate-in fade-in slide-in-from-bottom-4 duration-300">
 				<div className="w-full max-w-md mx-auto mt-2 mb-4">
 					<div className="flex items-center justify-between mb-2">
-						<span className="text-sm font-medium text-muted-foreground">
-							Processing
+						<span
+							className={cn(
+								'text-sm font-medium text-muted-foreground',
+								phase === 'error' && 'text-destructive'
+							)}
+						>
+							{phaseLabels[phase]}
+							{showsParts && ` · ${percent}%`}
 						</span>
 						<span className="text-xs font-medium text-primary">
 							{audioFileName}
 						</span>
 					</div>
-					<div className="relative h-3 w-full overflow-hidden rounded-full bg-secondary/30">
-						<div
-							className="absolute inset-0 bg-gradient-to-r from-primary/60 via-primary to-primary/60 rounded-full w-full"
-							style={{
-								backgroundSize: '200% 100%',
-								animation: 'shimmer 2s infinite linear',
-							}}
-						/>
-						<div
-							className="absolute inset-0 w-full rounded-full bg-primary/20 blur-[3px]"
-							style={{
-								animation: 'pulse 1.5s infinite ease-in-out',
-							}}
-						/>
-					</div>
+					{showsParts ? (
+						<>
+							<Progress value={percent} className="h-3" />
+							<div className="mt-2 flex gap-0.5" aria-hidden>
+								{parts.map((part) => (
+									<div
+										key={part.partNumber}
+										className="h-1 flex-1 overflow-hidden rounded-full bg-secondary/30"
+									>
+										<div
+											className={cn(
+												'h-full rounded-full transition-all',
+												partColors[part.status]
+											)}
+											style={{
+												width: `${(part.loaded / part.size) * 100}%`,
+											}}
+										/>
+									</div>
+								))}
+							</div>
+						</>
+					) : (
+						<div className="relative h-3 w-full overflow-hidden rounded-full bg-secondary/30">
+							<div
+								className="absolute inset-0 bg-gradient-to-r from-primary/60 via-primary to-primary/60 rounded-full w-full"
+								style={{
+									backgroundSize: '200% 100%',
+									animation: 'shimmer 2s infinite linear',
+								}}
+							/>
+							<div
+								className="absolute inset-0 w-full rounded-full bg-primary/20 blur-[3px]"
+								style={{
+									animation: 'pulse 1.5s infinite ease-in-out',
+								}}
+							/>
+						</div>
+					)}
 				</div>
-				<p className="text-xs text-muted-foreground mt-1 text-center">
-					This may take a moment depending on file size
-				</p>
+				{phase === 'error' && error ? (
+					<p className="text-xs text-destructive mt-1 text-center">{error}</p>
+				) : (
+					<p className="text-xs text-muted-foreground mt-1 text-center">
+						{showsParts
+							? `${doneCount} of ${parts.length} parts uploaded`
+							: 'This may take a moment depending on file size'}
+					</p>
+				)}
+				{(showsParts || phase === 'error') && (
+					<div className="flex items-center gap-2 mt-4">
+						{phase === 'uploading' && onPause && (
+							<Button size="sm" variant="outline" onClick={onPause}>
+								<Pause className="h-4 w-4" />
+								Pause
+							</Button>
+						)}
+						{phase === 'paused' && onResume && (
+							<Button size="sm" variant="outline" onClick={onResume}>
+								<Play className="h-4 w-4" />
+								Resume
+							</Button>
+						)}
+						{phase === 'error' && onRetry && (
+							<Button size="sm" variant="outline" onClick={onRetry}>
+								<RotateCcw className="h-4 w-4" />
+								Retry
+							</Button>
+						)}
+						{onCancel && (
+							<Button size="sm" variant="ghost" onClick={onCancel}>
+								<X className="h-4 w-4" />
+								Cancel
+							</Button>
+						)}
+					</div>
+				)}
 			</div>
 		</div>
 	);
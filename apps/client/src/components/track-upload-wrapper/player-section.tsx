@@ -1,4 +1,5 @@
-import { getAudioUrl, getCoverArtUrl } from '@/data/api';
+import { getAudioUrl, getCoverArtUrl, getProjectCoverUrl } from '@/data/api';
+import { useCurrentProject } from '@/hooks/use-current-project';
 import { Music } from 'lucide-react';
 import { TrackPlayer } from '../track-player';
 import YoutubePlayer from '../track-player/youtube-player';
@@ -24,6 +25,15 @@ export function PlayerSection({
 		audioMetadata?.metadata?.title && audioMetadata?.metadata.artist
 			? `${audioMetadata.metadata.title} - ${audioMetadata.metadata.artist}`
 			: audioFile?.name || 'Unknown Track';
+	const { projectId, project } = useCurrentProject();
+	// The project cover is the uploaded one when set, the embedded art otherwise
+	const coverArt = projectId
+		? getProjectCoverUrl(
+				projectId,
+				512,
+				project?.cover?.updatedAt ?? audio?.updatedAt
+			)
+		: getCoverArtUrl(audio?.id, audio?.updatedAt);
 
 	return (
 		<>
@@ -33,9 +43,9 @@ export function PlayerSection({
 				title={title}
 				icon={Music}
 				iconColor={iconColor}
-				src={getAudioUrl(audio?.id ?? '')}
+				src={getAudioUrl(audio?.id ?? '', audio?.updatedAt)}
 				showDownload={showDownload}
-				coverArt={getCoverArtUrl(audio?.id)}
+				coverArt={coverArt}
 			/>)
 		}
 		</>
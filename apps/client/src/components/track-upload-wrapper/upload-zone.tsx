@@ -1,4 +1,4 @@
-import { cn } from '@/lib/utils';
+import { AUDIO_ACCEPT, PROJECT_BUNDLE_EXTENSION, cn } from '@/lib/utils';
 import { Upload } from 'lucide-react';
 import { Button } from '../ui/button';
 
@@ -42,7 +42,7 @@ export function UploadZone({
 				type="file"
 				ref={fileInputRef}
 				className="hidden"
-				accept="audio/*"
+				accept={`${AUDIO_ACCEPT},.zip`}
 				onChange={onInputChange}
 				disabled={isUploading}
 			/>
@@ -55,7 +55,8 @@ export function UploadZone({
 				Browse Files
 			</Button>
 			<p className="text-xs text-muted-foreground mt-4">
-				Supports MP3, WAV, OGG, FLAC
+				Supports MP3, WAV, FLAC, M4A/AAC, OGG, or a {PROJECT_BUNDLE_EXTENSION}{' '}
+				project export
 			</p>
 		</div>
 	);
@@ -7,8 +7,14 @@ import { type ReactNode, useEffect, useMemo } from 'react';
 
 type ColorMode = 'light' | 'dark';
 
-export function WithColorFlow({ children }: { children: ReactNode }) {
-	const mdc = useColorFlow();
+export function WithColorFlow({
+	children,
+	coverUrl,
+}: {
+	children: ReactNode;
+	coverUrl?: string | null;
+}) {
+	const mdc = useColorFlow(coverUrl);
 	const { theme } = useTheme();
 	const systemTheme = useSystemTheme();
 	const setCssVars = useCssVarSetter();
@@ -1,11 +1,13 @@
 import { createContext, type ReactNode, useEffect, useState } from 'react';
 
-type Theme = 'dark' | 'light' | 'system';
+export type Theme = 'dark' | 'light' | 'system';
 
 type ThemeProviderProps = {
 	children: ReactNode;
 	defaultTheme?: Theme;
 	storageKey?: string;
+	// Wins over the stored theme without replacing it, e.g. for embeds
+	forcedTheme?: Theme;
 };
 
 type ThemeProviderState = {
@@ -25,11 +27,13 @@ export function ThemeProvider({
 	children,
 	defaultTheme = 'system',
 	storageKey = 'vite-ui-theme',
+	forcedTheme,
 	...props
 }: ThemeProviderProps) {
-	const [theme, setTheme] = useState<Theme>(
+	const [storedTheme, setTheme] = useState<Theme>(
 		() => (localStorage.getItem(storageKey) as Theme) || defaultTheme
 	);
+	const theme = forcedTheme ?? storedTheme;
 
 	useEffect(() => {
 		const root = window.document.documentElement;
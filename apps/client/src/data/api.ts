@@ -1,5 +1,11 @@
 import { toast } from 'sonner';
 import type { AudioMeta, LyricLine } from './types';
+import {
+	useAuthStore,
+	type AuthUser,
+	type MediaToken,
+} from '@/stores/auth/store';
+import { useWorkspaceStore } from '@/stores/workspace/store';
 
 export const API_BASE_URL =
 	import.meta.env.VITE_DEV_SERVER_URL || 'http://localhost:8000/api';
@@ -11,6 +17,16 @@ type UploadAudioResponse = {
 	message: string;
 	projectId: string;
 	audioMetadata: AudioMeta;
+	embeddedLyrics?: EmbeddedLyrics | null;
+};
+
+// Lyrics found in the ID3 tags of an upload, saved as the project's first version
+export type EmbeddedLyrics = {
+	lyricsId: string;
+	frame: 'sylt' | 'uslt';
+	synced: boolean;
+	lineCount: number;
+	language?: string;
 };
 
 export type Project = {
@@ -20,6 +36,73 @@ export type Project = {
 	createdAt: string;
 	updatedAt: string;
 	audioId: string;
+	workspaceId?: string;
+	assetIds?: string[];
+	renderAssets?: RenderAssets;
+	cover?: ProjectCover; // set when cover art was uploaded for the project
+	share?: ProjectShare; // only sent to roles that may manage it
+	metadata?: {
+		tags?: string[];
+		category?: string;
+		link?: string;
+		public?: boolean;
+	};
+};
+
+export type ProjectShare = {
+	token: string;
+	createdAt: string;
+};
+
+// Square part of the uploaded image the cover shows, x and y place it like
+// CSS object-position and size is its side as a share of the shorter edge
+export type CoverCrop = {
+	x: number;
+	y: number;
+	size: number;
+};
+
+export type ProjectCover = {
+	contentType: string;
+	crop: CoverCrop;
+	updatedAt: string;
+};
+
+export type AssetKind = 'image' | 'video' | 'font';
+
+export type Asset = {
+	id: string;
+	kind: AssetKind;
+	filename: string;
+	contentType: string;
+	size: number;
+	workspaceId?: string;
+	createdAt: string;
+};
+
+// Attached assets a render uses instead of the cover art and default font
+export type RenderAssets = {
+	background?: string;
+	logo?: string;
+	font?: string;
+};
+
+export type RenderAssetSlot = keyof RenderAssets;
+
+export type ProjectSort = 'updatedAt' | 'createdAt' | 'name';
+
+export type ProjectFilters = {
+	workspaceId?: string; // personal projects when missing
+	sort?: ProjectSort;
+	tags?: string[];
+	category?: string;
+	public?: boolean;
+	q?: string;
+};
+
+export type ProjectsPage = {
+	projects: Project[];
+	nextCursor: string | null;
 };
 
 type LyricsDataToUpdate = {
@@ -27,16 +110,138 @@ type LyricsDataToUpdate = {
 	lines: LyricLine[];
 };
 
-// get all projects function
-export async function getAllProjects(): Promise<Project[]> {
+/**
+ * Error body returned by every failing server route
+ */
+export type ApiErrorEnvelope = {
+	code: string;
+	message: string;
+	details?: unknown;
+};
+
+/**
+ * Error thrown when the server answers with an error envelope
+ */
+export class ApiError extends Error {
+	status: number;
+	code: string;
+	details?: unknown;
+
+	constructor(status: number, envelope: ApiErrorEnvelope) {
+		super(envelope.message);
+		this.name = 'ApiError';
+		this.status = status;
+		this.code = envelope.code;
+		this.details = envelope.details;
+	}
+}
+
+/**
+ * Headers carrying the session token of the signed-in user, if any
+ */
+export function authHeaders(): Record<string, string> {
+	const { token } = useAuthStore.getState();
+	return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/**
+ * fetch for server routes: sends the session token and signs the user out
+ * when the server no longer accepts it
+ */
+export async function apiFetch(
+	input: string,
+	init: RequestInit = {}
+): Promise<Response> {
+	const { Authorization } = authHeaders();
+	const headers = new Headers(init.headers);
+	if (Authorization && !headers.has('Authorization')) {
+		headers.set('Authorization', Authorization);
+	}
+	const response = await fetch(input, { ...init, headers });
+
+	if (response.status === 401 && Authorization) {
+		useAuthStore.getState().clearSession();
+	}
+
+	return response;
+}
+
+/**
+ * Build an ApiError from a failed response, falling back to a generic
+ * message when the body is not an error envelope
+ */
+export async function toApiError(
+	response: Response,
+	fallbackMessage: string
+): Promise<ApiError> {
+	try {
+		const body: Partial<ApiErrorEnvelope> = await response.json();
+		if (body.code && body.message) {
+			return new ApiError(response.status, {
+				code: body.code,
+				message: body.message,
+				details: body.details,
+			});
+		}
+	} catch {
+		// Not a JSON body
+	}
+
+	return new ApiError(response.status, {
+		code: 'UNKNOWN_ERROR',
+		message: fallbackMessage,
+	});
+}
+
+export type LyricsRecord = {
+	id: string;
+	createdAt: string;
+	updatedAt: string;
+	text: string;
+	projectId: string;
+	lines: LyricLine[];
+	etag?: string;
+};
+
+/**
+ * Thrown when lyrics were saved by someone else since they were loaded
+ */
+export class LyricsConflictError extends Error {
+	current: LyricsRecord | null;
+
+	constructor(current: LyricsRecord | null) {
+		super('Lyrics were modified by someone else');
+		this.name = 'LyricsConflictError';
+		this.current = current;
+	}
+}
+
+// get one page of projects, filtered and sorted by the server
+export async function getProjects(
+	filters: ProjectFilters = {},
+	cursor?: string | null
+): Promise<ProjectsPage> {
 	try {
-		const response = await fetch(`${API_BASE_URL}/project/all`);
+		const params = new URLSearchParams();
+		if (cursor) params.set('cursor', cursor);
+		if (filters.workspaceId) params.set('workspaceId', filters.workspaceId);
+		if (filters.sort) params.set('sort', filters.sort);
+		if (filters.tags?.length) params.set('tags', filters.tags.join(','));
+		if (filters.category) params.set('category', filters.category);
+		if (filters.public !== undefined) {
+			params.set('public', String(filters.public));
+		}
+		if (filters.q) params.set('q', filters.q);
+
+		const response = await apiFetch(
+			`${API_BASE_URL}/project/all?${params.toString()}`
+		);
 
 		if (!response.ok) {
-			throw new Error('Failed to fetch projects');
+			throw await toApiError(response, 'Failed to fetch projects');
 		}
 
-		const data: Project[] = await response.json();
+		const data: ProjectsPage = await response.json();
 		return data;
 	} catch (error) {
 		toast.error('Projects fetch failed', {
@@ -47,22 +252,68 @@ export async function getAllProjects(): Promise<Project[]> {
 	}
 }
 
+export type SearchHit = {
+	projectId: string;
+	projectName: string;
+	audioId: string;
+	field: 'lyrics' | 'name' | 'title' | 'artist' | 'album';
+	text: string;
+	lineId?: number;
+	timestamp?: number;
+	score: number;
+};
+
+// search lyrics, project names and audio tags across all projects
+export async function searchProjects(
+	query: string,
+	signal?: AbortSignal
+): Promise<SearchHit[]> {
+	const params = new URLSearchParams({ q: query });
+	const response = await apiFetch(`${API_BASE_URL}/search?${params}`, {
+		signal,
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Search failed');
+	}
+
+	const data: { hits: SearchHit[] } = await response.json();
+	return data.hits;
+}
+
 // update project function
 export async function saveLyrics(
 	id: string,
-	updates: LyricsDataToUpdate
-): Promise<{ lyricsId: string; projectId: string }> {
+	updates: LyricsDataToUpdate,
+	etag?: string
+): Promise<{ lyricsId: string; projectId: string; etag?: string }> {
 	try {
-		const response = await fetch(`${API_BASE_URL}/project/${id}/lyrics`, {
+		const response = await apiFetch(`${API_BASE_URL}/project/${id}/lyrics`, {
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
+				...(etag ? { 'If-Match': etag } : {}),
 			},
 			body: JSON.stringify(updates),
 		});
 
+		if (response.status === 409 || response.status === 412) {
+			const conflict = await toApiError(response, 'Lyrics conflict');
+			const { current } = (conflict.details ?? {}) as {
+				current?: LyricsRecord | null;
+			};
+			throw new LyricsConflictError(
+				current
+					? {
+							...current,
+							etag: response.headers.get('ETag') ?? undefined,
+						}
+					: null
+			);
+		}
+
 		if (!response.ok) {
-			throw new Error('Failed to save lyrics');
+			throw await toApiError(response, 'Failed to save lyrics');
 		}
 
 		const result: { message: string; lyricsId: string; projectId: string } =
@@ -75,8 +326,12 @@ export async function saveLyrics(
 		return {
 			lyricsId: result.lyricsId,
 			projectId: result.projectId,
+			etag: response.headers.get('ETag') ?? undefined,
 		};
 	} catch (error) {
+		// Conflicts are resolved by the caller
+		if (error instanceof LyricsConflictError) throw error;
+
 		toast.error('Lyrics save failed', {
 			description:
 				error instanceof Error ? error.message : 'Unknown error',
@@ -86,25 +341,18 @@ export async function saveLyrics(
 }
 
 // get lyrics for a project function
-export async function getLyrics(projectId: string): Promise<{
-	id: string;
-	createdAt: string;
-	updatedAt: string;
-	text: string;
-	projectId: string;
-	lines: LyricLine[];
-}> {
+export async function getLyrics(projectId: string): Promise<LyricsRecord> {
 	try {
-		const response = await fetch(
+		const response = await apiFetch(
 			`${API_BASE_URL}/project/${projectId}/lyrics`
 		);
 
 		if (!response.ok) {
-			throw new Error('Failed to fetch lyrics');
+			throw await toApiError(response, 'Failed to fetch lyrics');
 		}
 
-		const data = await response.json();
-		return data;
+		const data: LyricsRecord = await response.json();
+		return { ...data, etag: response.headers.get('ETag') ?? undefined };
 	} catch (error) {
 		toast.error('Lyrics fetch failed', {
 			description:
@@ -159,12 +407,12 @@ export async function renderVideo(params: {
 // delete project function
 export async function deleteProject(id: string): Promise<void> {
 	try {
-		const response = await fetch(`${API_BASE_URL}/project/${id}`, {
+		const response = await apiFetch(`${API_BASE_URL}/project/${id}`, {
 			method: 'DELETE',
 		});
 
 		if (!response.ok) {
-			throw new Error('Failed to delete project');
+			throw await toApiError(response, 'Failed to delete project');
 		}
 
 		toast.success('Project deleted', {
@@ -179,13 +427,333 @@ export async function deleteProject(id: string): Promise<void> {
 	}
 }
 
+// share a project publicly, the server keeps an existing link
+export async function shareProject(id: string): Promise<ProjectShare> {
+	const response = await apiFetch(`${API_BASE_URL}/project/${id}/share`, {
+		method: 'POST',
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to create share link');
+	}
+
+	return response.json();
+}
+
+// revoke the share link of a project, the old link stops working at once
+export async function revokeProjectShare(id: string): Promise<void> {
+	const response = await apiFetch(`${API_BASE_URL}/project/${id}/share`, {
+		method: 'DELETE',
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to revoke share link');
+	}
+}
+
+// create a project for an audio file that is already stored, e.g. one that
+// another project uses too
+export async function createProject(data: {
+	name: string;
+	audioId: string;
+}): Promise<{ message: string; id: string }> {
+	const { currentWorkspaceId } = useWorkspaceStore.getState();
+	const response = await apiFetch(`${API_BASE_URL}/project`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({
+			...data,
+			workspaceId: currentWorkspaceId ?? undefined,
+		}),
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to create project');
+	}
+
+	return response.json();
+}
+
+export type DuplicateProjectResponse = {
+	message: string;
+	id: string;
+	project: Project;
+};
+
+// copy a project with its current lyrics, the copy plays the same audio
+export async function duplicateProject(
+	id: string,
+	name?: string
+): Promise<DuplicateProjectResponse> {
+	const response = await apiFetch(`${API_BASE_URL}/project/${id}/duplicate`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(name ? { name } : {}),
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to duplicate project');
+	}
+
+	return response.json();
+}
+
+export type ImportProjectResponse = {
+	message: string;
+	projectId: string;
+	audioId: string;
+};
+
+// download link of a project bundle (.chantastik.zip), opened by the browser
+// so the token travels in the query like media URLs
+export function getProjectExportUrl(id: string): string {
+	return `${API_BASE_URL}/project/${id}/export${mediaQuery()}`;
+}
+
+export type ExportSize = {
+	size: number;
+	maxSize: number; // the largest bundle an import accepts
+};
+
+// size of a project bundle, checked before the browser downloads it
+export async function getProjectExportSize(id: string): Promise<ExportSize> {
+	const response = await apiFetch(
+		`${API_BASE_URL}/project/${id}/export/size`
+	);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to check the export size');
+	}
+
+	return response.json();
+}
+
+// recreate a project from a bundle in the current workspace. The bundle
+// goes through a multipart upload like audio files, so any exported bundle
+// fits.
+export async function importProjectBundle(
+	file: File
+): Promise<ImportProjectResponse> {
+	const session = await initiateUpload(file, { bundle: true });
+
+	try {
+		for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+			const start = (partNumber - 1) * session.partSize;
+			await uploadPart(
+				session.uploadId,
+				partNumber,
+				file.slice(start, start + session.partSize)
+			);
+		}
+	} catch (error) {
+		abortUpload(session.uploadId).catch((abortError) =>
+			console.error('Failed to abort upload:', abortError)
+		);
+		throw error;
+	}
+
+	// The server discards the upload once it has read it
+	const params = new URLSearchParams({ uploadId: session.uploadId });
+	const response = await apiFetch(`${API_BASE_URL}/project/import?${params}`, {
+		method: 'POST',
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Import failed');
+	}
+
+	return response.json();
+}
+
+// get a project, e.g. to find the library its assets come from
+export async function getProject(id: string): Promise<Project> {
+	const response = await apiFetch(`${API_BASE_URL}/project/${id}`);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to load project');
+	}
+
+	return response.json();
+}
+
+// point the render slots of a project to library assets, attaching exactly
+// the assets in use
+export async function updateRenderAssets(
+	projectId: string,
+	renderAssets: RenderAssets
+): Promise<Project> {
+	const assetIds = [
+		...new Set(Object.values(renderAssets).filter(Boolean)),
+	] as string[];
+	const response = await apiFetch(`${API_BASE_URL}/project/${projectId}`, {
+		method: 'PUT',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ assetIds, renderAssets }),
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to update project assets');
+	}
+
+	const { project } = await response.json();
+	return project;
+}
+
+// list the asset library of a workspace, the personal one without ID
+export async function getAssets(workspaceId?: string): Promise<Asset[]> {
+	const query = workspaceId ? `?workspaceId=${workspaceId}` : '';
+	const response = await apiFetch(`${API_BASE_URL}/assets${query}`);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to load assets');
+	}
+
+	const { assets } = await response.json();
+	return assets;
+}
+
+// add an image, video loop or font to the library of a workspace
+export async function uploadAsset(
+	file: File,
+	workspaceId?: string
+): Promise<Asset> {
+	const formData = new FormData();
+	formData.append('file', file);
+	if (workspaceId) formData.append('workspaceId', workspaceId);
+
+	const response = await apiFetch(`${API_BASE_URL}/assets`, {
+		method: 'POST',
+		body: formData,
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Upload failed');
+	}
+
+	const { asset } = await response.json();
+	return asset;
+}
+
+// delete an asset, the server refuses while projects use it
+export async function deleteAsset(id: string): Promise<void> {
+	const response = await apiFetch(`${API_BASE_URL}/assets/${id}`, {
+		method: 'DELETE',
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to delete asset');
+	}
+}
+
+// url of an asset file, loaded by img, video and FontFace without headers
+export function getAssetUrl(id: string): string {
+	return `${API_BASE_URL}/assets/${id}${mediaQuery()}`;
+}
+
+// url of the cover of a project: the uploaded cover cut to the smallest
+// thumbnail of at least `size` pixels, or the embedded picture
+export function getProjectCoverUrl(
+	projectId: string,
+	size?: number,
+	version?: string
+): string {
+	return `${API_BASE_URL}/project/${projectId}/cover${mediaQuery(version, size ? { size: String(size) } : {})}`;
+}
+
+// url of the uncropped upload, for the crop editor
+export function getProjectCoverOriginalUrl(
+	projectId: string,
+	version?: string
+): string {
+	return `${API_BASE_URL}/project/${projectId}/cover${mediaQuery(version, { original: 'true' })}`;
+}
+
+// upload cover art for a project, or crop the uploaded one again without file
+export async function saveProjectCover(
+	projectId: string,
+	crop: CoverCrop,
+	file?: File | null
+): Promise<ProjectCover> {
+	const params = new URLSearchParams({
+		x: String(crop.x),
+		y: String(crop.y),
+		size: String(crop.size),
+	});
+	let body: FormData | undefined;
+	if (file) {
+		body = new FormData();
+		body.append('image', file);
+	}
+
+	const response = await apiFetch(
+		`${API_BASE_URL}/project/${projectId}/cover?${params}`,
+		{ method: 'PUT', body }
+	);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to save cover art');
+	}
+
+	const { cover } = await response.json();
+	return cover;
+}
+
+// drop the uploaded cover, the embedded picture shows again
+export async function removeProjectCover(projectId: string): Promise<void> {
+	const response = await apiFetch(
+		`${API_BASE_URL}/project/${projectId}/cover`,
+		{ method: 'DELETE' }
+	);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to remove cover art');
+	}
+}
+
+export type SharedProject = {
+	name: string;
+	title?: string;
+	artist?: string;
+	duration?: number;
+	coverUrl: string;
+	audioUrl: string | null; // null for YouTube projects
+	youtube: { videoId: string; url?: string } | null;
+	lines: LyricLine[];
+};
+
+// get a shared project, no session needed
+export async function getSharedProject(token: string): Promise<SharedProject> {
+	const response = await fetch(
+		`${API_BASE_URL}/share/${encodeURIComponent(token)}`
+	);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to load shared project');
+	}
+
+	return response.json();
+}
+
+// link to the read-only player of a share token
+export function getShareUrl(token: string): string {
+	return `${window.location.origin}/share/${token}`;
+}
+
+// snippet that embeds the synced lyrics of a share token in another site
+export function getEmbedCode(token: string): string {
+	return [
+		`<div data-chantastik-embed="${token}"></div>`,
+		`<script src="${window.location.origin}/embed.js" async></script>`,
+	].join('\n');
+}
+
 // get audio metadata function
 export async function getAudioMetadata(id: string): Promise<AudioMeta> {
 	try {
-		const response = await fetch(`${API_BASE_URL}/audio/${id}/meta/${id?.replace('youtube-virtual-', '')}`);
+		const response = await apiFetch(`${API_BASE_URL}/audio/${id}/meta/${id?.replace('youtube-virtual-', '')}`);
 
 		if (!response.ok) {
-			throw new Error('Failed to fetch audio metadata');
+			throw await toApiError(response, 'Failed to fetch audio metadata');
 		}
 
 		const data: AudioMeta = await response.json();
@@ -199,16 +767,110 @@ export async function getAudioMetadata(id: string): Promise<AudioMeta> {
 	}
 }
 
-// get audio url function
-export function getAudioUrl(id: string): string {
-	return `${API_BASE_URL}/audio/${id}`;
+// Tags of an audio file a user can edit, null or empty removes one
+export type AudioMetadataChanges = {
+	title?: string | null;
+	artist?: string | null;
+	album?: string | null;
+	year?: string | null;
+	genre?: string[] | null;
+};
+
+// edit the tags of an uploaded audio file, YouTube videos keep theirs
+export async function updateAudioMetadata(
+	id: string,
+	changes: AudioMetadataChanges
+): Promise<AudioMeta> {
+	const response = await apiFetch(`${API_BASE_URL}/audio/${id}/meta`, {
+		method: 'PATCH',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(changes),
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to update audio metadata');
+	}
+
+	const { audioMetadata } = await response.json();
+	return audioMetadata;
+}
+
+// get the waveform peaks of an audio file, null until a client uploaded them
+export async function getAudioPeaks(
+	id: string,
+	resolution: number
+): Promise<number[] | null> {
+	const response = await apiFetch(
+		`${API_BASE_URL}/audio/${id}/peaks?resolution=${resolution}`
+	);
+
+	if (response.status === 404) return null;
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to fetch waveform');
+	}
+
+	const { peaks } = await response.json();
+	return peaks;
+}
+
+// store the peaks computed from the decoded audio file
+export async function uploadAudioPeaks(
+	id: string,
+	peaks: number[]
+): Promise<void> {
+	const response = await apiFetch(`${API_BASE_URL}/audio/${id}/peaks`, {
+		method: 'PUT',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ peaks }),
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to store waveform');
+	}
+}
+
+// query string of media URLs: audio and img elements cannot send the
+// Authorization header, so a short-lived media token travels as access_token
+function mediaQuery(
+	version?: string,
+	extra: Record<string, string> = {}
+): string {
+	const params = new URLSearchParams(extra);
+	if (version) params.set('v', version);
+	const { media } = useAuthStore.getState();
+	if (media) params.set('access_token', media.token);
+	const query = params.toString();
+	return query ? `?${query}` : '';
+}
+
+// get audio url function, the version busts the cache after a replacement
+export function getAudioUrl(id: string, version?: string): string {
+	return `${API_BASE_URL}/audio/${id}${mediaQuery(version)}`;
 }
 
 // get cover art url function
-export function getCoverArtUrl(id?: string): string {
-	return `${API_BASE_URL}/audio/${id}/cover/${id?.replace('youtube-virtual-', '')}`;
+export function getCoverArtUrl(id?: string, version?: string): string {
+	return `${API_BASE_URL}/audio/${id}/cover/${id?.replace('youtube-virtual-', '')}${mediaQuery(version)}`;
+}
+
+// get tagged mp3 url function, the file carries the project's saved lyrics
+export function getTaggedAudioUrl(id: string, projectId: string): string {
+	return `${API_BASE_URL}/audio/${id}/tagged${mediaQuery(undefined, { projectId })}`;
 }
 
+/**
+ * Details of a DUPLICATE_FILE upload error: the stored file with the same
+ * content and the projects using it that the user can open
+ */
+export type DuplicateAudio = {
+	existingFile: {
+		id: string;
+		filename: string;
+		metadata?: { title?: string; artist?: string };
+	};
+	projects: { id: string; name: string }[];
+};
+
 /**
  * Uploads an audio file to the server
  */
@@ -217,20 +879,367 @@ export async function uploadAudioFile(
 ): Promise<UploadAudioResponse> {
 	const formData = new FormData();
 	formData.append('audio', file);
+	const { currentWorkspaceId } = useWorkspaceStore.getState();
+	if (currentWorkspaceId) formData.append('workspaceId', currentWorkspaceId);
 
-	const response = await fetch(`${API_BASE_URL}/audio`, {
+	const response = await apiFetch(`${API_BASE_URL}/audio`, {
 		method: 'POST',
 		body: formData,
 	});
 
 	if (!response.ok) {
-		const error = await response.json();
-		throw new Error(error.message || 'Upload failed');
+		throw await toApiError(response, 'Upload failed');
+	}
+
+	return response.json();
+}
+
+export type AuthSession = {
+	user: AuthUser;
+	token: string;
+	expiresAt: string;
+	media: MediaToken;
+};
+
+export type Credentials = {
+	email: string;
+	password: string;
+	name?: string;
+};
+
+// sign in with email and password
+export async function login(credentials: Credentials): Promise<AuthSession> {
+	const response = await apiFetch(`${API_BASE_URL}/auth/login`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({
+			email: credentials.email,
+			password: credentials.password,
+		}),
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Sign in failed');
+	}
+
+	return response.json();
+}
+
+// create an account, the server signs it in right away
+export async function register(credentials: Credentials): Promise<AuthSession> {
+	const response = await apiFetch(`${API_BASE_URL}/auth/register`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify(credentials),
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Registration failed');
+	}
+
+	return response.json();
+}
+
+// end the current session on the server
+export async function logout(): Promise<void> {
+	const response = await apiFetch(`${API_BASE_URL}/auth/logout`, {
+		method: 'POST',
+	});
+
+	// An expired session is as good as a closed one
+	if (!response.ok && response.status !== 401) {
+		throw await toApiError(response, 'Sign out failed');
+	}
+}
+
+// get a new token for media URLs before the current one expires
+export async function createMediaToken(): Promise<MediaToken> {
+	const response = await apiFetch(`${API_BASE_URL}/auth/media-token`, {
+		method: 'POST',
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to refresh media access');
+	}
+
+	return response.json();
+}
+
+// get the user of the current session
+export async function getCurrentUser(): Promise<AuthUser> {
+	const response = await apiFetch(`${API_BASE_URL}/auth/me`);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to fetch the current user');
+	}
+
+	const data: { user: AuthUser } = await response.json();
+	return data.user;
+}
+
+export type WorkspaceRole = 'owner' | 'editor' | 'reviewer' | 'viewer';
+
+export type WorkspacePermission =
+	| 'read'
+	| 'reviewLyrics'
+	| 'editLyrics'
+	| 'editProject'
+	| 'deleteProject'
+	| 'manageWorkspace';
+
+export type WorkspaceSummary = {
+	workspaceId: string;
+	name: string;
+	role: WorkspaceRole;
+	permissions: WorkspacePermission[];
+};
+
+// list the workspaces of the signed-in user with their role in each
+export async function getWorkspaces(): Promise<WorkspaceSummary[]> {
+	const response = await apiFetch(`${API_BASE_URL}/workspaces`);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to fetch workspaces');
+	}
+
+	const data: { workspaces: WorkspaceSummary[] } = await response.json();
+	return data.workspaces;
+}
+
+// create a workspace, the signed-in user becomes its owner
+export async function createWorkspace(name: string): Promise<WorkspaceSummary> {
+	const response = await apiFetch(`${API_BASE_URL}/workspaces`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({ name }),
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to create workspace');
+	}
+
+	const data: {
+		id: string;
+		name: string;
+		role: WorkspaceRole;
+		permissions: WorkspacePermission[];
+	} = await response.json();
+	return {
+		workspaceId: data.id,
+		name: data.name,
+		role: data.role,
+		permissions: data.permissions,
+	};
+}
+
+export type LyricsTiming = 'none' | 'offset' | 'stretch';
+
+export type ReplaceAudioOptions = {
+	timing?: LyricsTiming;
+	offset?: number; // seconds, with timing 'offset'
+};
+
+export type ReplaceAudioResponse = {
+	message: string;
+	id: string;
+	audioMetadata: AudioMeta;
+	duration: {
+		previous: number | null;
+		current: number | null;
+		difference: number | null;
+	};
+	retiming:
+		| { mode: 'offset'; offset: number }
+		| { mode: 'stretch'; factor: number }
+		| null;
+	// the lyrics version saved in each project using the audio, when retimed
+	lyrics: { projectId: string; lyricsId: string; version?: number }[];
+};
+
+/**
+ * Replaces the file of an audio, optionally shifting or stretching the
+ * lyric timings of every project that uses it. The file goes through a
+ * multipart upload like new tracks, so lossless masters fit too.
+ */
+export async function replaceAudioFile(
+	audioId: string,
+	file: File,
+	options: ReplaceAudioOptions = {}
+): Promise<ReplaceAudioResponse> {
+	const session = await initiateUpload(file, { replaceAudioId: audioId });
+
+	try {
+		for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+			const start = (partNumber - 1) * session.partSize;
+			await uploadPart(
+				session.uploadId,
+				partNumber,
+				file.slice(start, start + session.partSize)
+			);
+		}
+
+		const params = new URLSearchParams({ uploadId: session.uploadId });
+		if (options.timing) params.set('timing', options.timing);
+		if (options.offset !== undefined) {
+			params.set('offset', options.offset.toString());
+		}
+
+		const response = await apiFetch(
+			`${API_BASE_URL}/audio/${audioId}?${params}`,
+			{ method: 'PUT' }
+		);
+
+		if (!response.ok) {
+			throw await toApiError(response, 'Replacing audio failed');
+		}
+
+		return response.json();
+	} catch (error) {
+		// The server drops the session itself once the file was checked
+		abortUpload(session.uploadId).catch((abortError) =>
+			console.error('Failed to abort upload:', abortError)
+		);
+		throw error;
+	}
+}
+
+export type UploadSession = {
+	uploadId: string;
+	audioId?: string; // not set for project bundles
+	partSize: number;
+	partCount: number;
+};
+
+export type UploadStatus = UploadSession & {
+	size: number;
+	uploadedParts: number[];
+};
+
+// start a resumable multipart upload, of a new track, of the file that
+// replaces the one of an audio or of a project bundle to import
+export async function initiateUpload(
+	file: File,
+	options: { replaceAudioId?: string; bundle?: boolean } = {}
+): Promise<UploadSession> {
+	const response = await apiFetch(`${API_BASE_URL}/audio/uploads`, {
+		method: 'POST',
+		headers: { 'Content-Type': 'application/json' },
+		body: JSON.stringify({
+			filename: file.name,
+			contentType: file.type,
+			size: file.size,
+			...(options.replaceAudioId
+				? { replaceAudioId: options.replaceAudioId }
+				: {
+						workspaceId:
+							useWorkspaceStore.getState().currentWorkspaceId ?? undefined,
+						bundle: options.bundle,
+					}),
+		}),
+	});
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Upload failed');
 	}
 
 	return response.json();
 }
 
+// get the parts of an upload already stored on the server
+export async function getUploadStatus(uploadId: string): Promise<UploadStatus> {
+	const response = await apiFetch(`${API_BASE_URL}/audio/uploads/${uploadId}`);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Failed to fetch upload status');
+	}
+
+	return response.json();
+}
+
+/**
+ * Upload one part of a multipart upload. Uses XMLHttpRequest because fetch
+ * does not report upload progress.
+ */
+export function uploadPart(
+	uploadId: string,
+	partNumber: number,
+	blob: Blob,
+	options: {
+		signal?: AbortSignal;
+		onProgress?: (loaded: number) => void;
+	} = {}
+): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const xhr = new XMLHttpRequest();
+		xhr.open(
+			'PUT',
+			`${API_BASE_URL}/audio/uploads/${uploadId}/parts/${partNumber}`
+		);
+		xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+		for (const [name, value] of Object.entries(authHeaders())) {
+			xhr.setRequestHeader(name, value);
+		}
+
+		xhr.upload.onprogress = (event) => options.onProgress?.(event.loaded);
+		xhr.onload = () => {
+			if (xhr.status >= 200 && xhr.status < 300) {
+				resolve();
+				return;
+			}
+			let envelope: ApiErrorEnvelope = {
+				code: 'UNKNOWN_ERROR',
+				message: `Part ${partNumber} failed`,
+			};
+			try {
+				envelope = JSON.parse(xhr.responseText);
+			} catch {
+				// Not an error envelope
+			}
+			reject(new ApiError(xhr.status, envelope));
+		};
+		xhr.onerror = () =>
+			reject(new Error(`Network error while uploading part ${partNumber}`));
+		xhr.onabort = () => reject(new DOMException('Aborted', 'AbortError'));
+
+		if (options.signal?.aborted) {
+			reject(new DOMException('Aborted', 'AbortError'));
+			return;
+		}
+		options.signal?.addEventListener('abort', () => xhr.abort(), {
+			once: true,
+		});
+
+		xhr.send(blob);
+	});
+}
+
+// assemble the uploaded parts and create the project
+export async function completeUpload(
+	uploadId: string
+): Promise<UploadAudioResponse> {
+	const response = await apiFetch(
+		`${API_BASE_URL}/audio/uploads/${uploadId}/complete`,
+		{ method: 'POST' }
+	);
+
+	if (!response.ok) {
+		throw await toApiError(response, 'Upload failed');
+	}
+
+	return response.json();
+}
+
+// discard an unfinished upload
+export async function abortUpload(uploadId: string): Promise<void> {
+	const response = await apiFetch(`${API_BASE_URL}/audio/uploads/${uploadId}`, {
+		method: 'DELETE',
+	});
+
+	if (!response.ok && response.status !== 404) {
+		throw await toApiError(response, 'Failed to abort upload');
+	}
+}
+
 /**
  * Downloads a remote audio file
  * @param url URL of the audio file to download
@@ -307,9 +1316,9 @@ export async function searchYouTube(queryOrUrl: string): Promise<YouTubeSearchRe
     const url = new URL(`${serverBaseUrl}/youtube/search`);
     url.searchParams.set('input', queryOrUrl.trim());
 
-    const response = await fetch(url.toString());
+    const response = await apiFetch(url.toString());
     if (!response.ok) {
-      throw new Error(`YouTube search failed: ${response.statusText}`);
+      throw await toApiError(response, `YouTube search failed: ${response.statusText}`);
     }
 
     const data: YouTubeSearchResponse = await response.json();
@@ -331,7 +1340,7 @@ export async function createProjectFromYouTube(video: YouTubeSearchResult): Prom
 	message: string;
 }> {
 	try {
-		const response = await fetch(`${import.meta.env.VITE_DEV_SERVER_URL}/youtube/from-youtube`, {
+		const response = await apiFetch(`${import.meta.env.VITE_DEV_SERVER_URL}/youtube/from-youtube`, {
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
@@ -344,11 +1353,13 @@ export async function createProjectFromYouTube(video: YouTubeSearchResult): Prom
 				thumbnail: video.thumbnail,
 				url: video.url,
 				description: video.description,
+				workspaceId:
+					useWorkspaceStore.getState().currentWorkspaceId ?? undefined,
 			}),
 		});
 
 		if (!response.ok) {
-			throw new Error('Failed to create project from YouTube video');
+			throw await toApiError(response, 'Failed to create project from YouTube video');
 		}
 
 		const result = await response.json();
@@ -376,7 +1387,7 @@ export async function extractLyricsFromVideo(videoId: string, title: string, cha
 	confidence: number;
 }> {
 	try {
-		const response = await fetch(`${API_BASE_URL}/lyrics/extract`, {
+		const response = await apiFetch(`${API_BASE_URL}/lyrics/extract`, {
 			method: 'POST',
 			headers: {
 				'Content-Type': 'application/json',
@@ -389,7 +1400,7 @@ export async function extractLyricsFromVideo(videoId: string, title: string, cha
 		});
 
 		if (!response.ok) {
-			throw new Error('Failed to extract lyrics');
+			throw await toApiError(response, 'Failed to extract lyrics');
 		}
 
 		const result = await response.json();
@@ -5,6 +5,7 @@ export type AudioMeta = {
 	size?: number;
 	fileHash?: string;
 	createdAt?: Date;
+	updatedAt?: string; // set when the file was replaced
 	metadata?: Metadata;
 	coverArt?: CoverArt; // Cover art might not always be available
 }
@@ -35,11 +35,11 @@ export const useAudioEventHandlers = (): AudioEventHandlers => {
 	);
 
 	const updateNavigatorMetadata = useCallback(() => {
-		const storedAudioMetadata =
-			localStorage.getItem(`currentAudioMetadata`);
-		if (!storedAudioMetadata) return null;
-
-		const audioMetadata: AudioMeta = JSON.parse(storedAudioMetadata);
+		const audioMetadata = queryClient.getQueryData<AudioMeta>([
+			'audioMetadata',
+			audio?.id,
+		]);
+		if (!audioMetadata) return null;
 
 		if ('mediaSession' in navigator && audio?.id) {
 			try {
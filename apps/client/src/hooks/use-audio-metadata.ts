@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+	getAudioMetadata,
+	updateAudioMetadata,
+	type AudioMetadataChanges,
+} from '@/data/api';
+import type { AudioMeta } from '@/data/types';
+import { useAppStore } from '@/stores/app/store';
+import { useWorkspaces } from './use-workspaces';
+
+/**
+ * Tags of the current audio as stored on the server, read by the LRC export,
+ * the video renders and the lyrics search
+ */
+export const useAudioMetadata = () => {
+	const queryClient = useQueryClient();
+	const audio = useAppStore((state) => state.audio);
+	const { can } = useWorkspaces();
+	const audioId = audio?.id;
+	const isYoutube = !!audioId?.startsWith('youtube-virtual-');
+
+	// Shares its cache with useGetAudio
+	const { data } = useQuery({
+		queryKey: ['audioMetadata', audioId],
+		queryFn: () => getAudioMetadata(audioId || ''),
+		enabled: !!audioId,
+		retry: false,
+		refetchOnWindowFocus: false,
+	});
+
+	const saveMutation = useMutation({
+		mutationKey: ['updateAudioMetadata'],
+		mutationFn: (changes: AudioMetadataChanges) =>
+			updateAudioMetadata(audioId!, changes),
+		retry: false,
+		onSuccess: (saved) => {
+			queryClient.setQueryData<AudioMeta>(
+				['audioMetadata', audioId],
+				saved
+			);
+			// Project cards and search show the audio title
+			queryClient.invalidateQueries({ queryKey: ['projects'] });
+			toast.success('Track details saved');
+		},
+		onError: (error) => {
+			toast.error('Saving track details failed', {
+				description: error.message,
+			});
+		},
+	});
+
+	return {
+		metadata: data?.metadata,
+		canEdit: !!audioId && !isYoutube && can('editProject'),
+		isYoutube,
+		saveMetadata: saveMutation.mutate,
+		isSaving: saveMutation.isPending,
+	};
+};
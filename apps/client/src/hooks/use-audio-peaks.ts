@@ -0,0 +1,53 @@
+import { useQuery } from '@tanstack/react-query';
+import { getAudioPeaks, getAudioUrl, uploadAudioPeaks } from '@/data/api';
+import { computePeaks, downsamplePeaks } from '@/lib/utils';
+import { useAppStore } from '@/stores/app/store';
+import { useWorkspaces } from './use-workspaces';
+
+// Decode the whole file once, the browser resamples it to the context rate
+const decodePeaks = async (url: string): Promise<number[]> => {
+	const response = await fetch(url);
+	if (!response.ok) throw new Error('Failed to load audio for the waveform');
+
+	const context = new OfflineAudioContext(1, 1, 44100);
+	const buffer = await context.decodeAudioData(await response.arrayBuffer());
+	return computePeaks(buffer);
+};
+
+/**
+ * Loudness envelope of the current audio at a resolution, for waveforms and
+ * timelines. The first client to open a track without stored peaks decodes
+ * it and uploads them for everyone else.
+ */
+export const useAudioPeaks = (resolution: number) => {
+	const audio = useAppStore((state) => state.audio);
+	const { can } = useWorkspaces();
+	const audioId = audio?.id;
+	const canUpload = can('editProject');
+
+	const { data: peaks, isLoading } = useQuery({
+		// updatedAt changes when the file is replaced
+		queryKey: ['audioPeaks', audioId, audio?.updatedAt, resolution],
+		queryFn: async () => {
+			const stored = await getAudioPeaks(audioId!, resolution);
+			if (stored) return stored;
+
+			const computed = await decodePeaks(
+				getAudioUrl(audioId!, audio?.updatedAt)
+			);
+			if (canUpload) {
+				// The waveform shows either way, the next load reads them
+				uploadAudioPeaks(audioId!, computed).catch((error) =>
+					console.warn('Failed to store waveform peaks:', error)
+				);
+			}
+			return downsamplePeaks(computed, resolution);
+		},
+		enabled: !!audioId && !audioId.startsWith('youtube-virtual-'),
+		retry: false,
+		refetchOnWindowFocus: false,
+		staleTime: Infinity,
+	});
+
+	return { peaks: peaks ?? [], isLoading };
+};
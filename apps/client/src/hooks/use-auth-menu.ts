@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+	createMediaToken,
+	getCurrentUser,
+	login,
+	logout,
+	register,
+	type AuthSession,
+	type Credentials,
+} from '@/data/api';
+import { useAuthStore } from '@/stores/auth/store';
+import { useWorkspaceStore } from '@/stores/workspace/store';
+
+export type AuthMode = 'login' | 'register';
+
+// Renew the media token this long before it expires, so open media URLs
+// keep working until they are rendered again
+const MEDIA_RENEW_MARGIN = 2 * 60 * 60 * 1000;
+
+export const useAuthMenu = () => {
+	const queryClient = useQueryClient();
+	const token = useAuthStore((state) => state.token);
+	const user = useAuthStore((state) => state.user);
+	const mediaExpiresAt = useAuthStore((state) => state.media?.expiresAt);
+	const { setSession, setUser, setMedia, clearSession } =
+		useAuthStore.getState();
+
+	const [open, setOpen] = useState(false);
+	const [mode, setMode] = useState<AuthMode>('login');
+	const [credentials, setCredentials] = useState<Credentials>({
+		email: '',
+		password: '',
+		name: '',
+	});
+
+	// Refresh the stored user; a revoked session is cleared by apiFetch
+	const { data: currentUser } = useQuery({
+		queryKey: ['currentUser', token],
+		queryFn: getCurrentUser,
+		enabled: !!token,
+		retry: false,
+		refetchOnWindowFocus: false,
+	});
+
+	useEffect(() => {
+		if (currentUser) setUser(currentUser);
+	}, [currentUser]);
+
+	useEffect(() => {
+		if (!token) return;
+
+		const renewIn = mediaExpiresAt
+			? Date.parse(mediaExpiresAt) - Date.now() - MEDIA_RENEW_MARGIN
+			: 0;
+		const timer = setTimeout(() => {
+			createMediaToken()
+				.then(setMedia)
+				.catch((error) =>
+					console.warn('Failed to renew media access:', error)
+				);
+		}, Math.max(renewIn, 0));
+
+		return () => clearTimeout(timer);
+	}, [token, mediaExpiresAt]);
+
+	const handleSignedIn = (session: AuthSession) => {
+		setSession(session);
+		setOpen(false);
+		setCredentials({ email: '', password: '', name: '' });
+		// Everything listed so far was fetched as another user
+		queryClient.invalidateQueries();
+		toast.success('Signed in', {
+			description: `Welcome, ${session.user.name || session.user.email}`,
+		});
+	};
+
+	const authMutation = useMutation({
+		mutationKey: ['auth', mode],
+		mutationFn: (data: Credentials) =>
+			mode === 'login' ? login(data) : register(data),
+		retry: false,
+		onSuccess: handleSignedIn,
+	});
+
+	const logoutMutation = useMutation({
+		mutationKey: ['logout'],
+		mutationFn: logout,
+		retry: false,
+		onSettled: () => {
+			clearSession();
+			useWorkspaceStore.getState().setCurrentWorkspaceId(null);
+			queryClient.removeQueries({ queryKey: ['projects'] });
+			queryClient.removeQueries({ queryKey: ['workspaces'] });
+			queryClient.removeQueries({ queryKey: ['search'] });
+		},
+	});
+
+	const updateCredentials = (changes: Partial<Credentials>) =>
+		setCredentials((current) => ({ ...current, ...changes }));
+
+	const toggleMode = () => {
+		setMode((current) => (current === 'login' ? 'register' : 'login'));
+		authMutation.reset();
+	};
+
+	const handleSubmit = (e: { preventDefault: () => void }) => {
+		e.preventDefault();
+		authMutation.mutate({
+			email: credentials.email.trim(),
+			password: credentials.password,
+			name:
+				mode === 'register' && credentials.name?.trim()
+					? credentials.name.trim()
+					: undefined,
+		});
+	};
+
+	return {
+		user,
+		open,
+		setOpen,
+		mode,
+		toggleMode,
+		credentials,
+		updateCredentials,
+		handleSubmit,
+		isSubmitting: authMutation.isPending,
+		error: authMutation.error,
+		handleLogout: () => logoutMutation.mutate(),
+		isLoggingOut: logoutMutation.isPending,
+	};
+};
@@ -6,16 +6,23 @@ import { useAppStore } from '@/stores/app/store';
 
 type MDC = Awaited<ReturnType<typeof materialDynamicColors>>;
 
-export const useColorFlow = () => {
+// Colours of the loaded track's cover, or of `coverUrl` when given (null for none)
+export const useColorFlow = (coverUrl?: string | null) => {
 	const [theme, setTheme] = useState<MDC | null>();
 	const audio = useAppStore((state) => state.audio);
 
+	const src =
+		coverUrl !== undefined
+			? coverUrl
+			: audio
+				? getCoverArtUrl(audio.id)
+				: null;
+
 	useEffect(() => {
-		if (!audio) return;
-		const src = getCoverArtUrl(audio.id);
+		if (!src) return;
 
 		materialDynamicColors(src).then((mdc) => setTheme(mdc));
-	}, [audio?.id]);
+	}, [src]);
 
 	return theme;
 };
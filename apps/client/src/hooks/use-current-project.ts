@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { getProject } from '@/data/api';
+import { useAppStore } from '@/stores/app/store';
+
+// The project open in the studio, shared by the panels that edit its record
+export const useCurrentProject = () => {
+	const projectId = useAppStore((state) => state.projectId);
+
+	const { data: project } = useQuery({
+		queryKey: ['project', projectId],
+		queryFn: () => getProject(projectId!),
+		enabled: !!projectId,
+		retry: false,
+		refetchOnWindowFocus: false,
+	});
+
+	return { projectId, project };
+};
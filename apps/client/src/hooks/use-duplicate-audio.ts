@@ -0,0 +1,64 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { createProject } from '@/data/api';
+import { useAppStore } from '@/stores/app/store';
+import { useTrackUploadStore } from '@/stores/track-upload/store';
+
+/**
+ * Choices offered when an upload matches a stored file: open a project that
+ * already uses it, or start a new project on the same audio
+ */
+export function useDuplicateAudio() {
+	const queryClient = useQueryClient();
+	const duplicateAudio = useTrackUploadStore((state) => state.duplicateAudio);
+	const { setDuplicateAudio } = useTrackUploadStore.getState();
+
+	const openProject = (projectId: string, audioId: string) => {
+		const { setAudio, updateProjectId } = useAppStore.getState();
+		updateProjectId(projectId);
+		setAudio({ id: audioId });
+		setDuplicateAudio(null);
+	};
+
+	const createMutation = useMutation({
+		mutationKey: ['createProject'],
+		mutationFn: createProject,
+		retry: false,
+		onSuccess: (data, variables) => {
+			queryClient.invalidateQueries({ queryKey: ['projects'] });
+			toast.success('Project created', {
+				description: `${variables.name} uses the audio you already uploaded`,
+			});
+			openProject(data.id, variables.audioId);
+		},
+		onError: (error) => {
+			toast.error('Project creation failed', {
+				description: error.message,
+			});
+		},
+	});
+
+	const createProjectFromAudio = () => {
+		if (!duplicateAudio) return;
+		const { existingFile } = duplicateAudio;
+		const { title, artist } = existingFile.metadata ?? {};
+		createMutation.mutate({
+			name: title
+				? `${title} - ${artist || 'Unknown Artist'}`
+				: existingFile.filename,
+			audioId: existingFile.id,
+		});
+	};
+
+	const openExistingProject = (projectId: string) => {
+		if (duplicateAudio) openProject(projectId, duplicateAudio.existingFile.id);
+	};
+
+	return {
+		duplicateAudio,
+		openExistingProject,
+		createProjectFromAudio,
+		dismiss: () => setDuplicateAudio(null),
+		isCreating: createMutation.isPending,
+	};
+}
@@ -0,0 +1,26 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { duplicateProject, type Project } from '@/data/api';
+
+export function useDuplicateProject({
+	onSuccess,
+}: {
+	onSuccess?: (project: Project) => void;
+}) {
+	const queryClient = useQueryClient();
+	return useMutation({
+		mutationKey: ['duplicateProject'],
+		mutationFn: (project: Project) => duplicateProject(project.id),
+		retry: false,
+		onSuccess: (data) => {
+			queryClient.invalidateQueries({ queryKey: ['projects'] });
+			toast.success('Project duplicated', {
+				description: `${data.project.name} shares the audio of the original`,
+			});
+			onSuccess?.(data.project);
+		},
+		onError: (error) => {
+			toast.error('Duplicating failed', { description: error.message });
+		},
+	});
+}
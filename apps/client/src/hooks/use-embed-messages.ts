@@ -0,0 +1,122 @@
+import { useCallback, useEffect } from 'react';
+import type { LyricLine } from '@/data/types';
+
+// Set on every message so host pages can tell them apart from other frames
+export const EMBED_MESSAGE_SOURCE = 'chantastik-embed';
+
+type EmbedCommand =
+	| { type: 'play' }
+	| { type: 'pause' }
+	| { type: 'seek'; time: number };
+
+type UseEmbedMessagesOptions = {
+	audioRef: React.RefObject<HTMLAudioElement | null>;
+	containerRef: React.RefObject<HTMLDivElement | null>;
+	// Flips once the shared project loaded and the audio element exists
+	ready: boolean;
+	failed: boolean;
+};
+
+const postToHost = (type: string, data: Record<string, unknown> = {}) => {
+	if (window.parent === window) return;
+	// Shared lyrics are public, so any host origin may listen
+	window.parent.postMessage({ source: EMBED_MESSAGE_SOURCE, type, ...data }, '*');
+};
+
+/**
+ * postMessage API of the embed: the host sends `play`, `pause` and
+ * `seek` ({ time } in seconds) and receives `ready`, `error`, `resize`
+ * ({ height }), `play`, `pause`, `ended`, `timeupdate`
+ * ({ currentTime, duration }) and `linechange` ({ index, line }).
+ */
+export const useEmbedMessages = ({
+	audioRef,
+	containerRef,
+	ready,
+	failed,
+}: UseEmbedMessagesOptions) => {
+	useEffect(() => {
+		const handleMessage = (event: MessageEvent) => {
+			if (event.source !== window.parent) return;
+			const audioElement = audioRef.current;
+			if (!audioElement) return;
+
+			const command = event.data as EmbedCommand | null;
+			switch (command?.type) {
+				case 'play':
+					audioElement
+						.play()
+						.catch((err) => console.error('Playback failed:', err));
+					break;
+				case 'pause':
+					audioElement.pause();
+					break;
+				case 'seek':
+					if (Number.isFinite(command.time)) {
+						audioElement.currentTime = Math.max(0, command.time);
+					}
+					break;
+			}
+		};
+
+		window.addEventListener('message', handleMessage);
+		return () => window.removeEventListener('message', handleMessage);
+	}, [audioRef]);
+
+	useEffect(() => {
+		if (failed) postToHost('error');
+	}, [failed]);
+
+	useEffect(() => {
+		if (!ready) return;
+		postToHost('ready');
+
+		const audioElement = audioRef.current;
+		if (!audioElement) return;
+
+		const playback = () => ({
+			currentTime: audioElement.currentTime,
+			duration: Number.isFinite(audioElement.duration)
+				? audioElement.duration
+				: null,
+		});
+		const events = ['play', 'pause', 'ended', 'timeupdate'] as const;
+		const handlers = events.map((type) => {
+			const handler = () => postToHost(type, playback());
+			audioElement.addEventListener(type, handler);
+			return () => audioElement.removeEventListener(type, handler);
+		});
+
+		return () => handlers.forEach((remove) => remove());
+	}, [audioRef, ready]);
+
+	// The host sizes the iframe from these, so the embed never scrolls
+	useEffect(() => {
+		const container = containerRef.current;
+		if (!container) return;
+
+		const observer = new ResizeObserver(() => {
+			postToHost('resize', {
+				height: Math.ceil(container.getBoundingClientRect().height),
+			});
+		});
+		observer.observe(container);
+		return () => observer.disconnect();
+	}, [containerRef]);
+
+	const postLineChange = useCallback(
+		(line: LyricLine | null, index: number | null) => {
+			postToHost('linechange', {
+				index,
+				line: line && {
+					id: line.id,
+					text: line.text,
+					timestamp: line.timestamp,
+				},
+			});
+		},
+		[]
+	);
+
+	return { postLineChange };
+};
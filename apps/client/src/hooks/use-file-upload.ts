@@ -1,35 +1,259 @@
-import { useMutation } from '@tanstack/react-query';
-import { uploadAudioFile } from '@/data/api';
+import {
+	abortUpload,
+	completeUpload,
+	getUploadStatus,
+	initiateUpload,
+	uploadPart,
+	ApiError,
+	type DuplicateAudio,
+	type UploadSession,
+} from '@/data/api';
 import { useAppStore } from '@/stores/app/store';
+import {
+	useTrackUploadStore,
+	type UploadPartProgress,
+} from '@/stores/track-upload/store';
 import { notifications } from '@/lib/notifications';
+import { isSupportedAudioFile } from '@/lib/utils';
 
 type UseFileUploadOptions = {
 	onSuccess?: (data: any) => void;
 	onError?: (error: Error) => void;
 };
 
+// Parts uploaded side by side
+const PART_CONCURRENCY = 3;
+// Attempts per part before the upload stops and waits for a manual retry
+const MAX_PART_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const isAbortError = (error: unknown) =>
+	error instanceof DOMException && error.name === 'AbortError';
+
+const wait = (ms: number, signal: AbortSignal) =>
+	new Promise<void>((resolve, reject) => {
+		const timeout = setTimeout(resolve, ms);
+		signal.addEventListener(
+			'abort',
+			() => {
+				clearTimeout(timeout);
+				reject(new DOMException('Aborted', 'AbortError'));
+			},
+			{ once: true }
+		);
+	});
+
+const buildParts = (file: File, session: UploadSession): UploadPartProgress[] =>
+	Array.from({ length: session.partCount }, (_, index) => ({
+		partNumber: index + 1,
+		size: Math.min(session.partSize, file.size - index * session.partSize),
+		loaded: 0,
+		status: 'pending',
+	}));
+
+/**
+ * Upload audio files in parts so large files can be paused, resumed and
+ * retried without starting over. The upload state lives in the track upload
+ * store, so every caller of this hook controls the same upload.
+ */
 export function useFileUpload(options?: UseFileUploadOptions) {
 	const { updateProjectId, setAudio } = useAppStore.getState();
+	const uploadPhase = useTrackUploadStore((state) => state.uploadPhase);
+	const uploadError = useTrackUploadStore((state) => state.uploadError);
+
+	const uploadPartWithRetry = async (
+		file: File,
+		session: UploadSession,
+		part: UploadPartProgress,
+		signal: AbortSignal
+	) => {
+		const { updateUploadPart } = useTrackUploadStore.getState();
+		const start = (part.partNumber - 1) * session.partSize;
+		const blob = file.slice(start, start + part.size);
+
+		for (let attempt = 1; ; attempt++) {
+			updateUploadPart(part.partNumber, { status: 'uploading', loaded: 0 });
+			try {
+				await uploadPart(session.uploadId, part.partNumber, blob, {
+					signal,
+					onProgress: (loaded) =>
+						updateUploadPart(part.partNumber, { loaded }),
+				});
+				updateUploadPart(part.partNumber, {
+					status: 'done',
+					loaded: part.size,
+				});
+				return;
+			} catch (error) {
+				if (isAbortError(error)) {
+					updateUploadPart(part.partNumber, { status: 'pending', loaded: 0 });
+					throw error;
+				}
+				if (attempt >= MAX_PART_ATTEMPTS) {
+					updateUploadPart(part.partNumber, { status: 'error', loaded: 0 });
+					throw error;
+				}
+				await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+			}
+		}
+	};
+
+	/**
+	 * Start or continue the active upload: creates the server session if
+	 * needed, asks the server which parts it already has and sends the rest
+	 */
+	const runUpload = async () => {
+		const store = useTrackUploadStore.getState();
+		const upload = store.activeUpload;
+		if (!upload) return;
+
+		const controller = new AbortController();
+		store.setActiveUpload({ ...upload, controller });
+		store.setUploadPhase('uploading');
+		store.setUploadError(null);
+
+		try {
+			let session = upload.session;
+			let uploadedParts: number[] = [];
+
+			if (session) {
+				try {
+					({ uploadedParts } = await getUploadStatus(session.uploadId));
+				} catch (error) {
+					// The session expired, start over
+					if (!(error instanceof ApiError && error.status === 404)) {
+						throw error;
+					}
+					session = undefined;
+				}
+			}
+			if (!session) {
+				session = await initiateUpload(upload.file);
+				uploadedParts = [];
+			}
+
+			useTrackUploadStore.getState().setActiveUpload({
+				...upload,
+				session,
+				controller,
+			});
+			store.setUploadParts(
+				buildParts(upload.file, session).map((part) =>
+					uploadedParts.includes(part.partNumber)
+						? { ...part, loaded: part.size, status: 'done' }
+						: part
+				)
+			);
+
+			const queue = useTrackUploadStore
+				.getState()
+				.uploadParts.filter((part) => part.status !== 'done');
+			const worker = async () => {
+				for (let part = queue.shift(); part; part = queue.shift()) {
+					await uploadPartWithRetry(
+						upload.file,
+						session,
+						part,
+						controller.signal
+					);
+				}
+			};
+			await Promise.all(
+				Array.from({ length: PART_CONCURRENCY }, () => worker())
+			);
+
+			store.setUploadPhase('completing');
+			const data = await completeUpload(session.uploadId);
 
-	const uploadMutation = useMutation({
-		mutationFn: uploadAudioFile,
-		onSuccess: (data) => {
 			notifications.uploadSuccess(data.message);
+			if (data.embeddedLyrics) {
+				notifications.embeddedLyricsImported(data.embeddedLyrics);
+			}
 			setAudio(data.audioMetadata);
 			updateProjectId(data.projectId);
 			options?.onSuccess?.(data);
-		},
-		onError: (error) => {
-			notifications.uploadError(error as Error);
-			options?.onError?.(error as Error);
-		},
-		retry: false,
-	});
+
+			useTrackUploadStore.setState({
+				activeUpload: null,
+				uploadPhase: 'idle',
+				uploadParts: [],
+			});
+		} catch (error) {
+			// Paused or cancelled
+			if (controller.signal.aborted) return;
+
+			controller.abort(); // stop the parts still in flight
+
+			// Not a failure: the user picks what to do with the stored file
+			if (error instanceof ApiError && error.code === 'DUPLICATE_FILE') {
+				useTrackUploadStore.setState({
+					activeUpload: null,
+					uploadPhase: 'idle',
+					uploadParts: [],
+					duplicateAudio: error.details as DuplicateAudio,
+				});
+				return;
+			}
+
+			const uploadFailure =
+				error instanceof Error ? error : new Error(String(error));
+			store.setUploadPhase('error');
+			store.setUploadError(uploadFailure.message);
+			notifications.uploadError(uploadFailure);
+			options?.onError?.(uploadFailure);
+		}
+	};
+
+	const uploadFile = (file: File) => {
+		if (!isSupportedAudioFile(file)) {
+			const error = new Error(
+				'Unsupported format. Use MP3, WAV, FLAC, M4A/AAC or OGG.'
+			);
+			notifications.uploadError(error);
+			options?.onError?.(error);
+			return;
+		}
+
+		useTrackUploadStore.getState().setActiveUpload({ file });
+		void runUpload();
+	};
+
+	const pauseUpload = () => {
+		const { activeUpload, setUploadPhase } = useTrackUploadStore.getState();
+		if (!activeUpload?.controller) return;
+		activeUpload.controller.abort();
+		setUploadPhase('paused');
+	};
+
+	const resumeUpload = () => {
+		void runUpload();
+	};
+
+	const reset = () => {
+		const { activeUpload } = useTrackUploadStore.getState();
+		activeUpload?.controller?.abort();
+		if (activeUpload?.session) {
+			abortUpload(activeUpload.session.uploadId).catch((error) =>
+				console.error('Failed to abort upload:', error)
+			);
+		}
+		useTrackUploadStore.setState({
+			activeUpload: null,
+			uploadPhase: 'idle',
+			uploadParts: [],
+			uploadError: null,
+		});
+	};
 
 	return {
-		uploadFile: uploadMutation.mutate,
-		isUploading: uploadMutation.isPending,
-		uploadError: uploadMutation.error,
-		reset: uploadMutation.reset,
+		uploadFile,
+		isUploading: uploadPhase !== 'idle',
+		uploadPhase,
+		uploadError,
+		pauseUpload,
+		resumeUpload,
+		retryUpload: resumeUpload,
+		cancelUpload: reset,
+		reset,
 	};
 }
@@ -16,12 +16,6 @@ export function useGetAudio(
 
 	useEffect(() => {
 		if (query.isSuccess && query.data) {
-			// Store audio metadata to localStorage
-			localStorage.setItem(
-				'currentAudioMetadata',
-				JSON.stringify(query.data)
-			);
-
 			onSuccess?.(query.data);
 		}
 	}, [query.isSuccess]);
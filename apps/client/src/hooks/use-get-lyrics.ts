@@ -9,6 +9,7 @@ export type Lyrics = {
 	text: string;
 	projectId: string;
 	lines: LyricLine[];
+	etag?: string;
 };
 
 export type UseGetLyricsOptions = {
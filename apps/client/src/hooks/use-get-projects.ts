@@ -1,10 +1,18 @@
-import { useQuery } from '@tanstack/react-query';
-import { getAllProjects } from '../data/api';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { getProjects, type ProjectFilters } from '../data/api';
 
-export function useGetProjects({ enabled = true }: { enabled: boolean }) {
-	return useQuery({
-		queryKey: ['projects'],
-		queryFn: getAllProjects,
+export function useGetProjects({
+	enabled = true,
+	filters = {},
+}: {
+	enabled: boolean;
+	filters?: ProjectFilters;
+}) {
+	return useInfiniteQuery({
+		queryKey: ['projects', filters],
+		queryFn: ({ pageParam }) => getProjects(filters, pageParam),
+		initialPageParam: null as string | null,
+		getNextPageParam: (lastPage) => lastPage.nextCursor,
 		enabled,
 		refetchOnWindowFocus: false,
 	});
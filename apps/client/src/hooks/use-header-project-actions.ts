@@ -4,8 +4,11 @@ import { useState } from "react";
 import { useDeleteProject } from "./use-delete-project";
 
 type UseHeaderProjectActionsReturn = {
-    handleProjectSelected: (project: Project) => void;
+    handleProjectSelected: (project: Pick<Project, 'id' | 'audioId'>) => void;
     handleProjectDelete: (projectId: string) => void;
+    handleProjectShare: (project: Project) => void;
+    closeShareDialog: () => void;
+    projectToShare: Project | null;
     confirmDelete: (e: { preventDefault: () => void }) => void;
     cancelDelete: () => void;
     showDeleteDialog: boolean;
@@ -17,6 +20,7 @@ export const useHeaderProjectActions = (): UseHeaderProjectActionsReturn => {
 	const { setAudio, updateProjectId } = useAppStore.getState();
 	const [showDeleteDialog, setShowDeleteDialog] = useState(false);
 	const [projectToDelete, setProjectToDelete] = useState<string | null>(null);
+	const [projectToShare, setProjectToShare] = useState<Project | null>(null);
 
 	const deleteProjectMutation = useDeleteProject({
 		onSuccess: () => {
@@ -25,7 +29,7 @@ export const useHeaderProjectActions = (): UseHeaderProjectActionsReturn => {
 		},
 	});
 
-	const handleProjectSelected = (project: Project) => {
+	const handleProjectSelected = (project: Pick<Project, 'id' | 'audioId'>) => {
 		updateProjectId(project.id);
 		if (project.audioId.includes('youtube')) {
 			setAudio({
@@ -41,6 +45,14 @@ export const useHeaderProjectActions = (): UseHeaderProjectActionsReturn => {
 		setShowDeleteDialog(true);
 	};
 
+	const handleProjectShare = (project: Project) => {
+		setProjectToShare(project);
+	};
+
+	const closeShareDialog = () => {
+		setProjectToShare(null);
+	};
+
 	const confirmDelete = (e: { preventDefault: () => void }) => {
 		e.preventDefault();
 		if (projectToDelete) {
@@ -56,6 +68,9 @@ export const useHeaderProjectActions = (): UseHeaderProjectActionsReturn => {
 	return {
 		handleProjectSelected,
 		handleProjectDelete,
+		handleProjectShare,
+		closeShareDialog,
+		projectToShare,
 		confirmDelete,
 		cancelDelete,
 		showDeleteDialog,
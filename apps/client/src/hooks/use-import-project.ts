@@ -0,0 +1,32 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { importProjectBundle } from '@/data/api';
+import { useAppStore } from '@/stores/app/store';
+
+// Import a .chantastik.zip bundle and open the new project
+export function useImportProject() {
+	const queryClient = useQueryClient();
+
+	const mutation = useMutation({
+		mutationKey: ['importProject'],
+		mutationFn: importProjectBundle,
+		retry: false,
+		onSuccess: (data) => {
+			const { setAudio, updateProjectId } = useAppStore.getState();
+			setAudio({ id: data.audioId });
+			updateProjectId(data.projectId);
+			queryClient.invalidateQueries({ queryKey: ['projects'] });
+			toast.success('Project imported', {
+				description: 'The project and its lyrics history are ready',
+			});
+		},
+		onError: (error) => {
+			toast.error('Import failed', { description: error.message });
+		},
+	});
+
+	return {
+		importProject: mutation.mutate,
+		isImporting: mutation.isPending,
+	};
+}
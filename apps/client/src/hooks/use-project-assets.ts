@@ -0,0 +1,132 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+	deleteAsset,
+	getAssets,
+	getAssetUrl,
+	updateRenderAssets,
+	uploadAsset,
+	type Asset,
+	type RenderAssetSlot,
+	type RenderAssets,
+} from '@/data/api';
+import { useWorkspaces } from './use-workspaces';
+import { useCurrentProject } from './use-current-project';
+
+/**
+ * Sources the lyric video uses instead of the cover art and default font
+ */
+export type RenderAssetSources = {
+	backgroundImage?: string;
+	backgroundVideo?: string;
+	logoImage?: string;
+	fontUrl?: string;
+};
+
+export const useProjectAssets = () => {
+	const queryClient = useQueryClient();
+	const { projectId, project } = useCurrentProject();
+	const { can } = useWorkspaces();
+
+	// Assets come from the library of the project, not the current workspace
+	const workspaceId = project?.workspaceId;
+	const { data: assets = [], isLoading } = useQuery({
+		queryKey: ['assets', workspaceId ?? null],
+		queryFn: () => getAssets(workspaceId),
+		enabled: !!project,
+		retry: false,
+		refetchOnWindowFocus: false,
+	});
+
+	const renderAssets = useMemo<RenderAssets>(
+		() => project?.renderAssets ?? {},
+		[project]
+	);
+
+	const uploadMutation = useMutation({
+		mutationKey: ['uploadAsset'],
+		mutationFn: (file: File) => uploadAsset(file, workspaceId),
+		retry: false,
+		onSuccess: (asset) => {
+			queryClient.invalidateQueries({ queryKey: ['assets'] });
+			toast.success('Asset uploaded', { description: asset.filename });
+		},
+		onError: (error) => {
+			toast.error('Asset upload failed', { description: error.message });
+		},
+	});
+
+	const deleteMutation = useMutation({
+		mutationKey: ['deleteAsset'],
+		mutationFn: deleteAsset,
+		retry: false,
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['assets'] });
+		},
+		onError: (error) => {
+			toast.error('Asset deletion failed', {
+				description: error.message,
+			});
+		},
+	});
+
+	const slotMutation = useMutation({
+		mutationKey: ['updateRenderAssets'],
+		mutationFn: (next: RenderAssets) =>
+			updateRenderAssets(projectId!, next),
+		retry: false,
+		onSuccess: (updated) => {
+			queryClient.setQueryData(['project', projectId], updated);
+		},
+		onError: (error) => {
+			toast.error('Could not update the video assets', {
+				description: error.message,
+			});
+		},
+	});
+
+	const sources = useMemo<RenderAssetSources>(() => {
+		const byId = new Map(assets.map((asset) => [asset.id, asset]));
+		const background = renderAssets.background
+			? byId.get(renderAssets.background)
+			: undefined;
+		const url = (id?: string) =>
+			id && byId.has(id) ? getAssetUrl(id) : undefined;
+
+		return {
+			backgroundImage:
+				background?.kind === 'image'
+					? getAssetUrl(background.id)
+					: undefined,
+			backgroundVideo:
+				background?.kind === 'video'
+					? getAssetUrl(background.id)
+					: undefined,
+			logoImage: url(renderAssets.logo),
+			fontUrl: url(renderAssets.font),
+		};
+	}, [assets, renderAssets]);
+
+	// Picking the asset already in a slot clears the slot
+	const toggleSlot = (slot: RenderAssetSlot, asset: Asset) => {
+		const next = { ...renderAssets };
+		if (next[slot] === asset.id) delete next[slot];
+		else next[slot] = asset.id;
+		slotMutation.mutate(next);
+	};
+
+	return {
+		assets,
+		renderAssets,
+		sources,
+		isLoading,
+		canEdit: !!project && can('editProject'),
+		canDelete: can('deleteProject'),
+		uploadAsset: uploadMutation.mutate,
+		deleteAsset: deleteMutation.mutate,
+		toggleSlot,
+		isUploading: uploadMutation.isPending,
+		isUpdating: slotMutation.isPending,
+	};
+};
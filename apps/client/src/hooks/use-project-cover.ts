@@ -0,0 +1,104 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+	getAudioMetadata,
+	getProjectCoverOriginalUrl,
+	getProjectCoverUrl,
+	removeProjectCover,
+	saveProjectCover,
+	type CoverCrop,
+	type Project,
+} from '@/data/api';
+import { useAppStore } from '@/stores/app/store';
+import { useCurrentProject } from './use-current-project';
+
+export const DEFAULT_COVER_CROP: CoverCrop = { x: 0.5, y: 0.5, size: 1 };
+
+export const useProjectCover = ({
+	onSaved,
+}: { onSaved?: () => void } = {}) => {
+	const queryClient = useQueryClient();
+	const { projectId, project } = useCurrentProject();
+	const audio = useAppStore((state) => state.audio);
+
+	// Shares its cache with useGetAudio
+	const { data: audioMetadata } = useQuery({
+		queryKey: ['audioMetadata', audio?.id],
+		queryFn: () => getAudioMetadata(audio?.id || ''),
+		enabled: !!audio?.id && !audio.id.startsWith('youtube-virtual-'),
+		retry: false,
+		refetchOnWindowFocus: false,
+	});
+
+	const cover = project?.cover;
+	// Without any cover the themes fall back to their plain background
+	// instead of loading an image that does not exist
+	const hasCover =
+		!!cover ||
+		!!audio?.id?.startsWith('youtube-virtual-') ||
+		!!(audioMetadata?.coverArt ?? audio?.coverArt);
+
+	const coverUrl = (size?: number) =>
+		projectId && hasCover
+			? getProjectCoverUrl(
+					projectId,
+					size,
+					cover?.updatedAt ?? audio?.updatedAt
+				)
+			: null;
+
+	const updateProject = (next: Partial<Project>) => {
+		queryClient.setQueryData<Project>(['project', projectId], (current) =>
+			current ? { ...current, ...next } : current
+		);
+		queryClient.invalidateQueries({ queryKey: ['projects'] });
+	};
+
+	const saveMutation = useMutation({
+		mutationKey: ['saveProjectCover'],
+		mutationFn: ({ crop, file }: { crop: CoverCrop; file?: File | null }) =>
+			saveProjectCover(projectId!, crop, file),
+		retry: false,
+		onSuccess: (saved) => {
+			updateProject({ cover: saved });
+			toast.success('Cover art saved');
+			onSaved?.();
+		},
+		onError: (error) => {
+			toast.error('Saving cover art failed', {
+				description: error.message,
+			});
+		},
+	});
+
+	const removeMutation = useMutation({
+		mutationKey: ['removeProjectCover'],
+		mutationFn: () => removeProjectCover(projectId!),
+		retry: false,
+		onSuccess: () => {
+			updateProject({ cover: undefined });
+			toast.success('Cover art removed', {
+				description: 'The embedded cover art is used again',
+			});
+			onSaved?.();
+		},
+		onError: (error) => {
+			toast.error('Removing cover art failed', {
+				description: error.message,
+			});
+		},
+	});
+
+	return {
+		cover,
+		hasCover,
+		coverUrl,
+		originalUrl:
+			projectId && cover
+				? getProjectCoverOriginalUrl(projectId, cover.updatedAt)
+				: null,
+		saveCover: saveMutation.mutate,
+		removeCover: () => removeMutation.mutate(),
+		isSaving: saveMutation.isPending || removeMutation.isPending,
+	};
+};
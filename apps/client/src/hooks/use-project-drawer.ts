@@ -1,28 +1,84 @@
-import { useRef } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
 import { useGetProjects } from '@/hooks/use-get-projects';
-import { type Project } from '@/data/api';
+import {
+	getProjectExportSize,
+	getProjectExportUrl,
+	type Project,
+	type ProjectFilters,
+} from '@/data/api';
 import { useRemoveCurrentAudio } from './use-remove-current-audio';
+import { useWorkspaces } from './use-workspaces';
+import { useDuplicateProject } from './use-duplicate-project';
 
 type UseProjectDrawerProps = {
 	onProjectSelected: (project: Project) => void;
 	onDeleteProject: (projectId: string) => void;
+	onShareProject?: (project: Project) => void;
 };
 
 export const useProjectDrawer = ({
 	onProjectSelected,
 	onDeleteProject,
+	onShareProject,
 }: UseProjectDrawerProps) => {
 	const closeRef = useRef<HTMLButtonElement>(null);
+	// Callback ref, the sentinel only mounts once the drawer is open
+	const [loadMoreSentinel, loadMoreRef] = useState<HTMLDivElement | null>(
+		null
+	);
+	const [filters, setFilters] = useState<ProjectFilters>({});
 
 	const { handleRemoveAudio } = useRemoveCurrentAudio();
+	const {
+		workspaces,
+		currentWorkspace,
+		currentWorkspaceId,
+		selectWorkspace,
+		createWorkspace,
+		isCreating: isCreatingWorkspace,
+		can,
+	} = useWorkspaces();
+
+	const query = useMemo(
+		() => ({ ...filters, workspaceId: currentWorkspaceId ?? undefined }),
+		[filters, currentWorkspaceId]
+	);
 
 	const {
-		data: projects,
+		data,
 		isLoading,
 		error,
 		refetch,
 		isFetching,
-	} = useGetProjects({ enabled: true });
+		fetchNextPage,
+		hasNextPage,
+		isFetchingNextPage,
+	} = useGetProjects({ enabled: true, filters: query });
+
+	const projects = data?.pages.flatMap((page) => page.projects);
+
+	// Load the next page once the sentinel below the grid scrolls into view
+	useEffect(() => {
+		if (!loadMoreSentinel || !hasNextPage) return;
+
+		const observer = new IntersectionObserver((entries) => {
+			if (entries[0]?.isIntersecting && !isFetchingNextPage) {
+				fetchNextPage();
+			}
+		});
+		observer.observe(loadMoreSentinel);
+
+		return () => observer.disconnect();
+	}, [loadMoreSentinel, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+	const updateFilters = useCallback((changes: Partial<ProjectFilters>) => {
+		setFilters((current) => ({ ...current, ...changes }));
+	}, []);
+
+	const clearFilters = useCallback(() => {
+		setFilters((current) => ({ sort: current.sort }));
+	}, []);
 
 	const handleProjectSelect = (project: Project) => {
 		handleRemoveAudio(); // Clear current audio when selecting a new project
@@ -30,11 +86,51 @@ export const useProjectDrawer = ({
 		closeRef.current?.click();
 	};
 
+	// The copy opens once it exists
+	const duplicateMutation = useDuplicateProject({
+		onSuccess: (project) => handleProjectSelect(project),
+	});
+
+	const handleProjectDuplicate = (project: Project) => {
+		duplicateMutation.mutate(project);
+	};
+
 	const handleProjectDelete = (projectId: string) => {
 		onDeleteProject(projectId);
 		closeRef.current?.click();
 	};
 
+	const handleProjectShare = (project: Project) => {
+		onShareProject?.(project);
+		closeRef.current?.click();
+	};
+
+	// The browser downloads the bundle, the drawer stays open. Bundles an
+	// import would reject are not offered for download.
+	const handleProjectExport = async (project: Project) => {
+		try {
+			const { size, maxSize } = await getProjectExportSize(project.id);
+			if (size > maxSize) {
+				toast.error('Project is too large to export', {
+					description: `Bundles are limited to ${Math.round(maxSize / (1024 * 1024))} MB so they can be imported again.`,
+				});
+				return;
+			}
+		} catch (error) {
+			toast.error('Export failed', {
+				description:
+					error instanceof Error ? error.message : 'Unknown error',
+			});
+			return;
+		}
+
+		const link = document.createElement('a');
+		link.href = getProjectExportUrl(project.id);
+		document.body.appendChild(link);
+		link.click();
+		document.body.removeChild(link);
+	};
+
 	const formatDate = (dateString: string) => {
 		return new Date(dateString).toLocaleDateString('en-US', {
 			month: 'short',
@@ -50,8 +146,28 @@ export const useProjectDrawer = ({
 		closeRef,
 		handleProjectSelect,
 		handleProjectDelete,
+		handleProjectShare,
+		handleProjectExport,
+		handleProjectDuplicate,
+		isDuplicating: duplicateMutation.isPending,
 		formatDate,
 		refetch,
 		isFetching,
+		filters,
+		updateFilters,
+		clearFilters,
+		loadMoreRef,
+		hasNextPage,
+		isFetchingNextPage,
+		workspaces,
+		currentWorkspace,
+		currentWorkspaceId,
+		selectWorkspace,
+		createWorkspace,
+		isCreatingWorkspace,
+		canDeleteProjects: can('deleteProject'),
+		canShareProjects: !!onShareProject && can('editProject'),
+		canExportProjects: can('reviewLyrics'),
+		canDuplicateProjects: can('editProject'),
 	};
 };
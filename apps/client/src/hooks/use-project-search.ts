@@ -0,0 +1,96 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { searchProjects, type Project, type SearchHit } from '@/data/api';
+import { useAppStore } from '@/stores/app/store';
+import { useAudioRefContext } from './use-audio-ref-context';
+import { useVideoRefContext } from './use-video-ref-context';
+import { useRemoveCurrentAudio } from './use-remove-current-audio';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+type PendingJump = { projectId: string; lineId: number };
+
+type UseProjectSearchProps = {
+	onProjectSelected: (project: Pick<Project, 'id' | 'audioId'>) => void;
+};
+
+export const useProjectSearch = ({
+	onProjectSelected,
+}: UseProjectSearchProps) => {
+	const { audioRef } = useAudioRefContext();
+	const { videoRef } = useVideoRefContext();
+	const { handleRemoveAudio } = useRemoveCurrentAudio();
+
+	const [query, setQuery] = useState('');
+	const [debouncedQuery, setDebouncedQuery] = useState('');
+	const [open, setOpen] = useState(false);
+	const [pendingJump, setPendingJump] = useState<PendingJump | null>(null);
+
+	const currentProjectId = useAppStore((state) => state.projectId);
+	const lyricLines = useAppStore((state) => state.lyricLines);
+
+	useEffect(() => {
+		const timeout = setTimeout(
+			() => setDebouncedQuery(query.trim()),
+			SEARCH_DEBOUNCE_MS
+		);
+		return () => clearTimeout(timeout);
+	}, [query]);
+
+	const {
+		data: hits,
+		isFetching,
+		error,
+	} = useQuery({
+		queryKey: ['search', debouncedQuery],
+		queryFn: ({ signal }) => searchProjects(debouncedQuery, signal),
+		enabled: debouncedQuery.length >= 2,
+		staleTime: 30_000,
+		refetchOnWindowFocus: false,
+	});
+
+	// Jump once the selected project's lyrics have been loaded into the editor
+	useEffect(() => {
+		if (!pendingJump || pendingJump.projectId !== currentProjectId) return;
+		if (!lyricLines.some((line) => line.id === pendingJump.lineId)) return;
+
+		const { jumpToLyricLine } = useAppStore.getState();
+		const jump = () =>
+			jumpToLyricLine({ id: pendingJump.lineId, audioRef, videoRef });
+
+		setPendingJump(null);
+
+		// Seeking before the metadata is known is ignored by the element
+		const audio = audioRef.current;
+		if (audio && audio.readyState === 0) {
+			audio.addEventListener('loadedmetadata', jump, { once: true });
+		} else {
+			jump();
+		}
+	}, [pendingJump, currentProjectId, lyricLines, audioRef, videoRef]);
+
+	const handleHitSelect = (hit: SearchHit) => {
+		setOpen(false);
+		setQuery('');
+
+		if (hit.projectId !== currentProjectId) {
+			handleRemoveAudio();
+			onProjectSelected({ id: hit.projectId, audioId: hit.audioId });
+		}
+
+		if (hit.lineId !== undefined) {
+			setPendingJump({ projectId: hit.projectId, lineId: hit.lineId });
+		}
+	};
+
+	return {
+		query,
+		setQuery,
+		open,
+		setOpen,
+		hits: debouncedQuery.length >= 2 ? hits : undefined,
+		isSearching: isFetching,
+		error,
+		handleHitSelect,
+	};
+};
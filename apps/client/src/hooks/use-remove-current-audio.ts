@@ -36,8 +36,9 @@ export function useRemoveCurrentAudio() {
 		// Reset all related states
 		setTrackLoaded(false);
 		resetAllStatesAndPlayers();
-		resetTrackUpload();
+		// Cancel an upload in progress before the store forgets about it
 		resetFileUpload();
+		resetTrackUpload();
 		resetAudioPlayer();
 	};
 
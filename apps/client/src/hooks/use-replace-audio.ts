@@ -0,0 +1,62 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+	replaceAudioFile,
+	type ReplaceAudioOptions,
+	type ReplaceAudioResponse,
+} from '@/data/api';
+import { useAppStore } from '@/stores/app/store';
+
+const formatDifference = (seconds: number) =>
+	`${seconds >= 0 ? '+' : '-'}${Math.abs(seconds).toFixed(1)}s`;
+
+export function useReplaceAudio({
+	onSuccess,
+}: { onSuccess?: (data: ReplaceAudioResponse) => void } = {}) {
+	const queryClient = useQueryClient();
+	const setAudio = useAppStore((state) => state.setAudio);
+
+	return useMutation({
+		mutationKey: ['replaceAudio'],
+		mutationFn: ({
+			audioId,
+			file,
+			options,
+		}: {
+			audioId: string;
+			file: File;
+			options?: ReplaceAudioOptions;
+		}) => replaceAudioFile(audioId, file, options),
+		retry: false,
+		onSuccess: (data, variables) => {
+			setAudio(data.audioMetadata);
+			queryClient.invalidateQueries({
+				queryKey: ['audioMetadata', variables.audioId],
+			});
+			queryClient.invalidateQueries({ queryKey: ['projects'] });
+			for (const { projectId } of data.lyrics) {
+				queryClient.invalidateQueries({ queryKey: ['lyrics', projectId] });
+			}
+
+			const { difference } = data.duration;
+			toast.success('Audio replaced', {
+				description: [
+					difference !== null &&
+						`Duration changed by ${formatDifference(difference)}.`,
+					data.lyrics.length === 1 &&
+						`Lyrics retimed as version ${data.lyrics[0].version}.`,
+					data.lyrics.length > 1 &&
+						`Lyrics retimed in ${data.lyrics.length} projects.`,
+				]
+					.filter(Boolean)
+					.join(' '),
+			});
+			onSuccess?.(data);
+		},
+		onError: (error) => {
+			toast.error('Replacing audio failed', {
+				description: error.message,
+			});
+		},
+	});
+}
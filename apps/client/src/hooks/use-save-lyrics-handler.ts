@@ -1,11 +1,44 @@
 import { useAppStore } from "@/stores/app/store";
 import { useSaveLyrics } from "./use-save-lyrics";
 import { toast } from "sonner";
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { LyricsConflictError, type LyricsRecord } from "@/data/api";
+import type { LyricLine } from "@/data/types";
 
 export const useSaveLyricsHandler = () => {
     const currentProjectId = useAppStore((state) => state.projectId);
     const lyricLines = useAppStore((state) => state.lyricLines);
     const saveLyricsMutation = useSaveLyrics();
+    const queryClient = useQueryClient();
+    const [conflict, setConflict] = useState<LyricsRecord | null>(null);
+    const [showConflictDialog, setShowConflictDialog] = useState(false);
+
+    const saveLines = async (
+        projectId: string,
+        lines: LyricLine[],
+        etag?: string
+    ) => {
+        try {
+            // Convert lyric lines to text format
+            const text = lines.map((line) => line.text).join('\n');
+
+            await saveLyricsMutation.mutateAsync({
+                projectId,
+                text,
+                lines,
+                etag,
+            });
+        } catch (error) {
+            if (error instanceof LyricsConflictError) {
+                setConflict(error.current);
+                setShowConflictDialog(true);
+                return;
+            }
+            // Error handling is done in the mutation hook
+            console.error('Failed to save lyrics:', error);
+        }
+    };
 
     const handleSaveLyrics = async () => {
         if (!currentProjectId) {
@@ -22,23 +55,43 @@ export const useSaveLyricsHandler = () => {
             return;
         }
 
-        try {
-            // Convert lyric lines to text format
-            const text = lyricLines.map((line) => line.text).join('\n');
+        // Send the version we loaded so the server can detect concurrent edits
+        const loaded = queryClient.getQueryData<LyricsRecord>([
+            'lyrics',
+            currentProjectId,
+        ]);
 
-            await saveLyricsMutation.mutateAsync({
-                projectId: currentProjectId,
-                text,
-                lines: lyricLines,
-            });
-        } catch (error) {
-            // Error handling is done in the mutation hook
-            console.error('Failed to save lyrics:', error);
+        await saveLines(currentProjectId, lyricLines, loaded?.etag);
+    };
+
+    const closeConflictDialog = () => {
+        setShowConflictDialog(false);
+        setConflict(null);
+    };
+
+    const handleOverwriteLyrics = async (e: { preventDefault: () => void }) => {
+        e.preventDefault();
+        if (!currentProjectId) return;
+
+        const etag = conflict?.etag;
+        closeConflictDialog();
+        await saveLines(currentProjectId, lyricLines, etag);
+    };
+
+    const handleUseServerLyrics = () => {
+        if (currentProjectId && conflict) {
+            // Replacing the cached lyrics lets useLyricSync load them into the editor
+            queryClient.setQueryData(['lyrics', currentProjectId], conflict);
         }
+        closeConflictDialog();
     };
 
     return {
         handleSaveLyrics,
         saveLyricsMutation,
+        showConflictDialog,
+        handleOverwriteLyrics,
+        handleUseServerLyrics,
+        closeConflictDialog,
     };
-}
\ No newline at end of file
+}
@@ -6,19 +6,21 @@ type SaveLyricsParams = {
 	projectId: string;
 	text: string;
 	lines: LyricLine[];
+	etag?: string;
 };
 
 type SaveLyricsResponse = {
 	lyricsId: string;
 	projectId: string;
+	etag?: string;
 };
 
 export const useSaveLyrics = () => {
 	const queryClient = useQueryClient();
 
 	return useMutation<SaveLyricsResponse, Error, SaveLyricsParams>({
-		mutationFn: async ({ projectId, text, lines }) => {
-			return await saveLyrics(projectId, { text, lines });
+		mutationFn: async ({ projectId, text, lines, etag }) => {
+			return await saveLyrics(projectId, { text, lines }, etag);
 		},
 		onSuccess: (data, variables) => {
 			// Invalidate and refetch project data
@@ -37,6 +39,7 @@ export const useSaveLyrics = () => {
 				projectId: data.projectId,
 				text: variables.text,
 				lines: variables.lines,
+				etag: data.etag,
 				createdAt: new Date().toISOString(),
 				updatedAt: new Date().toISOString(),
 			});
@@ -0,0 +1,77 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+	getEmbedCode,
+	getShareUrl,
+	revokeProjectShare,
+	shareProject,
+	type Project,
+	type ProjectShare,
+} from '@/data/api';
+
+export const useShareProject = (project: Project | null) => {
+	const queryClient = useQueryClient();
+	const [share, setShare] = useState<ProjectShare | undefined>(
+		project?.share
+	);
+
+	// The dialog is reused for every project
+	useEffect(() => {
+		setShare(project?.share);
+	}, [project]);
+
+	const shareMutation = useMutation({
+		mutationKey: ['shareProject'],
+		mutationFn: shareProject,
+		retry: false,
+		onSuccess: (data) => {
+			setShare(data);
+			queryClient.invalidateQueries({ queryKey: ['projects'] });
+		},
+		onError: (error) => {
+			toast.error('Sharing failed', { description: error.message });
+		},
+	});
+
+	const revokeMutation = useMutation({
+		mutationKey: ['revokeProjectShare'],
+		mutationFn: revokeProjectShare,
+		retry: false,
+		onSuccess: () => {
+			setShare(undefined);
+			queryClient.invalidateQueries({ queryKey: ['projects'] });
+			toast.success('Share link revoked', {
+				description: 'The old link no longer works',
+			});
+		},
+		onError: (error) => {
+			toast.error('Revoking failed', { description: error.message });
+		},
+	});
+
+	const shareUrl = share ? getShareUrl(share.token) : null;
+	const embedCode = share ? getEmbedCode(share.token) : null;
+
+	const copy = async (text: string | null, label: string) => {
+		if (!text) return;
+		try {
+			await navigator.clipboard.writeText(text);
+			toast.success(`${label} copied`);
+		} catch {
+			toast.error('Copy failed', {
+				description: 'Select the text and copy it manually',
+			});
+		}
+	};
+
+	return {
+		shareUrl,
+		embedCode,
+		createLink: () => project && shareMutation.mutate(project.id),
+		revokeLink: () => project && revokeMutation.mutate(project.id),
+		copyLink: () => copy(shareUrl, 'Link'),
+		copyEmbedCode: () => copy(embedCode, 'Embed code'),
+		isPending: shareMutation.isPending || revokeMutation.isPending,
+	};
+};
@@ -0,0 +1,12 @@
+import { useQuery } from '@tanstack/react-query';
+import { getSharedProject } from '@/data/api';
+
+export function useSharedProject(token: string) {
+	return useQuery({
+		queryKey: ['share', token],
+		queryFn: () => getSharedProject(token),
+		enabled: !!token,
+		retry: false,
+		refetchOnWindowFocus: false,
+	});
+}
@@ -3,7 +3,9 @@ import { useGetAudio } from '@/hooks/use-get-audio';
 import { useFileUpload } from '@/hooks/use-file-upload';
 import { useTrackUploadStore } from '@/stores/track-upload/store';
 import { useAppStore } from '@/stores/app/store';
+import { isProjectBundleFile } from '@/lib/utils';
 import { useRemoveCurrentAudio } from './use-remove-current-audio';
+import { useImportProject } from './use-import-project';
 
 export function useTrackUpload() {
 	const fileInputRef = useRef<HTMLInputElement>(null);
@@ -29,6 +31,7 @@ export function useTrackUpload() {
 		handleDrop,
 		toggleRetracted,
 	} = useTrackUploadStore();
+	const uploadParts = useTrackUploadStore((state) => state.uploadParts);
 
 	// Fetch audio metadata using TanStack Query
 	const { data: audioMetadata, isLoading: isLoadingAudioMetadata } =
@@ -37,11 +40,27 @@ export function useTrackUpload() {
 		});
 
 	// File upload mutation
-	const { uploadFile, isUploading: fileUploadLoading } = useFileUpload();
+	const {
+		uploadFile,
+		isUploading: fileUploadLoading,
+		uploadPhase,
+		uploadError,
+		pauseUpload,
+		resumeUpload,
+		retryUpload,
+		cancelUpload,
+	} = useFileUpload();
+
+	// A project bundle becomes a new project instead of an audio upload
+	const { importProject, isImporting } = useImportProject();
 
 	const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		const file = e.target.files?.[0];
-		if (file) {
+		if (file && isProjectBundleFile(file)) {
+			importProject(file);
+			// Picking the same bundle again still fires a change
+			e.target.value = '';
+		} else if (file) {
 			handleFileChange(file);
 			uploadFile(file);
 		}
@@ -55,7 +74,15 @@ export function useTrackUpload() {
 		onDragEnter: handleDragEnter,
 		onDragLeave: handleDragLeave,
 		onDragOver: handleDragOver,
-		onDrop: (e: React.DragEvent) => handleDrop(e, uploadFile),
+		onDrop: (e: React.DragEvent) => {
+			const file = e.dataTransfer.files?.[0];
+			if (file && isProjectBundleFile(file)) {
+				handleDragLeave(e);
+				importProject(file);
+				return;
+			}
+			handleDrop(e, uploadFile);
+		},
 	};
 
 	return {
@@ -66,9 +93,12 @@ export function useTrackUpload() {
 		isRetracted,
 		audio,
 		audioMetadata,
-		isUploading: isUploading || fileUploadLoading,
+		isUploading: isUploading || fileUploadLoading || isImporting,
 		isLoadingAudioMetadata,
 		fileInputRef,
+		uploadPhase,
+		uploadParts,
+		uploadError,
 
 		// Actions
 		handleInputChange,
@@ -76,6 +106,10 @@ export function useTrackUpload() {
 		handleBrowseClick,
 		toggleRetracted,
 		setShowConfirmDialog,
+		pauseUpload,
+		resumeUpload,
+		retryUpload,
+		cancelUpload,
 
 		// Drag handlers
 		dragHandlers,
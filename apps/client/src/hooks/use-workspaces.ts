@@ -0,0 +1,81 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import {
+	createWorkspace,
+	getWorkspaces,
+	type WorkspacePermission,
+} from '@/data/api';
+import { useAuthStore } from '@/stores/auth/store';
+import { useWorkspaceStore } from '@/stores/workspace/store';
+
+// The personal projects belong to the user alone, who holds every permission
+const PERSONAL_PERMISSIONS: WorkspacePermission[] = [
+	'read',
+	'reviewLyrics',
+	'editLyrics',
+	'editProject',
+	'deleteProject',
+	'manageWorkspace',
+];
+
+export const useWorkspaces = () => {
+	const queryClient = useQueryClient();
+	const token = useAuthStore((state) => state.token);
+	const storedWorkspaceId = useWorkspaceStore(
+		(state) => state.currentWorkspaceId
+	);
+	const { setCurrentWorkspaceId } = useWorkspaceStore.getState();
+
+	const { data: workspaces = [], isSuccess } = useQuery({
+		queryKey: ['workspaces', token],
+		queryFn: getWorkspaces,
+		retry: false,
+		refetchOnWindowFocus: false,
+	});
+
+	const currentWorkspace = workspaces.find(
+		(workspace) => workspace.workspaceId === storedWorkspaceId
+	);
+	// Fall back to the personal projects once the stored workspace turns out
+	// to be gone, e.g. after the user was removed from it
+	const isStale = isSuccess && !!storedWorkspaceId && !currentWorkspace;
+	const currentWorkspaceId = isStale ? null : storedWorkspaceId;
+
+	useEffect(() => {
+		if (isStale) setCurrentWorkspaceId(null);
+	}, [isStale]);
+
+	const createMutation = useMutation({
+		mutationKey: ['createWorkspace'],
+		mutationFn: createWorkspace,
+		retry: false,
+		onSuccess: (workspace) => {
+			queryClient.invalidateQueries({ queryKey: ['workspaces'] });
+			setCurrentWorkspaceId(workspace.workspaceId);
+			toast.success('Workspace created', {
+				description: `Projects you add now go to ${workspace.name}`,
+			});
+		},
+		onError: (error) => {
+			toast.error('Workspace creation failed', {
+				description: error.message,
+			});
+		},
+	});
+
+	const can = (permission: WorkspacePermission) =>
+		(currentWorkspace?.permissions ?? PERSONAL_PERMISSIONS).includes(
+			permission
+		);
+
+	return {
+		workspaces,
+		currentWorkspace,
+		currentWorkspaceId,
+		selectWorkspace: setCurrentWorkspaceId,
+		createWorkspace: (name: string) => createMutation.mutate(name),
+		isCreating: createMutation.isPending,
+		can,
+	};
+};
@@ -1,4 +1,5 @@
 import { toast } from 'sonner';
+import type { EmbeddedLyrics } from '@/data/api';
 
 /**
  * Handles the notification display for API operations
@@ -14,6 +15,11 @@ export const notifications = {
 			description: `Project created successfully with ID: ${projectId}`,
 		});
 	},
+	embeddedLyricsImported: (lyrics: EmbeddedLyrics) => {
+		toast.info('Lyrics imported', {
+			description: `${lyrics.lineCount} ${lyrics.synced ? 'synced' : 'unsynced'} lines were read from the file's tags.`,
+		});
+	},
 
 	uploadError: (error: Error) => {
 		toast.error('Upload failed', {
@@ -5,6 +5,59 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
 	return twMerge(clsx(inputs));
 }
+export const SUPPORTED_AUDIO_EXTENSIONS = [
+	'mp3',
+	'flac',
+	'wav',
+	'm4a',
+	'aac',
+	'ogg',
+	'oga',
+	'opus',
+];
+
+// Value of the file input accept attribute, extensions cover files without a MIME type
+export const AUDIO_ACCEPT = [
+	'audio/*',
+	...SUPPORTED_AUDIO_EXTENSIONS.map((extension) => `.${extension}`),
+].join(',');
+
+export const isSupportedAudioFile = (file: File): boolean => {
+	const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+	return (
+		file.type.startsWith('audio/') ||
+		SUPPORTED_AUDIO_EXTENSIONS.includes(extension)
+	);
+};
+
+// Images, video loops and fonts of the asset library, see the server's assets.ts
+export const ASSET_ACCEPT = [
+	'image/png',
+	'image/jpeg',
+	'image/webp',
+	'image/gif',
+	'video/mp4',
+	'video/webm',
+	'.woff2',
+	'.woff',
+	'.ttf',
+	'.otf',
+].join(',');
+
+// Cover art uploads, the image formats of the asset library
+export const COVER_ACCEPT = [
+	'image/png',
+	'image/jpeg',
+	'image/webp',
+	'image/gif',
+].join(',');
+
+// Project bundles made by the export of a project
+export const PROJECT_BUNDLE_EXTENSION = '.chantastik.zip';
+
+export const isProjectBundleFile = (file: File): boolean =>
+	file.name.toLowerCase().endsWith(PROJECT_BUNDLE_EXTENSION);
+
 export const isValidYoutubeUrl = (url: string): boolean => {
 	const regExp =
 		/^(?:https?:\/\/)?(?:www\.)?(?:youtube\.com\/(?:watch\?v=|embed\/)|youtu\.be\/)([a-zA-Z0-9_-]{11})(?:\S+)?$/;
@@ -52,6 +105,19 @@ export const createTimestampSetter = (
 	};
 };
 
+// Seek a standalone audio element to a line, for players outside the editor store
+export const createLineSeeker = (
+	audioRef: React.RefObject<HTMLAudioElement | null>
+) => {
+	return (line: LyricLine) => {
+		if (line.timestamp === undefined || !audioRef.current) return;
+		audioRef.current.currentTime = line.timestamp;
+		audioRef.current
+			.play()
+			.catch((err) => console.error('Playback failed:', err));
+	};
+};
+
 export const createLineAdder = (
 	addLyricLine: (options?: {
 		afterId?: number;
@@ -89,3 +155,53 @@ export const parseYouTubeDuration = (duration: string): string => {
 
 	return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 };
+
+// Number of peaks uploaded per audio file, the server keeps smaller
+// resolutions of them
+export const PEAKS_UPLOAD_LENGTH = 2048;
+
+/**
+ * Loudest sample of each slice of a decoded track across its channels,
+ * normalized so the loudest slice reaches 1
+ */
+export const computePeaks = (
+	buffer: AudioBuffer,
+	length = PEAKS_UPLOAD_LENGTH
+): number[] => {
+	const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) =>
+		buffer.getChannelData(i)
+	);
+	const peaks = Array.from({ length }, (_, index) => {
+		const start = Math.floor((index * buffer.length) / length);
+		const end = Math.floor(((index + 1) * buffer.length) / length);
+		let peak = 0;
+		for (const data of channels) {
+			for (let i = start; i < end; i++) {
+				const sample = Math.abs(data[i]);
+				if (sample > peak) peak = sample;
+			}
+		}
+		return peak;
+	});
+
+	const loudest = Math.max(...peaks);
+	return loudest > 0
+		? peaks.map((peak) => Math.round((peak / loudest) * 1000) / 1000)
+		: peaks;
+};
+
+/**
+ * Shrink peaks to fewer slices, each keeping the loudest peak it covers
+ */
+export const downsamplePeaks = (
+	peaks: number[],
+	resolution: number
+): number[] => {
+	if (resolution >= peaks.length) return peaks;
+
+	return Array.from({ length: resolution }, (_, index) => {
+		const start = Math.floor((index * peaks.length) / resolution);
+		const end = Math.floor(((index + 1) * peaks.length) / resolution);
+		return Math.max(...peaks.slice(start, Math.max(end, start + 1)));
+	});
+};
@@ -10,6 +10,7 @@ import {
 	Img,
 } from 'remotion';
 import type { LyricsProps } from './schema';
+import { TrackCredits } from './track-credits';
 
 export const BottomRightLyricsThemeComposition: React.FC<LyricsProps> = ({
 	lyrics,
@@ -18,6 +19,8 @@ export const BottomRightLyricsThemeComposition: React.FC<LyricsProps> = ({
 	textColor = 'hsl(0 0% 98%)',
 	highlightColor = 'hsl(252 100% 69%)',
 	backgroundImage = staticFile('background.jpg'), // Default background image
+	title,
+	artist,
 }) => {
 	const frame = useCurrentFrame();
 	const { fps, width } = useVideoConfig();
@@ -162,6 +165,7 @@ export const BottomRightLyricsThemeComposition: React.FC<LyricsProps> = ({
 
 			{renderCurrentLyric()}
 
+			<TrackCredits title={title} artist={artist} color={textColor} />
 			<Audio src={staticFile('friends.mp3')} />
 		</AbsoluteFill>
 	);
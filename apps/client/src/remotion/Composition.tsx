@@ -10,6 +10,7 @@ import {
 	Sequence,
 } from 'remotion';
 import type { LyricsProps } from './schema';
+import { TrackCredits } from './track-credits';
 import { useColorFlow } from '@/hooks/use-color-flow';
 
 // Default color palette to use if no theme is available
@@ -41,6 +42,8 @@ export const MyComposition: React.FC<LyricsProps> = ({
 	highlightColor = 'var(--primary)',
 	backgroundImage,
 	audioSrc,
+	title,
+	artist,
 }) => {
 	const frame = useCurrentFrame();
 	const { fps, width, height } = useVideoConfig();
@@ -318,6 +321,11 @@ export const MyComposition: React.FC<LyricsProps> = ({
 				}}
 			/>
 			{renderLyrics()}
+			<TrackCredits
+				title={title}
+				artist={artist}
+				color={colors.onBackground}
+			/>
 			{audioSrc && <Audio src={audioSrc} pauseWhenBuffering />}
 		</AbsoluteFill>
 	);
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import {
+	Img,
+	Video,
+	cancelRender,
+	continueRender,
+	delayRender,
+} from 'remotion';
+
+/**
+ * Library assets picked in the lyric studio, shared by the preview themes and
+ * the render compositions so both show the same video
+ */
+
+// Family name the uploaded font is registered under
+const CUSTOM_FONT_FAMILY = 'ChantastikCustomFont';
+
+/**
+ * Load the font of the fontUrl prop, holding the render until it is ready
+ * @returns The fontFamily to use, the fallback while loading or without font
+ */
+export const useAssetFont = (fontUrl: string | undefined, fallback: string) => {
+	const [loaded, setLoaded] = useState(false);
+
+	useEffect(() => {
+		setLoaded(false);
+		if (!fontUrl) return;
+
+		const handle = delayRender('Loading custom font');
+		const font = new FontFace(CUSTOM_FONT_FAMILY, `url(${fontUrl})`);
+		font.load()
+			.then((face) => {
+				document.fonts.add(face);
+				setLoaded(true);
+				continueRender(handle);
+			})
+			.catch((error) => {
+				console.error('Error loading font:', error);
+				cancelRender(error);
+			});
+	}, [fontUrl]);
+
+	return loaded ? `'${CUSTOM_FONT_FAMILY}', ${fallback}` : fallback;
+};
+
+/**
+ * A muted video loop covering the frame, in place of the background image
+ */
+export const BackgroundVideo: React.FC<{
+	src: string;
+	style?: React.CSSProperties;
+}> = ({ src, style }) => (
+	<Video
+		src={src}
+		loop
+		muted
+		pauseWhenBuffering
+		style={{
+			width: '100%',
+			height: '100%',
+			objectFit: 'cover',
+			...style,
+		}}
+	/>
+);
+
+/**
+ * A logo in the top right corner, above the lyrics
+ */
+export const LogoOverlay: React.FC<{ src: string; isVertical: boolean }> = ({
+	src,
+	isVertical,
+}) => (
+	<Img
+		src={src}
+		alt="Logo"
+		pauseWhenLoading
+		style={{
+			position: 'absolute',
+			top: isVertical ? '4%' : '5%',
+			right: isVertical ? '6%' : '4%',
+			maxWidth: isVertical ? '25%' : '15%',
+			maxHeight: '15%',
+			objectFit: 'contain',
+			zIndex: 20,
+		}}
+	/>
+);
@@ -13,6 +13,8 @@ import {
 	cancelRender,
 } from 'remotion';
 import type { LyricsProps } from '../schema';
+import { TrackCredits } from '../track-credits';
+import { BackgroundVideo, LogoOverlay, useAssetFont } from '../custom-assets';
 import materialDynamicColors from 'material-dynamic-colors';
 
 // Default color palette to use if no theme is available
@@ -44,7 +46,12 @@ const RetroReelRenderer: React.FC<LyricsProps> = ({
 	backgroundColor = 'var(--background)',
 	textColor = 'var(--foreground)',
 	backgroundImage,
+	backgroundVideo,
+	logoImage,
+	fontUrl,
 	audioSrc,
+	title,
+	artist,
 }) => {
 	const [handle] = useState(() =>
 		delayRender('RetroReel component loaded', {
@@ -56,6 +63,7 @@ const RetroReelRenderer: React.FC<LyricsProps> = ({
 
 	const frame = useCurrentFrame();
 	const { fps, width, height } = useVideoConfig();
+	const lyricsFontFamily = useAssetFont(fontUrl, fontFamily);
 
 	// Determine aspect ratio
 	const aspectRatio = width / height;
@@ -310,12 +318,14 @@ const RetroReelRenderer: React.FC<LyricsProps> = ({
 		<AbsoluteFill
 			style={{
 				backgroundColor: dynBackgroundColor,
-				fontFamily,
+				fontFamily: lyricsFontFamily,
 				overflow: 'hidden',
 			}}
 		>
-			{/* Background image with parallax effect */}
-			{backgroundImage && (
+			{/* Background image with parallax effect, or the chosen video loop */}
+			{backgroundVideo ? (
+				<BackgroundVideo src={backgroundVideo} />
+			) : backgroundImage ? (
 				<div
 					style={{
 						position: 'absolute',
@@ -346,7 +356,7 @@ const RetroReelRenderer: React.FC<LyricsProps> = ({
 						/>
 					</Sequence>
 				</div>
-			)}
+			) : null}
 
 			{/* Vintage film grain overlay */}
 			<div
@@ -386,7 +396,15 @@ const RetroReelRenderer: React.FC<LyricsProps> = ({
 				}}
 			/>
 
+			{logoImage && (
+				<LogoOverlay src={logoImage} isVertical={isVertical} />
+			)}
 			{renderLyrics()}
+			<TrackCredits
+				title={title}
+				artist={artist}
+				color={colors.onBackground}
+			/>
 			{audioSrc && <Audio src={audioSrc} />}
 		</AbsoluteFill>
 	);
@@ -20,7 +20,12 @@ export const LyricsPropsSchema = z.object({
 	textColor: z.string().optional().default('hsl(0 0% 98%)'),
 	highlightColor: z.string().optional().default('hsl(142.1 76.2% 36.3%)'),
 	backgroundImage: z.string().optional(),
+	backgroundVideo: z.string().optional(), // plays instead of backgroundImage, which still gives the colors
+	logoImage: z.string().optional(),
+	fontUrl: z.string().optional(),
 	audioSrc: z.string().optional(),
+	title: z.string().optional(), // of the track, from the audio metadata
+	artist: z.string().optional(),
 	theme: z.custom<IMaterialDynamicColorsTheme>().nullable().optional(),
 });
 
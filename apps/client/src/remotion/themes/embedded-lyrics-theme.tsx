@@ -10,6 +10,7 @@ import {
 } from 'remotion';
 import { useColorFlow } from '@/hooks/use-color-flow';
 import type { LyricsProps } from '../schema';
+import { TrackCredits } from '../track-credits';
 
 // Default color palette to use if no theme is available
 const DEFAULT_COLORS = {
@@ -39,6 +40,8 @@ export const EmbeddedLyricsTheme: React.FC<LyricsProps> = ({
 	textColor = 'var(--foreground)',
 	backgroundImage,
 	audioSrc,
+	title,
+	artist,
 }) => {
 	const frame = useCurrentFrame();
 	const { fps, width, height } = useVideoConfig();
@@ -410,6 +413,11 @@ export const EmbeddedLyricsTheme: React.FC<LyricsProps> = ({
 			/>
 
 			{renderLyrics()}
+			<TrackCredits
+				title={title}
+				artist={artist}
+				color={colors.onBackground}
+			/>
 			{audioSrc && <Audio src={audioSrc} pauseWhenBuffering />}
 		</AbsoluteFill>
 	);
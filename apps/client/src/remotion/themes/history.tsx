@@ -1,5 +1,6 @@
 import React from 'react';
 import type { LyricsProps } from '../schema';
+import { TrackCredits } from '../track-credits';
 import { useColorFlow } from '@/hooks/use-color-flow';
 import {
 	AbsoluteFill,
@@ -42,6 +43,8 @@ export const MalagasyHistoryComposition: React.FC<LyricsProps> = ({
 	fontFamily = 'Playfair Display, Georgia, serif',
 	backgroundImage,
 	audioSrc,
+	title,
+	artist,
 }) => {
 	const frame = useCurrentFrame();
 	const { fps, width, height } = useVideoConfig();
@@ -295,6 +298,11 @@ export const MalagasyHistoryComposition: React.FC<LyricsProps> = ({
 
 			{renderLyrics()}
 
+			<TrackCredits
+				title={title}
+				artist={artist}
+				color={colors.onBackground}
+			/>
 			{audioSrc && <Audio src={audioSrc} />}
 		</AbsoluteFill>
 	);
@@ -11,6 +11,7 @@ import {
 	Easing,
 } from 'remotion';
 import type { LyricsProps } from '../schema';
+import { TrackCredits } from '../track-credits';
 
 // Minimal color palette with semantic naming
 const DEFAULT_COLORS = {
@@ -82,6 +83,8 @@ const MinimalZen: React.FC<LyricsProps> = ({
 	textColor = 'var(--foreground)',
 	backgroundImage,
 	audioSrc,
+	title,
+	artist,
 	theme,
 }) => {
 	const frame = useCurrentFrame();
@@ -324,6 +327,11 @@ const MinimalZen: React.FC<LyricsProps> = ({
 			/>
 
 			{renderLyrics()}
+			<TrackCredits
+				title={title}
+				artist={artist}
+				color={colors.onBackground}
+			/>
 			{audioSrc && <Audio src={audioSrc} />}
 		</AbsoluteFill>
 	);
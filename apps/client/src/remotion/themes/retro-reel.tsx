@@ -10,6 +10,8 @@ import {
 	Sequence,
 } from 'remotion';
 import type { LyricsProps } from '../schema';
+import { TrackCredits } from '../track-credits';
+import { BackgroundVideo, LogoOverlay, useAssetFont } from '../custom-assets';
 
 // Default color palette to use if no theme is available
 const DEFAULT_COLORS = {
@@ -38,11 +40,17 @@ const RetroReel: React.FC<LyricsProps> = ({
 	backgroundColor = 'var(--background)',
 	textColor = 'var(--foreground)',
 	backgroundImage,
+	backgroundVideo,
+	logoImage,
+	fontUrl,
 	audioSrc,
+	title,
+	artist,
 	theme,
 }) => {
 	const frame = useCurrentFrame();
 	const { fps, width, height } = useVideoConfig();
+	const lyricsFontFamily = useAssetFont(fontUrl, fontFamily);
 
 	// Determine aspect ratio
 	const aspectRatio = width / height;
@@ -278,12 +286,14 @@ const RetroReel: React.FC<LyricsProps> = ({
 		<AbsoluteFill
 			style={{
 				backgroundColor: dynBackgroundColor,
-				fontFamily,
+				fontFamily: lyricsFontFamily,
 				overflow: 'hidden',
 			}}
 		>
-			{/* Background image with parallax effect */}
-			{backgroundImage && (
+			{/* Background image with parallax effect, or the chosen video loop */}
+			{backgroundVideo ? (
+				<BackgroundVideo src={backgroundVideo} />
+			) : backgroundImage ? (
 				<div
 					style={{
 						position: 'absolute',
@@ -314,7 +324,7 @@ const RetroReel: React.FC<LyricsProps> = ({
 						/>
 					</Sequence>
 				</div>
-			)}
+			) : null}
 
 			{/* Vintage film grain overlay */}
 			<div
@@ -354,7 +364,15 @@ const RetroReel: React.FC<LyricsProps> = ({
 				}}
 			/>
 
+			{logoImage && (
+				<LogoOverlay src={logoImage} isVertical={isVertical} />
+			)}
 			{renderLyrics()}
+			<TrackCredits
+				title={title}
+				artist={artist}
+				color={colors.onBackground}
+			/>
 			{audioSrc && <Audio src={audioSrc} />}
 		</AbsoluteFill>
 	);
@@ -9,6 +9,7 @@ import {
 	Img,
 } from 'remotion';
 import type { LyricsProps } from '../schema';
+import { TrackCredits } from '../track-credits';
 import { useColorFlow } from '@/hooks/use-color-flow';
 
 // Default color palette to use if no theme is available
@@ -40,6 +41,8 @@ export const VibrantMemories: React.FC<LyricsProps> = ({
 	highlightColor = 'var(--primary)',
 	backgroundImage,
 	audioSrc,
+	title,
+	artist,
 }) => {
 	const frame = useCurrentFrame();
 	const { fps, height } = useVideoConfig();
@@ -375,6 +378,11 @@ export const VibrantMemories: React.FC<LyricsProps> = ({
 			/>
 
 			{renderLyrics()}
+			<TrackCredits
+				title={title}
+				artist={artist}
+				color={colors.onBackground}
+			/>
 			{audioSrc && <Audio src={audioSrc} pauseWhenBuffering />}
 		</AbsoluteFill>
 	);
@@ -0,0 +1,60 @@
+import React from 'react';
+import { interpolate, useCurrentFrame, useVideoConfig } from 'remotion';
+
+/**
+ * Title and artist of the track in the top left corner, across from the
+ * logo. They come from the audio metadata edited in the lyric studio.
+ */
+export const TrackCredits: React.FC<{
+	title?: string;
+	artist?: string;
+	color: string;
+}> = ({ title, artist, color }) => {
+	const frame = useCurrentFrame();
+	const { fps, width, height } = useVideoConfig();
+	const isVertical = width < height;
+
+	if (!title && !artist) return null;
+
+	const opacity = interpolate(frame, [0, fps], [0, 0.9], {
+		extrapolateRight: 'clamp',
+	});
+
+	return (
+		<div
+			style={{
+				position: 'absolute',
+				top: isVertical ? '4%' : '5%',
+				left: isVertical ? '6%' : '4%',
+				maxWidth: isVertical ? '60%' : '45%',
+				color,
+				opacity,
+				textShadow: '0 2px 8px rgba(0,0,0,0.4)',
+				zIndex: 20,
+			}}
+		>
+			{title && (
+				<div
+					style={{
+						fontSize: isVertical ? '2.2rem' : '1.8rem',
+						fontWeight: 700,
+						lineHeight: 1.2,
+					}}
+				>
+					{title}
+				</div>
+			)}
+			{artist && (
+				<div
+					style={{
+						fontSize: isVertical ? '1.6rem' : '1.3rem',
+						opacity: 0.8,
+						lineHeight: 1.3,
+					}}
+				>
+					{artist}
+				</div>
+			)}
+		</div>
+	);
+};
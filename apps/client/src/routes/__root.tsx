@@ -1,4 +1,9 @@
-import { Outlet, createRootRouteWithContext } from '@tanstack/react-router';
+import {
+	Outlet,
+	createRootRouteWithContext,
+	useRouterState,
+	useSearch,
+} from '@tanstack/react-router';
 
 import type { QueryClient } from '@tanstack/react-query';
 import { Header } from '@/components/header';
@@ -14,22 +19,42 @@ type MyRouterContext = {
 };
 
 export const Route = createRootRouteWithContext<MyRouterContext>()({
-	component: () => (
+	component: RootComponent,
+});
+
+function RootComponent() {
+	// Shared players and embeds are public pages, without the editor chrome.
+	// They colour themselves from the shared cover, not the loaded track.
+	const isPublicPage = useRouterState({
+		select: (state) => /^\/(share|embed)\//.test(state.location.pathname),
+	});
+	const { theme: embedTheme } = useSearch({ strict: false });
+	const content = (
+		<main className="antialiased">
+			{!isPublicPage && <Header />}
+			<>
+				<Outlet />
+				<Toaster />
+				{!isPublicPage && <Audio />}
+			</>
+		</main>
+	);
+
+	return (
 		<AudioRefProvider>
 			<VideoRefProvider>
-				<ThemeProvider defaultTheme="system" storageKey="vite-ui-theme">
-					<WithColorFlow>
-						<main className="antialiased">
-							<Header />
-							<>
-								<Outlet />
-								<Toaster />
-								<Audio />
-							</>
-						</main>
-					</WithColorFlow>
+				<ThemeProvider
+					defaultTheme="system"
+					storageKey="vite-ui-theme"
+					forcedTheme={embedTheme}
+				>
+					{isPublicPage ? (
+						content
+					) : (
+						<WithColorFlow>{content}</WithColorFlow>
+					)}
 				</ThemeProvider>
 			</VideoRefProvider>
 		</AudioRefProvider>
-	),
-});
+	);
+}
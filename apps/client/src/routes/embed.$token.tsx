@@ -0,0 +1,29 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+import { EmbedPlayer } from '@/components/embed-player';
+import type { Theme } from '@/context/theme-context';
+
+type EmbedSearch = {
+	theme?: Theme;
+	colors?: boolean;
+};
+
+const themes: Theme[] = ['light', 'dark', 'system'];
+
+export const Route = createFileRoute('/embed/$token')({
+	// Written by public/embed.js from the data attributes of the host element
+	validateSearch: (search: Record<string, unknown>): EmbedSearch => ({
+		theme: themes.includes(search.theme as Theme)
+			? (search.theme as Theme)
+			: undefined,
+		colors: search.colors === false || search.colors === 'false' ? false : undefined,
+	}),
+	component: EmbedPage,
+});
+
+function EmbedPage() {
+	const { token } = Route.useParams();
+	const { colors } = Route.useSearch();
+
+	return <EmbedPlayer token={token} colors={colors ?? true} />;
+}
@@ -3,6 +3,7 @@ import { createFileRoute } from '@tanstack/react-router';
 import { LyricEditor } from '@/components/lyric-studio/lyric-editor';
 import { LyricsPlayer } from '@/components/lyric-studio/lyrics-player';
 import { ExternalLyricsSection } from '@/components/lyric-studio/external-lyrics-section';
+import { TrackDetails } from '@/components/lyric-studio/track-details';
 import { TrackUploadWrapper } from '@/components/track-upload-wrapper';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useResponsiveMobile } from '@/hooks/use-responsive-mobile';
@@ -53,7 +54,11 @@ function App() {
 									<TabsContent value="video" className="mt-4">
 										<LyricsPlayer />
 									</TabsContent>
-									<TabsContent value="notes" className="mt-4">
+									<TabsContent
+										value="notes"
+										className="mt-4 space-y-4"
+									>
+										<TrackDetails />
 										<ExternalLyricsSection />
 									</TabsContent>
 								</Tabs>
@@ -102,8 +107,9 @@ function App() {
 										</TabsContent>
 										<TabsContent
 											value="notes"
-											className="mt-4"
+											className="mt-4 space-y-4"
 										>
+											<TrackDetails />
 											<ExternalLyricsSection />
 										</TabsContent>
 									</Tabs>
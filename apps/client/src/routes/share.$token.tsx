@@ -0,0 +1,18 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+import { SharedPlayer } from '@/components/shared-player';
+import { ScrollArea } from '@/components/ui/scroll-area';
+
+export const Route = createFileRoute('/share/$token')({
+	component: SharedProjectPage,
+});
+
+function SharedProjectPage() {
+	const { token } = Route.useParams();
+
+	return (
+		<ScrollArea className="h-screen">
+			<SharedPlayer token={token} />
+		</ScrollArea>
+	);
+}
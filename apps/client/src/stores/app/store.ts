@@ -3,7 +3,7 @@ import { devtools } from 'zustand/middleware';
 import { formatLRCTimestamp } from '@/lib/utils';
 import type { PlayerRef } from '@remotion/player';
 import type { ComponentRef, RefObject } from 'react';
-import type { AudioMeta, LyricLine } from '@/data/types';
+import type { AudioMeta, LyricLine, Metadata } from '@/data/types';
 import { preloadImage } from '@remotion/preload';
 import { getCoverArtUrl } from '@/data/api';
 import type { YouTubePlayer } from 'react-youtube';
@@ -51,8 +51,8 @@ type AppActions = {
 	areLyricLinesWithoutTimestamps: () => boolean;
 	isLyricLinesInOrder: () => boolean;
 	isValidLyricLines: () => boolean;
-	generateLRC: () => LRCData;
-	handleDownload: () => void;
+	generateLRC: (metadata?: Partial<Metadata>) => LRCData;
+	handleDownload: (metadata?: Partial<Metadata>) => void;
 	isYoutubeProject: () => boolean;
 	setYoutubePlayer: (player: YouTubePlayer | null) => void;
 };
@@ -178,43 +178,26 @@ export const useAppStore = create<AppStore>()(
 				set({ lyricLines: updatedLines });
 			},
 
-			generateLRC: () => {
-				const { lyricLines, audio } = get();
+			generateLRC: (metadata) => {
+				const { lyricLines } = get();
 				const sortedLyrics = [...lyricLines].sort(
 					(a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0)
 				);
 
-				const getMetadataFromStorage = () => {
-					if (!audio) return null;
-
-					try {
-						const storedAudioMetadata =
-							localStorage.getItem(`currentAudioMetadata`);
-						if (!storedAudioMetadata) return null;
-
-						const audioMetadata: AudioMeta =
-							JSON.parse(storedAudioMetadata);
-						return audioMetadata.metadata?.title ||
-							audioMetadata.metadata?.artist ||
-							audioMetadata.metadata?.album
-							? audioMetadata.metadata
-							: null;
-					} catch (error) {
-						console.warn(
-							'Failed to parse stored audio metadata:',
-							error
-						);
-						return null;
-					}
-				};
-
 				const createTimestamps = () =>
 					sortedLyrics.map((line) => ({
 						time: formatLRCTimestamp(line?.timestamp ?? 0),
 						text: line.text,
 					}));
 
-				const storedMetadata = getMetadataFromStorage();
+				// Only the tags the audio has, the defaults fill the others
+				const storedMetadata = Object.fromEntries(
+					Object.entries({
+						title: metadata?.title,
+						artist: metadata?.artist,
+						album: metadata?.album,
+					}).filter(([, value]) => value)
+				);
 				const defaultMetadata = {
 					title: 'Untitled Song',
 					artist: 'Unknown Artist',
@@ -230,8 +213,8 @@ export const useAppStore = create<AppStore>()(
 				};
 			},
 
-			handleDownload: () => {
-				const lrcData = get().generateLRC();
+			handleDownload: (metadata) => {
+				const lrcData = get().generateLRC(metadata);
 
 				let lrcContent = `[ti:${lrcData.metadata.title}]\n`;
 				lrcContent += `[ar:${lrcData.metadata.artist}]\n`;
@@ -0,0 +1,60 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+
+export type AuthUser = {
+	id: string;
+	email: string;
+	name?: string;
+};
+
+// Short-lived token for media URLs, the session token never leaves headers
+export type MediaToken = {
+	token: string;
+	expiresAt: string;
+};
+
+type AuthState = {
+	// State
+	token: string | null;
+	user: AuthUser | null;
+	expiresAt: string | null;
+	media: MediaToken | null;
+
+	// Actions
+	setSession: (session: {
+		token: string;
+		user: AuthUser;
+		expiresAt: string;
+		media: MediaToken;
+	}) => void;
+	setUser: (user: AuthUser) => void;
+	setMedia: (media: MediaToken) => void;
+	clearSession: () => void;
+};
+
+export const useAuthStore = create<AuthState>()(
+	devtools(
+		persist(
+			(set) => ({
+				token: null,
+				user: null,
+				expiresAt: null,
+				media: null,
+
+				setSession: ({ token, user, expiresAt, media }) =>
+					set({ token, user, expiresAt, media }),
+				setUser: (user) => set({ user }),
+				setMedia: (media) => set({ media }),
+				clearSession: () =>
+					set({
+						token: null,
+						user: null,
+						expiresAt: null,
+						media: null,
+					}),
+			}),
+			{ name: 'auth' }
+		),
+		{ name: 'auth-store' }
+	)
+);
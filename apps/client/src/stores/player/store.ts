@@ -7,7 +7,6 @@ export type PlayerStateProperties = {
 	duration: number;
 	muted: boolean;
 	currentTrackId?: string;
-	waveBars: number[];
 };
 
 export type PlayerStateActions = {
@@ -32,7 +31,6 @@ const initialState: PlayerStateProperties = {
 	muted: false,
 	isPlaying: false,
 	currentTrackId: undefined,
-	waveBars: Array.from({ length: 50 }, () => Math.random() * 0.8 + 0.2),
 };
 
 export const usePlayerStore = create<PlayerState>()(
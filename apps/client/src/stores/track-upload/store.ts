@@ -1,5 +1,23 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
+import { isSupportedAudioFile } from '@/lib/utils';
+import type { DuplicateAudio, UploadSession } from '@/data/api';
+
+export type UploadPartProgress = {
+	partNumber: number;
+	size: number;
+	loaded: number;
+	status: 'pending' | 'uploading' | 'done' | 'error';
+};
+
+export type UploadPhase = 'idle' | 'uploading' | 'paused' | 'completing' | 'error';
+
+export type ActiveUpload = {
+	file: File;
+	session?: UploadSession;
+	controller?: AbortController;
+};
+
 type TrackUploadState = {
 	// State
 	audioFile: File | null;
@@ -7,6 +25,11 @@ type TrackUploadState = {
 	showConfirmDialog: boolean;
 	isRetracted: boolean;
 	isUploading: boolean;
+	activeUpload: ActiveUpload | null;
+	uploadPhase: UploadPhase;
+	uploadParts: UploadPartProgress[];
+	uploadError: string | null;
+	duplicateAudio: DuplicateAudio | null; // set when the file was uploaded before
 
 	// Actions
 	setAudioFile: (file: File | null) => void;
@@ -14,6 +37,15 @@ type TrackUploadState = {
 	setShowConfirmDialog: (show: boolean) => void;
 	setIsRetracted: (retracted: boolean) => void;
 	setIsUploading: (uploading: boolean) => void;
+	setActiveUpload: (upload: ActiveUpload | null) => void;
+	setUploadPhase: (phase: UploadPhase) => void;
+	setUploadParts: (parts: UploadPartProgress[]) => void;
+	updateUploadPart: (
+		partNumber: number,
+		changes: Partial<UploadPartProgress>
+	) => void;
+	setUploadError: (error: string | null) => void;
+	setDuplicateAudio: (duplicate: DuplicateAudio | null) => void;
 
 	// Complex actions
 	handleFileChange: (file: File) => void;
@@ -37,6 +69,11 @@ export const useTrackUploadStore = create<TrackUploadState>()(
 			showConfirmDialog: false,
 			isRetracted: false,
 			isUploading: false,
+			activeUpload: null,
+			uploadPhase: 'idle',
+			uploadParts: [],
+			uploadError: null,
+			duplicateAudio: null,
 
 			// Basic setters
 			setAudioFile: (audioFile) => set({ audioFile }),
@@ -46,6 +83,21 @@ export const useTrackUploadStore = create<TrackUploadState>()(
 			setIsRetracted: (isRetracted) => set({ isRetracted }),
 
 			setIsUploading: (isUploading) => set({ isUploading }),
+			setActiveUpload: (activeUpload) => set({ activeUpload }),
+			setUploadPhase: (uploadPhase) => set({ uploadPhase }),
+			setUploadParts: (uploadParts) => set({ uploadParts }),
+			updateUploadPart: (partNumber, changes) => {
+				const { uploadParts } = get();
+				set({
+					uploadParts: uploadParts.map((part) =>
+						part.partNumber === partNumber
+							? { ...part, ...changes }
+							: part
+					),
+				});
+			},
+			setUploadError: (uploadError) => set({ uploadError }),
+			setDuplicateAudio: (duplicateAudio) => set({ duplicateAudio }),
 
 			// Complex actions
 			handleFileChange: (file) => {
@@ -79,7 +131,7 @@ export const useTrackUploadStore = create<TrackUploadState>()(
 				set({ isDragging: false });
 
 				const file = e.dataTransfer.files?.[0];
-				if (file && file.type.startsWith('audio/')) {
+				if (file && isSupportedAudioFile(file)) {
 					set({ audioFile: file });
 					onFileUpload?.(file);
 				}
@@ -97,6 +149,11 @@ export const useTrackUploadStore = create<TrackUploadState>()(
 					showConfirmDialog: false,
 					isRetracted: false,
 					isUploading: false,
+					activeUpload: null,
+					uploadPhase: 'idle',
+					uploadParts: [],
+					uploadError: null,
+					duplicateAudio: null,
 				});
 			},
 		}),
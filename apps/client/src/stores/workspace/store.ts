@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+
+type WorkspaceState = {
+	// State
+	currentWorkspaceId: string | null; // null for the personal projects
+
+	// Actions
+	setCurrentWorkspaceId: (workspaceId: string | null) => void;
+};
+
+export const useWorkspaceStore = create<WorkspaceState>()(
+	devtools(
+		persist(
+			(set) => ({
+				currentWorkspaceId: null,
+
+				setCurrentWorkspaceId: (currentWorkspaceId) =>
+					set({ currentWorkspaceId }),
+			}),
+			{ name: 'workspace' }
+		),
+		{ name: 'workspace-store' }
+	)
+);
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { AuthMenu } from '@/components/auth-menu';
+import { useAuthMenu } from '@/hooks/use-auth-menu';
+
+vi.mock('@/hooks/use-auth-menu');
+
+vi.mock('@/components/ui/popover', () => ({
+    Popover: ({ children, open }: any) => <div data-open={open}>{children}</div>,
+    PopoverTrigger: ({ children }: any) => <div>{children}</div>,
+    PopoverContent: ({ children, align, ...props }: any) => (
+        <div {...props}>{children}</div>
+    ),
+}));
+
+const mockUseAuthMenu = vi.mocked(useAuthMenu);
+
+describe('AuthMenu', () => {
+    const mockSetOpen = vi.fn();
+    const mockToggleMode = vi.fn();
+    const mockUpdateCredentials = vi.fn();
+    const mockHandleSubmit = vi.fn((e) => e.preventDefault());
+    const mockHandleLogout = vi.fn();
+
+    const baseState = {
+        user: null,
+        open: true,
+        setOpen: mockSetOpen,
+        mode: 'login' as const,
+        toggleMode: mockToggleMode,
+        credentials: { email: '', password: '', name: '' },
+        updateCredentials: mockUpdateCredentials,
+        handleSubmit: mockHandleSubmit,
+        isSubmitting: false,
+        error: null,
+        handleLogout: mockHandleLogout,
+        isLoggingOut: false,
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockUseAuthMenu.mockReturnValue(baseState);
+    });
+
+    it('shows the sign in form when signed out', () => {
+        render(<AuthMenu />);
+
+        expect(screen.getByTestId('auth-login-trigger')).toBeInTheDocument();
+        expect(screen.getByTestId('auth-email')).toBeInTheDocument();
+        expect(screen.getByTestId('auth-password')).toBeInTheDocument();
+        expect(screen.queryByTestId('auth-name')).not.toBeInTheDocument();
+    });
+
+    it('updates the credentials when typing', () => {
+        render(<AuthMenu />);
+
+        fireEvent.change(screen.getByTestId('auth-email'), {
+            target: { value: 'singer@example.com' },
+        });
+
+        expect(mockUpdateCredentials).toHaveBeenCalledWith({
+            email: 'singer@example.com',
+        });
+    });
+
+    it('submits the form', () => {
+        mockUseAuthMenu.mockReturnValue({
+            ...baseState,
+            credentials: { email: 'singer@example.com', password: 'secret123', name: '' },
+        });
+
+        render(<AuthMenu />);
+        fireEvent.click(screen.getByTestId('auth-submit'));
+
+        expect(mockHandleSubmit).toHaveBeenCalled();
+    });
+
+    it('shows the name field when registering', () => {
+        mockUseAuthMenu.mockReturnValue({ ...baseState, mode: 'register' });
+
+        render(<AuthMenu />);
+
+        expect(screen.getByTestId('auth-name')).toBeInTheDocument();
+        expect(screen.getByTestId('auth-submit')).toHaveTextContent('Create account');
+    });
+
+    it('switches between sign in and registration', () => {
+        render(<AuthMenu />);
+
+        fireEvent.click(screen.getByTestId('auth-toggle-mode'));
+
+        expect(mockToggleMode).toHaveBeenCalled();
+    });
+
+    it('shows the error of a failed attempt', () => {
+        mockUseAuthMenu.mockReturnValue({
+            ...baseState,
+            error: new Error('Invalid email or password'),
+        });
+
+        render(<AuthMenu />);
+
+        expect(screen.getByTestId('auth-error')).toHaveTextContent(
+            'Invalid email or password'
+        );
+    });
+
+    it('shows the user and signs out when signed in', () => {
+        mockUseAuthMenu.mockReturnValue({
+            ...baseState,
+            user: { id: 'user-1', email: 'singer@example.com', name: 'Singer' },
+        });
+
+        render(<AuthMenu />);
+
+        expect(screen.getByTestId('auth-user')).toHaveTextContent('Singer');
+        fireEvent.click(screen.getByTestId('auth-logout'));
+
+        expect(mockHandleLogout).toHaveBeenCalled();
+    });
+});
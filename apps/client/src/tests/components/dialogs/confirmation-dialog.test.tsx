@@ -1,4 +1,4 @@
-import { ConfirmationDialog, createDeleteConfirmationDialog, createSaveConfirmationDialog } from '@/components/dialogs/confirmation-dialog';
+import { ConfirmationDialog, createDeleteConfirmationDialog, createSaveConfirmationDialog, createConflictConfirmationDialog } from '@/components/dialogs/confirmation-dialog';
 import { render, screen } from '@testing-library/react';
 import { userEvent } from '@testing-library/user-event';
 import { describe, expect, it, vi, beforeEach } from 'vitest';
@@ -296,4 +296,52 @@ describe('createSaveConfirmationDialog', () => {
         expect(mockOnCancel).toHaveBeenCalledOnce();
         expect(mockOnOpenChange).toHaveBeenCalledWith(false);
     });
-});
\ No newline at end of file
+});
+describe('createConflictConfirmationDialog', () => {
+    const mockOnOpenChange = vi.fn();
+    const mockOnConfirm = vi.fn();
+    const mockOnCancel = vi.fn();
+
+    const defaultProps = {
+        open: true,
+        onOpenChange: mockOnOpenChange,
+        onConfirm: mockOnConfirm,
+        onCancel: mockOnCancel,
+        itemName: 'Lyrics',
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    it('should render conflict dialog with item name', () => {
+        const ConflictDialog = createConflictConfirmationDialog(defaultProps);
+        render(ConflictDialog);
+
+        expect(screen.getByText('Lyrics changed on the server')).toBeInTheDocument();
+        expect(screen.getByText('Overwrite')).toBeInTheDocument();
+        expect(screen.getByText('Load server copy')).toBeInTheDocument();
+    });
+
+    it('should call onConfirm when overwrite button is clicked', async () => {
+        const user = userEvent.setup();
+        const ConflictDialog = createConflictConfirmationDialog(defaultProps);
+        render(ConflictDialog);
+
+        await user.click(screen.getByTestId('confirmation-dialog-confirm'));
+
+        expect(mockOnConfirm).toHaveBeenCalledOnce();
+        expect(mockOnCancel).not.toHaveBeenCalled();
+    });
+
+    it('should call onCancel when load server copy button is clicked', async () => {
+        const user = userEvent.setup();
+        const ConflictDialog = createConflictConfirmationDialog(defaultProps);
+        render(ConflictDialog);
+
+        await user.click(screen.getByTestId('confirmation-dialog-cancel'));
+
+        expect(mockOnCancel).toHaveBeenCalledOnce();
+        expect(mockOnOpenChange).toHaveBeenCalledWith(false);
+    });
+});
@@ -0,0 +1,95 @@
+import { CoverEditorDialog } from '@/components/dialogs/cover-editor-dialog';
+import { useProjectCover } from '@/hooks/use-project-cover';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+
+vi.mock('@/hooks/use-project-cover');
+
+const mockUseProjectCover = vi.mocked(useProjectCover);
+
+describe('CoverEditorDialog', () => {
+    const mockSaveCover = vi.fn();
+    const mockRemoveCover = vi.fn();
+
+    const baseState = {
+        cover: undefined,
+        hasCover: false,
+        coverUrl: () => null,
+        originalUrl: null,
+        saveCover: mockSaveCover,
+        removeCover: mockRemoveCover,
+        isSaving: false,
+    };
+
+    const uploadedCover = {
+        contentType: 'image/png',
+        crop: { x: 0.25, y: 0.5, size: 0.5 },
+        updatedAt: '2026-01-01T00:00:00.000Z',
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        URL.createObjectURL = vi.fn(() => 'blob:cover');
+        URL.revokeObjectURL = vi.fn();
+        mockUseProjectCover.mockReturnValue(baseState);
+    });
+
+    it('explains the plain background without any cover art', () => {
+        render(<CoverEditorDialog open onOpenChange={vi.fn()} />);
+
+        expect(screen.getByTestId('cover-editor-empty')).toBeInTheDocument();
+        expect(screen.queryByTestId('cover-crop-x')).not.toBeInTheDocument();
+        expect(screen.getByTestId('confirmation-dialog-confirm')).toBeDisabled();
+    });
+
+    it('saves a chosen image with the default crop', () => {
+        render(<CoverEditorDialog open onOpenChange={vi.fn()} />);
+
+        const file = new File(['cover'], 'cover.png', { type: 'image/png' });
+        fireEvent.change(screen.getByTestId('cover-file-input'), {
+            target: { files: [file] },
+        });
+
+        expect(screen.getByAltText('Cover preview')).toHaveAttribute('src', 'blob:cover');
+        fireEvent.click(screen.getByTestId('confirmation-dialog-confirm'));
+
+        expect(mockSaveCover).toHaveBeenCalledWith({
+            crop: { x: 0.5, y: 0.5, size: 1 },
+            file,
+        });
+    });
+
+    it('crops the uploaded cover again from its stored crop', () => {
+        mockUseProjectCover.mockReturnValue({
+            ...baseState,
+            cover: uploadedCover,
+            hasCover: true,
+            originalUrl: 'https://example.com/original',
+        });
+        render(<CoverEditorDialog open onOpenChange={vi.fn()} />);
+
+        const preview = screen.getByAltText('Cover preview');
+        expect(preview).toHaveAttribute('src', 'https://example.com/original');
+        expect(preview).toHaveStyle({ objectPosition: '25% 50%' });
+        fireEvent.click(screen.getByTestId('confirmation-dialog-confirm'));
+
+        expect(mockSaveCover).toHaveBeenCalledWith({
+            crop: uploadedCover.crop,
+            file: null,
+        });
+    });
+
+    it('removes the uploaded cover', () => {
+        mockUseProjectCover.mockReturnValue({
+            ...baseState,
+            cover: uploadedCover,
+            hasCover: true,
+            originalUrl: 'https://example.com/original',
+        });
+        render(<CoverEditorDialog open onOpenChange={vi.fn()} />);
+
+        fireEvent.click(screen.getByTestId('remove-cover-button'));
+
+        expect(mockRemoveCover).toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,68 @@
+import { DuplicateAudioDialog } from '@/components/dialogs/duplicate-audio-dialog';
+import { useDuplicateAudio } from '@/hooks/use-duplicate-audio';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+
+vi.mock('@/hooks/use-duplicate-audio');
+
+const mockUseDuplicateAudio = vi.mocked(useDuplicateAudio);
+
+describe('DuplicateAudioDialog', () => {
+    const mockOpenExistingProject = vi.fn();
+    const mockCreateProjectFromAudio = vi.fn();
+    const mockDismiss = vi.fn();
+
+    const baseState = {
+        duplicateAudio: {
+            existingFile: { id: 'audio-1', filename: 'song.mp3' },
+            projects: [
+                { id: 'project-1', name: 'Radio edit' },
+                { id: 'project-2', name: 'Album version' },
+            ],
+        },
+        openExistingProject: mockOpenExistingProject,
+        createProjectFromAudio: mockCreateProjectFromAudio,
+        dismiss: mockDismiss,
+        isCreating: false,
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockUseDuplicateAudio.mockReturnValue(baseState);
+    });
+
+    it('stays closed without a duplicate upload', () => {
+        mockUseDuplicateAudio.mockReturnValue({ ...baseState, duplicateAudio: null });
+        render(<DuplicateAudioDialog />);
+
+        expect(screen.queryByTestId('confirmation-dialog')).not.toBeInTheDocument();
+    });
+
+    it('opens the chosen existing project', () => {
+        render(<DuplicateAudioDialog />);
+
+        expect(screen.getByText(/song\.mp3/)).toBeInTheDocument();
+        fireEvent.click(screen.getAllByText('Open existing project')[1]);
+
+        expect(mockOpenExistingProject).toHaveBeenCalledWith('project-2');
+    });
+
+    it('creates a new project from the stored audio', () => {
+        render(<DuplicateAudioDialog />);
+
+        fireEvent.click(screen.getByTestId('confirmation-dialog-confirm'));
+
+        expect(mockCreateProjectFromAudio).toHaveBeenCalled();
+    });
+
+    it('hides the project list when no project can be opened', () => {
+        mockUseDuplicateAudio.mockReturnValue({
+            ...baseState,
+            duplicateAudio: { ...baseState.duplicateAudio, projects: [] },
+        });
+        render(<DuplicateAudioDialog />);
+
+        expect(screen.queryByTestId('duplicate-audio-projects')).not.toBeInTheDocument();
+        expect(screen.getByText('Create new project')).toBeInTheDocument();
+    });
+});
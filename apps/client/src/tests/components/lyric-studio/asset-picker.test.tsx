@@ -0,0 +1,102 @@
+import { AssetPicker } from '@/components/lyric-studio/asset-picker';
+import { useProjectAssets } from '@/hooks/use-project-assets';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+
+vi.mock('@/hooks/use-project-assets');
+
+const mockUseProjectAssets = vi.mocked(useProjectAssets);
+
+describe('AssetPicker', () => {
+    const mockUploadAsset = vi.fn();
+    const mockDeleteAsset = vi.fn();
+    const mockToggleSlot = vi.fn();
+
+    const image = {
+        id: 'asset-1',
+        kind: 'image' as const,
+        filename: 'poster.png',
+        contentType: 'image/png',
+        size: 1024,
+        createdAt: '2026-01-01T00:00:00.000Z',
+    };
+    const font = {
+        id: 'asset-2',
+        kind: 'font' as const,
+        filename: 'display.woff2',
+        contentType: 'font/woff2',
+        size: 2048,
+        createdAt: '2026-01-02T00:00:00.000Z',
+    };
+
+    const baseState = {
+        assets: [font, image],
+        renderAssets: { logo: 'asset-1' },
+        sources: {},
+        isLoading: false,
+        canEdit: true,
+        canDelete: true,
+        uploadAsset: mockUploadAsset,
+        deleteAsset: mockDeleteAsset,
+        toggleSlot: mockToggleSlot,
+        isUploading: false,
+        isUpdating: false,
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockUseProjectAssets.mockReturnValue(baseState);
+    });
+
+    it('offers the slots each kind of asset can fill', () => {
+        render(<AssetPicker />);
+
+        const [fontItem, imageItem] = screen.getAllByTestId('asset-item');
+        expect(fontItem).toHaveTextContent('Font');
+        expect(fontItem).not.toHaveTextContent('Background');
+        expect(imageItem).toHaveTextContent('Background');
+        expect(imageItem).toHaveTextContent('Logo');
+    });
+
+    it('puts an asset in the chosen slot', () => {
+        render(<AssetPicker />);
+
+        fireEvent.click(screen.getByTestId('asset-slot-font'));
+
+        expect(mockToggleSlot).toHaveBeenCalledWith('font', font);
+    });
+
+    it('does not delete assets the video uses', () => {
+        render(<AssetPicker />);
+
+        const [fontDelete, imageDelete] = screen.getAllByTestId('delete-asset-button');
+        expect(imageDelete).toBeDisabled();
+        fireEvent.click(fontDelete);
+
+        expect(mockDeleteAsset).toHaveBeenCalledWith('asset-2');
+    });
+
+    it('uploads the chosen file', () => {
+        render(<AssetPicker />);
+
+        const file = new File(['font'], 'title.ttf', { type: 'font/ttf' });
+        fireEvent.change(screen.getByTestId('asset-file-input'), {
+            target: { files: [file] },
+        });
+
+        expect(mockUploadAsset).toHaveBeenCalledWith(file);
+    });
+
+    it('hides upload and slots for read-only roles', () => {
+        mockUseProjectAssets.mockReturnValue({
+            ...baseState,
+            canEdit: false,
+            canDelete: false,
+        });
+        render(<AssetPicker />);
+
+        expect(screen.queryByTestId('upload-asset-button')).not.toBeInTheDocument();
+        expect(screen.getByTestId('asset-slot-font')).toBeDisabled();
+        expect(screen.queryByTestId('delete-asset-button')).not.toBeInTheDocument();
+    });
+});
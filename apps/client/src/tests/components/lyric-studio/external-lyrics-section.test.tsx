@@ -3,9 +3,11 @@ import { render, screen } from '@testing-library/react';
 import { userEvent } from '@testing-library/user-event';
 import { describe, expect, it, vi, beforeEach } from 'vitest';
 import { useExternalLyricsSection } from '@/hooks/use-external-lyrics-section';
+import { useAudioMetadata } from '@/hooks/use-audio-metadata';
 
-// Mock the hook
+// Mock the hooks
 vi.mock('@/hooks/use-external-lyrics-section');
+vi.mock('@/hooks/use-audio-metadata');
 
 // Mock window.open
 const mockWindowOpen = vi.fn();
@@ -14,18 +16,14 @@ Object.defineProperty(window, 'open', {
     value: mockWindowOpen,
 });
 
-// Mock localStorage
-const mockLocalStorage = {
-    getItem: vi.fn(),
-    setItem: vi.fn(),
-    removeItem: vi.fn(),
-    clear: vi.fn(),
-};
-
-Object.defineProperty(window, 'localStorage', {
-    writable: true,
-    value: mockLocalStorage,
-});
+const mockAudioMetadata = (metadata?: { title: string; artist?: string }) =>
+    vi.mocked(useAudioMetadata).mockReturnValue({
+        metadata: metadata && { ...metadata, duration: 180 },
+        canEdit: true,
+        isYoutube: false,
+        saveMetadata: vi.fn(),
+        isSaving: false,
+    });
 
 const mockHandleConvertToLines = vi.fn();
 const mockHandleTextareaChange = vi.fn();
@@ -44,13 +42,11 @@ describe('ExternalLyricsSection component', () => {
             isConvertDisabled: false,
         });
 
-        // Mock localStorage with valid audio metadata
-        mockLocalStorage.getItem.mockReturnValue(JSON.stringify({
-            metadata: {
-                artist: 'Test Artist',
-                title: 'Test Song'
-            }
-        }));
+        // Mock the stored audio metadata
+        mockAudioMetadata({
+            artist: 'Test Artist',
+            title: 'Test Song',
+        });
     });
 
     it('should render external lyrics section when shouldRender is true', () => {
@@ -151,7 +147,7 @@ describe('ExternalLyricsSection component', () => {
 
     it('should not open Google search when no audio metadata is stored', async () => {
         const user = userEvent.setup();
-        mockLocalStorage.getItem.mockReturnValue(null);
+        mockAudioMetadata(undefined);
         
         render(<ExternalLyricsSection />);
         
@@ -194,26 +190,12 @@ describe('ExternalLyricsSection component', () => {
         expect(textarea).toHaveAttribute('spellCheck', 'false');
     });
 
-    it('should handle malformed JSON in localStorage gracefully', async () => {
-        const user = userEvent.setup();
-        mockLocalStorage.getItem.mockReturnValue('invalid json');
-        
-        render(<ExternalLyricsSection />);
-        
-        const searchButton = screen.getByTestId('search-lyrics-button');
-        
-        // Should not throw an error when clicking search button
-        expect(() => user.click(searchButton)).not.toThrow();
-    });
-
     it('should handle missing artist or title in metadata', async () => {
         const user = userEvent.setup();
-        mockLocalStorage.getItem.mockReturnValue(JSON.stringify({
-            metadata: {
-                artist: undefined,
-                title: 'Test Song'
-            }
-        }));
+        mockAudioMetadata({
+            artist: undefined,
+            title: 'Test Song',
+        });
         
         render(<ExternalLyricsSection />);
         
@@ -221,7 +203,7 @@ describe('ExternalLyricsSection component', () => {
         await user.click(searchButton);
         
         expect(mockWindowOpen).toHaveBeenCalledWith(
-            'https://www.google.com/search?q=undefined+Test+Song+lyrics',
+            'https://www.google.com/search?q=Test+Song+lyrics',
             '_blank'
         );
     });
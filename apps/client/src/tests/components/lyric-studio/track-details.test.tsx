@@ -0,0 +1,85 @@
+import { TrackDetails } from '@/components/lyric-studio/track-details';
+import { useAudioMetadata } from '@/hooks/use-audio-metadata';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+
+vi.mock('@/hooks/use-audio-metadata');
+
+const mockUseAudioMetadata = vi.mocked(useAudioMetadata);
+
+describe('TrackDetails', () => {
+    const mockSaveMetadata = vi.fn();
+
+    const baseState = {
+        metadata: {
+            title: 'Found Love',
+            artist: 'Unknown Artist',
+            genre: ['Pop'],
+            duration: 180,
+        },
+        canEdit: true,
+        isYoutube: false,
+        saveMetadata: mockSaveMetadata,
+        isSaving: false,
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockUseAudioMetadata.mockReturnValue(baseState);
+    });
+
+    it('fills the form with the stored tags', () => {
+        render(<TrackDetails />);
+
+        expect(screen.getByTestId('track-details-title')).toHaveValue('Found Love');
+        expect(screen.getByTestId('track-details-genre')).toHaveValue('Pop');
+        expect(screen.getByTestId('save-track-details-button')).toBeDisabled();
+    });
+
+    it('saves the edited tags, empty ones removed', () => {
+        render(<TrackDetails />);
+
+        fireEvent.change(screen.getByTestId('track-details-artist'), {
+            target: { value: ' Rihanna ' },
+        });
+        fireEvent.change(screen.getByTestId('track-details-genre'), {
+            target: { value: 'Pop, Dance,' },
+        });
+        fireEvent.change(screen.getByTestId('track-details-year'), {
+            target: { value: '2011' },
+        });
+        fireEvent.click(screen.getByTestId('save-track-details-button'));
+
+        expect(mockSaveMetadata).toHaveBeenCalledWith({
+            title: 'Found Love',
+            artist: 'Rihanna',
+            album: '',
+            year: '2011',
+            genre: ['Pop', 'Dance'],
+        });
+    });
+
+    it('rejects a year without four digits', () => {
+        render(<TrackDetails />);
+
+        fireEvent.change(screen.getByTestId('track-details-year'), {
+            target: { value: '11' },
+        });
+
+        expect(screen.getByTestId('save-track-details-button')).toBeDisabled();
+    });
+
+    it('keeps the tags of a YouTube video read-only', () => {
+        mockUseAudioMetadata.mockReturnValue({
+            ...baseState,
+            canEdit: false,
+            isYoutube: true,
+        });
+        render(<TrackDetails />);
+
+        expect(screen.getByTestId('track-details-title')).toBeDisabled();
+        expect(screen.getByTestId('track-details-help-text')).toHaveTextContent(
+            'YouTube videos keep the title and channel of the video.'
+        );
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { EmbedPlayer } from '@/components/embed-player';
+import { useSharedProject } from '@/hooks/use-shared-project';
+
+vi.mock('@/hooks/use-shared-project');
+
+vi.mock('@/data/api', () => ({
+    getShareUrl: (token: string) => `https://app.test/share/${token}`,
+}));
+
+vi.mock('@/components/with-color-flow', () => ({
+    WithColorFlow: ({ children }: any) => <>{children}</>,
+}));
+
+vi.mock('@/components/synced-lyrics', () => ({
+    SyncedLyrics: ({ lyricLines }: any) => (
+        <div data-testid="synced-lyrics">{lyricLines.length} lines</div>
+    ),
+}));
+
+const mockUseSharedProject = vi.mocked(useSharedProject);
+
+const sharedProject = {
+    name: 'Demo',
+    title: 'Song title',
+    artist: 'Artist',
+    coverUrl: 'https://api.test/share/token/cover',
+    audioUrl: 'https://api.test/share/token/audio',
+    youtube: null,
+    lines: [
+        { id: 1, text: 'First line', timestamp: 1 },
+        { id: 2, text: 'Second line', timestamp: 4 },
+    ],
+};
+
+const sendCommand = (data: unknown) => {
+    window.dispatchEvent(new MessageEvent('message', { data, source: window }));
+};
+
+describe('EmbedPlayer', () => {
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.stubGlobal(
+            'ResizeObserver',
+            class {
+                observe() {}
+                disconnect() {}
+            }
+        );
+    });
+
+    it('renders the shared track and its lyrics', () => {
+        mockUseSharedProject.mockReturnValue({
+            data: sharedProject,
+            isLoading: false,
+            isError: false,
+        } as any);
+
+        render(<EmbedPlayer token="token" colors />);
+
+        expect(screen.getByText('Song title')).toBeInTheDocument();
+        expect(screen.getByText('Artist')).toBeInTheDocument();
+        expect(screen.getByTestId('synced-lyrics')).toHaveTextContent('2 lines');
+        expect(screen.getByText('Open in Chantastik')).toHaveAttribute(
+            'href',
+            'https://app.test/share/token'
+        );
+    });
+
+    it('shows a notice when the link was revoked', () => {
+        mockUseSharedProject.mockReturnValue({
+            data: undefined,
+            isLoading: false,
+            isError: true,
+        } as any);
+
+        render(<EmbedPlayer token="token" colors />);
+
+        expect(screen.getByText('These lyrics are no longer shared.')).toBeInTheDocument();
+    });
+
+    it('plays, pauses and seeks on commands from the host page', () => {
+        const play = vi
+            .spyOn(HTMLMediaElement.prototype, 'play')
+            .mockResolvedValue(undefined);
+        const pause = vi
+            .spyOn(HTMLMediaElement.prototype, 'pause')
+            .mockImplementation(() => {});
+        mockUseSharedProject.mockReturnValue({
+            data: sharedProject,
+            isLoading: false,
+            isError: false,
+        } as any);
+
+        const { container } = render(<EmbedPlayer token="token" colors />);
+        const audio = container.querySelector('audio')!;
+
+        sendCommand({ type: 'play' });
+        expect(play).toHaveBeenCalled();
+
+        sendCommand({ type: 'pause' });
+        expect(pause).toHaveBeenCalled();
+
+        sendCommand({ type: 'seek', time: 4 });
+        expect(audio.currentTime).toBe(4);
+
+        sendCommand({ type: 'seek', time: 'soon' });
+        expect(audio.currentTime).toBe(4);
+    });
+});
@@ -6,7 +6,7 @@ import * as api from '@/data/api';
 
 // Mock the API module
 vi.mock('@/data/api', () => ({
-    getCoverArtUrl: vi.fn(),
+    getProjectCoverUrl: vi.fn(),
 }));
 
 const mockProject: Project = {
@@ -31,7 +31,7 @@ const defaultProps = {
 describe('ProjectCard', () => {
     beforeEach(() => {
         vi.clearAllMocks();
-        vi.mocked(api.getCoverArtUrl).mockReturnValue('https://example.com/cover.jpg');
+        vi.mocked(api.getProjectCoverUrl).mockReturnValue('https://example.com/cover.jpg');
     });
 
     it('renders project card with correct data', () => {
@@ -48,7 +48,18 @@ describe('ProjectCard', () => {
         const coverImage = screen.getByAltText('Cover art for Test Project');
         expect(coverImage).toBeInTheDocument();
         expect(coverImage).toHaveAttribute('src', 'https://example.com/cover.jpg');
-        expect(api.getCoverArtUrl).toHaveBeenCalledWith('test-audio-id');
+        expect(api.getProjectCoverUrl).toHaveBeenCalledWith('test-project-id', 160, undefined);
+    });
+
+    it('versions the cover url with the uploaded cover', () => {
+        const cover = {
+            contentType: 'image/png',
+            crop: { x: 0.5, y: 0.5, size: 1 },
+            updatedAt: '2023-10-16T10:30:00Z',
+        };
+        render(<ProjectCard {...defaultProps} project={{ ...mockProject, cover }} />);
+
+        expect(api.getProjectCoverUrl).toHaveBeenCalledWith('test-project-id', 160, '2023-10-16T10:30:00Z');
     });
 
     it('calls onSelect when card is clicked', () => {
@@ -127,6 +138,48 @@ describe('ProjectCard', () => {
         expect(mockOnDelete).toHaveBeenCalled();
     });
 
+    it('hides the share button without onShare', () => {
+        render(<ProjectCard {...defaultProps} />);
+
+        expect(screen.queryByTestId('share-project-button')).not.toBeInTheDocument();
+    });
+
+    it('calls onShare with the project when share button is clicked', () => {
+        const mockOnShare = vi.fn();
+        render(<ProjectCard {...defaultProps} onShare={mockOnShare} />);
+
+        fireEvent.click(screen.getByTestId('share-project-button'));
+
+        expect(mockOnShare).toHaveBeenCalledWith(mockProject);
+        expect(mockOnSelect).not.toHaveBeenCalled();
+    });
+
+    it('hides the export button without onExport', () => {
+        render(<ProjectCard {...defaultProps} />);
+
+        expect(screen.queryByTestId('export-project-button')).not.toBeInTheDocument();
+    });
+
+    it('calls onExport with the project when export button is clicked', () => {
+        const mockOnExport = vi.fn();
+        render(<ProjectCard {...defaultProps} onExport={mockOnExport} />);
+
+        fireEvent.click(screen.getByTestId('export-project-button'));
+
+        expect(mockOnExport).toHaveBeenCalledWith(mockProject);
+        expect(mockOnSelect).not.toHaveBeenCalled();
+    });
+
+    it('calls onDuplicate with the project when duplicate button is clicked', () => {
+        const mockOnDuplicate = vi.fn();
+        render(<ProjectCard {...defaultProps} onDuplicate={mockOnDuplicate} />);
+
+        fireEvent.click(screen.getByTestId('duplicate-project-button'));
+
+        expect(mockOnDuplicate).toHaveBeenCalledWith(mockProject);
+        expect(mockOnSelect).not.toHaveBeenCalled();
+    });
+
     it('renders accessibility attributes correctly', () => {
         render(<ProjectCard {...defaultProps} />);
         
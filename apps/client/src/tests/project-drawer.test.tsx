@@ -36,12 +36,15 @@ vi.mock('@/components/project-list-skeleton', () => ({
 }));
 
 vi.mock('@/components/project-card', () => ({
-    ProjectCard: ({ project, onSelect, onDelete, formatDate, ...props }: any) => (
+    ProjectCard: ({ project, onSelect, onDelete, onShare, onExport, onDuplicate, formatDate, ...props }: any) => (
         <div {...props}>
             <h3>{project.name}</h3>
             <p>{formatDate(project.updatedAt)}</p>
             <button onClick={() => onSelect(project)}>Select</button>
-            <button onClick={() => onDelete(project.id)}>Delete</button>
+            {onDelete && <button onClick={() => onDelete(project.id)}>Delete</button>}
+            {onShare && <button onClick={() => onShare(project)}>Share</button>}
+            {onExport && <button onClick={() => onExport(project)}>Export</button>}
+            {onDuplicate && <button onClick={() => onDuplicate(project)}>Duplicate</button>}
         </div>
     ),
 }));
@@ -67,6 +70,44 @@ const mockProjects: Project[] = [
 
 const mockUseProjectDrawer = vi.mocked(useProjectDrawer);
 
+const mockUpdateFilters = vi.fn();
+const mockClearFilters = vi.fn();
+const mockSelectWorkspace = vi.fn();
+const mockCreateWorkspace = vi.fn();
+const mockHandleProjectShare = vi.fn();
+const mockHandleProjectExport = vi.fn();
+const mockHandleProjectDuplicate = vi.fn();
+
+const paginationState = {
+    filters: {},
+    updateFilters: mockUpdateFilters,
+    clearFilters: mockClearFilters,
+    loadMoreRef: vi.fn(),
+    hasNextPage: false,
+    isFetchingNextPage: false,
+    workspaces: [
+        {
+            workspaceId: 'ws-1',
+            name: 'Band',
+            role: 'viewer' as const,
+            permissions: ['read' as const],
+        },
+    ],
+    currentWorkspace: undefined,
+    currentWorkspaceId: null,
+    selectWorkspace: mockSelectWorkspace,
+    createWorkspace: mockCreateWorkspace,
+    isCreatingWorkspace: false,
+    canDeleteProjects: true,
+    canShareProjects: false,
+    handleProjectShare: mockHandleProjectShare,
+    canExportProjects: false,
+    handleProjectExport: mockHandleProjectExport,
+    canDuplicateProjects: false,
+    handleProjectDuplicate: mockHandleProjectDuplicate,
+    isDuplicating: false,
+};
+
 describe('ProjectsDrawer', () => {
     const mockOnProjectSelected = vi.fn();
     const mockOnDeleteProject = vi.fn();
@@ -78,6 +119,7 @@ describe('ProjectsDrawer', () => {
     beforeEach(() => {
         vi.clearAllMocks();
         mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
             closeRef: { current: null },
             projects: [],
             isLoading: false,
@@ -135,6 +177,7 @@ describe('ProjectsDrawer', () => {
 
     it('displays loading skeleton when isLoading is true', () => {
         mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
             closeRef: { current: null },
             projects: [],
             isLoading: true,
@@ -158,6 +201,7 @@ describe('ProjectsDrawer', () => {
 
     it('displays loading skeleton when isFetching is true', () => {
         mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
             closeRef: { current: null },
             projects: [],
             isLoading: false,
@@ -181,6 +225,7 @@ describe('ProjectsDrawer', () => {
 
     it('displays error state when error exists', () => {
         mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
             closeRef: { current: null },
             projects: [],
             isLoading: false,
@@ -207,6 +252,7 @@ describe('ProjectsDrawer', () => {
 
     it('displays empty state when no projects exist', () => {
         mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
             closeRef: { current: null },
             projects: [],
             isLoading: false,
@@ -233,6 +279,7 @@ describe('ProjectsDrawer', () => {
 
     it('displays projects grid when projects exist', () => {
         mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
             closeRef: { current: null },
             projects: mockProjects,
             isLoading: false,
@@ -258,6 +305,7 @@ describe('ProjectsDrawer', () => {
 
     it('handles project selection correctly', async () => {
         mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
             closeRef: { current: null },
             projects: mockProjects,
             isLoading: false,
@@ -286,6 +334,7 @@ describe('ProjectsDrawer', () => {
 
     it('handles project deletion correctly', async () => {
         mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
             closeRef: { current: null },
             projects: mockProjects,
             isLoading: false,
@@ -314,6 +363,7 @@ describe('ProjectsDrawer', () => {
 
     it('formats dates correctly in project cards', () => {
         mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
             closeRef: { current: null },
             projects: mockProjects,
             isLoading: false,
@@ -374,4 +424,229 @@ describe('ProjectsDrawer', () => {
         expect(screen.getByText('Reload projects')).toHaveClass('sr-only');
         expect(screen.getByText('Close projects')).toHaveClass('sr-only');
     });
-});
\ No newline at end of file
+
+    it('updates filters when a filter chip is clicked', () => {
+        render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+            />
+        );
+
+        fireEvent.click(screen.getByTestId('projects-filter-youtube'));
+        expect(mockUpdateFilters).toHaveBeenCalledWith({ category: 'youtube-import' });
+
+        fireEvent.click(screen.getByTestId('projects-sort-name'));
+        expect(mockUpdateFilters).toHaveBeenCalledWith({ sort: 'name' });
+    });
+
+    it('shows clear filters button only when filters are active', () => {
+        const { unmount } = render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+            />
+        );
+
+        expect(screen.queryByTestId('projects-filter-clear')).not.toBeInTheDocument();
+
+        mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
+            closeRef: { current: null },
+            projects: [],
+            isLoading: false,
+            isFetching: false,
+            error: null,
+            formatDate: mockFormatDate,
+            handleProjectDelete: mockHandleProjectDelete,
+            handleProjectSelect: mockHandleProjectSelect,
+            refetch: mockReloadProjects,
+            filters: { public: true },
+        });
+        // The drawer is memoized, a rerender with the same props would not
+        // read the hook again
+        unmount();
+        render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+            />
+        );
+
+        fireEvent.click(screen.getByTestId('projects-filter-clear'));
+        expect(mockClearFilters).toHaveBeenCalled();
+    });
+
+    it('renders load more sentinel when more pages exist', () => {
+        mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
+            closeRef: { current: null },
+            projects: mockProjects,
+            isLoading: false,
+            isFetching: true,
+            error: null,
+            formatDate: mockFormatDate,
+            handleProjectDelete: mockHandleProjectDelete,
+            handleProjectSelect: mockHandleProjectSelect,
+            refetch: mockReloadProjects,
+            hasNextPage: true,
+            isFetchingNextPage: true,
+        });
+
+        render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+            />
+        );
+
+        expect(screen.getByTestId('projects-grid')).toBeInTheDocument();
+        expect(screen.getByTestId('projects-load-more')).toBeInTheDocument();
+        expect(screen.queryByTestId('project-list-skeleton')).not.toBeInTheDocument();
+    });
+
+    it('switches workspace when a workspace chip is clicked', () => {
+        render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+            />
+        );
+
+        expect(screen.getByTestId('workspace-personal')).toHaveAttribute('aria-pressed', 'true');
+
+        fireEvent.click(screen.getByTestId('workspace-ws-1'));
+        expect(mockSelectWorkspace).toHaveBeenCalledWith('ws-1');
+
+        fireEvent.click(screen.getByTestId('workspace-personal'));
+        expect(mockSelectWorkspace).toHaveBeenCalledWith(null);
+    });
+
+    it('creates a workspace from the switcher', () => {
+        render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+            />
+        );
+
+        fireEvent.click(screen.getByTestId('workspace-create'));
+        fireEvent.change(screen.getByTestId('workspace-name-input'), {
+            target: { value: '  Studio  ' },
+        });
+        fireEvent.click(screen.getByTestId('workspace-create-submit'));
+
+        expect(mockCreateWorkspace).toHaveBeenCalledWith('Studio');
+        expect(screen.queryByTestId('workspace-name-input')).not.toBeInTheDocument();
+    });
+
+    it('hides project deletion when the role does not allow it', () => {
+        mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
+            closeRef: { current: null },
+            projects: mockProjects,
+            isLoading: false,
+            isFetching: false,
+            error: null,
+            formatDate: mockFormatDate,
+            handleProjectDelete: mockHandleProjectDelete,
+            handleProjectSelect: mockHandleProjectSelect,
+            refetch: mockReloadProjects,
+            currentWorkspace: paginationState.workspaces[0],
+            currentWorkspaceId: 'ws-1',
+            canDeleteProjects: false,
+        });
+
+        render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+            />
+        );
+
+        expect(screen.getAllByText('Select')).toHaveLength(2);
+        expect(screen.queryByText('Delete')).not.toBeInTheDocument();
+        expect(screen.getByTestId('projects-drawer-description')).toHaveTextContent(
+            'Band · your role: viewer'
+        );
+    });
+
+    it('offers sharing when the drawer can share projects', () => {
+        mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
+            closeRef: { current: null },
+            projects: mockProjects,
+            isLoading: false,
+            isFetching: false,
+            error: null,
+            formatDate: mockFormatDate,
+            handleProjectDelete: mockHandleProjectDelete,
+            handleProjectSelect: mockHandleProjectSelect,
+            refetch: mockReloadProjects,
+            canShareProjects: true,
+        });
+
+        render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+                onShareProject={vi.fn()}
+            />
+        );
+
+        fireEvent.click(screen.getAllByText('Share')[1]);
+        expect(mockHandleProjectShare).toHaveBeenCalledWith(mockProjects[1]);
+    });
+
+    it('offers exporting when the drawer can export projects', () => {
+        mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
+            closeRef: { current: null },
+            projects: mockProjects,
+            isLoading: false,
+            isFetching: false,
+            error: null,
+            formatDate: mockFormatDate,
+            handleProjectDelete: mockHandleProjectDelete,
+            handleProjectSelect: mockHandleProjectSelect,
+            refetch: mockReloadProjects,
+            canExportProjects: true,
+        });
+
+        render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+            />
+        );
+
+        fireEvent.click(screen.getAllByText('Export')[0]);
+        expect(mockHandleProjectExport).toHaveBeenCalledWith(mockProjects[0]);
+    });
+
+    it('offers duplicating when the drawer can duplicate projects', () => {
+        mockUseProjectDrawer.mockReturnValue({
+            ...paginationState,
+            closeRef: { current: null },
+            projects: mockProjects,
+            isLoading: false,
+            isFetching: false,
+            error: null,
+            formatDate: mockFormatDate,
+            handleProjectDelete: mockHandleProjectDelete,
+            handleProjectSelect: mockHandleProjectSelect,
+            refetch: mockReloadProjects,
+            canDuplicateProjects: true,
+        });
+
+        render(
+            <ProjectsDrawer
+                onProjectSelected={mockOnProjectSelected}
+                onDeleteProject={mockOnDeleteProject}
+            />
+        );
+
+        fireEvent.click(screen.getAllByText('Duplicate')[1]);
+        expect(mockHandleProjectDuplicate).toHaveBeenCalledWith(mockProjects[1]);
+    });
+});
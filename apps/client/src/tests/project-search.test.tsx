@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ProjectSearch } from '@/components/project-search';
+import { useProjectSearch } from '@/hooks/use-project-search';
+import { type SearchHit } from '@/data/api';
+
+vi.mock('@/hooks/use-project-search');
+
+vi.mock('@/components/ui/popover', () => ({
+    Popover: ({ children, open }: any) => <div data-open={open}>{children}</div>,
+    PopoverAnchor: ({ children }: any) => <div>{children}</div>,
+    PopoverContent: ({ children, onOpenAutoFocus, align, ...props }: any) => (
+        <div {...props}>{children}</div>
+    ),
+}));
+
+const mockHits: SearchHit[] = [
+    {
+        projectId: 'project-1',
+        projectName: 'Project 1',
+        audioId: 'audio-1',
+        field: 'lyrics',
+        text: "Never knew what I was missin'",
+        lineId: 4,
+        timestamp: 12.5,
+        score: 110,
+    },
+    {
+        projectId: 'project-2',
+        projectName: 'Missing You',
+        audioId: 'audio-2',
+        field: 'name',
+        text: 'Missing You',
+        score: 60,
+    },
+];
+
+const mockUseProjectSearch = vi.mocked(useProjectSearch);
+
+describe('ProjectSearch', () => {
+    const mockOnProjectSelected = vi.fn();
+    const mockSetQuery = vi.fn();
+    const mockSetOpen = vi.fn();
+    const mockHandleHitSelect = vi.fn();
+
+    const baseState = {
+        query: 'missin',
+        setQuery: mockSetQuery,
+        open: true,
+        setOpen: mockSetOpen,
+        hits: mockHits,
+        isSearching: false,
+        error: null,
+        handleHitSelect: mockHandleHitSelect,
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        mockUseProjectSearch.mockReturnValue(baseState);
+    });
+
+    it('passes onProjectSelected to the hook', () => {
+        render(<ProjectSearch onProjectSelected={mockOnProjectSelected} />);
+
+        expect(mockUseProjectSearch).toHaveBeenCalledWith({
+            onProjectSelected: mockOnProjectSelected,
+        });
+    });
+
+    it('updates the query when typing', () => {
+        render(<ProjectSearch onProjectSelected={mockOnProjectSelected} />);
+
+        fireEvent.change(screen.getByTestId('project-search-input'), {
+            target: { value: 'never knew' },
+        });
+
+        expect(mockSetQuery).toHaveBeenCalledWith('never knew');
+        expect(mockSetOpen).toHaveBeenCalledWith(true);
+    });
+
+    it('renders hits with project name, field and timestamp', () => {
+        render(<ProjectSearch onProjectSelected={mockOnProjectSelected} />);
+
+        expect(screen.getAllByTestId('search-hit')).toHaveLength(2);
+        expect(screen.getByText("Never knew what I was missin'")).toBeInTheDocument();
+        expect(screen.getByText('Lyrics')).toBeInTheDocument();
+        expect(screen.getByText('00:12.50')).toBeInTheDocument();
+    });
+
+    it('selects a hit on click', () => {
+        render(<ProjectSearch onProjectSelected={mockOnProjectSelected} />);
+
+        fireEvent.click(screen.getAllByTestId('search-hit')[0]);
+
+        expect(mockHandleHitSelect).toHaveBeenCalledWith(mockHits[0]);
+    });
+
+    it('selects the best hit on Enter', () => {
+        render(<ProjectSearch onProjectSelected={mockOnProjectSelected} />);
+
+        fireEvent.keyDown(screen.getByTestId('project-search-input'), { key: 'Enter' });
+
+        expect(mockHandleHitSelect).toHaveBeenCalledWith(mockHits[0]);
+    });
+
+    it('shows the empty state when nothing matches', () => {
+        mockUseProjectSearch.mockReturnValue({ ...baseState, hits: [] });
+
+        render(<ProjectSearch onProjectSelected={mockOnProjectSelected} />);
+
+        expect(screen.getByTestId('search-empty')).toHaveTextContent('missin');
+    });
+
+    it('shows an error when the search fails', () => {
+        mockUseProjectSearch.mockReturnValue({
+            ...baseState,
+            hits: undefined,
+            error: new Error('Search failed'),
+        });
+
+        render(<ProjectSearch onProjectSelected={mockOnProjectSelected} />);
+
+        expect(screen.getByTestId('search-error')).toBeInTheDocument();
+    });
+});
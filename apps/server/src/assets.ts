@@ -0,0 +1,311 @@
+import { KVNamespace } from "@cloudflare/workers-types";
+import { Asset, AssetKind, Bindings, Project, RenderAssets } from "./types";
+import { badRequest, notFound } from "./errors";
+import { listAllKeys } from "./utils";
+
+/**
+ * Asset library: images, short video loops and fonts a render can use instead
+ * of the embedded cover art. Files live in the ASSET_FILES bucket, records in
+ * PROJECT_KV under `asset:<id>`, listed per personal space or workspace
+ * through `asset-scope:` keys. Projects attach assets through assetIds, and
+ * `asset-ref:<assetId>:<projectId>` keys tell which projects use an asset.
+ */
+
+export const ASSET_SCOPE_PREFIX = "asset-scope:";
+export const ASSET_REF_PREFIX = "asset-ref:";
+
+export const assetKinds = ["image", "video", "font"] as const;
+
+export type AssetFormat = {
+  kind: AssetKind;
+  extension: string;
+  contentType: string;
+};
+
+const formats: (AssetFormat & { mimeTypes: string[]; extensions: string[] })[] =
+  [
+    {
+      kind: "image",
+      extension: "jpg",
+      contentType: "image/jpeg",
+      mimeTypes: ["image/jpeg", "image/jpg", "image/pjpeg"],
+      extensions: ["jpg", "jpeg"],
+    },
+    {
+      kind: "image",
+      extension: "png",
+      contentType: "image/png",
+      mimeTypes: ["image/png"],
+      extensions: ["png"],
+    },
+    {
+      kind: "image",
+      extension: "webp",
+      contentType: "image/webp",
+      mimeTypes: ["image/webp"],
+      extensions: ["webp"],
+    },
+    {
+      kind: "image",
+      extension: "gif",
+      contentType: "image/gif",
+      mimeTypes: ["image/gif"],
+      extensions: ["gif"],
+    },
+    {
+      kind: "video",
+      extension: "mp4",
+      contentType: "video/mp4",
+      mimeTypes: ["video/mp4"],
+      extensions: ["mp4", "m4v"],
+    },
+    {
+      kind: "video",
+      extension: "webm",
+      contentType: "video/webm",
+      mimeTypes: ["video/webm"],
+      extensions: ["webm"],
+    },
+    {
+      kind: "font",
+      extension: "woff2",
+      contentType: "font/woff2",
+      mimeTypes: ["font/woff2", "application/font-woff2"],
+      extensions: ["woff2"],
+    },
+    {
+      kind: "font",
+      extension: "woff",
+      contentType: "font/woff",
+      mimeTypes: ["font/woff", "application/font-woff"],
+      extensions: ["woff"],
+    },
+    {
+      kind: "font",
+      extension: "ttf",
+      contentType: "font/ttf",
+      mimeTypes: ["font/ttf", "application/x-font-ttf"],
+      extensions: ["ttf"],
+    },
+    {
+      kind: "font",
+      extension: "otf",
+      contentType: "font/otf",
+      mimeTypes: ["font/otf", "application/x-font-otf"],
+      extensions: ["otf"],
+    },
+  ];
+
+export const SUPPORTED_ASSET_EXTENSIONS = formats.flatMap(
+  (format) => format.extensions
+);
+
+export const SUPPORTED_IMAGE_EXTENSIONS = formats
+  .filter((format) => format.kind === "image")
+  .flatMap((format) => format.extensions);
+
+// Video loops are meant to be short, a few seconds repeated under the lyrics
+export const MAX_ASSET_SIZE: Record<AssetKind, number> = {
+  image: 10 * 1024 * 1024,
+  video: 50 * 1024 * 1024,
+  font: 5 * 1024 * 1024,
+};
+
+/**
+ * Resolve the kind and storage format of an uploaded asset. Fonts are often
+ * sent without a useful MIME type, so the extension is the fallback.
+ * @param {string} mimeType - MIME type sent by the client, may be empty
+ * @param {string} filename - Original file name
+ * @returns {AssetFormat|null} - The kind, extension and content type, null if unsupported
+ */
+export function resolveAssetFormat(
+  mimeType: string,
+  filename: string
+): AssetFormat | null {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+
+  const format =
+    formats.find((f) => f.mimeTypes.includes(type)) ??
+    formats.find((f) => f.extensions.includes(extension));
+
+  return format
+    ? {
+        kind: format.kind,
+        extension: format.extension,
+        contentType: format.contentType,
+      }
+    : null;
+}
+
+const scopeOf = (resource: { ownerId?: string; workspaceId?: string }) =>
+  resource.workspaceId
+    ? `workspace:${resource.workspaceId}`
+    : `user:${resource.ownerId}`;
+
+const scopeKey = (asset: Asset) =>
+  `${ASSET_SCOPE_PREFIX}${scopeOf(asset)}:${asset.id}`;
+
+const refKey = (assetId: string, projectId: string) =>
+  `${ASSET_REF_PREFIX}${assetId}:${projectId}`;
+
+/**
+ * Get an asset record
+ * @throws {ApiError} 404 if the asset does not exist
+ */
+export async function getAssetOrThrow(
+  kv: KVNamespace,
+  id: string
+): Promise<Asset> {
+  const raw = await kv.get(`asset:${id}`);
+  if (!raw) throw notFound("Asset not found");
+  return JSON.parse(raw) as Asset;
+}
+
+/**
+ * Store an asset record and list it in its personal space or workspace
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {Asset} asset - The asset, its file already in ASSET_FILES
+ */
+export async function saveAsset(kv: KVNamespace, asset: Asset) {
+  await kv.put(`asset:${asset.id}`, JSON.stringify(asset));
+  await kv.put(scopeKey(asset), "");
+}
+
+/**
+ * List the assets of a personal space or workspace, newest first
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {Object} scope - The workspace ID, or the owner ID for personal assets
+ * @param {AssetKind} [kind] - Only list assets of this kind
+ * @returns {Promise<Asset[]>} - The asset records
+ */
+export async function listAssets(
+  kv: KVNamespace,
+  scope: { ownerId?: string; workspaceId?: string },
+  kind?: AssetKind
+): Promise<Asset[]> {
+  const prefix = `${ASSET_SCOPE_PREFIX}${scopeOf(scope)}:`;
+  const ids = (await listAllKeys(kv, prefix)).map((key) =>
+    key.slice(prefix.length)
+  );
+
+  const assets = await Promise.all(
+    ids.map(async (id) => {
+      const raw = await kv.get(`asset:${id}`);
+      return raw ? (JSON.parse(raw) as Asset) : null;
+    })
+  );
+
+  return assets
+    .filter((asset): asset is Asset => asset !== null)
+    .filter((asset) => !kind || asset.kind === kind)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * List the projects an asset is attached to
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {string} assetId - The asset ID
+ * @returns {Promise<string[]>} - IDs of the projects
+ */
+export async function listAssetReferences(
+  kv: KVNamespace,
+  assetId: string
+): Promise<string[]> {
+  const prefix = `${ASSET_REF_PREFIX}${assetId}:`;
+  return (await listAllKeys(kv, prefix)).map((key) => key.slice(prefix.length));
+}
+
+/**
+ * Get the asset and project IDs of a reference key
+ */
+export function parseAssetRefKey(key: string): {
+  assetId: string;
+  projectId: string;
+} {
+  const [assetId, projectId] = key.slice(ASSET_REF_PREFIX.length).split(":");
+  return { assetId, projectId };
+}
+
+// Kinds each render slot accepts
+const renderAssetKinds: Record<keyof RenderAssets, AssetKind[]> = {
+  background: ["image", "video"],
+  logo: ["image"],
+  font: ["font"],
+};
+
+/**
+ * Check the assets of a project: they must exist and live in the same
+ * personal space or workspace, so whoever opens the project can load them,
+ * and the render slots must point to attached assets of a fitting kind
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {Project} project - The project with its new assetIds and renderAssets
+ * @throws {ApiError} 404 if an asset does not exist, 400 if it belongs to another space or does not fit its slot
+ */
+export async function assertAttachableAssets(
+  kv: KVNamespace,
+  project: Pick<Project, "ownerId" | "workspaceId" | "assetIds" | "renderAssets">
+) {
+  const attached = new Map<string, Asset>();
+  for (const id of new Set(project.assetIds ?? [])) {
+    const asset = await getAssetOrThrow(kv, id);
+    if (scopeOf(asset) !== scopeOf(project)) {
+      throw badRequest(`Asset ${id} belongs to another workspace`);
+    }
+    attached.set(id, asset);
+  }
+
+  const slots = Object.entries(project.renderAssets ?? {}) as [
+    keyof RenderAssets,
+    string | undefined,
+  ][];
+  for (const [slot, id] of slots) {
+    if (!id) continue;
+    const asset = attached.get(id);
+    if (!asset) throw badRequest(`The ${slot} asset must be listed in assetIds`);
+    if (!renderAssetKinds[slot].includes(asset.kind)) {
+      throw badRequest(`A ${asset.kind} asset cannot be used as ${slot}`);
+    }
+  }
+}
+
+/**
+ * Write the reference keys of a project's assets, removing those of assets
+ * it no longer uses
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {Project} project - The saved project
+ * @param {string[]} [previousIds] - The assetIds before the change
+ */
+export async function syncAssetReferences(
+  kv: KVNamespace,
+  project: Pick<Project, "id" | "assetIds">,
+  previousIds: string[] = []
+) {
+  const current = new Set(project.assetIds ?? []);
+  await Promise.all([
+    ...previousIds
+      .filter((id) => !current.has(id))
+      .map((id) => kv.delete(refKey(id, project.id))),
+    ...[...current].map((id) => kv.put(refKey(id, project.id), "")),
+  ]);
+}
+
+/**
+ * Delete an asset with its file, listing entry and any leftover references
+ * @param {Bindings} env - Worker bindings
+ * @param {Asset} asset - The asset to delete
+ */
+export async function deleteAssetCascade(env: Bindings, asset: Asset) {
+  const refs = await listAllKeys(
+    env.PROJECT_KV,
+    `${ASSET_REF_PREFIX}${asset.id}:`
+  );
+
+  await Promise.all([
+    env.ASSET_FILES.delete(asset.storageKey),
+    env.PROJECT_KV.delete(scopeKey(asset)),
+    ...refs.map((key) => env.PROJECT_KV.delete(key)),
+  ]);
+  // Deleted last so a failure above leaves the record around to retry
+  await env.PROJECT_KV.delete(`asset:${asset.id}`);
+}
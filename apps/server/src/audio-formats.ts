@@ -0,0 +1,91 @@
+import { Audio } from "./types";
+
+/**
+ * Audio containers accepted on upload. Browsers and operating systems report
+ * the same format under several MIME types, and some send none at all, so a
+ * file is matched on its MIME type first and on its extension second.
+ */
+
+export type AudioFormat = {
+  extension: string;
+  contentType: string;
+};
+
+const formats: (AudioFormat & { mimeTypes: string[]; extensions: string[] })[] =
+  [
+    {
+      extension: "mp3",
+      contentType: "audio/mpeg",
+      mimeTypes: ["audio/mpeg", "audio/mp3", "audio/mpeg3", "audio/x-mpeg-3"],
+      extensions: ["mp3"],
+    },
+    {
+      extension: "flac",
+      contentType: "audio/flac",
+      mimeTypes: ["audio/flac", "audio/x-flac"],
+      extensions: ["flac"],
+    },
+    {
+      extension: "wav",
+      contentType: "audio/wav",
+      mimeTypes: ["audio/wav", "audio/x-wav", "audio/wave", "audio/vnd.wave"],
+      extensions: ["wav", "wave"],
+    },
+    {
+      extension: "m4a",
+      contentType: "audio/mp4",
+      mimeTypes: ["audio/mp4", "audio/x-m4a", "audio/m4a"],
+      extensions: ["m4a", "mp4"],
+    },
+    {
+      extension: "aac",
+      contentType: "audio/aac",
+      mimeTypes: ["audio/aac", "audio/x-aac", "audio/aacp"],
+      extensions: ["aac"],
+    },
+    {
+      extension: "ogg",
+      contentType: "audio/ogg",
+      mimeTypes: ["audio/ogg", "application/ogg", "audio/opus", "audio/vorbis"],
+      extensions: ["ogg", "oga", "opus"],
+    },
+  ];
+
+export const SUPPORTED_AUDIO_EXTENSIONS = formats.flatMap(
+  (format) => format.extensions
+);
+
+/**
+ * Resolve the storage format of an uploaded file
+ * @param {string} mimeType - MIME type sent by the client, may be empty
+ * @param {string} filename - Original file name
+ * @returns {AudioFormat|null} - The canonical extension and content type, null if unsupported
+ */
+export function resolveAudioFormat(
+  mimeType: string,
+  filename: string
+): AudioFormat | null {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+
+  const format =
+    formats.find((f) => f.mimeTypes.includes(type)) ??
+    // Generic or missing types fall back to the file extension
+    (type === "" || type === "application/octet-stream"
+      ? formats.find((f) => f.extensions.includes(extension))
+      : undefined);
+
+  return format
+    ? { extension: format.extension, contentType: format.contentType }
+    : null;
+}
+
+/**
+ * Get the R2 key of an audio file. Files uploaded before other formats were
+ * supported have no storageKey and are always MP3.
+ * @param {Audio} audio - The audio record
+ * @returns {string} - The R2 object key
+ */
+export function getAudioKey(audio: Pick<Audio, "id" | "storageKey">): string {
+  return audio.storageKey ?? `${audio.id}.mp3`;
+}
@@ -0,0 +1,69 @@
+import { KVNamespace } from "@cloudflare/workers-types";
+import { listAllKeys } from "./utils";
+
+/**
+ * Projects using an audio record, one `audio-ref:<audioId>:<projectId>` key
+ * each in the audio KV. Several projects can play the same file, which is
+ * only deleted with the last of them. YouTube projects use a virtual audio ID
+ * without a stored file and are not tracked.
+ */
+
+export const AUDIO_REF_PREFIX = "audio-ref:";
+
+const refKey = (audioId: string, projectId: string) =>
+  `${AUDIO_REF_PREFIX}${audioId}:${projectId}`;
+
+const isTracked = (audioId: string) => !audioId.startsWith("youtube-virtual-");
+
+/**
+ * Get the audio and project IDs of a reference key
+ */
+export function parseAudioRefKey(key: string): {
+  audioId: string;
+  projectId: string;
+} {
+  const [audioId, projectId] = key.slice(AUDIO_REF_PREFIX.length).split(":");
+  return { audioId, projectId };
+}
+
+/**
+ * Record that a project uses an audio record
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {string} audioId - The audio ID
+ * @param {string} projectId - The project ID
+ */
+export async function addAudioReference(
+  kv: KVNamespace,
+  audioId: string,
+  projectId: string
+) {
+  if (isTracked(audioId)) await kv.put(refKey(audioId, projectId), "");
+}
+
+/**
+ * Forget that a project uses an audio record
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {string} audioId - The audio ID
+ * @param {string} projectId - The project ID
+ */
+export async function removeAudioReference(
+  kv: KVNamespace,
+  audioId: string,
+  projectId: string
+) {
+  if (isTracked(audioId)) await kv.delete(refKey(audioId, projectId));
+}
+
+/**
+ * List the projects using an audio record
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {string} audioId - The audio ID
+ * @returns {Promise<string[]>} - IDs of the referencing projects
+ */
+export async function listAudioReferences(
+  kv: KVNamespace,
+  audioId: string
+): Promise<string[]> {
+  const keys = await listAllKeys(kv, `${AUDIO_REF_PREFIX}${audioId}:`);
+  return keys.map((key) => parseAudioRefKey(key).projectId);
+}
@@ -0,0 +1,507 @@
+import { KVNamespace, R2Bucket } from "@cloudflare/workers-types";
+import { v4 as uuidv4 } from "uuid";
+import * as mm from "music-metadata";
+import type { IAudioMetadata, ILyricsTag } from "music-metadata";
+import {
+  Audio,
+  AuthUser,
+  Bindings,
+  LyricsLine,
+  Project,
+  UploadSession,
+} from "./types";
+import { ApiError, badRequest, notFound } from "./errors";
+import {
+  claimFileHash,
+  findFileByHash,
+  generateStreamHash,
+  indexAudioScope,
+  listAllKeys,
+  saveProject,
+} from "./utils";
+import { assertOwner } from "./auth";
+import { indexProjectForSearch } from "./search";
+import { addAudioReference, listAudioReferences } from "./audio-refs";
+import { assertCan, can, getAccessRole } from "./workspaces";
+import { saveLyricsVersion } from "./lyrics";
+import { detectLyricsFormat, parseLyricsFile } from "./lyrics-formats";
+
+/**
+ * Steps shared by the single-request and the multipart upload: duplicate
+ * detection, cover art and lyrics extraction and creation of the audio record
+ * and its project.
+ */
+
+/**
+ * Lyrics found in the tags of an uploaded file: synchronised SYLT frames give
+ * timed lines, unsynchronised USLT frames plain ones unless their text is LRC
+ */
+export type EmbeddedLyrics = {
+  frame: "sylt" | "uslt";
+  synced: boolean;
+  language?: string;
+  lines: LyricsLine[];
+};
+
+// What the upload response reports about the lyrics version made from the tags
+export type EmbeddedLyricsReport = {
+  lyricsId: string;
+  frame: EmbeddedLyrics["frame"];
+  synced: boolean;
+  lineCount: number;
+  language?: string;
+};
+
+// SYLT content types up to song lyrics, the next ones are events, chords or trivia
+const SYLT_LYRICS = 1;
+// SYLT time stamp formats
+const SYLT_MPEG_FRAMES = 1;
+const SYLT_MILLISECONDS = 2;
+// Samples in an MPEG-1 Layer III frame
+const MPEG_FRAME_SAMPLES = 1152;
+
+// Unfinished sessions expire with R2's default multipart lifecycle
+export const UPLOAD_SESSION_TTL = 7 * 24 * 60 * 60;
+// Largest file of a multipart upload, audio or project bundle
+export const MAX_UPLOAD_SIZE = 2 * 1024 * 1024 * 1024; // 2 GB
+
+export type UploadedPart = { partNumber: number; etag: string; size: number };
+
+export const uploadSessionKey = (uploadId: string) => `upload:${uploadId}`;
+export const uploadPartKey = (uploadId: string, partNumber: number) =>
+  `upload-part:${uploadId}:${partNumber.toString().padStart(5, "0")}`;
+
+/**
+ * Read a multipart upload session of the caller
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {string} uploadId - The upload ID
+ * @param {AuthUser} user - The caller
+ * @returns {Promise<UploadSession>} - The session
+ * @throws {ApiError} 404 if the upload does not exist or expired, 403 if someone else started it
+ */
+export async function getUploadSession(
+  kv: KVNamespace,
+  uploadId: string,
+  user: AuthUser
+): Promise<UploadSession> {
+  const raw = await kv.get(uploadSessionKey(uploadId));
+  if (!raw) throw notFound("Upload not found or expired");
+  const session = JSON.parse(raw) as UploadSession;
+  assertOwner(session, user);
+  return session;
+}
+
+/**
+ * List the parts stored for an upload
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {string} uploadId - The upload ID
+ * @returns {Promise<Object>} - The part keys and the parts they hold
+ */
+export async function listUploadedParts(
+  kv: KVNamespace,
+  uploadId: string
+): Promise<{ keys: string[]; parts: UploadedPart[] }> {
+  const keys = await listAllKeys(kv, `upload-part:${uploadId}:`);
+  const parts = await Promise.all(
+    keys.map(async (key) => JSON.parse((await kv.get(key)) ?? "null"))
+  );
+  return {
+    keys,
+    parts: parts.filter((part): part is UploadedPart => part !== null),
+  };
+}
+
+/**
+ * Delete an upload session and its parts, not the file
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {string} uploadId - The upload ID
+ */
+export async function deleteUploadSession(kv: KVNamespace, uploadId: string) {
+  const { keys } = await listUploadedParts(kv, uploadId);
+  await Promise.all([
+    ...keys.map((key) => kv.delete(key)),
+    kv.delete(uploadSessionKey(uploadId)),
+  ]);
+}
+
+/**
+ * Assemble the parts of an upload into its R2 object. A retry after a
+ * timeout finds the parts already assembled and leaves them.
+ * @param {Bindings} env - Worker bindings
+ * @param {UploadSession} session - The upload session
+ * @throws {ApiError} 400 with the missing part numbers if some were not uploaded
+ */
+export async function assembleUpload(env: Bindings, session: UploadSession) {
+  const { parts } = await listUploadedParts(env.AUDIO_KV, session.id);
+
+  const uploadedNumbers = new Set(parts.map((part) => part.partNumber));
+  const missing = Array.from(
+    { length: session.partCount },
+    (_, i) => i + 1
+  ).filter((n) => !uploadedNumbers.has(n));
+  if (missing.length > 0) {
+    throw badRequest("Some parts have not been uploaded", { missing });
+  }
+
+  if (await env.AUDIO_FILES.head(session.key)) return;
+
+  const multipart = env.AUDIO_FILES.resumeMultipartUpload(
+    session.key,
+    session.r2UploadId
+  );
+  await multipart.complete(
+    parts
+      .sort((a, b) => a.partNumber - b.partNumber)
+      .map(({ partNumber, etag }) => ({ partNumber, etag }))
+  );
+}
+
+/**
+ * Hash an assembled upload, reading it as a stream so it never sits in memory
+ * @param {Bindings} env - Worker bindings
+ * @param {UploadSession} session - The upload session
+ * @returns {Promise<string>} - SHA-256 of the file
+ */
+export async function hashUploadedFile(
+  env: Bindings,
+  session: UploadSession
+): Promise<string> {
+  const object = await env.AUDIO_FILES.get(session.key);
+  if (!object) throw notFound("Uploaded file not found");
+  return generateStreamHash(object.body as ReadableStream<Uint8Array>);
+}
+
+/**
+ * Parse the metadata of an assembled upload and store its cover art, in a
+ * second pass over the file
+ * @param {Bindings} env - Worker bindings
+ * @param {UploadSession} session - The upload session
+ * @param {string} audioId - The audio the cover art belongs to
+ * @returns {Promise<Object>} - The parsed metadata and the cover info
+ * @throws {ApiError} 400 if the metadata cannot be read
+ */
+export async function parseUploadedFile(
+  env: Bindings,
+  session: UploadSession,
+  audioId: string
+): Promise<{ metadata: IAudioMetadata; coverArt: Audio["coverArt"] }> {
+  try {
+    const object = await env.AUDIO_FILES.get(session.key);
+    if (!object) throw new Error("Uploaded file not found");
+    const metadata = await mm.parseWebStream(
+      object.body as ReadableStream<Uint8Array>,
+      { mimeType: session.contentType, size: session.size }
+    );
+    const coverArt = await storeCoverArt(env.COVER_FILES, audioId, metadata);
+    return { metadata, coverArt };
+  } catch (error) {
+    throw badRequest(
+      `Error extracting metadata: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Read the projects using an audio record whose file is about to be
+ * replaced. They all play the new file, so the caller must be able to edit,
+ * and retime, every one of them.
+ * @param {Bindings} env - Worker bindings
+ * @param {Audio} audio - The audio record
+ * @param {AuthUser} user - The caller
+ * @returns {Promise<Project[]>} - The projects using the audio
+ * @throws {ApiError} 403 FORBIDDEN if the caller cannot edit the audio or one of the projects
+ */
+export async function getProjectsOfReplacedAudio(
+  env: Bindings,
+  audio: Audio,
+  user: AuthUser
+): Promise<Project[]> {
+  await assertCan(env, audio, user, "editProject");
+
+  const projects = (
+    await Promise.all(
+      (await listAudioReferences(env.AUDIO_KV, audio.id)).map(
+        async (projectId) => {
+          const raw = await env.PROJECT_KV.get(`project:${projectId}`);
+          return raw ? (JSON.parse(raw) as Project) : null;
+        }
+      )
+    )
+  ).filter((project) => project !== null);
+
+  const roles = await Promise.all(
+    projects.map((project) => getAccessRole(env, project, user))
+  );
+  const locked = roles.filter((role) => !can(role, "editProject")).length;
+  if (locked > 0) {
+    throw new ApiError(
+      403,
+      "FORBIDDEN",
+      "This audio is also used by projects you cannot edit",
+      { details: { projects: projects.length, locked } }
+    );
+  }
+
+  return projects;
+}
+
+/**
+ * Throw if the caller can already play a stored file with the same content
+ * hash. A file the caller has no access to does not count: they get their
+ * own copy instead of learning that someone else uploaded it.
+ * @param {Bindings} env - Worker bindings
+ * @param {string} fileHash - SHA-256 of the uploaded content
+ * @param {AuthUser} user - The uploader
+ * @throws {ApiError} 400 DUPLICATE_FILE with the existing file and the projects using it that the caller can open
+ */
+export async function assertNotDuplicate(
+  env: Bindings,
+  fileHash: string,
+  user: AuthUser
+) {
+  const existingFile = await findFileByHash(env.AUDIO_KV, fileHash);
+  if (!existingFile) return;
+  if (!can(await getAccessRole(env, existingFile, user), "read")) return;
+
+  const projects = (
+    await Promise.all(
+      (await listAudioReferences(env.AUDIO_KV, existingFile.id)).map(
+        async (projectId) => {
+          const raw = await env.PROJECT_KV.get(`project:${projectId}`);
+          const project = raw ? (JSON.parse(raw) as Project) : null;
+          return project &&
+            can(await getAccessRole(env, project, user), "read")
+            ? { id: project.id, name: project.name }
+            : null;
+        }
+      )
+    )
+  ).filter((project) => project !== null);
+
+  throw new ApiError(400, "DUPLICATE_FILE", "File already exists", {
+    details: {
+      existingFile: {
+        id: existingFile.id,
+        filename: existingFile.filename,
+        metadata: existingFile.metadata,
+      },
+      projects,
+    },
+  });
+}
+
+/**
+ * Save the first embedded picture of a file as its cover art
+ * @param {R2Bucket} bucket - The cover bucket
+ * @param {string} audioId - The audio ID the cover belongs to
+ * @param {IAudioMetadata} metadata - Parsed metadata of the file
+ * @returns {Promise<Audio["coverArt"]>} - The cover info, undefined without a picture
+ */
+export async function storeCoverArt(
+  bucket: R2Bucket,
+  audioId: string,
+  metadata: IAudioMetadata
+): Promise<Audio["coverArt"]> {
+  const coverArt = metadata.common.picture?.[0];
+  if (!coverArt) return undefined;
+
+  const coverArtId = `${audioId}-cover`;
+  const coverKey = `${coverArtId}.${coverArt.format.split("/")[1] || "jpg"}`;
+
+  await bucket.put(coverKey, coverArt.data, {
+    httpMetadata: {
+      contentType: coverArt.format,
+    },
+  });
+
+  return {
+    id: coverArtId,
+    format: coverArt.format,
+    size: coverArt.data.length,
+  };
+}
+
+/**
+ * Pick the tags stored on the audio record from parsed metadata
+ */
+export function toAudioMetadata(metadata: IAudioMetadata): Audio["metadata"] {
+  return {
+    title: metadata.common.title,
+    artist: metadata.common.artist,
+    album: metadata.common.album,
+    year: metadata.common.year?.toString(),
+    genre: metadata.common.genre,
+    duration: metadata.format.duration,
+  };
+}
+
+// "XXX" and "und" mark an unknown language in ID3
+const lyricsLanguage = (tag: ILyricsTag) =>
+  tag.language && !/^(xxx|und)$/i.test(tag.language) ? tag.language : undefined;
+
+// Seconds of a SYLT time stamp, null for a format that cannot be converted
+function syltSeconds(
+  timestamp: number,
+  tag: ILyricsTag,
+  metadata: IAudioMetadata
+): number | null {
+  if (tag.timeStampFormat === SYLT_MILLISECONDS) return timestamp / 1000;
+  const sampleRate = metadata.format.sampleRate;
+  if (tag.timeStampFormat === SYLT_MPEG_FRAMES && sampleRate) {
+    return (timestamp * MPEG_FRAME_SAMPLES) / sampleRate;
+  }
+  return null;
+}
+
+/**
+ * Turn SYLT syllables into lines. Taggers writing syllables start each line
+ * with a line break, others write one entry per line.
+ */
+function syltLines(
+  tag: ILyricsTag,
+  metadata: IAudioMetadata
+): LyricsLine[] | null {
+  const entries = tag.syncText;
+  const bySyllable = entries
+    .slice(1)
+    .some((entry) => /^[\r\n]/.test(entry.text));
+
+  const lines: { timestamp: number; text: string }[] = [];
+  for (const [index, entry] of entries.entries()) {
+    const seconds =
+      entry.timestamp === undefined
+        ? null
+        : syltSeconds(entry.timestamp, tag, metadata);
+    if (seconds === null) return null;
+
+    if (index === 0 || !bySyllable || /^[\r\n]/.test(entry.text)) {
+      lines.push({ timestamp: seconds, text: entry.text });
+    } else {
+      lines[lines.length - 1].text += entry.text;
+    }
+  }
+
+  return lines
+    .map((line) => ({ ...line, text: line.text.replace(/\s+/g, " ").trim() }))
+    .filter((line) => line.text)
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(0, 5000)
+    .map((line, index) => ({
+      id: index + 1,
+      text: line.text.slice(0, 1000),
+      timestamp: Math.round(line.timestamp * 1000) / 1000,
+    }));
+}
+
+/**
+ * Read the lyrics embedded in a file, preferring synchronised ones
+ * @param {IAudioMetadata} metadata - Parsed metadata of the file
+ * @returns {EmbeddedLyrics|null} - The lines, null without usable lyrics
+ */
+export function extractEmbeddedLyrics(
+  metadata: IAudioMetadata
+): EmbeddedLyrics | null {
+  const tags = metadata.common.lyrics ?? [];
+
+  for (const tag of tags) {
+    if (tag.syncText.length === 0 || tag.contentType > SYLT_LYRICS) continue;
+    const lines = syltLines(tag, metadata);
+    if (lines?.length) {
+      return {
+        frame: "sylt",
+        synced: true,
+        language: lyricsLanguage(tag),
+        lines,
+      };
+    }
+  }
+
+  for (const tag of tags) {
+    const text = tag.text?.trim();
+    if (!text) continue;
+    const language = lyricsLanguage(tag);
+
+    // Some taggers store a whole LRC file as unsynchronised lyrics
+    if (detectLyricsFormat(text)?.endsWith("lrc")) {
+      try {
+        const { lines } = parseLyricsFile(text);
+        return { frame: "uslt", synced: true, language, lines };
+      } catch {
+        // Fall back to plain lines
+      }
+    }
+
+    const lines = text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .slice(0, 5000)
+      .map((line, index) => ({ id: index + 1, text: line.slice(0, 1000) }));
+    return { frame: "uslt", synced: false, language, lines };
+  }
+
+  return null;
+}
+
+/**
+ * Store an audio record, index its hash and create the project that uses it,
+ * owned by the owner of the audio. Embedded lyrics become its first lyrics
+ * version.
+ * @param {Bindings} env - Worker bindings
+ * @param {Audio} meta - The audio record of a file already stored in R2, its projectId is set here
+ * @param {EmbeddedLyrics|null} [embeddedLyrics] - Lyrics read from the file's tags
+ * @returns {Promise<Object>} - The new project and a report of the imported lyrics, null without any
+ */
+export async function createAudioProject(
+  env: Bindings,
+  meta: Audio,
+  embeddedLyrics?: EmbeddedLyrics | null
+): Promise<{ project: Project; lyrics: EmbeddedLyricsReport | null }> {
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: uuidv4(),
+    name: `${meta.metadata?.title || "New Project"} - ${
+      meta.metadata?.artist || "Unknown Artist"
+    }`,
+    createdAt: now,
+    updatedAt: now,
+    ownerId: meta.ownerId,
+    workspaceId: meta.workspaceId,
+    audioId: meta.id,
+  };
+  meta.projectId = project.id;
+
+  await env.AUDIO_KV.put(`audio:${meta.id}`, JSON.stringify(meta));
+  await claimFileHash(env.AUDIO_KV, meta);
+  await indexAudioScope(env.AUDIO_KV, meta);
+  await addAudioReference(env.AUDIO_KV, meta.id, project.id);
+
+  const lyrics = embeddedLyrics
+    ? await saveLyricsVersion(env.LYRICS_KV, project, {
+        text: embeddedLyrics.lines.map((line) => line.text).join("\n"),
+        lines: embeddedLyrics.lines,
+        metadata: {
+          source: "imported",
+          format: embeddedLyrics.frame,
+          language: embeddedLyrics.language,
+        },
+      })
+    : null;
+
+  await saveProject(env.PROJECT_KV, project);
+  await indexProjectForSearch(env, project);
+
+  return {
+    project,
+    lyrics:
+      lyrics && embeddedLyrics
+        ? {
+            lyricsId: lyrics.id,
+            frame: embeddedLyrics.frame,
+            synced: embeddedLyrics.synced,
+            lineCount: embeddedLyrics.lines.length,
+            language: embeddedLyrics.language,
+          }
+        : null,
+  };
+}
@@ -0,0 +1,352 @@
+import { KVNamespace } from "@cloudflare/workers-types";
+import { Context } from "hono";
+import { createMiddleware } from "hono/factory";
+import { v4 as uuidv4 } from "uuid";
+import { AuthUser, Bindings, Session, User } from "./types";
+import { ApiError } from "./errors";
+
+/**
+ * Email/password accounts and bearer-token sessions, both stored in USERS_KV:
+ * `user:<id>` holds the account, `user-email:<email>` maps an email to its
+ * account and `session:<sha256(token)>` holds a session until it expires.
+ * Media elements cannot send headers, so they authenticate with a separate
+ * short-lived token kept under `media-token:<sha256(token)>`, accepted in the
+ * query string of media GET routes only.
+ * Only the hash of a token is stored, so a leaked KV dump cannot be replayed.
+ */
+
+const SESSION_TTL = 30 * 24 * 60 * 60; // 30 days
+const MEDIA_TOKEN_TTL = 12 * 60 * 60; // 12 hours
+// Workers cap PBKDF2 at 100k iterations
+const PBKDF2_ITERATIONS = 100_000;
+
+/**
+ * User every request acts as when AUTH_MODE is "local"
+ */
+export const LOCAL_USER: AuthUser = {
+  id: "local-user",
+  email: "local@localhost",
+  name: "Local user",
+};
+
+const toHex = (buffer: ArrayBuffer | Uint8Array) =>
+  [...new Uint8Array(buffer)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const fromHex = (hex: string) =>
+  new Uint8Array(hex.match(/.{2}/g)?.map((byte) => parseInt(byte, 16)) ?? []);
+
+function randomHex(bytes: number): string {
+  return toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+async function sha256(value: string): Promise<string> {
+  return toHex(
+    await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))
+  );
+}
+
+async function hashPassword(password: string, salt: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"]
+  );
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      salt: fromHex(salt),
+      iterations: PBKDF2_ITERATIONS,
+    },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+// Compare without returning early, so timing does not reveal the prefix
+function constantTimeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+const emailKey = (email: string) => `user-email:${email.toLowerCase()}`;
+const sessionKey = (tokenHash: string) => `session:${tokenHash}`;
+const mediaTokenKey = (tokenHash: string) => `media-token:${tokenHash}`;
+
+export function toAuthUser(user: User): AuthUser {
+  return { id: user.id, email: user.email, name: user.name };
+}
+
+/**
+ * Get an account by ID
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} userId - The user ID
+ * @returns {Promise<User|null>} - The account, null if missing
+ */
+export async function getUserById(
+  kv: KVNamespace,
+  userId: string
+): Promise<User | null> {
+  const raw = await kv.get(`user:${userId}`);
+  return raw ? (JSON.parse(raw) as User) : null;
+}
+
+/**
+ * Get an account by email
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} email - The account email, in any case
+ * @returns {Promise<User|null>} - The account, null if no account uses the email
+ */
+export async function getUserByEmail(
+  kv: KVNamespace,
+  email: string
+): Promise<User | null> {
+  const userId = await kv.get(emailKey(email));
+  return userId ? getUserById(kv, userId) : null;
+}
+
+/**
+ * Create an account
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {Object} data - Email, password and optional display name
+ * @returns {Promise<User>} - The stored account
+ * @throws {ApiError} 409 CONFLICT if the email is already registered
+ */
+export async function createUser(
+  kv: KVNamespace,
+  data: { email: string; password: string; name?: string }
+): Promise<User> {
+  if (await kv.get(emailKey(data.email))) {
+    throw new ApiError(409, "CONFLICT", "Email is already registered");
+  }
+
+  const passwordSalt = randomHex(16);
+  const user: User = {
+    id: uuidv4(),
+    email: data.email.toLowerCase(),
+    name: data.name,
+    passwordHash: await hashPassword(data.password, passwordSalt),
+    passwordSalt,
+    createdAt: new Date().toISOString(),
+  };
+
+  await kv.put(`user:${user.id}`, JSON.stringify(user));
+  await kv.put(emailKey(user.email), user.id);
+
+  return user;
+}
+
+/**
+ * Check an email and password
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} email - The account email
+ * @param {string} password - The password to check
+ * @returns {Promise<User|null>} - The account, null if unknown or the password is wrong
+ */
+export async function verifyCredentials(
+  kv: KVNamespace,
+  email: string,
+  password: string
+): Promise<User | null> {
+  const user = await getUserByEmail(kv, email);
+  if (!user) return null;
+
+  const hash = await hashPassword(password, user.passwordSalt);
+  return constantTimeEqual(hash, user.passwordHash) ? user : null;
+}
+
+/**
+ * Open a session for a user
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} userId - The user the session belongs to
+ * @returns {Promise<{token: string, expiresAt: string}>} - The bearer token, only returned here
+ */
+export async function createSession(
+  kv: KVNamespace,
+  userId: string
+): Promise<{ token: string; expiresAt: string }> {
+  const token = randomHex(32);
+  const now = Date.now();
+  const session: Session = {
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + SESSION_TTL * 1000).toISOString(),
+  };
+
+  await kv.put(sessionKey(await sha256(token)), JSON.stringify(session), {
+    expirationTtl: SESSION_TTL,
+  });
+
+  return { token, expiresAt: session.expiresAt };
+}
+
+/**
+ * Close a session
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} token - The bearer token of the session
+ */
+export async function deleteSession(kv: KVNamespace, token: string) {
+  await kv.delete(sessionKey(await sha256(token)));
+}
+
+/**
+ * Issue a media token for a user, for URLs of audio, image and download
+ * elements. It expires on its own, signing out does not revoke it.
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} userId - The user the token acts as
+ * @returns {Promise<{token: string, expiresAt: string}>} - The media token, only returned here
+ */
+export async function createMediaToken(
+  kv: KVNamespace,
+  userId: string
+): Promise<{ token: string; expiresAt: string }> {
+  const token = randomHex(32);
+  const now = Date.now();
+  const session: Session = {
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + MEDIA_TOKEN_TTL * 1000).toISOString(),
+  };
+
+  await kv.put(mediaTokenKey(await sha256(token)), JSON.stringify(session), {
+    expirationTtl: MEDIA_TOKEN_TTL,
+  });
+
+  return { token, expiresAt: session.expiresAt };
+}
+
+async function resolveToken(
+  kv: KVNamespace,
+  key: string
+): Promise<AuthUser | null> {
+  const raw = await kv.get(key);
+  if (!raw) return null;
+
+  const session = JSON.parse(raw) as Session;
+  if (Date.parse(session.expiresAt) <= Date.now()) return null;
+
+  const user = await getUserById(kv, session.userId);
+  return user ? toAuthUser(user) : null;
+}
+
+/**
+ * Resolve the user of a bearer token
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} token - The bearer token
+ * @returns {Promise<AuthUser|null>} - The user, null if the session is unknown or expired
+ */
+export async function getSessionUser(
+  kv: KVNamespace,
+  token: string
+): Promise<AuthUser | null> {
+  return resolveToken(kv, sessionKey(await sha256(token)));
+}
+
+/**
+ * Get the bearer token of a request, if any
+ */
+export function getBearerToken(authorization?: string): string | undefined {
+  return authorization?.startsWith("Bearer ")
+    ? authorization.slice(7).trim() || undefined
+    : undefined;
+}
+
+type AuthEnv = {
+  Bindings: Bindings;
+  Variables: { user: AuthUser };
+};
+
+async function authenticate(
+  c: Context<AuthEnv>,
+  token: string | undefined,
+  resolve: (token: string) => Promise<AuthUser | null>
+): Promise<void> {
+  if (!token && c.env.AUTH_MODE === "local") {
+    c.set("user", LOCAL_USER);
+    return;
+  }
+  if (!token) {
+    throw new ApiError(401, "UNAUTHORIZED", "Sign in to continue", {
+      headers: { "WWW-Authenticate": "Bearer" },
+    });
+  }
+
+  const user = await resolve(token);
+  if (!user) {
+    throw new ApiError(401, "UNAUTHORIZED", "Session is invalid or expired", {
+      headers: { "WWW-Authenticate": 'Bearer error="invalid_token"' },
+    });
+  }
+
+  c.set("user", user);
+}
+
+/**
+ * Require a signed-in caller and expose it as `c.get("user")`.
+ * The session token is read from the Authorization header only.
+ * With AUTH_MODE "local" requests without a token act as LOCAL_USER.
+ * @throws {ApiError} 401 UNAUTHORIZED without a valid session
+ */
+export const requireUser = createMiddleware<AuthEnv>(async (c, next) => {
+  await authenticate(
+    c,
+    getBearerToken(c.req.header("Authorization")),
+    (token) => getSessionUser(c.env.USERS_KV, token)
+  );
+  await next();
+});
+
+/**
+ * Like requireUser, for GET routes that serve media to elements that cannot
+ * send headers: without an Authorization header, a media token from
+ * createMediaToken is read from the `access_token` query parameter.
+ * Session tokens are never accepted in the query string, and media tokens
+ * only on GET and HEAD requests so a leaked media URL cannot change anything.
+ * @throws {ApiError} 401 UNAUTHORIZED without a valid session or media token
+ */
+export const requireMediaUser = createMiddleware<AuthEnv>(async (c, next) => {
+  const bearer = getBearerToken(c.req.header("Authorization"));
+  if (bearer) {
+    await authenticate(c, bearer, (token) =>
+      getSessionUser(c.env.USERS_KV, token)
+    );
+  } else {
+    const kv = c.env.USERS_KV;
+    await authenticate(
+      c,
+      ["GET", "HEAD"].includes(c.req.method)
+        ? c.req.query("access_token") || undefined
+        : undefined,
+      async (token) => resolveToken(kv, mediaTokenKey(await sha256(token)))
+    );
+  }
+  await next();
+});
+
+/**
+ * Check that the caller owns a project or audio record
+ * @param {Object} resource - The record, with its ownerId
+ * @param {AuthUser} user - The caller
+ * @throws {ApiError} 403 FORBIDDEN if the record belongs to someone else or to nobody
+ */
+export function assertOwner(
+  resource: { ownerId?: string },
+  user: AuthUser
+): void {
+  if (resource.ownerId !== user.id) {
+    throw new ApiError(
+      403,
+      "FORBIDDEN",
+      "You do not have access to this resource"
+    );
+  }
+}
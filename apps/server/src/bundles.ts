@@ -0,0 +1,441 @@
+import type {
+  ReadableStream as BindingStream,
+  R2Bucket,
+} from "@cloudflare/workers-types";
+import { v4 as uuidv4 } from "uuid";
+import { z } from "zod";
+import { Audio, AuthUser, Bindings, Lyrics, Project } from "./types";
+import { ApiError, badRequest, notFound, validationError } from "./errors";
+import {
+  findFileByHash,
+  generateStreamHash,
+  getCoverKey,
+  claimFileHash,
+  indexAudioScope,
+  saveProject,
+} from "./utils";
+import { getLyricsById, listLyricsVersions, saveLyricsVersion } from "./lyrics";
+import { getAudioKey, resolveAudioFormat } from "./audio-formats";
+import { can, getAccessRole } from "./workspaces";
+import { indexProjectForSearch } from "./search";
+import {
+  lyricsBundleSchema,
+  projectBundleSchema,
+  youtubeBundleSchema,
+} from "./schemas";
+import {
+  ZipEntry,
+  ZipFileEntry,
+  ZipSource,
+  listZipEntries,
+  openZipEntry,
+  readZipEntry,
+} from "./zip";
+import { addAudioReference } from "./audio-refs";
+import { MAX_COVER_SIZE } from "./covers";
+import { MAX_UPLOAD_SIZE } from "./audio-upload";
+
+/**
+ * Portable project bundles (`.chantastik.zip`) to move a project between
+ * environments or archive it. A bundle holds:
+ * - `project.json`: the project fields and the audio record, without IDs
+ * - `lyrics.json`: every lyrics version, oldest first
+ * - `audio.<ext>` and `cover.<ext>` for uploaded audio
+ * - `youtube.json` with the video metadata for YouTube projects
+ *
+ * Share links, workspace and ownership are left out: an imported project
+ * belongs to the importer.
+ *
+ * Imports are uploaded in parts like audio files, then read from R2 by byte
+ * ranges and the audio goes straight from the bundle to AUDIO_FILES, so only
+ * the JSON entries and the cover are held in memory. Bundles share the size
+ * limit of uploads, and exports larger than that are refused so every bundle
+ * can be imported again.
+ */
+
+export const BUNDLE_FORMAT = "chantastik-project";
+export const BUNDLE_VERSION = 1;
+
+export const MAX_BUNDLE_SIZE = MAX_UPLOAD_SIZE;
+const MAX_JSON_ENTRY_SIZE = 10 * 1024 * 1024;
+// Local header, data descriptor and central header of one entry, with room
+// for its name
+const ZIP_ENTRY_OVERHEAD = 200;
+
+// Sets the length of a stream so R2 accepts it without buffering
+const { FixedLengthStream } = globalThis as unknown as {
+  FixedLengthStream: new (
+    expectedLength: number
+  ) => TransformStream<Uint8Array, Uint8Array>;
+};
+
+type BundleFiles = Map<string, ZipFileEntry>;
+
+const extensionOf = (name: string) => name.split(".").pop() ?? "";
+
+const isYoutubeAudio = (audioId: string) =>
+  audioId.startsWith("youtube-virtual-");
+
+async function parseJsonEntry<T extends z.ZodTypeAny>(
+  source: ZipSource,
+  files: BundleFiles,
+  name: string,
+  schema: T
+): Promise<z.output<T> | undefined> {
+  const entry = files.get(name);
+  if (!entry) return undefined;
+  const data = await readZipEntry(source, entry, MAX_JSON_ENTRY_SIZE);
+
+  let value: unknown;
+  try {
+    value = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw badRequest(`${name} is not valid JSON`);
+  }
+  const result = schema.safeParse(value);
+  if (!result.success) throw validationError(result.error);
+  return result.data;
+}
+
+const findEntry = (files: BundleFiles, prefix: string) =>
+  [...files.values()].find((entry) => entry.name.startsWith(prefix));
+
+// MIME types browsers send for ZIP archives
+const BUNDLE_MIME_TYPES = ["application/zip", "application/x-zip-compressed"];
+
+/**
+ * Check that an upload is a ZIP archive, by MIME type or by extension when
+ * the type is generic or missing
+ * @param {string} mimeType - The MIME type sent by the client
+ * @param {string} filename - The original file name
+ * @returns {Object|null} - Extension and content type to store the bundle with, or null if it is not a ZIP archive
+ */
+export function resolveBundleFormat(
+  mimeType: string,
+  filename: string
+): { extension: string; contentType: string } | null {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  const isZip =
+    BUNDLE_MIME_TYPES.includes(type) ||
+    ((type === "" || type === "application/octet-stream") &&
+      filename.toLowerCase().endsWith(".zip"));
+
+  return isZip ? { extension: "zip", contentType: "application/zip" } : null;
+}
+
+/**
+ * Read a bundle stored in R2 by byte ranges
+ * @param {R2Bucket} bucket - The bucket holding the bundle
+ * @param {string} key - The bundle key
+ * @param {number} size - The bundle size in bytes
+ * @returns {ZipSource} - The bundle, for importProjectBundle
+ */
+export function r2BundleSource(
+  bucket: R2Bucket,
+  key: string,
+  size: number
+): ZipSource {
+  const stream = async (offset: number, length: number) => {
+    const object = await bucket.get(key, { range: { offset, length } });
+    if (!object) throw notFound("Bundle not found");
+    return object.body as unknown as ReadableStream<Uint8Array>;
+  };
+
+  return {
+    size,
+    stream,
+    read: async (offset, length) =>
+      new Uint8Array(
+        await new Response(await stream(offset, length)).arrayBuffer()
+      ),
+  };
+}
+
+/**
+ * Estimate the size of the bundle of a project without building it, to refuse
+ * exports that could not be imported again
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - The project to export
+ * @returns {Promise<number>} - Bundle size in bytes, the lyrics history left out
+ */
+export async function estimateBundleSize(
+  env: Bindings,
+  project: Project
+): Promise<number> {
+  if (isYoutubeAudio(project.audioId)) return 0;
+
+  const raw = await env.AUDIO_KV.get(`audio:${project.audioId}`);
+  const audio = raw ? (JSON.parse(raw) as Audio) : null;
+  if (!audio) throw notFound("Audio file not found");
+
+  const file = await env.AUDIO_FILES.head(getAudioKey(audio));
+  if (!file) throw notFound("Audio file not found");
+
+  return file.size + (audio.coverArt?.size ?? 0) + 4 * ZIP_ENTRY_OVERHEAD;
+}
+
+/**
+ * List the entries of a project bundle, streaming the audio and cover from R2
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - The project to export
+ * @returns {Promise<ZipEntry[]>} - Entries for createZipStream
+ */
+export async function buildProjectBundle(
+  env: Bindings,
+  project: Project
+): Promise<ZipEntry[]> {
+  const encode = (value: unknown) =>
+    new TextEncoder().encode(JSON.stringify(value, null, 2));
+
+  const summaries = await listLyricsVersions(env.LYRICS_KV, project);
+  const versions = (
+    await Promise.all(
+      summaries.map((summary) => getLyricsById(env.LYRICS_KV, summary.id))
+    )
+  )
+    .filter((lyrics): lyrics is Lyrics => lyrics !== null)
+    .sort((a, b) => (a.metadata?.version ?? 1) - (b.metadata?.version ?? 1));
+
+  let audio: Audio | null = null;
+  const media: ZipEntry[] = [];
+
+  if (isYoutubeAudio(project.audioId)) {
+    const youtubeMeta = await env.PROJECT_KV.get(
+      `youtube-meta:${project.id}`
+    );
+    if (youtubeMeta) {
+      media.push({
+        name: "youtube.json",
+        data: new TextEncoder().encode(youtubeMeta),
+      });
+    }
+  } else {
+    const raw = await env.AUDIO_KV.get(`audio:${project.audioId}`);
+    audio = raw ? (JSON.parse(raw) as Audio) : null;
+    if (!audio) throw notFound("Audio file not found");
+
+    const key = getAudioKey(audio);
+    const file = await env.AUDIO_FILES.get(key);
+    if (!file) throw notFound("Audio file not found");
+    media.push({
+      name: `audio.${extensionOf(key)}`,
+      data: file.body as ReadableStream<Uint8Array>,
+    });
+
+    if (audio.coverArt) {
+      const coverKey = getCoverKey(audio.coverArt);
+      const cover = await env.COVER_FILES.get(coverKey);
+      if (cover) {
+        media.push({
+          name: `cover.${extensionOf(coverKey)}`,
+          data: cover.body as ReadableStream<Uint8Array>,
+        });
+      }
+    }
+  }
+
+  const { public: _shared, ...metadata } = project.metadata ?? {};
+
+  return [
+    {
+      name: "project.json",
+      data: encode({
+        format: BUNDLE_FORMAT,
+        version: BUNDLE_VERSION,
+        exportedAt: new Date().toISOString(),
+        project: {
+          name: project.name,
+          description: project.description,
+          audioId: project.audioId,
+          metadata,
+        },
+        audio: audio && {
+          filename: audio.filename,
+          contentType: audio.contentType,
+          metadata: audio.metadata,
+          coverArt: audio.coverArt && { format: audio.coverArt.format },
+        },
+      }),
+    },
+    {
+      name: "lyrics.json",
+      data: encode({ currentVersionId: project.lyricsId ?? null, versions }),
+    },
+    ...media,
+  ];
+}
+
+/**
+ * Store the audio of a bundle, or reuse a stored file with the same content
+ * that the importer can read
+ * @returns {Promise<string>} - The audio ID for the new project
+ */
+async function importBundleAudio(
+  env: Bindings,
+  source: ZipSource,
+  files: BundleFiles,
+  audioInfo: NonNullable<z.output<typeof projectBundleSchema>["audio"]>,
+  projectId: string,
+  user: AuthUser,
+  workspaceId: string | undefined
+): Promise<string> {
+  const audioEntry = findEntry(files, "audio.");
+  if (!audioEntry) throw badRequest("The bundle has no audio file");
+
+  const format = resolveAudioFormat(audioInfo.contentType, audioInfo.filename);
+  if (!format) {
+    throw new ApiError(415, "UNSUPPORTED_MEDIA_TYPE", "Invalid file type");
+  }
+
+  // Read twice rather than storing a file that may already exist
+  const fileHash = await generateStreamHash(
+    await openZipEntry(source, audioEntry)
+  );
+  const existing = await findFileByHash(env.AUDIO_KV, fileHash);
+  if (existing && can(await getAccessRole(env, existing, user), "read")) {
+    return existing.id;
+  }
+
+  const audioId = uuidv4();
+  const key = `${audioId}.${format.extension}`;
+  const data = (await openZipEntry(source, audioEntry)).pipeThrough(
+    new FixedLengthStream(audioEntry.size)
+  );
+  await env.AUDIO_FILES.put(key, data as unknown as BindingStream, {
+    httpMetadata: { contentType: format.contentType },
+  });
+
+  let coverArt: Audio["coverArt"];
+  const coverEntry = findEntry(files, "cover.");
+  if (coverEntry && audioInfo.coverArt) {
+    const cover = await readZipEntry(source, coverEntry, MAX_COVER_SIZE);
+    coverArt = {
+      id: `${audioId}-cover`,
+      format: audioInfo.coverArt.format,
+      size: cover.length,
+    };
+    await env.COVER_FILES.put(getCoverKey(coverArt), cover, {
+      httpMetadata: { contentType: coverArt.format },
+    });
+  }
+
+  const audio: Audio = {
+    id: audioId,
+    filename: audioInfo.filename,
+    contentType: format.contentType,
+    storageKey: key,
+    size: audioEntry.size,
+    fileHash,
+    ownerId: user.id,
+    workspaceId,
+    projectId,
+    createdAt: new Date().toISOString(),
+    metadata: audioInfo.metadata,
+    coverArt,
+  };
+  await env.AUDIO_KV.put(`audio:${audioId}`, JSON.stringify(audio));
+  await claimFileHash(env.AUDIO_KV, audio);
+  await indexAudioScope(env.AUDIO_KV, audio);
+
+  return audioId;
+}
+
+/**
+ * Recreate a project from a bundle, with new IDs
+ * @param {Bindings} env - Worker bindings
+ * @param {ZipSource} source - The bundle, see r2BundleSource
+ * @param {AuthUser} user - The importer, owner of the new project
+ * @param {string} [workspaceId] - Workspace the project is created in
+ * @returns {Promise<Project>} - The new project
+ * @throws {ApiError} 400 if the archive or an entry is missing or invalid, 415 for an unsupported audio format
+ */
+export async function importProjectBundle(
+  env: Bindings,
+  source: ZipSource,
+  user: AuthUser,
+  workspaceId?: string
+): Promise<Project> {
+  const files: BundleFiles = new Map(
+    (await listZipEntries(source)).map((entry) => [entry.name, entry])
+  );
+  const bundle = await parseJsonEntry(
+    source,
+    files,
+    "project.json",
+    projectBundleSchema
+  );
+  if (!bundle) throw badRequest("The bundle has no project.json");
+  const lyrics = await parseJsonEntry(
+    source,
+    files,
+    "lyrics.json",
+    lyricsBundleSchema
+  );
+
+  const youtubeMeta = isYoutubeAudio(bundle.project.audioId)
+    ? await parseJsonEntry(source, files, "youtube.json", youtubeBundleSchema)
+    : undefined;
+
+  const projectId = uuidv4();
+  let audioId = bundle.project.audioId;
+  if (!isYoutubeAudio(audioId)) {
+    if (!bundle.audio) throw badRequest("project.json has no audio record");
+    audioId = await importBundleAudio(
+      env,
+      source,
+      files,
+      bundle.audio,
+      projectId,
+      user,
+      workspaceId
+    );
+  }
+
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: projectId,
+    name: bundle.project.name,
+    description: bundle.project.description,
+    createdAt: now,
+    updatedAt: now,
+    ownerId: user.id,
+    workspaceId,
+    audioId,
+    metadata: bundle.project.metadata,
+  };
+
+  // Versions get new IDs, restoredFrom is mapped along
+  const lyricsIds = new Map<string, string>();
+  const versions = [...(lyrics?.versions ?? [])].sort(
+    (a, b) => (a.metadata?.version ?? 1) - (b.metadata?.version ?? 1)
+  );
+  for (const version of versions) {
+    const restoredFrom = version.metadata?.restoredFrom;
+    const saved = await saveLyricsVersion(env.LYRICS_KV, project, {
+      text: version.text,
+      lines: version.lines,
+      metadata: {
+        ...version.metadata,
+        restoredFrom: restoredFrom && lyricsIds.get(restoredFrom),
+      },
+    });
+    lyricsIds.set(version.id, saved.id);
+  }
+  const currentVersionId = lyrics?.currentVersionId;
+  if (currentVersionId && lyricsIds.has(currentVersionId)) {
+    project.lyricsId = lyricsIds.get(currentVersionId);
+  }
+
+  if (youtubeMeta) {
+    await env.PROJECT_KV.put(
+      `youtube-meta:${project.id}`,
+      JSON.stringify({ ...youtubeMeta, importedAt: now })
+    );
+  }
+
+  await addAudioReference(env.AUDIO_KV, project.audioId, project.id);
+  await saveProject(env.PROJECT_KV, project);
+  await indexProjectForSearch(env, project);
+
+  return project;
+}
@@ -0,0 +1,698 @@
+import { KVNamespace } from "@cloudflare/workers-types";
+import { Audio, Bindings, Project, UploadSession } from "./types";
+import { badRequest } from "./errors";
+import { deleteLyricsHistory } from "./lyrics";
+import { getAudioKey } from "./audio-formats";
+import {
+  PROJECT_INDEX_PREFIX,
+  deleteProjectIndex,
+  projectIndexKeys,
+  writeProjectIndex,
+} from "./project-index";
+import {
+  SEARCH_DOC_PREFIX,
+  SEARCH_TOKEN_PREFIX,
+  indexProjectForSearch,
+  parseTokenKey,
+  removeProjectFromSearch,
+  searchSpace,
+} from "./search";
+import {
+  AUDIO_SCOPE_PREFIX,
+  audioIdFromScopeKey,
+  getCoverKey,
+  indexAudioScope,
+  indexFileHash,
+  listAllKeys,
+  removeAudioScope,
+  removeFileHash,
+} from "./utils";
+import { deleteProjectShare, registerShareToken } from "./shares";
+import {
+  AUDIO_REF_PREFIX,
+  addAudioReference,
+  listAudioReferences,
+  parseAudioRefKey,
+  removeAudioReference,
+} from "./audio-refs";
+import {
+  ASSET_REF_PREFIX,
+  parseAssetRefKey,
+  syncAssetReferences,
+} from "./assets";
+import {
+  PROJECT_COVER_PREFIX,
+  deleteProjectCover,
+  projectIdFromCoverKey,
+} from "./covers";
+import { PEAKS_PREFIX, peaksKey } from "./peaks";
+
+// Orphans are deleted once a later batch finds them orphaned again at least
+// this long after the first: records of a project being created are written
+// before the project itself, and KV reads may lag behind writes
+const MIN_ORPHAN_AGE = 24 * 60 * 60 * 1000;
+// Candidates a later pass did not confirm expire
+const ORPHAN_CANDIDATE_TTL = 30 * 24 * 60 * 60;
+const ORPHAN_CANDIDATE_PREFIX = "gc-candidate:";
+
+// Keys checked per collectGarbage call. A check reads up to three records,
+// an invocation may send 1000 subrequests.
+export const GC_BATCH_SIZE = 100;
+
+const garbageKinds = [
+  "lyrics",
+  "lyricsIndexKeys",
+  "audio",
+  "hashKeys",
+  "peaksKeys",
+  "audioScopeKeys",
+  "audioFiles",
+  "covers",
+  "youtubeMeta",
+  "projectIndexKeys",
+  "searchDocKeys",
+  "searchTokenKeys",
+  "shareKeys",
+  "audioRefKeys",
+  "assetRefKeys",
+] as const;
+type GarbageKind = (typeof garbageKinds)[number];
+
+export type GarbageReport = {
+  dryRun: boolean;
+  scanned: number;
+  orphans: Record<GarbageKind, string[]>;
+  deleted: number;
+  cursor: string | null; // where the next batch starts, null once a pass is over
+};
+
+const isYoutubeAudio = (audioId: string) =>
+  audioId.startsWith("youtube-virtual-");
+
+/**
+ * Delete an audio record, its hash index entry, its waveform peaks, its R2
+ * file and its embedded cover art
+ * @param {Bindings} env - Worker bindings
+ * @param {string} audioId - The audio ID
+ */
+export async function deleteAudioCascade(env: Bindings, audioId: string) {
+  const raw = await env.AUDIO_KV.get(`audio:${audioId}`);
+  const audio = raw ? (JSON.parse(raw) as Audio) : null;
+
+  if (audio) {
+    await removeFileHash(env.AUDIO_KV, audio);
+    await removeAudioScope(env.AUDIO_KV, audio);
+  }
+
+  await Promise.all([
+    env.AUDIO_KV.delete(`audio:${audioId}`),
+    env.AUDIO_KV.delete(peaksKey(audioId)),
+    env.AUDIO_FILES.delete(getAudioKey(audio ?? { id: audioId })),
+    audio?.coverArt
+      ? env.COVER_FILES.delete(getCoverKey(audio.coverArt))
+      : Promise.resolve(),
+  ]);
+}
+
+/**
+ * Drop the reference of a project to an audio record, and delete the audio
+ * when no other project uses it
+ * @param {Bindings} env - Worker bindings
+ * @param {string} audioId - The audio ID
+ * @param {string} projectId - The project letting go of the audio
+ * @returns {Promise<boolean>} - Whether the audio was deleted
+ */
+export async function releaseAudio(
+  env: Bindings,
+  audioId: string,
+  projectId: string
+): Promise<boolean> {
+  await removeAudioReference(env.AUDIO_KV, audioId, projectId);
+  if ((await listAudioReferences(env.AUDIO_KV, audioId)).length > 0) {
+    return false;
+  }
+
+  await deleteAudioCascade(env, audioId);
+  return true;
+}
+
+/**
+ * Delete a project and everything that belongs to it: every lyrics version,
+ * YouTube metadata and thumbnail, uploaded cover art, its share link, its
+ * asset references, and the uploaded audio with its embedded cover art unless
+ * another project still uses them.
+ * Missing records are skipped so partially deleted projects can be cleaned up.
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - The project to delete
+ */
+export async function deleteProjectCascade(env: Bindings, project: Project) {
+  await deleteLyricsHistory(env.LYRICS_KV, project.id, project.lyricsId);
+  await removeProjectFromSearch(env.PROJECT_KV, project.id);
+
+  await Promise.all([
+    env.PROJECT_KV.delete(`youtube-meta:${project.id}`),
+    env.COVER_FILES.delete(`cover:${project.id}`),
+    deleteProjectCover(env, project.id),
+    deleteProjectShare(env, project),
+    // Library assets outlive the projects using them
+    syncAssetReferences(
+      env.PROJECT_KV,
+      { id: project.id, assetIds: [] },
+      project.assetIds
+    ),
+  ]);
+
+  // YouTube projects reference a virtual audio ID without stored audio
+  if (!isYoutubeAudio(project.audioId)) {
+    await releaseAudio(env, project.audioId, project.id);
+  }
+
+  // Deleted last so a failure above leaves the project around to retry
+  await deleteProjectIndex(env.PROJECT_KV, project);
+  await env.PROJECT_KV.delete(`project:${project.id}`);
+}
+
+/**
+ * Records read while checking a batch, each one at most once
+ */
+function createGarbageLookups(env: Bindings) {
+  const projects = new Map<string, Promise<Project | null>>();
+  const audio = new Map<string, Promise<Audio | null>>();
+  let uploadKeys: Promise<Set<string>> | undefined;
+
+  const read = async <T>(kv: KVNamespace, key: string) => {
+    const raw = await kv.get(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  };
+
+  return {
+    env,
+    project(id: string) {
+      let project = projects.get(id);
+      if (!project) {
+        project = read<Project>(env.PROJECT_KV, `project:${id}`);
+        projects.set(id, project);
+      }
+      return project;
+    },
+    audio(id: string) {
+      let record = audio.get(id);
+      if (!record) {
+        record = read<Audio>(env.AUDIO_KV, `audio:${id}`);
+        audio.set(id, record);
+      }
+      return record;
+    },
+    // Files of open uploads have no audio record until /complete or
+    // PUT /audio/:id succeeds, a retry still needs them
+    uploadKeys() {
+      uploadKeys ??= listAllKeys(env.AUDIO_KV, "upload:").then(async (keys) => {
+        const sessions = await Promise.all(
+          keys.map((key) => read<UploadSession>(env.AUDIO_KV, key))
+        );
+        return new Set(sessions.flatMap((session) => session?.key ?? []));
+      });
+      return uploadKeys;
+    },
+  };
+}
+
+type GarbageLookups = ReturnType<typeof createGarbageLookups>;
+
+/**
+ * One keyspace of the garbage collection: how to page through it, when a
+ * key is an orphan and how to delete orphans
+ */
+type GarbagePhase = {
+  list: (
+    env: Bindings,
+    cursor: string | undefined,
+    limit: number
+  ) => Promise<{ keys: string[]; listed: number; cursor?: string }>;
+  isOrphan: (key: string, lookups: GarbageLookups) => Promise<boolean>;
+  remove: (env: Bindings, keys: string[]) => Promise<unknown>;
+};
+
+type KvName = "PROJECT_KV" | "LYRICS_KV" | "AUDIO_KV";
+
+const listKv =
+  (namespace: KvName, prefix: string): GarbagePhase["list"] =>
+  async (env, cursor, limit) => {
+    const page = await env[namespace].list({ prefix, cursor, limit });
+    const keys = page.keys.map((key) => key.name);
+    return {
+      keys,
+      listed: keys.length,
+      cursor: page.list_complete ? undefined : page.cursor,
+    };
+  };
+
+const deleteKv =
+  (namespace: KvName): GarbagePhase["remove"] =>
+  (env, keys) =>
+    Promise.all(keys.map((key) => env[namespace].delete(key)));
+
+// Objects stored in the last MIN_ORPHAN_AGE are not even checked, e.g. a
+// bundle being imported from imports/
+const listBucket =
+  (bucket: "AUDIO_FILES" | "COVER_FILES"): GarbagePhase["list"] =>
+  async (env, cursor, limit) => {
+    const cutoff = new Date(Date.now() - MIN_ORPHAN_AGE);
+    const page = await env[bucket].list({ cursor, limit });
+    return {
+      keys: page.objects
+        .filter((object) => object.uploaded < cutoff)
+        .map((object) => object.key),
+      listed: page.objects.length,
+      cursor: page.truncated ? page.cursor : undefined,
+    };
+  };
+
+// R2 deletes accept up to 1000 keys per call, more than a batch
+const deleteObjects =
+  (bucket: "AUDIO_FILES" | "COVER_FILES"): GarbagePhase["remove"] =>
+  (env, keys) =>
+    env[bucket].delete(keys);
+
+const projectGone = async (projectId: string, lookups: GarbageLookups) =>
+  !(await lookups.project(projectId));
+
+const audioGone = async (audioId: string, lookups: GarbageLookups) =>
+  !(await lookups.audio(audioId));
+
+// Audio IDs are UUIDs, file keys add an extension or an upload ID to them
+const audioIdFromFileKey = (key: string) => key.slice(0, 36);
+
+/**
+ * The phases of a pass, in order. Audio records come before the keys and
+ * files that depend on them, which the following pass then collects.
+ */
+const garbagePhases: Record<GarbageKind, GarbagePhase> = {
+  // Lyrics whose project no longer exists, older lyrics of a live project
+  // are kept as history
+  lyrics: {
+    list: listKv("LYRICS_KV", "lyrics:"),
+    isOrphan: async (key, lookups) => {
+      const raw = await lookups.env.LYRICS_KV.get(key);
+      if (!raw) return false;
+      const { projectId } = JSON.parse(raw) as { projectId: string };
+      return projectGone(projectId, lookups);
+    },
+    remove: deleteKv("LYRICS_KV"),
+  },
+  lyricsIndexKeys: {
+    list: listKv("LYRICS_KV", "lyrics-version:"),
+    isOrphan: (key, lookups) => projectGone(key.split(":")[1], lookups),
+    remove: deleteKv("LYRICS_KV"),
+  },
+  // Audio records no project uses. Projects created before audio references
+  // existed need POST /maintenance/migrate/audio-refs first.
+  audio: {
+    list: listKv("AUDIO_KV", "audio:"),
+    isOrphan: async (key, lookups) => {
+      const audio = await lookups.audio(key.slice("audio:".length));
+      if (!audio) return false;
+      const references = await listAudioReferences(
+        lookups.env.AUDIO_KV,
+        audio.id
+      );
+      if (references.length > 0) return false;
+      const project = audio.projectId
+        ? await lookups.project(audio.projectId)
+        : null;
+      return project?.audioId !== audio.id;
+    },
+    remove: deleteKv("AUDIO_KV"),
+  },
+  // Hash index entries whose audio record is gone
+  hashKeys: {
+    list: listKv("AUDIO_KV", "hash:"),
+    isOrphan: async (key, lookups) => {
+      const audioId = await lookups.env.AUDIO_KV.get(key);
+      return !audioId || audioGone(audioId, lookups);
+    },
+    remove: deleteKv("AUDIO_KV"),
+  },
+  // Waveform peaks without an audio record
+  peaksKeys: {
+    list: listKv("AUDIO_KV", PEAKS_PREFIX),
+    isOrphan: (key, lookups) =>
+      audioGone(key.slice(PEAKS_PREFIX.length), lookups),
+    remove: deleteKv("AUDIO_KV"),
+  },
+  // Listing keys without an audio record
+  audioScopeKeys: {
+    list: listKv("AUDIO_KV", AUDIO_SCOPE_PREFIX),
+    isOrphan: (key, lookups) => audioGone(audioIdFromScopeKey(key), lookups),
+    remove: deleteKv("AUDIO_KV"),
+  },
+  // Audio files no audio record stores its file under, replaced files have
+  // keys of their own
+  audioFiles: {
+    list: listBucket("AUDIO_FILES"),
+    isOrphan: async (key, lookups) => {
+      const audio = await lookups.audio(audioIdFromFileKey(key));
+      if (audio && getAudioKey(audio) === key) return false;
+      return !(await lookups.uploadKeys()).has(key);
+    },
+    remove: deleteObjects("AUDIO_FILES"),
+  },
+  // Covers of deleted projects, embedded covers without an audio record
+  covers: {
+    list: listBucket("COVER_FILES"),
+    isOrphan: (key, lookups) =>
+      key.startsWith("cover:")
+        ? projectGone(key.slice("cover:".length), lookups)
+        : key.startsWith(PROJECT_COVER_PREFIX)
+          ? projectGone(projectIdFromCoverKey(key), lookups)
+          : audioGone(key.replace(/-cover\.[^.]+$/, ""), lookups),
+    remove: deleteObjects("COVER_FILES"),
+  },
+  // YouTube metadata of deleted projects
+  youtubeMeta: {
+    list: listKv("PROJECT_KV", "youtube-meta:"),
+    isOrphan: (key, lookups) =>
+      projectGone(key.slice("youtube-meta:".length), lookups),
+    remove: deleteKv("PROJECT_KV"),
+  },
+  // Index keys left behind by projects deleted outside deleteProjectCascade,
+  // or written under a space or key layout the project is no longer in
+  projectIndexKeys: {
+    list: listKv("PROJECT_KV", PROJECT_INDEX_PREFIX),
+    isOrphan: async (key, lookups) => {
+      const projectId = key.slice(key.lastIndexOf(":") + 1);
+      const project = await lookups.project(projectId);
+      return !project || !projectIndexKeys(project).includes(key);
+    },
+    remove: deleteKv("PROJECT_KV"),
+  },
+  // Search documents of deleted projects
+  searchDocKeys: {
+    list: listKv("PROJECT_KV", SEARCH_DOC_PREFIX),
+    isOrphan: (key, lookups) =>
+      projectGone(key.slice(SEARCH_DOC_PREFIX.length), lookups),
+    remove: deleteKv("PROJECT_KV"),
+  },
+  // Token keys of deleted projects, or written before the project moved to
+  // another space or keys had spaces
+  searchTokenKeys: {
+    list: listKv("PROJECT_KV", SEARCH_TOKEN_PREFIX),
+    isOrphan: async (key, lookups) => {
+      const parsed = parseTokenKey(key);
+      if (!parsed) return true;
+      const project = await lookups.project(parsed.projectId);
+      return !project || searchSpace(project) !== parsed.space;
+    },
+    remove: deleteKv("PROJECT_KV"),
+  },
+  // Share keys of PROJECT_KV, tokens resolve through ShareToken now
+  shareKeys: {
+    list: listKv("PROJECT_KV", "share:"),
+    isOrphan: async () => true,
+    remove: deleteKv("PROJECT_KV"),
+  },
+  // References of deleted projects, or of projects now using other audio
+  audioRefKeys: {
+    list: listKv("AUDIO_KV", AUDIO_REF_PREFIX),
+    isOrphan: async (key, lookups) => {
+      const { audioId, projectId } = parseAudioRefKey(key);
+      return (await lookups.project(projectId))?.audioId !== audioId;
+    },
+    remove: deleteKv("AUDIO_KV"),
+  },
+  // Asset references of deleted projects, or of assets they no longer use
+  assetRefKeys: {
+    list: listKv("PROJECT_KV", ASSET_REF_PREFIX),
+    isOrphan: async (key, lookups) => {
+      const { assetId, projectId } = parseAssetRefKey(key);
+      const project = await lookups.project(projectId);
+      return !project?.assetIds?.includes(assetId);
+    },
+    remove: deleteKv("PROJECT_KV"),
+  },
+};
+
+const orphanCandidateKey = (kind: GarbageKind, key: string) =>
+  `${ORPHAN_CANDIDATE_PREFIX}${kind}:${key}`;
+
+/**
+ * Pick the orphans found orphaned before, at least MIN_ORPHAN_AGE ago, and
+ * remember the others for a later batch
+ * @returns {Promise<string[]>} - The orphans to delete now
+ */
+async function confirmOrphans(
+  kv: KVNamespace,
+  kind: GarbageKind,
+  orphans: string[]
+): Promise<string[]> {
+  const now = Date.now();
+  const confirmed = await Promise.all(
+    orphans.map(async (key) => {
+      const candidateKey = orphanCandidateKey(kind, key);
+      const firstSeen = await kv.get(candidateKey);
+      if (!firstSeen) {
+        await kv.put(candidateKey, new Date(now).toISOString(), {
+          expirationTtl: ORPHAN_CANDIDATE_TTL,
+        });
+        return null;
+      }
+      if (now - new Date(firstSeen).getTime() < MIN_ORPHAN_AGE) return null;
+      await kv.delete(candidateKey);
+      return key;
+    })
+  );
+  return confirmed.filter((key) => key !== null);
+}
+
+// Cursors are `<kind>:<list cursor>`, list cursors are opaque
+function parseGarbageCursor(cursor: string | undefined): {
+  kind: GarbageKind;
+  listCursor?: string;
+} {
+  if (!cursor) return { kind: garbageKinds[0] };
+  const separator = cursor.indexOf(":");
+  const kind = garbageKinds.find(
+    (candidate) => candidate === cursor.slice(0, separator)
+  );
+  if (separator === -1 || !kind) {
+    throw badRequest("Invalid garbage collection cursor");
+  }
+  return { kind, listCursor: cursor.slice(separator + 1) || undefined };
+}
+
+/**
+ * Check a batch of keys for records and files that nothing references
+ * anymore and, unless dryRun is set, delete the ones a previous batch
+ * already found orphaned at least MIN_ORPHAN_AGE ago. A pass goes through
+ * every keyspace in turn: call again with the returned cursor until it is
+ * null. Each call checks at most `limit` keys, so it fits in one invocation.
+ * @param {Bindings} env - Worker bindings
+ * @param {Object} options - dryRun to only report orphans, the cursor returned by the previous batch and the number of keys to check
+ * @returns {Promise<GarbageReport>} - What was found and deleted, and where to continue
+ * @throws {ApiError} 400 if the cursor is invalid
+ */
+export async function collectGarbage(
+  env: Bindings,
+  options: { dryRun: boolean; cursor?: string; limit?: number }
+): Promise<GarbageReport> {
+  const report: GarbageReport = {
+    dryRun: options.dryRun,
+    scanned: 0,
+    orphans: Object.fromEntries(
+      garbageKinds.map((kind) => [kind, [] as string[]])
+    ) as Record<GarbageKind, string[]>,
+    deleted: 0,
+    cursor: null,
+  };
+  const lookups = createGarbageLookups(env);
+  const limit = options.limit ?? GC_BATCH_SIZE;
+  let { kind, listCursor } = parseGarbageCursor(options.cursor);
+
+  while (report.scanned < limit) {
+    const phase = garbagePhases[kind];
+    const page = await phase.list(env, listCursor, limit - report.scanned);
+    report.scanned += page.listed;
+
+    const checked = await Promise.all(
+      page.keys.map(async (key) =>
+        (await phase.isOrphan(key, lookups)) ? key : null
+      )
+    );
+    const orphans = checked.filter((key) => key !== null);
+    report.orphans[kind].push(...orphans);
+
+    if (!options.dryRun && orphans.length > 0) {
+      const confirmed = await confirmOrphans(env.PROJECT_KV, kind, orphans);
+      if (confirmed.length > 0) await phase.remove(env, confirmed);
+      report.deleted += confirmed.length;
+    }
+
+    if (page.cursor) {
+      listCursor = page.cursor;
+      continue;
+    }
+    const next = garbageKinds[garbageKinds.indexOf(kind) + 1];
+    if (!next) return report;
+    kind = next;
+    listCursor = undefined;
+  }
+
+  report.cursor = `${kind}:${listCursor ?? ""}`;
+  return report;
+}
+
+/**
+ * Rebuild the project listing and search indexes from the stored projects,
+ * for projects created before the indexes existed or before listing keys were
+ * kept per space. Keys of previous layouts are reported by collectGarbage.
+ * @param {Bindings} env - Worker bindings
+ * @returns {Promise<number>} - Number of projects indexed
+ */
+export async function reindexProjects(env: Bindings): Promise<number> {
+  const keys = await listAllKeys(env.PROJECT_KV, "project:");
+  let indexed = 0;
+
+  for (const key of keys) {
+    const raw = await env.PROJECT_KV.get(key);
+    if (!raw) continue;
+    const project = JSON.parse(raw) as Project;
+    await writeProjectIndex(env.PROJECT_KV, project);
+    // Start over so every token key is written in the current layout
+    await removeProjectFromSearch(env.PROJECT_KV, project.id);
+    await indexProjectForSearch(env, project);
+    indexed++;
+  }
+
+  return indexed;
+}
+
+/**
+ * Write the `hash:<sha256>` index entry of every stored audio record, for
+ * files uploaded before the index existed
+ * @param {Bindings} env - Worker bindings
+ * @returns {Promise<{indexed: number, skipped: number}>} - Records indexed and records without a hash
+ */
+export async function backfillHashIndex(
+  env: Bindings
+): Promise<{ indexed: number; skipped: number }> {
+  const keys = await listAllKeys(env.AUDIO_KV, "audio:");
+  let indexed = 0;
+  let skipped = 0;
+
+  for (const key of keys) {
+    const raw = await env.AUDIO_KV.get(key);
+    const audio = raw ? (JSON.parse(raw) as Audio) : null;
+    if (!audio?.fileHash) {
+      skipped++;
+      continue;
+    }
+    await indexFileHash(env.AUDIO_KV, audio);
+    indexed++;
+  }
+
+  return { indexed, skipped };
+}
+
+/**
+ * List every stored audio record in its personal space or workspace, for
+ * files uploaded before GET /audio/all read the listing keys
+ * @param {Bindings} env - Worker bindings
+ * @returns {Promise<number>} - Number of records listed
+ */
+export async function backfillAudioScopes(env: Bindings): Promise<number> {
+  let indexed = 0;
+
+  for (const key of await listAllKeys(env.AUDIO_KV, "audio:")) {
+    const raw = await env.AUDIO_KV.get(key);
+    if (!raw) continue;
+    await indexAudioScope(env.AUDIO_KV, JSON.parse(raw) as Audio);
+    indexed++;
+  }
+
+  return indexed;
+}
+
+/**
+ * Register the share token of every shared project, for links created while
+ * tokens resolved through PROJECT_KV. Until then those links do not open.
+ * @param {Bindings} env - Worker bindings
+ * @returns {Promise<number>} - Number of registered tokens
+ */
+export async function backfillShareTokens(env: Bindings): Promise<number> {
+  let registered = 0;
+
+  for (const key of await listAllKeys(env.PROJECT_KV, "project:")) {
+    const raw = await env.PROJECT_KV.get(key);
+    const project = raw ? (JSON.parse(raw) as Project) : null;
+    if (!project?.share) continue;
+
+    await registerShareToken(env, project);
+    registered++;
+  }
+
+  return registered;
+}
+
+/**
+ * Write the audio reference of every project, for projects created before
+ * references existed. Until then deleting a project would delete audio that
+ * a duplicate of it still plays.
+ * @param {Bindings} env - Worker bindings
+ * @returns {Promise<number>} - Number of references written
+ */
+export async function backfillAudioReferences(env: Bindings): Promise<number> {
+  let written = 0;
+
+  for (const key of await listAllKeys(env.PROJECT_KV, "project:")) {
+    const raw = await env.PROJECT_KV.get(key);
+    const project = raw ? (JSON.parse(raw) as Project) : null;
+    if (!project || isYoutubeAudio(project.audioId)) continue;
+
+    await addAudioReference(env.AUDIO_KV, project.audioId, project.id);
+    written++;
+  }
+
+  return written;
+}
+
+/**
+ * Give every project and audio record created before accounts existed to one
+ * user, so they show up in that user's listings and can be edited again
+ * @param {Bindings} env - Worker bindings
+ * @param {string} ownerId - The user who receives the records
+ * @returns {Promise<{projects: number, audio: number}>} - Number of records assigned
+ */
+export async function assignUnownedRecords(
+  env: Bindings,
+  ownerId: string
+): Promise<{ projects: number; audio: number }> {
+  let projects = 0;
+  let audio = 0;
+
+  for (const key of await listAllKeys(env.PROJECT_KV, "project:")) {
+    const raw = await env.PROJECT_KV.get(key);
+    const project = raw ? (JSON.parse(raw) as Project) : null;
+    if (!project || project.ownerId) continue;
+
+    const previous = { ...project };
+    project.ownerId = ownerId;
+    // Written directly so updatedAt and the revision stay untouched
+    await env.PROJECT_KV.put(key, JSON.stringify(project));
+    await writeProjectIndex(env.PROJECT_KV, project, previous);
+    await indexProjectForSearch(env, project);
+    projects++;
+  }
+
+  for (const key of await listAllKeys(env.AUDIO_KV, "audio:")) {
+    const raw = await env.AUDIO_KV.get(key);
+    const record = raw ? (JSON.parse(raw) as Audio) : null;
+    if (!record || record.ownerId) continue;
+
+    record.ownerId = ownerId;
+    await env.AUDIO_KV.put(key, JSON.stringify(record));
+    await indexAudioScope(env.AUDIO_KV, record);
+    audio++;
+  }
+
+  return { projects, audio };
+}
@@ -0,0 +1,189 @@
+import type { ReadableStream as BindingStream } from "@cloudflare/workers-types";
+import { Bindings, CoverCrop, Project } from "./types";
+import { badRequest, notFound } from "./errors";
+import { listAllObjectKeys } from "./utils";
+import { readCoverArt } from "./media";
+
+/**
+ * Cover art uploaded for a project. The original is kept in COVER_FILES under
+ * `project-cover:<projectId>/original` so the crop can change later, next to
+ * square WebP thumbnails `project-cover:<projectId>/<size>.webp` made by the
+ * Images binding.
+ */
+
+export const PROJECT_COVER_PREFIX = "project-cover:";
+
+// Project cards, the track player and video backgrounds
+export const COVER_SIZES = [160, 512, 1080] as const;
+
+export const MAX_COVER_SIZE = 10 * 1024 * 1024; // 10 MB
+
+const originalKey = (projectId: string) =>
+  `${PROJECT_COVER_PREFIX}${projectId}/original`;
+
+const thumbnailKey = (projectId: string, size: number) =>
+  `${PROJECT_COVER_PREFIX}${projectId}/${size}.webp`;
+
+/**
+ * Get the project ID of a project cover object key
+ */
+export function projectIdFromCoverKey(key: string): string {
+  return key.slice(PROJECT_COVER_PREFIX.length).split("/")[0];
+}
+
+/**
+ * Pick the smallest thumbnail at least as large as requested
+ * @param {number} [size] - Requested side in pixels, the largest without
+ * @returns {number} - One of COVER_SIZES
+ */
+export function pickCoverSize(size?: number): number {
+  return (
+    COVER_SIZES.find((candidate) => size !== undefined && candidate >= size) ??
+    COVER_SIZES[COVER_SIZES.length - 1]
+  );
+}
+
+// The Images binding is typed with the workers-types streams
+const toStream = (bytes: ArrayBuffer) =>
+  new Response(bytes).body as unknown as BindingStream<Uint8Array>;
+
+/**
+ * Crop an image to a square and store it as thumbnails in every size
+ * @param {Bindings} env - Worker bindings
+ * @param {string} projectId - The project ID
+ * @param {ArrayBuffer} original - The uploaded image
+ * @param {CoverCrop} crop - The part of the image to keep
+ * @throws {ApiError} 400 if the image has no pixel size
+ * @throws {ImagesError} If the bytes are not an image the binding can read
+ */
+export async function writeCoverThumbnails(
+  env: Bindings,
+  projectId: string,
+  original: ArrayBuffer,
+  crop: CoverCrop
+) {
+  const info = await env.IMAGES.info(toStream(original));
+  if (!("width" in info)) throw badRequest("Cover art must be a raster image");
+
+  const side = Math.max(
+    1,
+    Math.round(crop.size * Math.min(info.width, info.height))
+  );
+  const trim = {
+    left: Math.round(crop.x * (info.width - side)),
+    top: Math.round(crop.y * (info.height - side)),
+    width: side,
+    height: side,
+  };
+
+  for (const size of COVER_SIZES) {
+    const result = await env.IMAGES.input(toStream(original))
+      .transform({ trim })
+      .transform({ width: size, height: size, fit: "cover" })
+      .output({ format: "image/webp", quality: 85 });
+
+    await env.COVER_FILES.put(thumbnailKey(projectId, size), result.image(), {
+      httpMetadata: { contentType: "image/webp" },
+    });
+  }
+}
+
+/**
+ * Store the original of an uploaded cover
+ * @param {Bindings} env - Worker bindings
+ * @param {string} projectId - The project ID
+ * @param {ArrayBuffer} original - The uploaded image
+ * @param {string} contentType - Its MIME type
+ */
+export async function storeCoverOriginal(
+  env: Bindings,
+  projectId: string,
+  original: ArrayBuffer,
+  contentType: string
+) {
+  await env.COVER_FILES.put(originalKey(projectId), original, {
+    httpMetadata: { contentType },
+  });
+}
+
+/**
+ * Read the stored original of a project cover, to crop it again
+ * @throws {ApiError} 404 if the project has no uploaded cover
+ */
+export async function readCoverOriginal(
+  env: Bindings,
+  projectId: string
+): Promise<{ body: ReadableStream<Uint8Array>; contentType: string }> {
+  const object = await env.COVER_FILES.get(originalKey(projectId));
+  if (!object) throw notFound("Project has no uploaded cover");
+  return {
+    body: object.body as ReadableStream<Uint8Array>,
+    contentType: object.httpMetadata?.contentType || "image/jpeg",
+  };
+}
+
+/**
+ * Read the cover of a project: a thumbnail of the uploaded cover, otherwise
+ * the picture embedded in the audio or the YouTube thumbnail
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - The project
+ * @param {number} [size] - Requested side in pixels, only thumbnails are resized
+ * @throws {ApiError} 404 if the project has no cover art at all
+ */
+export async function readProjectCover(
+  env: Bindings,
+  project: Project,
+  size?: number
+): ReturnType<typeof readCoverArt> {
+  if (!project.cover) {
+    return readCoverArt(env, project.audioId, project.id);
+  }
+
+  const object = await env.COVER_FILES.get(
+    thumbnailKey(project.id, pickCoverSize(size))
+  );
+  if (!object) throw notFound("Cover thumbnail not found");
+  return {
+    body: object.body as ReadableStream<Uint8Array>,
+    contentType: "image/webp",
+  };
+}
+
+/**
+ * Copy the uploaded cover of a project to another one
+ * @param {Bindings} env - Worker bindings
+ * @param {string} fromId - The project with the cover
+ * @param {string} toId - The project receiving a copy
+ */
+export async function copyProjectCover(
+  env: Bindings,
+  fromId: string,
+  toId: string
+) {
+  const keys = await listAllObjectKeys(
+    env.COVER_FILES,
+    `${PROJECT_COVER_PREFIX}${fromId}/`
+  );
+  for (const key of keys) {
+    const object = await env.COVER_FILES.get(key);
+    if (!object) continue;
+    await env.COVER_FILES.put(
+      `${PROJECT_COVER_PREFIX}${toId}/${key.split("/").pop()}`,
+      await object.arrayBuffer(),
+      { httpMetadata: object.httpMetadata }
+    );
+  }
+}
+
+/**
+ * Delete the uploaded cover of a project with its thumbnails
+ * @param {Bindings} env - Worker bindings
+ * @param {string} projectId - The project ID
+ */
+export async function deleteProjectCover(env: Bindings, projectId: string) {
+  const keys = await listAllObjectKeys(
+    env.COVER_FILES,
+    `${PROJECT_COVER_PREFIX}${projectId}/`
+  );
+  if (keys.length > 0) await env.COVER_FILES.delete(keys);
+}
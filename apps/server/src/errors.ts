@@ -0,0 +1,155 @@
+import { Context } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { ContentfulStatusCode } from "hono/utils/http-status";
+import { ZodError } from "zod";
+
+export type ErrorCode =
+  | "BAD_REQUEST"
+  | "VALIDATION_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "LENGTH_REQUIRED"
+  | "PRECONDITION_FAILED"
+  | "DUPLICATE_FILE"
+  | "PAYLOAD_TOO_LARGE"
+  | "UNSUPPORTED_MEDIA_TYPE"
+  | "RANGE_NOT_SATISFIABLE"
+  | "RATE_LIMITED"
+  | "UPSTREAM_ERROR"
+  | "INTERNAL_ERROR";
+
+/**
+ * JSON body returned by every failing route
+ */
+export type ErrorEnvelope = {
+  code: ErrorCode;
+  message: string;
+  details?: unknown;
+};
+
+/**
+ * Error thrown by route handlers, turned into an ErrorEnvelope by handleError
+ */
+export class ApiError extends Error {
+  readonly status: ContentfulStatusCode;
+  readonly code: ErrorCode;
+  readonly details?: unknown;
+  readonly headers?: Record<string, string>;
+
+  constructor(
+    status: ContentfulStatusCode,
+    code: ErrorCode,
+    message: string,
+    options?: { details?: unknown; headers?: Record<string, string> }
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.details = options?.details;
+    this.headers = options?.headers;
+  }
+}
+
+export const badRequest = (message: string, details?: unknown) =>
+  new ApiError(400, "BAD_REQUEST", message, { details });
+
+export const notFound = (message: string) =>
+  new ApiError(404, "NOT_FOUND", message);
+
+/**
+ * Build the error of a failed zod validation, listing every issue in details
+ */
+export function validationError(error: ZodError): ApiError {
+  const issues = error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+  const [first] = issues;
+  const message = first
+    ? `Invalid request: ${first.path ? `${first.path}: ` : ""}${first.message}`
+    : "Invalid request";
+
+  return new ApiError(400, "VALIDATION_ERROR", message, { details: issues });
+}
+
+function codeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 400:
+      return "BAD_REQUEST";
+    case 401:
+      return "UNAUTHORIZED";
+    case 403:
+      return "FORBIDDEN";
+    case 404:
+      return "NOT_FOUND";
+    case 409:
+      return "CONFLICT";
+    case 411:
+      return "LENGTH_REQUIRED";
+    case 412:
+      return "PRECONDITION_FAILED";
+    case 413:
+      return "PAYLOAD_TOO_LARGE";
+    case 415:
+      return "UNSUPPORTED_MEDIA_TYPE";
+    case 416:
+      return "RANGE_NOT_SATISFIABLE";
+    case 429:
+      return "RATE_LIMITED";
+    default:
+      return "INTERNAL_ERROR";
+  }
+}
+
+/**
+ * Central error handler, registered with app.onError
+ */
+export function handleError(err: Error, c: Context) {
+  if (err instanceof ApiError) {
+    for (const [name, value] of Object.entries(err.headers ?? {})) {
+      c.header(name, value);
+    }
+    return c.json<ErrorEnvelope>(
+      { code: err.code, message: err.message, details: err.details },
+      err.status
+    );
+  }
+
+  if (err instanceof ZodError) {
+    const apiError = validationError(err);
+    return c.json<ErrorEnvelope>(
+      {
+        code: apiError.code,
+        message: apiError.message,
+        details: apiError.details,
+      },
+      apiError.status
+    );
+  }
+
+  if (err instanceof HTTPException) {
+    return c.json<ErrorEnvelope>(
+      { code: codeForStatus(err.status), message: err.message },
+      err.status
+    );
+  }
+
+  console.error("Unhandled error:", err);
+  return c.json<ErrorEnvelope>(
+    { code: "INTERNAL_ERROR", message: "Internal server error" },
+    500
+  );
+}
+
+/**
+ * Fallback for unknown routes, registered with app.notFound
+ */
+export function handleNotFound(c: Context) {
+  return c.json<ErrorEnvelope>(
+    { code: "NOT_FOUND", message: `Route ${c.req.method} ${c.req.path} not found` },
+    404
+  );
+}
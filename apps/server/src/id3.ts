@@ -0,0 +1,236 @@
+import { LyricsLine } from "./types";
+
+/**
+ * Minimal ID3v2 writer for tagged MP3 downloads. The frames of an existing
+ * v2.3 or v2.4 tag are copied as they are, except the ones written here:
+ * title, artist and album text frames, USLT with the plain lyrics and SYLT
+ * with one entry per timed line in milliseconds. Other tags (v2.2,
+ * unsynchronised) are replaced by a new v2.4 tag.
+ */
+
+export type Id3Fields = {
+  title?: string;
+  artist?: string;
+  album?: string;
+  language?: string; // ISO 639-2 code of the lyrics
+  lines: LyricsLine[];
+};
+
+export const ID3_HEADER_SIZE = 10;
+
+const FLAG_UNSYNCHRONISATION = 0x80;
+const FLAG_EXTENDED_HEADER = 0x40;
+const FLAG_FOOTER = 0x10;
+
+// Text encodings: UTF-16 with BOM for v2.3, which has no UTF-8
+const ENCODING_UTF16 = 1;
+const ENCODING_UTF8 = 3;
+
+// SYLT time stamps in milliseconds, content type song lyrics
+const SYLT_MILLISECONDS = 2;
+const SYLT_LYRICS = 1;
+
+const readSyncsafe = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] & 0x7f) << 21) |
+  ((bytes[offset + 1] & 0x7f) << 14) |
+  ((bytes[offset + 2] & 0x7f) << 7) |
+  (bytes[offset + 3] & 0x7f);
+
+const writeSyncsafe = (size: number) =>
+  Uint8Array.of(
+    (size >> 21) & 0x7f,
+    (size >> 14) & 0x7f,
+    (size >> 7) & 0x7f,
+    size & 0x7f
+  );
+
+const writeUint32 = (value: number) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value);
+  return bytes;
+};
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    parts.reduce((total, part) => total + part.length, 0)
+  );
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Size of the ID3v2 tag a file starts with
+ * @param {Uint8Array} header - The first 10 bytes of the file
+ * @returns {number} - Bytes of the tag with header and footer, 0 without a tag
+ */
+export function id3TagSize(header: Uint8Array): number {
+  if (
+    header.length < ID3_HEADER_SIZE ||
+    header[0] !== 0x49 || // "ID3"
+    header[1] !== 0x44 ||
+    header[2] !== 0x33
+  ) {
+    return 0;
+  }
+  const footer = header[3] === 4 && header[5] & FLAG_FOOTER ? 10 : 0;
+  return ID3_HEADER_SIZE + readSyncsafe(header, 6) + footer;
+}
+
+// Raw frames of an existing tag worth keeping, null when it cannot be copied
+function readFrames(
+  tag: Uint8Array
+): { version: 3 | 4; frames: { id: string; bytes: Uint8Array }[] } | null {
+  const version = tag[3];
+  const flags = tag[5];
+  if ((version !== 3 && version !== 4) || flags & FLAG_UNSYNCHRONISATION) {
+    return null;
+  }
+
+  const end = Math.min(tag.length, ID3_HEADER_SIZE + readSyncsafe(tag, 6));
+  let offset = ID3_HEADER_SIZE;
+  if (flags & FLAG_EXTENDED_HEADER) {
+    const view = new DataView(tag.buffer, tag.byteOffset);
+    // v2.3 counts the size field out, v2.4 in
+    offset +=
+      version === 4 ? readSyncsafe(tag, offset) : 4 + view.getUint32(offset);
+  }
+
+  const frames: { id: string; bytes: Uint8Array }[] = [];
+  while (offset + ID3_HEADER_SIZE <= end && tag[offset] !== 0) {
+    const id = String.fromCharCode(...tag.subarray(offset, offset + 4));
+    const size =
+      version === 4
+        ? readSyncsafe(tag, offset + 4)
+        : new DataView(tag.buffer, tag.byteOffset).getUint32(offset + 4);
+    const frameEnd = offset + ID3_HEADER_SIZE + size;
+    if (!/^[A-Z0-9]{4}$/.test(id) || frameEnd > end) break;
+
+    frames.push({ id, bytes: tag.subarray(offset, frameEnd) });
+    offset = frameEnd;
+  }
+
+  return { version, frames };
+}
+
+function encodeString(version: 3 | 4, text: string, terminated: boolean) {
+  if (version === 4) {
+    const bytes = new TextEncoder().encode(text);
+    return terminated ? concat([bytes, Uint8Array.of(0)]) : bytes;
+  }
+
+  // UTF-16 little endian with a byte order mark
+  const bytes = new Uint8Array(2 + text.length * 2 + (terminated ? 2 : 0));
+  bytes.set([0xff, 0xfe]);
+  for (let index = 0; index < text.length; index++) {
+    const code = text.charCodeAt(index);
+    bytes[2 + index * 2] = code & 0xff;
+    bytes[3 + index * 2] = code >> 8;
+  }
+  return bytes;
+}
+
+function frame(version: 3 | 4, id: string, body: Uint8Array): Uint8Array {
+  return concat([
+    new TextEncoder().encode(id),
+    version === 4 ? writeSyncsafe(body.length) : writeUint32(body.length),
+    Uint8Array.of(0, 0),
+    body,
+  ]);
+}
+
+const encodingOf = (version: 3 | 4) =>
+  version === 4 ? ENCODING_UTF8 : ENCODING_UTF16;
+
+const textFrame = (version: 3 | 4, id: string, text: string) =>
+  frame(
+    version,
+    id,
+    concat([
+      Uint8Array.of(encodingOf(version)),
+      encodeString(version, text, false),
+    ])
+  );
+
+// Three letters, "XXX" when the language is unknown
+const languageCode = (language?: string) =>
+  new TextEncoder().encode(
+    language && /^[a-z]{3}$/i.test(language) ? language.toLowerCase() : "XXX"
+  );
+
+function lyricsFrames(version: 3 | 4, fields: Id3Fields): Uint8Array[] {
+  const header = (extra: number[]) =>
+    concat([
+      Uint8Array.of(encodingOf(version)),
+      languageCode(fields.language),
+      Uint8Array.of(...extra),
+      encodeString(version, "", true), // empty content descriptor
+    ]);
+
+  const text = fields.lines.map((line) => line.text).join("\n");
+  const frames = [
+    frame(
+      version,
+      "USLT",
+      concat([header([]), encodeString(version, text, false)])
+    ),
+  ];
+
+  const timed = fields.lines
+    .filter((line) => typeof line.timestamp === "number")
+    .sort((a, b) => a.timestamp! - b.timestamp!);
+  if (timed.length > 0) {
+    frames.push(
+      frame(
+        version,
+        "SYLT",
+        concat([
+          header([SYLT_MILLISECONDS, SYLT_LYRICS]),
+          ...timed.flatMap((line) => [
+            encodeString(version, line.text, true),
+            writeUint32(Math.round(line.timestamp! * 1000)),
+          ]),
+        ])
+      )
+    );
+  }
+
+  return frames;
+}
+
+/**
+ * Build the ID3v2 tag of a tagged download
+ * @param {Uint8Array|null} existing - The tag the file starts with, null without one
+ * @param {Id3Fields} fields - Track info and lyrics lines to write
+ * @returns {Uint8Array} - The new tag, to put in place of the existing one
+ */
+export function writeId3Tag(
+  existing: Uint8Array | null,
+  fields: Id3Fields
+): Uint8Array {
+  const parsed = existing ? readFrames(existing) : null;
+  const version = parsed?.version ?? 4;
+
+  const written = [
+    ...(fields.title ? [textFrame(version, "TIT2", fields.title)] : []),
+    ...(fields.artist ? [textFrame(version, "TPE1", fields.artist)] : []),
+    ...(fields.album ? [textFrame(version, "TALB", fields.album)] : []),
+    ...lyricsFrames(version, fields),
+  ];
+  const replaced = new Set(
+    written.map((bytes) => String.fromCharCode(...bytes.subarray(0, 4)))
+  );
+  const kept = (parsed?.frames ?? [])
+    .filter((existingFrame) => !replaced.has(existingFrame.id))
+    .map((existingFrame) => existingFrame.bytes);
+
+  const frames = concat([...kept, ...written]);
+  return concat([
+    Uint8Array.of(0x49, 0x44, 0x33, version, 0, 0),
+    writeSyncsafe(frames.length),
+    frames,
+  ]);
+}
@@ -1,9 +1,24 @@
 import { Hono } from 'hono';
+import { ExecutionContext, ScheduledController } from '@cloudflare/workers-types';
 import { cors } from 'hono/cors';
 import { Bindings } from './types';
 import project from './routes/project';
 import youtube from './routes/youtube';
 import audio from './routes/audio';
+import uploads from './routes/uploads';
+import maintenance from './routes/maintenance';
+import search from './routes/search';
+import auth from './routes/auth';
+import workspaces from './routes/workspaces';
+import share from './routes/share';
+import assets from './routes/assets';
+import { collectGarbage } from './cleanup';
+import { handleError, handleNotFound } from './errors';
+
+export { ShareToken } from './shares';
+
+// Where the scheduled garbage collection continues
+const GC_CURSOR_KEY = 'gc-cursor';
 
 const app = new Hono<{
 	Bindings: Bindings;
@@ -11,13 +26,51 @@ const app = new Hono<{
 
 app.use('*', cors({
   origin: '*',
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowHeaders: ['Content-Type', 'Authorization'],
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowHeaders: ['Content-Type', 'Authorization', 'If-Match'],
+  exposeHeaders: ['ETag'],
 }))
 
+app.route('/auth', auth);
+app.route('/workspaces', workspaces);
 app.route('/project', project);
 app.route('/youtube', youtube);
+app.route('/audio/uploads', uploads);
 app.route('/audio', audio);
+app.route('/search', search);
+app.route('/share', share);
+app.route('/assets', assets);
+app.route('/maintenance', maintenance);
 
+app.onError(handleError);
+app.notFound(handleNotFound);
 
-export default app;
+export default {
+	fetch: app.fetch,
+	// Garbage collection in batches, see the cron trigger in wrangler.jsonc.
+	// Each run checks one batch and keeps the cursor for the next run, a full
+	// scan would not fit in one invocation on large namespaces.
+	async scheduled(
+		_controller: ScheduledController,
+		env: Bindings,
+		ctx: ExecutionContext
+	) {
+		ctx.waitUntil(
+			(async () => {
+				const cursor = await env.PROJECT_KV.get(GC_CURSOR_KEY);
+				const report = await collectGarbage(env, {
+					dryRun: false,
+					cursor: cursor ?? undefined,
+				});
+				if (report.cursor) {
+					await env.PROJECT_KV.put(GC_CURSOR_KEY, report.cursor);
+				} else {
+					await env.PROJECT_KV.delete(GC_CURSOR_KEY);
+				}
+				if (report.deleted > 0 || !report.cursor) {
+					console.log('Garbage collection batch:', JSON.stringify(report));
+				}
+			})()
+		);
+	},
+};
@@ -0,0 +1,532 @@
+import {
+  Audio,
+  Bindings,
+  LyricsImportFormat,
+  LyricsLine,
+  Project,
+} from "./types";
+import { badRequest } from "./errors";
+
+/**
+ * Synced lyrics files made from the stored lyrics lines: LRC for music
+ * players, SRT and WebVTT subtitles, and TTML. Lines without a timestamp are
+ * left out. Subtitle cues end when the line's style.duration runs out, else
+ * when the next line starts, the last one at the end of the track.
+ *
+ * Imports read LRC, enhanced LRC, SRT, WebVTT and ASS back into lines. A cue
+ * ending before the next one starts keeps its length as style.duration.
+ */
+
+export type LyricsFormat = "lrc" | "srt" | "vtt" | "ttml";
+
+export const lyricsImportFormats = [
+  "lrc",
+  "elrc",
+  "srt",
+  "vtt",
+  "ass",
+] as const satisfies readonly LyricsImportFormat[];
+
+export type LyricsImportWarning = {
+  line: number; // 1-based line of the imported text
+  message: string;
+};
+
+export type ImportedLyrics = {
+  format: LyricsImportFormat;
+  lines: LyricsLine[];
+  tags: Record<string, string>;
+  warnings: LyricsImportWarning[];
+};
+
+export const MAX_LYRICS_FILE_SIZE = 1024 * 1024; // 1 MB
+
+// Limits of lyricsSchema
+const MAX_LINES = 5000;
+const MAX_LINE_LENGTH = 1000;
+const MAX_TAG_LENGTH = 500;
+
+export type TrackInfo = {
+  title?: string;
+  artist?: string;
+  album?: string;
+  duration?: number; // seconds
+};
+
+type Cue = { start: number; end: number; text: string };
+
+// How long the last line shows when the track length is unknown
+const LAST_LINE_SECONDS = 5;
+
+/**
+ * Read the title, artist, album and duration of a project's track
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - The project
+ * @returns {Promise<TrackInfo>} - The known fields, empty without metadata
+ */
+export async function readTrackInfo(
+  env: Bindings,
+  project: Project
+): Promise<TrackInfo> {
+  if (project.audioId.startsWith("youtube-virtual-")) {
+    const raw = await env.PROJECT_KV.get(`youtube-meta:${project.id}`);
+    if (!raw) return {};
+    const meta = JSON.parse(raw);
+    return {
+      title: meta.title,
+      artist: meta.channelTitle,
+      duration: meta.parsedDuration || undefined,
+    };
+  }
+
+  const raw = await env.AUDIO_KV.get(`audio:${project.audioId}`);
+  if (!raw) return {};
+  const { metadata } = JSON.parse(raw) as Audio;
+  return {
+    title: metadata?.title,
+    artist: metadata?.artist,
+    album: metadata?.album,
+    duration: metadata?.duration,
+  };
+}
+
+// Timed lines in playback order, each with its end time
+function toCues(lines: LyricsLine[], duration?: number): Cue[] {
+  const timed = lines
+    .filter((line) => typeof line.timestamp === "number")
+    .sort((a, b) => a.timestamp! - b.timestamp!);
+
+  return timed.map((line, index) => {
+    const start = line.timestamp!;
+    const next = timed[index + 1]?.timestamp;
+    const end = line.style?.duration
+      ? start + line.style.duration
+      : next ?? Math.max(duration ?? 0, start + LAST_LINE_SECONDS);
+    return { start, end: Math.max(end, start), text: line.text };
+  });
+}
+
+// Cues with text, empty lines only end the previous one
+const subtitleCues = (lines: LyricsLine[], info: TrackInfo) =>
+  toCues(lines, info.duration).filter((cue) => cue.text.trim() !== "");
+
+// HH:MM:SS plus milliseconds after the separator
+function clockTime(seconds: number, separator: string): string {
+  const ms = Math.round(seconds * 1000);
+  const pad = (value: number, length = 2) =>
+    value.toString().padStart(length, "0");
+  return `${pad(Math.floor(ms / 3600000))}:${pad(
+    Math.floor(ms / 60000) % 60
+  )}:${pad(Math.floor(ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+// mm:ss.xx, rounded to centiseconds before splitting so 59.999 gives 01:00.00
+function lrcTime(seconds: number): string {
+  const cs = Math.round(seconds * 100);
+  const minutes = Math.floor(cs / 6000);
+  const rest = (cs % 6000) / 100;
+  return `${minutes.toString().padStart(2, "0")}:${rest
+    .toFixed(2)
+    .padStart(5, "0")}`;
+}
+
+// Also used for WebVTT cue text, where & and < start markup too
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function formatLrc(lines: LyricsLine[], info: TrackInfo): string {
+  const tags = [
+    ["ti", info.title],
+    ["ar", info.artist],
+    ["al", info.album],
+    ["length", info.duration ? lrcTime(info.duration).slice(0, 5) : undefined],
+  ]
+    .filter(([, value]) => value)
+    .map(([tag, value]) => `[${tag}:${value}]`);
+
+  const body = toCues(lines).map(
+    (cue) => `[${lrcTime(cue.start)}]${cue.text}`
+  );
+  return [...tags, ...(tags.length ? [""] : []), ...body].join("\n") + "\n";
+}
+
+function formatSrt(lines: LyricsLine[], info: TrackInfo): string {
+  return subtitleCues(lines, info)
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${clockTime(cue.start, ",")} --> ${clockTime(
+          cue.end,
+          ","
+        )}\n${cue.text}\n`
+    )
+    .join("\n");
+}
+
+function formatVtt(lines: LyricsLine[], info: TrackInfo): string {
+  const title = [info.title, info.artist].filter(Boolean).join(" - ");
+  const cues = subtitleCues(lines, info).map(
+    (cue) =>
+      `${clockTime(cue.start, ".")} --> ${clockTime(cue.end, ".")}\n${escapeXml(
+        cue.text
+      )}\n`
+  );
+  // The header text may not contain "-->" nor line breaks
+  const header = title
+    ? `WEBVTT - ${title.replace(/-->|\n/g, " ")}`
+    : "WEBVTT";
+  return [`${header}\n`, ...cues].join("\n");
+}
+
+function formatTtml(lines: LyricsLine[], info: TrackInfo): string {
+  const metadata = [
+    info.title && `      <ttm:title>${escapeXml(info.title)}</ttm:title>`,
+    info.artist &&
+      `      <ttm:agent xml:id="artist" type="person"><ttm:name type="full">${escapeXml(
+        info.artist
+      )}</ttm:name></ttm:agent>`,
+  ].filter(Boolean);
+
+  const paragraphs = subtitleCues(lines, info).map(
+    (cue) =>
+      `      <p begin="${clockTime(cue.start, ".")}" end="${clockTime(
+        cue.end,
+        "."
+      )}">${escapeXml(cue.text)}</p>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttm="http://www.w3.org/ns/ttml#metadata">',
+    "  <head>",
+    "    <metadata>",
+    ...metadata,
+    "    </metadata>",
+    "  </head>",
+    "  <body>",
+    "    <div>",
+    ...paragraphs,
+    "    </div>",
+    "  </body>",
+    "</tt>",
+    "",
+  ].join("\n");
+}
+
+export const LYRICS_FORMATS: Record<
+  LyricsFormat,
+  {
+    contentType: string;
+    format: (lines: LyricsLine[], info: TrackInfo) => string;
+  }
+> = {
+  lrc: { contentType: "text/plain; charset=utf-8", format: formatLrc },
+  srt: { contentType: "application/x-subrip; charset=utf-8", format: formatSrt },
+  vtt: { contentType: "text/vtt; charset=utf-8", format: formatVtt },
+  ttml: { contentType: "application/ttml+xml; charset=utf-8", format: formatTtml },
+};
+
+// [mm:ss.xx] at the start of an LRC line, some files use a colon before the fraction
+const LRC_TIME = /^\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+// <mm:ss.xx> word timings of enhanced LRC
+const LRC_WORD_TIME = /<\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?>/g;
+const LRC_TAG = /^\[([a-zA-Z#][\w#]*):([^\]]*)\]$/;
+// hh:mm:ss,mmm in SRT, [hh:]mm:ss.mmm in WebVTT, h:mm:ss.cc in ASS
+const CLOCK_TIME = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/;
+
+const fraction = (digits?: string) => (digits ? Number(`0.${digits}`) : 0);
+
+function parseClockTime(value: string): number | null {
+  const match = value.trim().match(CLOCK_TIME);
+  if (!match) return null;
+  const [, hours, minutes, seconds, digits] = match;
+  return (
+    Number(hours ?? 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    fraction(digits)
+  );
+}
+
+const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lrm;|&rlm;/g, "")
+    .replace(/&amp;/g, "&");
+
+const collapseSpaces = (text: string) => text.replace(/\s+/g, " ").trim();
+
+/**
+ * Guess the format of a lyrics file from its content
+ * @param {string} content - The file text
+ * @returns {LyricsImportFormat|null} - The format, null when none matches
+ */
+export function detectLyricsFormat(content: string): LyricsImportFormat | null {
+  const text = content.replace(/^\uFEFF/, "");
+  if (/^WEBVTT(?:[ \t]|\r?\n|$)/.test(text)) return "vtt";
+  if (/^\s*\[Script Info\]/im.test(text) || /^Dialogue:/m.test(text)) {
+    return "ass";
+  }
+  if (/^\s*\d{1,2}:\d{2}:\d{2},\d{1,3}\s*-->/m.test(text)) return "srt";
+  if (/^\s*\[\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?\]/m.test(text)) {
+    return /<\d{1,3}:\d{1,2}(?:[.:]\d{1,3})?>/.test(text) ? "elrc" : "lrc";
+  }
+  return null;
+}
+
+type ParsedFile = {
+  entries: Cue[] | { start: number; text: string }[];
+  tags: Record<string, string>;
+  warnings: LyricsImportWarning[];
+};
+
+function parseLrc(rows: string[]): ParsedFile {
+  const entries: { start: number; text: string }[] = [];
+  const tags: Record<string, string> = {};
+  const warnings: LyricsImportWarning[] = [];
+
+  rows.forEach((row, index) => {
+    let rest = row.trim();
+    if (!rest) return;
+
+    const tag = rest.match(LRC_TAG);
+    if (tag) {
+      tags[tag[1].toLowerCase()] = tag[2].trim().slice(0, MAX_TAG_LENGTH);
+      return;
+    }
+
+    // A line sung several times lists every time before its text
+    const starts: number[] = [];
+    let match: RegExpMatchArray | null;
+    while ((match = rest.match(LRC_TIME))) {
+      starts.push(Number(match[1]) * 60 + Number(match[2]) + fraction(match[3]));
+      rest = rest.slice(match[0].length);
+    }
+    if (starts.length === 0) {
+      warnings.push({ line: index + 1, message: "No timestamp" });
+      return;
+    }
+
+    const text = collapseSpaces(rest.replace(LRC_WORD_TIME, ""));
+    for (const start of starts) entries.push({ start, text });
+  });
+
+  // [offset:+500] shows every line 500 ms earlier
+  const offset = Number(tags.offset);
+  if (tags.offset && Number.isFinite(offset)) {
+    for (const entry of entries) {
+      entry.start = Math.max(0, entry.start - offset / 1000);
+    }
+  }
+
+  return { entries, tags, warnings };
+}
+
+// Blocks of non-empty rows with the line number of their first row
+function splitBlocks(rows: string[]): { line: number; rows: string[] }[] {
+  const blocks: { line: number; rows: string[] }[] = [];
+  let current: { line: number; rows: string[] } | null = null;
+
+  rows.forEach((row, index) => {
+    if (!row.trim()) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { line: index + 1, rows: [] };
+      blocks.push(current);
+    }
+    current.rows.push(row);
+  });
+
+  return blocks;
+}
+
+// SRT and WebVTT cues: an optional identifier, the timing row, then the text
+function parseCueBlocks(
+  blocks: { line: number; rows: string[] }[],
+  decode: (text: string) => string
+): ParsedFile {
+  const entries: Cue[] = [];
+  const warnings: LyricsImportWarning[] = [];
+
+  for (const block of blocks) {
+    const timingIndex = block.rows.findIndex((row) => row.includes("-->"));
+    if (timingIndex === -1 || timingIndex > 1) {
+      warnings.push({ line: block.line, message: "No timing line" });
+      continue;
+    }
+
+    const [startText, endText = ""] = block.rows[timingIndex].split("-->");
+    const start = parseClockTime(startText);
+    // WebVTT cue settings follow the end time
+    const end = parseClockTime(endText.trim().split(/\s+/)[0] ?? "");
+    if (start === null || end === null) {
+      warnings.push({ line: block.line + timingIndex, message: "Invalid time" });
+      continue;
+    }
+
+    const text = collapseSpaces(
+      decode(block.rows.slice(timingIndex + 1).join(" ").replace(/<[^>]*>/g, ""))
+    );
+    if (!text) {
+      warnings.push({ line: block.line, message: "Empty cue" });
+      continue;
+    }
+
+    entries.push({ start, end, text });
+  }
+
+  return { entries, tags: {}, warnings };
+}
+
+function parseSrt(rows: string[]): ParsedFile {
+  return parseCueBlocks(splitBlocks(rows), (text) => text);
+}
+
+function parseVtt(rows: string[]): ParsedFile {
+  const blocks = splitBlocks(rows).filter(
+    // The header and comment, style and region blocks hold no cues
+    (block, index) =>
+      !(index === 0 && block.rows[0].startsWith("WEBVTT")) &&
+      !/^(NOTE|STYLE|REGION)\b/.test(block.rows[0])
+  );
+  return parseCueBlocks(blocks, decodeEntities);
+}
+
+function parseAss(rows: string[]): ParsedFile {
+  const entries: Cue[] = [];
+  const tags: Record<string, string> = {};
+  const warnings: LyricsImportWarning[] = [];
+  let section = "";
+  // Column order of the Dialogue rows, the default of ASS files
+  let columns = [
+    "layer",
+    "start",
+    "end",
+    "style",
+    "name",
+    "marginl",
+    "marginr",
+    "marginv",
+    "effect",
+    "text",
+  ];
+
+  rows.forEach((row, index) => {
+    const line = row.trim();
+    if (!line || line.startsWith(";")) return;
+
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].toLowerCase();
+      return;
+    }
+
+    const separator = line.indexOf(":");
+    if (separator === -1) return;
+    const key = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+
+    if (section === "script info") {
+      tags[key.toLowerCase()] = value.slice(0, MAX_TAG_LENGTH);
+      return;
+    }
+    if (section !== "events" && section !== "") return;
+
+    if (key === "Format") {
+      columns = value.split(",").map((column) => column.trim().toLowerCase());
+      return;
+    }
+    if (key !== "Dialogue") return;
+
+    // The text is the last column and may itself contain commas
+    const fields = value.split(",");
+    const values = [
+      ...fields.slice(0, columns.length - 1),
+      fields.slice(columns.length - 1).join(","),
+    ];
+    const field = (name: string) => values[columns.indexOf(name)] ?? "";
+
+    const start = parseClockTime(field("start"));
+    const end = parseClockTime(field("end"));
+    if (start === null || end === null) {
+      warnings.push({ line: index + 1, message: "Invalid time" });
+      return;
+    }
+
+    const text = collapseSpaces(
+      field("text")
+        .replace(/\{[^}]*\}/g, "")
+        .replace(/\\[Nnh]/g, " ")
+    );
+    if (!text) {
+      warnings.push({ line: index + 1, message: "Empty cue" });
+      return;
+    }
+
+    entries.push({ start, end, text });
+  });
+
+  return { entries, tags, warnings };
+}
+
+const parsers: Record<LyricsImportFormat, (rows: string[]) => ParsedFile> = {
+  lrc: parseLrc,
+  elrc: parseLrc,
+  srt: parseSrt,
+  vtt: parseVtt,
+  ass: parseAss,
+};
+
+/**
+ * Read the lines of a synced lyrics file
+ * @param {string} content - The file text
+ * @param {LyricsImportFormat} [format] - The format, detected when missing
+ * @returns {ImportedLyrics} - Lines in playback order with the header tags and a warning per skipped line
+ * @throws {ApiError} 400 if the format is unknown, no line has a time or there are too many lines
+ */
+export function parseLyricsFile(
+  content: string,
+  format?: LyricsImportFormat
+): ImportedLyrics {
+  const text = content.replace(/^\uFEFF/, "");
+  const resolved = format ?? detectLyricsFormat(text);
+  if (!resolved) {
+    throw badRequest("Unrecognised lyrics format", {
+      supported: lyricsImportFormats,
+    });
+  }
+
+  const { entries, tags, warnings } = parsers[resolved](text.split(/\r?\n/));
+  if (entries.length === 0) {
+    throw badRequest("No timed lyrics found", { warnings });
+  }
+  if (entries.length > MAX_LINES) {
+    throw badRequest(`Lyrics are limited to ${MAX_LINES} lines`);
+  }
+
+  const sorted = [...entries].sort((a, b) => a.start - b.start);
+  const lines = sorted.map((entry, index): LyricsLine => {
+    const line: LyricsLine = {
+      id: index + 1,
+      text: entry.text.slice(0, MAX_LINE_LENGTH),
+      timestamp: round(entry.start),
+    };
+    const next = sorted[index + 1]?.start;
+    // Cues running into the next one end there anyway
+    if ("end" in entry && (next === undefined || entry.end < next)) {
+      line.style = { duration: round(Math.max(0, entry.end - entry.start)) };
+    }
+    return line;
+  });
+
+  return { format: resolved, lines, tags, warnings };
+}
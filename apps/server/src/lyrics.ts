@@ -0,0 +1,271 @@
+import { KVNamespace } from "@cloudflare/workers-types";
+import { v4 as uuidv4 } from "uuid";
+import {
+  Lyrics,
+  LyricsDiffEntry,
+  LyricsLine,
+  LyricsVersionSummary,
+  Project,
+} from "./types";
+import { listAllKeys } from "./utils";
+
+/**
+ * Build the KV key of a version index entry from the creation time and the
+ * lyrics ID, so concurrent saves that read the same previous version get
+ * entries of their own. The time is zero-padded so that a prefix listing
+ * returns the versions in chronological order. Entries written before were
+ * keyed by version number, they are listed alike.
+ */
+function versionKey(lyrics: Lyrics): string {
+  const time = Date.parse(lyrics.createdAt).toString().padStart(15, "0");
+  return `lyrics-version:${lyrics.projectId}:${time}:${lyrics.id}`;
+}
+
+function toSummary(lyrics: Lyrics): LyricsVersionSummary {
+  return {
+    id: lyrics.id,
+    version: lyrics.metadata?.version ?? 1,
+    createdAt: lyrics.createdAt,
+    lineCount: lyrics.lines.length,
+    source: lyrics.metadata?.source,
+    restoredFrom: lyrics.metadata?.restoredFrom,
+  };
+}
+
+async function indexVersion(kv: KVNamespace, lyrics: Lyrics) {
+  await kv.put(versionKey(lyrics), lyrics.id, {
+    metadata: toSummary(lyrics),
+  });
+}
+
+/**
+ * Get a lyrics record by ID
+ * @param {KVNamespace} kv - The lyrics KV namespace
+ * @param {string} lyricsId - ID of the lyrics record
+ * @returns {Promise<Lyrics|null>} - The lyrics record, null if missing
+ */
+export async function getLyricsById(
+  kv: KVNamespace,
+  lyricsId: string
+): Promise<Lyrics | null> {
+  const raw = await kv.get(`lyrics:${lyricsId}`);
+  return raw ? (JSON.parse(raw) as Lyrics) : null;
+}
+
+/**
+ * Store a new lyrics version for a project and make it the current one.
+ * Previous versions are kept untouched so they can be listed and restored.
+ * Records written before versioning existed are numbered 1 on the fly.
+ * @param {KVNamespace} kv - The lyrics KV namespace
+ * @param {Project} project - The owning project, its lyricsId is updated in place
+ * @param {Object} data - Text, lines and optional metadata of the new version
+ * @returns {Promise<Lyrics>} - The stored lyrics record
+ */
+export async function saveLyricsVersion(
+  kv: KVNamespace,
+  project: Project,
+  data: {
+    text?: string;
+    lines?: LyricsLine[];
+    metadata?: Lyrics["metadata"];
+  }
+): Promise<Lyrics> {
+  let previousVersion = 0;
+
+  if (project.lyricsId) {
+    const current = await getLyricsById(kv, project.lyricsId);
+    if (current) {
+      if (current.metadata?.version === undefined) {
+        current.metadata = { ...current.metadata, version: 1 };
+        await kv.put(`lyrics:${current.id}`, JSON.stringify(current));
+        await indexVersion(kv, current);
+      }
+      previousVersion = current.metadata?.version ?? 1;
+    }
+  }
+
+  const now = new Date().toISOString();
+  const lyrics: Lyrics = {
+    id: uuidv4(),
+    createdAt: now,
+    updatedAt: now,
+    text: data.text || "",
+    projectId: project.id,
+    lines: data.lines || [],
+    metadata: {
+      source: "manual",
+      ...data.metadata,
+      version: previousVersion + 1,
+    },
+  };
+
+  await kv.put(`lyrics:${lyrics.id}`, JSON.stringify(lyrics));
+  await indexVersion(kv, lyrics);
+
+  project.lyricsId = lyrics.id;
+
+  return lyrics;
+}
+
+/**
+ * List every stored lyrics version of a project, newest first
+ * @param {KVNamespace} kv - The lyrics KV namespace
+ * @param {Project} project - The project to list versions for
+ * @returns {Promise<LyricsVersionSummary[]>} - Version summaries
+ */
+export async function listLyricsVersions(
+  kv: KVNamespace,
+  project: Project
+): Promise<LyricsVersionSummary[]> {
+  const versions: LyricsVersionSummary[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list<LyricsVersionSummary>({
+      prefix: `lyrics-version:${project.id}:`,
+      cursor,
+    });
+    for (const key of page.keys) {
+      if (key.metadata) versions.push(key.metadata);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  // Lyrics saved before versioning existed have no index entry yet
+  if (versions.length === 0 && project.lyricsId) {
+    const current = await getLyricsById(kv, project.lyricsId);
+    if (current) versions.push(toSummary(current));
+  }
+
+  // Concurrent saves can share a version number
+  return versions.sort(
+    (a, b) => b.version - a.version || b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+/**
+ * Delete every lyrics version of a project along with its version index
+ * @param {KVNamespace} kv - The lyrics KV namespace
+ * @param {string} projectId - The project ID
+ * @param {string} [currentLyricsId] - The project's current lyrics ID, deleted even if unindexed
+ * @returns {Promise<number>} - Number of lyrics records deleted
+ */
+export async function deleteLyricsHistory(
+  kv: KVNamespace,
+  projectId: string,
+  currentLyricsId?: string
+): Promise<number> {
+  const lyricsIds = new Set<string>();
+  if (currentLyricsId) lyricsIds.add(currentLyricsId);
+
+  const indexKeys = await listAllKeys(kv, `lyrics-version:${projectId}:`);
+  for (const key of indexKeys) {
+    const lyricsId = await kv.get(key);
+    if (lyricsId) lyricsIds.add(lyricsId);
+  }
+
+  await Promise.all([
+    ...[...lyricsIds].map((id) => kv.delete(`lyrics:${id}`)),
+    ...indexKeys.map((key) => kv.delete(key)),
+  ]);
+
+  return lyricsIds.size;
+}
+
+/**
+ * Compute a line-level diff between two lists of lyric lines.
+ * Lines are matched on their text using a longest common subsequence;
+ * matched lines whose timestamp changed are reported as retimed.
+ * @param {LyricsLine[]} from - Lines of the older version
+ * @param {LyricsLine[]} to - Lines of the newer version
+ * @returns {LyricsDiffEntry[]} - Diff entries in display order
+ */
+export function diffLyricsLines(
+  from: LyricsLine[],
+  to: LyricsLine[]
+): LyricsDiffEntry[] {
+  const normalize = (line: LyricsLine) => line.text.trim();
+
+  // lcs[i][j] = length of the LCS of from[i..] and to[j..]
+  const lcs: number[][] = Array.from({ length: from.length + 1 }, () =>
+    new Array<number>(to.length + 1).fill(0)
+  );
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        normalize(from[i]) === normalize(to[j])
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const entries: LyricsDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < from.length && j < to.length) {
+    if (normalize(from[i]) === normalize(to[j])) {
+      entries.push({
+        type: from[i].timestamp === to[j].timestamp ? "unchanged" : "retimed",
+        from: from[i],
+        to: to[j],
+      });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      entries.push({ type: "removed", from: from[i] });
+      i++;
+    } else {
+      entries.push({ type: "added", to: to[j] });
+      j++;
+    }
+  }
+
+  for (; i < from.length; i++) entries.push({ type: "removed", from: from[i] });
+  for (; j < to.length; j++) entries.push({ type: "added", to: to[j] });
+
+  return entries;
+}
+
+export type LyricsRetiming =
+  | { mode: "offset"; offset: number }
+  | { mode: "stretch"; factor: number };
+
+/**
+ * Move every synced line after the audio underneath changed: `offset` shifts
+ * all timestamps by a number of seconds, `stretch` scales them (and the line
+ * durations) by a factor, e.g. new duration / old duration. Timestamps that
+ * would become negative are clamped to 0.
+ * @param {LyricsLine[]} lines - Lines to retime, left untouched
+ * @param {LyricsRetiming} retiming - The offset or stretch to apply
+ * @returns {LyricsLine[]} - Retimed copies of the lines
+ */
+export function retimeLyricsLines(
+  lines: LyricsLine[],
+  retiming: LyricsRetiming
+): LyricsLine[] {
+  const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+  return lines.map((line) => {
+    if (line.timestamp === undefined) return line;
+
+    if (retiming.mode === "offset") {
+      return {
+        ...line,
+        timestamp: round(Math.max(0, line.timestamp + retiming.offset)),
+      };
+    }
+
+    return {
+      ...line,
+      timestamp: round(line.timestamp * retiming.factor),
+      style:
+        line.style?.duration !== undefined
+          ? {
+              ...line.style,
+              duration: round(line.style.duration * retiming.factor),
+            }
+          : line.style,
+    };
+  });
+}
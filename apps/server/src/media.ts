@@ -0,0 +1,218 @@
+import { R2Bucket } from "@cloudflare/workers-types";
+import { Audio, Bindings } from "./types";
+import { ApiError, notFound } from "./errors";
+import { getCoverKey } from "./utils";
+import { ID3_HEADER_SIZE, Id3Fields, id3TagSize, writeId3Tag } from "./id3";
+
+/**
+ * Reading audio files and cover art out of R2, shared by the authenticated
+ * audio routes and the public share routes. Callers check access first and
+ * add their own Cache-Control header.
+ */
+
+export type MediaBody = {
+  body: ReadableStream<Uint8Array>;
+  status: 200 | 206;
+  headers: Record<string, string>;
+};
+
+/**
+ * Parse a single byte range, including open-ended (`500-`) and suffix
+ * (`-500`) ranges, clamping the end to the file size
+ * @returns {{start: number, end: number}|null} - Inclusive bounds, null if unsatisfiable
+ */
+function parseRange(header: string, size: number) {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    start = Math.max(0, size - parseInt(match[2], 10));
+    end = size - 1;
+  } else {
+    start = parseInt(match[1], 10);
+    end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+  }
+
+  if (start >= size || start > end) return null;
+  return { start, end };
+}
+
+/**
+ * Read an audio file, or the requested byte range of it. Also serves the
+ * video loops of the asset library, which players seek the same way.
+ * @param {R2Bucket} bucket - The audio or asset bucket
+ * @param {string} key - Object key of the file
+ * @param {string} [rangeHeader] - The Range header of the request
+ * @param {string} [fallbackContentType] - Used when the object has no content type
+ * @returns {Promise<MediaBody>} - The body with status 200, or 206 for a range
+ * @throws {ApiError} 404 if the file is missing, 416 if the range cannot be satisfied
+ */
+export async function readAudioFile(
+  bucket: R2Bucket,
+  key: string,
+  rangeHeader?: string,
+  fallbackContentType?: string
+): Promise<MediaBody> {
+  const object = await bucket.head(key);
+  if (!object) throw notFound("File not found");
+
+  const size = object.size;
+  const headers: Record<string, string> = {
+    "Content-Type":
+      object.httpMetadata?.contentType || fallbackContentType || "audio/mpeg",
+    "Accept-Ranges": "bytes",
+  };
+
+  // If no range is requested, return the entire file
+  if (!rangeHeader) {
+    const file = await bucket.get(key);
+    if (!file) throw notFound("File not found");
+    headers["Content-Length"] = size.toString();
+    return {
+      body: file.body as ReadableStream<Uint8Array>,
+      status: 200,
+      headers,
+    };
+  }
+
+  const range = parseRange(rangeHeader, size);
+  if (!range) {
+    throw new ApiError(416, "RANGE_NOT_SATISFIABLE", "Invalid range", {
+      headers: { "Content-Range": `bytes */${size}` },
+    });
+  }
+  const { start, end } = range;
+  const chunkSize = end - start + 1;
+
+  const rangeObject = await bucket.get(key, {
+    range: { offset: start, length: chunkSize },
+  });
+  if (!rangeObject) {
+    throw new ApiError(416, "RANGE_NOT_SATISFIABLE", "Range not available", {
+      headers: { "Content-Range": `bytes */${size}` },
+    });
+  }
+
+  headers["Content-Length"] = chunkSize.toString();
+  headers["Content-Range"] = `bytes ${start}-${end}/${size}`;
+
+  return {
+    body: rangeObject.body as ReadableStream<Uint8Array>,
+    status: 206,
+    headers,
+  };
+}
+
+/**
+ * Read an MP3 file with a new ID3v2 tag in place of the one it starts with.
+ * The audio frames are streamed from R2 after the new tag.
+ * @param {R2Bucket} bucket - The audio bucket
+ * @param {string} key - Object key of the MP3 file
+ * @param {Id3Fields} fields - Track info and lyrics lines to write
+ * @returns {Promise<{body: ReadableStream, size: number}>} - The tagged file and its length
+ * @throws {ApiError} 404 if the file is missing
+ */
+export async function readTaggedMp3(
+  bucket: R2Bucket,
+  key: string,
+  fields: Id3Fields
+): Promise<{ body: ReadableStream<Uint8Array>; size: number }> {
+  const head = await bucket.get(key, {
+    range: { offset: 0, length: ID3_HEADER_SIZE },
+  });
+  if (!head) throw notFound("File not found");
+
+  const tagSize = Math.min(
+    id3TagSize(new Uint8Array(await head.arrayBuffer())),
+    head.size
+  );
+  const existing =
+    tagSize > 0
+      ? await bucket.get(key, { range: { offset: 0, length: tagSize } })
+      : null;
+  const tag = writeId3Tag(
+    existing ? new Uint8Array(await existing.arrayBuffer()) : null,
+    fields
+  );
+
+  const audio = await bucket.get(key, { range: { offset: tagSize } });
+  if (!audio) throw notFound("File not found");
+  const reader = (audio.body as ReadableStream<Uint8Array>).getReader();
+
+  let tagSent = false;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!tagSent) {
+        tagSent = true;
+        controller.enqueue(tag);
+        return;
+      }
+      const { done, value } = await reader.read();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { body, size: tag.length + head.size - tagSize };
+}
+
+/**
+ * Find the cover art of a project: the picture embedded in its audio file,
+ * or for YouTube projects the stored thumbnail, else a redirect to it.
+ * Older YouTube projects stored the thumbnail URL as text under the same key,
+ * those are redirected too.
+ * @param {Bindings} env - Worker bindings
+ * @param {string} audioId - The audio ID of the project
+ * @param {string} projectId - The project ID, used by YouTube projects
+ * @returns {Promise<{body: ReadableStream, contentType: string}|{redirect: string}>}
+ * @throws {ApiError} 404 if there is no cover art
+ */
+export async function readCoverArt(
+  env: Bindings,
+  audioId: string,
+  projectId: string
+): Promise<
+  | { body: ReadableStream<Uint8Array>; contentType: string }
+  | { redirect: string }
+> {
+  if (audioId.startsWith("youtube-virtual-")) {
+    const coverObject = await env.COVER_FILES.get(`cover:${projectId}`);
+    const contentType = coverObject?.httpMetadata?.contentType;
+    if (coverObject && contentType?.startsWith("image/")) {
+      return {
+        body: coverObject.body as ReadableStream<Uint8Array>,
+        contentType,
+      };
+    }
+
+    const youtubeMetaRaw = await env.PROJECT_KV.get(`youtube-meta:${projectId}`);
+    if (!youtubeMetaRaw) throw notFound("No YouTube metadata found");
+
+    const youtubeMeta = JSON.parse(youtubeMetaRaw);
+    if (youtubeMeta.thumbnail) return { redirect: youtubeMeta.thumbnail };
+
+    throw notFound("No thumbnail available for this YouTube project");
+  }
+
+  const raw = await env.AUDIO_KV.get(`audio:${audioId}`);
+  if (!raw) throw notFound("Audio file not found");
+
+  const meta = JSON.parse(raw) as Audio;
+  if (!meta.coverArt || !meta.coverArt.id) {
+    throw notFound("No cover art available for this audio");
+  }
+
+  const coverObject = await env.COVER_FILES.get(getCoverKey(meta.coverArt));
+  if (!coverObject) throw notFound("Cover art file not found");
+
+  return {
+    body: coverObject.body as ReadableStream<Uint8Array>,
+    contentType: meta.coverArt.format || "image/jpeg",
+  };
+}
@@ -0,0 +1,77 @@
+import { Audio } from "./types";
+
+/**
+ * Waveform peaks of an audio file: the loudest sample of each slice of the
+ * track, from 0 (silence) to 1 (full scale). Workers cannot decode audio, so
+ * the client that first loads a track decodes it and uploads
+ * PEAKS_UPLOAD_LENGTH peaks. They are kept under `peaks:<audioId>` in
+ * AUDIO_KV at every resolution of PEAK_RESOLUTIONS, with the hash of the file
+ * they were computed from: a replaced file has no peaks until a client
+ * uploads new ones.
+ */
+
+export const PEAKS_PREFIX = "peaks:";
+
+// Timelines, the track player waveform and small previews
+export const PEAK_RESOLUTIONS = [2048, 512, 128, 32] as const;
+
+export const PEAKS_UPLOAD_LENGTH = PEAK_RESOLUTIONS[0];
+
+export type StoredPeaks = {
+  fileHash: string;
+  createdAt: string;
+  levels: number[][]; // one per PEAK_RESOLUTIONS entry, largest first
+};
+
+export const peaksKey = (audioId: string) => `${PEAKS_PREFIX}${audioId}`;
+
+const round = (peak: number) => Math.round(peak * 1000) / 1000;
+
+/**
+ * Shrink peaks to fewer slices, each keeping the loudest peak it covers
+ * @param {number[]} peaks - The peaks to shrink
+ * @param {number} resolution - Number of slices, at most peaks.length
+ * @returns {number[]} - The peaks at the given resolution
+ */
+export function downsamplePeaks(peaks: number[], resolution: number): number[] {
+  if (resolution >= peaks.length) return peaks;
+
+  return Array.from({ length: resolution }, (_, index) => {
+    const start = Math.floor((index * peaks.length) / resolution);
+    const end = Math.floor(((index + 1) * peaks.length) / resolution);
+    return Math.max(...peaks.slice(start, Math.max(end, start + 1)));
+  });
+}
+
+/**
+ * Build the stored peaks of an audio file from the uploaded ones
+ * @param {Audio} audio - The audio record the peaks were computed from
+ * @param {number[]} peaks - PEAKS_UPLOAD_LENGTH peaks between 0 and 1
+ * @returns {StoredPeaks} - The peaks at every resolution
+ */
+export function buildPeaks(audio: Audio, peaks: number[]): StoredPeaks {
+  const full = peaks.map(round);
+  return {
+    fileHash: audio.fileHash,
+    createdAt: new Date().toISOString(),
+    levels: PEAK_RESOLUTIONS.map((resolution) =>
+      downsamplePeaks(full, resolution)
+    ),
+  };
+}
+
+/**
+ * Read the peaks of an audio file at a resolution, from the smallest stored
+ * level that is at least as detailed
+ * @param {StoredPeaks} stored - The stored peaks
+ * @param {number} resolution - Number of peaks wanted
+ * @returns {number[]} - The peaks, fewer when the resolution exceeds the largest level
+ */
+export function readPeaks(stored: StoredPeaks, resolution: number): number[] {
+  const index = PEAK_RESOLUTIONS.reduce<number>(
+    (picked, candidate, candidateIndex) =>
+      candidate >= resolution ? candidateIndex : picked,
+    0
+  );
+  return downsamplePeaks(stored.levels[index], resolution);
+}
@@ -0,0 +1,231 @@
+import { KVNamespace } from "@cloudflare/workers-types";
+import { Project } from "./types";
+import { badRequest } from "./errors";
+
+/**
+ * Secondary index of projects, one KV key per sort order under the prefix of
+ * the space the project lives in: `project-index:workspace:<id>:` for
+ * workspace projects, `project-index:user:<ownerId>:` for personal ones. A
+ * listing only scans its own space. Each key carries a ProjectIndexEntry as
+ * metadata so listings can be filtered without reading the projects
+ * themselves. KV lists keys in ascending byte order, so date keys store the
+ * inverted timestamp to come out newest first.
+ */
+
+export const PROJECT_INDEX_PREFIX = "project-index:";
+
+export const projectSorts = ["updatedAt", "createdAt", "name"] as const;
+export type ProjectSort = (typeof projectSorts)[number];
+
+export type ProjectIndexEntry = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  ownerId?: string;
+  workspaceId?: string;
+  category?: string;
+  public?: boolean;
+  tags?: string[];
+  truncated?: boolean; // tags did not fit in the KV metadata
+};
+
+// The personal space of a user or a workspace
+export type ProjectScope = { ownerId: string } | { workspaceId: string };
+
+export type ProjectFilters = {
+  tags?: string[];
+  category?: string;
+  public?: boolean;
+  q?: string;
+};
+
+// KV metadata is capped at 1024 bytes once serialized
+const MAX_METADATA_SIZE = 1024;
+const MAX_TIMESTAMP = 9_999_999_999_999;
+const SCAN_PAGE_SIZE = 1000;
+
+function invertedTime(iso: string): string {
+  const time = Date.parse(iso) || 0;
+  return (MAX_TIMESTAMP - time).toString().padStart(13, "0");
+}
+
+function scopePrefix(scope: ProjectScope): string {
+  return "workspaceId" in scope
+    ? `${PROJECT_INDEX_PREFIX}workspace:${scope.workspaceId}:`
+    : `${PROJECT_INDEX_PREFIX}user:${scope.ownerId}:`;
+}
+
+function indexKey(project: Project, sort: ProjectSort): string {
+  const scope: ProjectScope = project.workspaceId
+    ? { workspaceId: project.workspaceId }
+    : { ownerId: project.ownerId ?? "" }; // unowned until migrated
+  const sortValue =
+    sort === "name"
+      ? project.name.toLowerCase().slice(0, 100)
+      : invertedTime(project[sort]);
+  return `${scopePrefix(scope)}${sort}:${sortValue}:${project.id}`;
+}
+
+/**
+ * Get the index keys a project is listed under, one per sort order
+ * @param {Project} project - The stored project
+ * @returns {string[]} - The index keys
+ */
+export function projectIndexKeys(project: Project): string[] {
+  return projectSorts.map((sort) => indexKey(project, sort));
+}
+
+function toEntry(project: Project): ProjectIndexEntry {
+  const entry: ProjectIndexEntry = {
+    id: project.id,
+    name: project.name.slice(0, 200),
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    ownerId: project.ownerId,
+    workspaceId: project.workspaceId,
+    category: project.metadata?.category,
+    public: project.metadata?.public,
+    tags: project.metadata?.tags,
+  };
+
+  if (JSON.stringify(entry).length > MAX_METADATA_SIZE) {
+    delete entry.tags;
+    entry.truncated = true;
+  }
+
+  return entry;
+}
+
+/**
+ * Write the index keys of a project and drop the ones left over from its
+ * previous state, e.g. after a rename or an updatedAt change
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {Project} project - The project as just saved
+ * @param {Project|null} [previous] - The project as it was stored before
+ */
+export async function writeProjectIndex(
+  kv: KVNamespace,
+  project: Project,
+  previous?: Project | null
+) {
+  const keys = projectIndexKeys(project);
+  const staleKeys = previous
+    ? projectIndexKeys(previous).filter((key) => !keys.includes(key))
+    : [];
+  const metadata = toEntry(project);
+
+  await Promise.all([
+    ...keys.map((key) => kv.put(key, "", { metadata })),
+    ...staleKeys.map((key) => kv.delete(key)),
+  ]);
+}
+
+/**
+ * Remove every index key of a project
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {Project} project - The project being deleted
+ */
+export async function deleteProjectIndex(kv: KVNamespace, project: Project) {
+  await Promise.all(projectIndexKeys(project).map((key) => kv.delete(key)));
+}
+
+type IndexCursor = { c?: string; o: number };
+
+function encodeCursor(cursor: IndexCursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+function decodeCursor(cursor: string): IndexCursor {
+  try {
+    const decoded = JSON.parse(atob(cursor));
+    if (typeof decoded.o !== "number") throw new Error();
+    return decoded;
+  } catch {
+    throw badRequest("Invalid cursor");
+  }
+}
+
+function matches(
+  entry: ProjectIndexEntry,
+  filters: ProjectFilters,
+  fullTags?: string[]
+): boolean {
+  if (filters.category && entry.category !== filters.category) return false;
+  if (filters.public !== undefined && !!entry.public !== filters.public) {
+    return false;
+  }
+  if (filters.q && !entry.name.toLowerCase().includes(filters.q.toLowerCase())) {
+    return false;
+  }
+  if (filters.tags?.length) {
+    const tags = fullTags ?? entry.tags ?? [];
+    if (!filters.tags.every((tag) => tags.includes(tag))) return false;
+  }
+  return true;
+}
+
+/**
+ * Page through the project index of one space in the given sort order,
+ * keeping only the entries that match the filters. The returned cursor remembers both the KV
+ * list cursor and how far into that list page the previous call got, since
+ * a page can end in the middle of a KV page.
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {Object} options - Space, sort order, page size, cursor and filters
+ * @returns {Promise<{ids: string[], cursor: string|null}>} - Matching project IDs and the next cursor
+ * @throws {ApiError} 400 if the cursor cannot be decoded
+ */
+export async function queryProjectIndex(
+  kv: KVNamespace,
+  options: {
+    scope: ProjectScope;
+    sort: ProjectSort;
+    limit: number;
+    cursor?: string;
+    filters: ProjectFilters;
+  }
+): Promise<{ ids: string[]; cursor: string | null }> {
+  const { scope, sort, limit, filters } = options;
+  let position: IndexCursor = options.cursor
+    ? decodeCursor(options.cursor)
+    : { o: 0 };
+  const ids: string[] = [];
+
+  while (true) {
+    const page = await kv.list<ProjectIndexEntry>({
+      prefix: `${scopePrefix(scope)}${sort}:`,
+      cursor: position.c,
+      limit: SCAN_PAGE_SIZE,
+    });
+
+    for (let i = position.o; i < page.keys.length; i++) {
+      const { metadata } = page.keys[i];
+      if (!metadata) continue;
+
+      // Tags that did not fit in the metadata are read from the project
+      let fullTags: string[] | undefined;
+      if (metadata.truncated && filters.tags?.length) {
+        const raw = await kv.get(`project:${metadata.id}`);
+        fullTags = raw
+          ? (JSON.parse(raw) as Project).metadata?.tags ?? []
+          : [];
+      }
+
+      if (!matches(metadata, filters, fullTags)) continue;
+      ids.push(metadata.id);
+
+      if (ids.length === limit) {
+        const next: IndexCursor | null =
+          i + 1 < page.keys.length
+            ? { c: position.c, o: i + 1 }
+            : page.list_complete
+              ? null
+              : { c: page.cursor, o: 0 };
+        return { ids, cursor: next ? encodeCursor(next) : null };
+      }
+    }
+
+    if (page.list_complete) return { ids, cursor: null };
+    position = { c: page.cursor, o: 0 };
+  }
+}
@@ -0,0 +1,175 @@
+import { Hono } from 'hono';
+import { v4 as uuidv4 } from 'uuid';
+import { Asset, AuthUser, Bindings } from '../types';
+import { ApiError, badRequest } from '../errors';
+import { validate } from '../validation';
+import { assetIdParamSchema, assetListQuerySchema } from '../schemas';
+import {
+	MAX_ASSET_SIZE,
+	SUPPORTED_ASSET_EXTENSIONS,
+	deleteAssetCascade,
+	getAssetOrThrow,
+	listAssetReferences,
+	listAssets,
+	resolveAssetFormat,
+	saveAsset,
+} from '../assets';
+import { readAudioFile } from '../media';
+import { requireMediaUser, requireUser } from '../auth';
+import { assertCan, assertCanCreateIn } from '../workspaces';
+
+const assets = new Hono<{
+	Bindings: Bindings;
+	Variables: { user: AuthUser };
+}>();
+
+/**
+ * Upload an image, a short video loop or a font to the asset library
+ * @route POST /assets
+ * @param {FormData} request.body.file - The file: PNG, JPEG, WebP, GIF, MP4, WebM, WOFF2, WOFF, TTF or OTF
+ * @param {string} [request.body.workspaceId] - Workspace library to add it to, the personal one otherwise
+ * @returns {Object} JSON response with the new asset
+ * @throws {400} If no file is provided
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller cannot create projects in the workspace
+ * @throws {413} If the file is larger than allowed for its kind
+ * @throws {415} If the request or file type is invalid
+ */
+assets.post('/', requireUser, async (c) => {
+	const contentType = c.req.header('content-type') || '';
+	if (!contentType.includes('multipart/form-data')) {
+		throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Expected multipart/form-data');
+	}
+
+	const formData = await c.req.formData();
+	const file = formData.get('file');
+	if (!file || typeof file === 'string') {
+		throw badRequest('No file uploaded');
+	}
+
+	const workspaceField = formData.get('workspaceId');
+	const workspaceId =
+		typeof workspaceField === 'string' && workspaceField ? workspaceField : undefined;
+	const user = c.get('user');
+	await assertCanCreateIn(c.env, workspaceId, user);
+
+	const format = resolveAssetFormat(file.type, file.name);
+	if (!format) {
+		throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Invalid file type', {
+			details: { supported: SUPPORTED_ASSET_EXTENSIONS },
+		});
+	}
+	const maxSize = MAX_ASSET_SIZE[format.kind];
+	if (file.size > maxSize) {
+		throw new ApiError(
+			413,
+			'PAYLOAD_TOO_LARGE',
+			`Files of kind ${format.kind} are limited to ${maxSize / (1024 * 1024)} MB`
+		);
+	}
+
+	const id = uuidv4();
+	const asset: Asset = {
+		id,
+		kind: format.kind,
+		filename: file.name,
+		contentType: format.contentType,
+		storageKey: `${id}.${format.extension}`,
+		size: file.size,
+		ownerId: user.id,
+		workspaceId,
+		createdAt: new Date().toISOString(),
+	};
+
+	await c.env.ASSET_FILES.put(asset.storageKey, await file.arrayBuffer(), {
+		httpMetadata: { contentType: format.contentType },
+	});
+	await saveAsset(c.env.PROJECT_KV, asset);
+
+	return c.json({ message: 'Asset uploaded', asset }, 201);
+});
+
+/**
+ * List the asset library of a workspace, or the caller's personal one
+ * @route GET /assets
+ * @param {string} [request.query.workspaceId] - The workspace ID
+ * @param {string} [request.query.kind] - Only list images, videos or fonts
+ * @returns {Object} JSON response with the assets, newest first
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller is not a member of the workspace
+ */
+assets.get('/', requireUser, validate('query', assetListQuerySchema), async (c) => {
+	const { workspaceId, kind } = c.req.valid('query');
+	const user = c.get('user');
+	if (workspaceId) await assertCan(c.env, { workspaceId }, user, 'read');
+
+	const list = await listAssets(
+		c.env.PROJECT_KV,
+		workspaceId ? { workspaceId } : { ownerId: user.id },
+		kind
+	);
+
+	return c.json({ assets: list });
+});
+
+/**
+ * Stream an asset file, with byte ranges for video loops
+ * @route GET /assets/:id
+ * @param {string} request.params.id - The asset ID
+ * @param {string} [request.query.access_token] - Media token, for media elements and renders that cannot send headers
+ * @returns {Stream} The file with its content type
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the asset
+ * @throws {404} If the asset is not found
+ * @throws {416} If the range cannot be satisfied
+ */
+assets.get('/:id', requireMediaUser, validate('param', assetIdParamSchema), async (c) => {
+	const { id } = c.req.valid('param');
+	const asset = await getAssetOrThrow(c.env.PROJECT_KV, id);
+	await assertCan(c.env, asset, c.get('user'), 'read');
+
+	const { body, status, headers } = await readAudioFile(
+		c.env.ASSET_FILES,
+		asset.storageKey,
+		c.req.header('range'),
+		asset.contentType
+	);
+
+	return c.body(body, {
+		status,
+		headers: {
+			...headers,
+			// Access depends on the caller, so shared caches must not keep it
+			'Cache-Control': 'private, max-age=3600',
+		},
+	});
+});
+
+/**
+ * Delete an asset from the library
+ * @route DELETE /assets/:id
+ * @param {string} request.params.id - The asset ID
+ * @returns {Object} JSON response with deletion confirmation
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow deleting the asset
+ * @throws {404} If the asset is not found
+ * @throws {409} If projects still use the asset, with their IDs
+ */
+assets.delete('/:id', requireUser, validate('param', assetIdParamSchema), async (c) => {
+	const { id } = c.req.valid('param');
+	const asset = await getAssetOrThrow(c.env.PROJECT_KV, id);
+	await assertCan(c.env, asset, c.get('user'), 'deleteProject');
+
+	const projectIds = await listAssetReferences(c.env.PROJECT_KV, id);
+	if (projectIds.length > 0) {
+		throw new ApiError(409, 'CONFLICT', 'Asset is used by projects', {
+			details: { projectIds },
+		});
+	}
+
+	await deleteAssetCascade(c.env, asset);
+
+	return c.json({ message: 'Deleted', id });
+});
+
+export default assets;
@@ -1,69 +1,248 @@
 import { Hono } from 'hono';
 import { v4 as uuidv4 } from 'uuid';
-import { Audio, Bindings, Project } from '../types';
-import { findFileByHash, generateFileHash, saveProject } from '../utils';
+import { Audio, Bindings } from '../types';
+import {
+    claimFileHash,
+    generateFileHash,
+    getCoverKey,
+    getProjectOrThrow,
+    listAudioScope,
+    removeFileHash,
+    saveProject,
+} from '../utils';
+import { ApiError, badRequest, notFound } from '../errors';
+import { validate } from '../validation';
+import {
+    audioIdParamSchema,
+    audioListQuerySchema,
+    audioMetaParamSchema,
+    audioPeaksBodySchema,
+    audioPeaksQuerySchema,
+    replaceAudioQuerySchema,
+    taggedAudioQuerySchema,
+    updateAudioMetadataSchema,
+} from '../schemas';
+import {
+    LyricsRetiming,
+    getLyricsById,
+    retimeLyricsLines,
+    saveLyricsVersion,
+} from '../lyrics';
+import { indexProjectsForSearch } from '../search';
+import { requireMediaUser, requireUser } from '../auth';
+import { assertCan, assertCanCreateIn } from '../workspaces';
+import { deleteAudioCascade } from '../cleanup';
+import { listAudioReferences } from '../audio-refs';
+import {
+    SUPPORTED_AUDIO_EXTENSIONS,
+    getAudioKey,
+    resolveAudioFormat,
+} from '../audio-formats';
+import { readAudioFile, readCoverArt, readTaggedMp3 } from '../media';
+import { readTrackInfo } from '../lyrics-formats';
+import {
+    PEAK_RESOLUTIONS,
+    StoredPeaks,
+    buildPeaks,
+    peaksKey,
+    readPeaks,
+} from '../peaks';
+import {
+    assembleUpload,
+    assertNotDuplicate,
+    createAudioProject,
+    deleteUploadSession,
+    extractEmbeddedLyrics,
+    getProjectsOfReplacedAudio,
+    getUploadSession,
+    hashUploadedFile,
+    parseUploadedFile,
+    storeCoverArt,
+    toAudioMetadata,
+} from '../audio-upload';
 import * as mm from 'music-metadata';
 
 const audio = new Hono<{
     Bindings: Bindings;
 }>();
 
-
 /**
- * Update an existing audio file
+ * Replace the file behind an audio record, e.g. a rough mix with the final
+ * master. The new file is sent through a multipart upload started with
+ * replaceAudioId (POST /audio/uploads), so it may be as large as any upload.
+ * The record keeps its ID and creation date; metadata, cover art and the hash
+ * index are rebuilt from the new file. Every project using the audio plays
+ * the new file, so the caller must be able to edit all of them, and their
+ * lyrics can be shifted by an offset or stretched to the new duration; the
+ * retimed lines are saved as a new lyrics version of each project.
  * @route PUT /audio/:id
- * @param {string} request.params.id - The ID of the audio file to update
- * @param {FormData} request.body.file - The new MP3 file
- * @returns {Object} JSON response with update confirmation
- * @throws {404} If audio with given ID is not found
- * @throws {400} If no file is provided
+ * @param {string} request.params.id - The ID of the audio file to replace
+ * @param {string} request.query.uploadId - The upload holding the new file, all parts uploaded
+ * @param {string} [request.query.timing] - none (default), offset or stretch
+ * @param {number} [request.query.offset] - Seconds added to every timestamp with timing=offset
+ * @returns {Object} JSON response with the new metadata, the duration difference and the retimed lyrics of each project
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing the audio or a project using it, or someone else started the upload
+ * @throws {404} If the audio or upload is not found
+ * @throws {400} If the upload does not replace this audio or misses parts, the file is a duplicate or lyrics cannot be stretched
  */
-audio.put('/:id', async (c) => {
-    const id = c.req.param('id');
-    const existing = await c.env.AUDIO_FILES.get(`audio:${id}`);
-    if (!existing) return c.text('Not found', 404);
-
-    const formData = await c.req.formData();
-    const file = formData.get('file') as File | null;
-    if (!file) return c.text('No file provided', 400);
-
-    const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
-    if (file.size > MAX_FILE_SIZE) {
-        return c.text(`File size exceeds the maximum limit of ${MAX_FILE_SIZE / (1024 * 1024)} MB`, 400);
-    }
-    const fileBuffer = await file.arrayBuffer();
-    await c.env.AUDIO_FILES.put(`${id}.mp3`, fileBuffer, {
-        httpMetadata: { contentType: file.type },
-    });
-
-    const existingMetaRaw = await existing.text();
+audio.put(
+    '/:id',
+    requireUser,
+    validate('param', audioIdParamSchema),
+    validate('query', replaceAudioQuerySchema),
+    async (c) => {
+        const { id } = c.req.valid('param');
+        const { uploadId, timing, offset } = c.req.valid('query');
+
+        const existingRaw = await c.env.AUDIO_KV.get(`audio:${id}`);
+        if (!existingRaw) throw notFound('Audio not found');
+        const existing = JSON.parse(existingRaw) as Audio;
+        const user = c.get('user');
+        const projects = await getProjectsOfReplacedAudio(c.env, existing, user);
+
+        const session = await getUploadSession(c.env.AUDIO_KV, uploadId, user);
+        if (!session.replacesAudio || session.audioId !== id) {
+            throw badRequest('Upload does not replace this audio');
+        }
+        await assembleUpload(c.env, session);
+
+        const previousDuration = existing.metadata?.duration;
+
+        // The file goes with the session when it cannot replace the current one
+        let fileHash: string;
+        let metadata: mm.IAudioMetadata;
+        let coverArt: Audio['coverArt'];
+        let duration: number | undefined;
+        let retiming: LyricsRetiming | null = null;
+        try {
+            fileHash = await hashUploadedFile(c.env, session);
+            // Re-uploading the current file is allowed, another record's file is not
+            if (fileHash !== existing.fileHash) {
+                await assertNotDuplicate(c.env, fileHash, user);
+            }
+            ({ metadata, coverArt } = await parseUploadedFile(c.env, session, id));
+
+            duration = metadata.format.duration;
+            if (timing === 'offset') {
+                retiming = { mode: 'offset', offset: offset ?? 0 };
+            } else if (timing === 'stretch') {
+                if (!previousDuration || !duration) {
+                    throw badRequest('Cannot stretch lyrics: the duration of one of the files is unknown');
+                }
+                retiming = { mode: 'stretch', factor: duration / previousDuration };
+            }
+        } catch (error) {
+            await Promise.all([
+                c.env.AUDIO_FILES.delete(session.key),
+                deleteUploadSession(c.env.AUDIO_KV, uploadId),
+            ]);
+            throw error;
+        }
 
-    const meta: Audio = {
-        ...(JSON.parse(existingMetaRaw) as Audio),
-        filename: file.name,
-        contentType: file.type,
-        size: file.size,
-        createdAt: new Date().toISOString(), // or keep original
-    };
+        const meta: Audio = {
+            ...existing,
+            filename: session.filename,
+            contentType: session.contentType,
+            storageKey: session.key,
+            size: session.size,
+            fileHash,
+            updatedAt: new Date().toISOString(),
+            metadata: toAudioMetadata(metadata),
+            coverArt,
+        };
+
+        await removeFileHash(c.env.AUDIO_KV, existing);
+        await c.env.AUDIO_KV.put(`audio:${id}`, JSON.stringify(meta));
+        await claimFileHash(c.env.AUDIO_KV, meta);
+        await deleteUploadSession(c.env.AUDIO_KV, uploadId);
+
+        // The new file plays from now on, drop the objects of the old one
+        const previousKey = getAudioKey(existing);
+        if (previousKey !== session.key) {
+            await c.env.AUDIO_FILES.delete(previousKey);
+        }
+        if (
+            existing.coverArt &&
+            (!coverArt || getCoverKey(existing.coverArt) !== getCoverKey(coverArt))
+        ) {
+            await c.env.COVER_FILES.delete(getCoverKey(existing.coverArt));
+        }
 
-    await c.env.AUDIO_FILES.put(`audio:${id}`, JSON.stringify(meta));
+        const lyrics: { projectId: string; lyricsId: string; version?: number }[] = [];
+        for (const project of projects) {
+            const current = project.lyricsId
+                ? await getLyricsById(c.env.LYRICS_KV, project.lyricsId)
+                : null;
+            if (retiming && current) {
+                const retimed = await saveLyricsVersion(c.env.LYRICS_KV, project, {
+                    text: current.text,
+                    lines: retimeLyricsLines(current.lines, retiming),
+                    metadata: {
+                        language: current.metadata?.language,
+                        source: current.metadata?.source,
+                    },
+                });
+                await saveProject(c.env.PROJECT_KV, project);
+                lyrics.push({
+                    projectId: project.id,
+                    lyricsId: retimed.id,
+                    version: retimed.metadata?.version,
+                });
+            }
+        }
+        // The audio tags and retimed lyrics are part of the search documents
+        c.executionCtx.waitUntil(
+            indexProjectsForSearch(
+                c.env,
+                projects.map((project) => project.id)
+            )
+        );
 
-    return c.json({ message: 'Updated', id });
-});
+        return c.json({
+            message: 'Updated',
+            id,
+            audioMetadata: meta,
+            duration: {
+                previous: previousDuration ?? null,
+                current: duration ?? null,
+                difference:
+                    previousDuration !== undefined && duration !== undefined
+                        ? duration - previousDuration
+                        : null,
+            },
+            retiming,
+            lyrics,
+        });
+    }
+);
 
 /**
- * Delete an audio file
+ * Delete an audio file that no project uses anymore
  * @route DELETE /audio/:id
  * @param {string} request.params.id - The ID of the audio file to delete
  * @returns {Object} JSON response with deletion confirmation
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow deleting the audio
+ * @throws {404} If the audio is not found
+ * @throws {409} If projects still use the audio, with their IDs
  */
-audio.delete('/:id', async (c) => {
-    const id = c.req.param('id');
+audio.delete('/:id', requireUser, validate('param', audioIdParamSchema), async (c) => {
+    const { id } = c.req.valid('param');
+
+    const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
+    if (!raw) throw notFound('Audio not found');
+    await assertCan(c.env, JSON.parse(raw) as Audio, c.get('user'), 'deleteProject');
+
+    // The audio goes away with the last project using it
+    const projectIds = await listAudioReferences(c.env.AUDIO_KV, id);
+    if (projectIds.length > 0) {
+        throw new ApiError(409, 'CONFLICT', 'Audio is used by projects', {
+            details: { projectIds },
+        });
+    }
 
-    await Promise.all([
-        c.env.AUDIO_FILES.delete(`${id}.mp3`),
-        c.env.AUDIO_KV.delete(`audio:${id}`),
-    ]).catch((error) => {
+    await deleteAudioCascade(c.env, id).catch((error) => {
         console.error('Error deleting audio:', error);
     });
 
@@ -71,25 +250,39 @@ audio.delete('/:id', async (c) => {
 });
 
 
-audio.get('/all', async (c) => {
-    const { keys } = await c.env.AUDIO_KV.list({ prefix: 'audio:' });
-
-    if (keys.length === 0) {
-        return c.json({ audios: [] });
-    }
+/**
+ * List the audio files of a workspace, or the caller's personal ones
+ * @route GET /audio/all
+ * @param {string} [request.query.workspaceId] - The workspace ID
+ * @param {string} [request.query.cursor] - Cursor of the next page, from the previous response
+ * @param {number} [request.query.limit] - Page size, 1 to 100
+ * @returns {Object} JSON response with array of audio metadata and the next cursor, null on the last page
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller is not a member of the workspace
+ */
+audio.get('/all', requireUser, validate('query', audioListQuerySchema), async (c) => {
+    const { workspaceId, cursor, limit } = c.req.valid('query');
+    const user = c.get('user');
+    if (workspaceId) await assertCan(c.env, { workspaceId }, user, 'read');
+
+    const page = await listAudioScope(
+        c.env.AUDIO_KV,
+        workspaceId ? { workspaceId } : { ownerId: user.id },
+        { cursor, limit }
+    );
 
     const audioMetas = await Promise.all(
-        keys.map(async ({ name }) => {
-            const raw = await c.env.AUDIO_KV.get(name);
+        page.ids.map(async (id) => {
+            const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
             if (!raw) return null;
             return JSON.parse(raw) as Audio;
         })
     );
 
-    // Filter out any null values (in case a KV read failed)
+    // Filter out any null values, in case a record was deleted meanwhile
     const validAudios = audioMetas.filter((meta) => meta !== null);
 
-    return c.json({ audios: validAudios });
+    return c.json({ audios: validAudios, nextCursor: page.cursor });
 });
 
 /**
@@ -97,17 +290,19 @@ audio.get('/all', async (c) => {
  * @route GET /audio/:id/meta
  * @param {string} request.params.id - The ID of the audio file
  * @returns {Object} JSON response with audio metadata
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the audio or, for YouTube projects, the project
  * @throws {404} If audio with given ID is not found
  */
-audio.get('/:id/meta/:projectId', async (c) => {
-  const id = c.req.param('id');
-  const projectId = c.req.param('projectId');
+audio.get('/:id/meta/:projectId', requireUser, validate('param', audioMetaParamSchema), async (c) => {
+  const { id, projectId } = c.req.valid('param');
 
   if (id.startsWith('youtube-virtual-')) {
-    if (!projectId) return c.text('Missing projectId for YouTube project', 400);
+    const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+    await assertCan(c.env, project, c.get('user'), 'read');
 
     const youtubeMetaRaw = await c.env.PROJECT_KV.get(`youtube-meta:${projectId}`);
-    if (!youtubeMetaRaw) return c.text('No YouTube metadata found', 404);
+    if (!youtubeMetaRaw) throw notFound('No YouTube metadata found');
 
     const youtubeMeta = JSON.parse(youtubeMetaRaw);
     return c.json({
@@ -123,157 +318,307 @@ audio.get('/:id/meta/:projectId', async (c) => {
 
   // 👉 Cas normal
   const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
-  if (!raw) return c.text('Not found', 404);
+  if (!raw) throw notFound('Audio not found');
 
-  return c.json(JSON.parse(raw));
+  const meta = JSON.parse(raw) as Audio;
+  await assertCan(c.env, meta, c.get('user'), 'read');
+
+  return c.json(meta);
 });
 
 
+/**
+ * Edit the title, artist, album, genre and year of an audio file. Tags read at
+ * upload time are often missing or wrong; exports, renders and search use the
+ * edited ones.
+ * @route PATCH /audio/:id/meta
+ * @param {string} request.params.id - The ID of the audio file
+ * @param {Object} request.body - The tags to change, null or empty to remove one
+ * @returns {Object} JSON response with the updated audio metadata
+ * @throws {400} If the body is invalid or the audio is a YouTube video
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing the audio
+ * @throws {404} If audio with given ID is not found
+ */
+audio.patch(
+    '/:id/meta',
+    requireUser,
+    validate('param', audioIdParamSchema),
+    validate('json', updateAudioMetadataSchema),
+    async (c) => {
+        const { id } = c.req.valid('param');
+        if (id.startsWith('youtube-virtual-')) {
+            throw badRequest('YouTube videos keep the metadata of the video');
+        }
+
+        const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
+        if (!raw) throw notFound('Audio not found');
+        const existing = JSON.parse(raw) as Audio;
+        await assertCan(c.env, existing, c.get('user'), 'editProject');
+
+        const changed = { ...existing.metadata, ...c.req.valid('json') };
+        const metadata = Object.fromEntries(
+            Object.entries(changed).filter(
+                ([, value]) =>
+                    value !== null &&
+                    value !== '' &&
+                    !(Array.isArray(value) && value.length === 0)
+            )
+        ) as NonNullable<Audio['metadata']>;
+
+        const meta: Audio = { ...existing, metadata };
+        await c.env.AUDIO_KV.put(`audio:${id}`, JSON.stringify(meta));
+
+        // The audio tags are part of the search document of every project
+        // using it, which can be many: they are reindexed after the response
+        const projectIds = await listAudioReferences(c.env.AUDIO_KV, id);
+        c.executionCtx.waitUntil(indexProjectsForSearch(c.env, projectIds));
+
+        return c.json({ message: 'Updated', id, audioMetadata: meta });
+    }
+);
+
 /**
  * Stream an audio file with range request support
  * @route GET /audio/:id
  * @param {string} request.params.id - The ID of the audio file
+ * @param {string} [request.query.access_token] - Media token, for audio elements that cannot send headers
  * @returns {Stream} Audio file stream with appropriate content-type
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the audio
  * @throws {404} If audio file is not found
  */
-audio.get('/:id', async (c) => {
-    const id = c.req.param('id');
-    const object = await c.env.AUDIO_FILES.get(`${id}.mp3`);
-    if (!object) return c.text('File not found', 404);
-
-    const rangeHeader = c.req.header('range');
-    const contentType = object.httpMetadata?.contentType || 'audio/mpeg';
-    const size = object.size;
-
-    // Set default headers
-    const headers: { [key: string]: string } = {
-        'Content-Type': contentType,
-        'Accept-Ranges': 'bytes',
-        'Cache-Control': 'public, max-age=3600',
-    };
+audio.get('/:id', requireMediaUser, validate('param', audioIdParamSchema), async (c) => {
+    const { id } = c.req.valid('param');
+    const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
+    const meta = raw ? (JSON.parse(raw) as Audio) : null;
+    // Files without a record have no owner yet, see POST /maintenance/migrate/owner
+    await assertCan(c.env, meta ?? {}, c.get('user'), 'read');
+
+    const { body, status, headers } = await readAudioFile(
+        c.env.AUDIO_FILES,
+        getAudioKey(meta ?? { id }),
+        c.req.header('range'),
+        meta?.contentType
+    );
 
-    // If no range is requested, return the entire file
-    if (!rangeHeader) {
-        headers['Content-Length'] = size.toString();
-        return c.body(object.body as ReadableStream<Uint8Array>, { headers });
-    }
+    return c.body(body, {
+        status,
+        headers: {
+            ...headers,
+            // Access depends on the caller, so shared caches must not keep it
+            'Cache-Control': 'private, max-age=3600',
+        },
+    });
+});
+
+/**
+ * Download an MP3 file with the current lyrics of a project written into its
+ * ID3 tag as USLT and SYLT frames, next to the title, artist and album of
+ * the audio record. Other frames of the file are kept.
+ * @route GET /audio/:id/tagged
+ * @param {string} request.params.id - The ID of the audio file
+ * @param {string} request.query.projectId - The project whose lyrics are written
+ * @param {string} [request.query.access_token] - Media token, for download links that cannot send headers
+ * @returns {Stream} The tagged MP3 file named after the track
+ * @throws {400} If the project does not use this audio
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the audio or the project
+ * @throws {404} If the audio, project or lyrics are not found
+ * @throws {415} If the audio is not an MP3 file
+ */
+audio.get(
+    '/:id/tagged',
+    requireMediaUser,
+    validate('param', audioIdParamSchema),
+    validate('query', taggedAudioQuerySchema),
+    async (c) => {
+        const { id } = c.req.valid('param');
+        const { projectId } = c.req.valid('query');
+        const user = c.get('user');
+
+        const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
+        if (!raw) throw notFound('Audio not found');
+        const meta = JSON.parse(raw) as Audio;
+        await assertCan(c.env, meta, user, 'read');
+
+        const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+        await assertCan(c.env, project, user, 'read');
+        if (project.audioId !== id) {
+            throw badRequest('Project does not use this audio');
+        }
+        if (meta.contentType !== 'audio/mpeg') {
+            throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Only MP3 files can be tagged');
+        }
 
-    // Parse the range header
-    const rangeParts = rangeHeader.replace(/bytes=/, '').split('-');
-    const start = parseInt(rangeParts[0], 10);
-    const end = rangeParts[1] ? parseInt(rangeParts[1], 10) : size - 1;
-
-    // Check if the range is valid
-    if (isNaN(start) || isNaN(end) || start >= size || end >= size) {
-        // Return 416 Range Not Satisfiable if range is invalid
-        headers['Content-Range'] = `bytes */${size}`;
-        return c.body(null, {
-            status: 416, // Range Not Satisfiable
-            headers,
+        const lyrics = project.lyricsId
+            ? await getLyricsById(c.env.LYRICS_KV, project.lyricsId)
+            : null;
+        if (!lyrics) throw notFound('No lyrics found for this project');
+
+        const info = await readTrackInfo(c.env, project);
+        const { body, size } = await readTaggedMp3(c.env.AUDIO_FILES, getAudioKey(meta), {
+            title: info.title,
+            artist: info.artist,
+            album: info.album,
+            language: lyrics.metadata?.language,
+            lines: lyrics.lines,
         });
-    }
 
-    // Calculate the chunk size
-    const chunkSize = end - start + 1;
+        const name = [info.title, info.artist].filter(Boolean).join(' - ') || project.name;
+        const filename = `${name.replace(/[^\w\- ]+/g, '').trim() || 'audio'}.mp3`;
 
-    // Get the requested range from R2
-    const rangeObject = await c.env.AUDIO_FILES.get(`${id}.mp3`, {
-        range: { offset: start, length: chunkSize },
-    });
+        return c.body(body, 200, {
+            'Content-Type': 'audio/mpeg',
+            'Content-Length': size.toString(),
+            'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+            'Cache-Control': 'private, no-store',
+        });
+    }
+);
 
-    if (!rangeObject) return c.text('Range not available', 416);
+/**
+ * Get the waveform peaks of an audio file, the loudest sample of each slice
+ * of the track between 0 and 1
+ * @route GET /audio/:id/peaks
+ * @param {string} request.params.id - The ID of the audio file
+ * @param {number} [request.query.resolution] - Number of peaks, 128 by default
+ * @returns {Object} JSON response with the peaks and their resolution
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the audio
+ * @throws {404} If the audio is not found or has no peaks for its current file yet
+ */
+audio.get(
+    '/:id/peaks',
+    requireUser,
+    validate('param', audioIdParamSchema),
+    validate('query', audioPeaksQuerySchema),
+    async (c) => {
+        const { id } = c.req.valid('param');
+        const { resolution } = c.req.valid('query');
+
+        const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
+        if (!raw) throw notFound('Audio not found');
+        const meta = JSON.parse(raw) as Audio;
+        await assertCan(c.env, meta, c.get('user'), 'read');
+
+        const storedRaw = await c.env.AUDIO_KV.get(peaksKey(id));
+        const stored = storedRaw ? (JSON.parse(storedRaw) as StoredPeaks) : null;
+        // Peaks of a replaced file no longer match
+        if (!stored || stored.fileHash !== meta.fileHash) {
+            throw notFound('No peaks for this audio');
+        }
+
+        const peaks = readPeaks(stored, resolution);
+        return c.json(
+            { id, resolution: peaks.length, peaks },
+            { headers: { 'Cache-Control': 'private, no-cache' } }
+        );
+    }
+);
 
-    // Set additional headers for partial content
-    headers['Content-Length'] = chunkSize.toString();
-    headers['Content-Range'] = `bytes ${start}-${end}/${size}`;
+/**
+ * Store the waveform peaks a client computed from the decoded audio file,
+ * once per file
+ * @route PUT /audio/:id/peaks
+ * @param {string} request.params.id - The ID of the audio file
+ * @param {number[]} request.body.peaks - 2048 peaks between 0 and 1
+ * @returns {Object} JSON response with the stored resolutions
+ * @throws {400} If the peaks are invalid
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing the audio
+ * @throws {404} If the audio is not found
+ */
+audio.put(
+    '/:id/peaks',
+    requireUser,
+    validate('param', audioIdParamSchema),
+    validate('json', audioPeaksBodySchema),
+    async (c) => {
+        const { id } = c.req.valid('param');
+        const { peaks } = c.req.valid('json');
+
+        const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
+        if (!raw) throw notFound('Audio not found');
+        const meta = JSON.parse(raw) as Audio;
+        await assertCan(c.env, meta, c.get('user'), 'editProject');
+
+        await c.env.AUDIO_KV.put(
+            peaksKey(id),
+            JSON.stringify(buildPeaks(meta, peaks))
+        );
 
-    // Return 206 Partial Content for range requests
-    return c.body(rangeObject.body as ReadableStream<Uint8Array>, {
-        status: 206, // Partial Content
-        headers,
-    });
-});
+        return c.json({ message: 'Updated', id, resolutions: PEAK_RESOLUTIONS });
+    }
+);
 
 /**
  * Get cover art for an audio file
  * @route GET /audio/:id/cover
  * @param {string} request.params.id - The ID of the audio file
+ * @param {string} [request.query.access_token] - Media token, for images that cannot send headers
  * @returns {Stream} Cover art image stream with appropriate content-type
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the audio or, for YouTube projects, the project
  * @throws {404} If cover art is not found
  */
-audio.get('/:id/cover/:projectId', async (c) => {
-  const id = c.req.param('id');
-  const projectId = c.req.param('projectId');
-  // 👉 Special case: virtual YouTube project
-  if (id.startsWith('youtube-virtual-')) {
-    if (!projectId) return c.text('Missing projectId for YouTube project', 400);
-
-    // On tente de récupérer l'image mise dans COVER_FILES
-    const coverObject = await c.env.COVER_FILES.get(`cover:${projectId}`);
-    if (coverObject) {
-      return c.body(coverObject.body as ReadableStream<Uint8Array>, {
-        headers: { 'Content-Type': 'image/jpeg' },
-      });
-    }
-
-    // Sinon, fallback : lire la metadata et rediriger vers le thumbnail youtube
-    const youtubeMetaRaw = await c.env.PROJECT_KV.get(`youtube-meta:${projectId}`);
-    if (!youtubeMetaRaw) return c.text('No YouTube metadata found', 404);
+audio.get('/:id/cover/:projectId', requireMediaUser, validate('param', audioMetaParamSchema), async (c) => {
+  const { id, projectId } = c.req.valid('param');
+  const user = c.get('user');
 
-    const youtubeMeta = JSON.parse(youtubeMetaRaw);
-    if (youtubeMeta.thumbnail) {
-      // redirige directement vers le lien du thumbnail
-      return c.redirect(youtubeMeta.thumbnail, 302);
-    }
-
-    return c.text('No thumbnail available for this YouTube project', 404);
-  }
-
-  const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
-  if (!raw) return c.text('Audio file not found', 404);
-
-  const meta = JSON.parse(raw) as Audio;
-
-  if (!meta.coverArt || !meta.coverArt.id) {
-    return c.text('No cover art available for this audio', 404);
+  // Virtual YouTube projects have no audio record, their project grants access
+  if (id.startsWith('youtube-virtual-')) {
+    const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+    await assertCan(c.env, project, user, 'read');
+  } else {
+    const raw = await c.env.AUDIO_KV.get(`audio:${id}`);
+    if (!raw) throw notFound('Audio file not found');
+    await assertCan(c.env, JSON.parse(raw) as Audio, user, 'read');
   }
 
-  const coverArtFormat = meta.coverArt.format.split('/')[1] || 'jpg';
-  const coverKey = `${meta.coverArt.id}.${coverArtFormat}`;
+  const cover = await readCoverArt(c.env, id, projectId);
+  if ('redirect' in cover) return c.redirect(cover.redirect, 302);
 
-  const coverObject = await c.env.COVER_FILES.get(coverKey);
-  if (!coverObject) return c.text('Cover art file not found', 404);
-
-  return c.body(coverObject.body as ReadableStream<Uint8Array>, {
-    headers: {
-      'Content-Type': meta.coverArt.format || 'image/jpeg',
-    },
+  return c.body(cover.body, {
+    headers: { 'Content-Type': cover.contentType },
   });
 });
 
 /**
- * Upload a new MP3 audio file
+ * Upload a new audio file: MP3, FLAC, WAV, M4A/AAC or OGG
  * @route POST /audio
- * @param {FormData} request.body.audio - The MP3 file to upload
- * @returns {Object} JSON response with upload ID
- * @throws {400} If no file is provided or file type is invalid
+ * @param {FormData} request.body.audio - The audio file to upload
+ * @param {string} [request.body.workspaceId] - Workspace the new project belongs to
+ * @returns {Object} JSON response with the project ID, audio metadata and the lyrics imported from SYLT or USLT tags
+ * @throws {400} If no file is provided or the file is a duplicate
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller cannot create projects in the workspace
+ * @throws {415} If the request or file type is invalid
  */
-audio.post('/', async (c) => {
+audio.post('/', requireUser, async (c) => {
     const contentType = c.req.header('content-type') || '';
 
     if (!contentType.includes('multipart/form-data')) {
-        return c.text('Expected multipart/form-data', 400);
+        throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Expected multipart/form-data');
     }
 
     const formData = await c.req.formData();
     const file = formData.get('audio');
 
     if (!file || typeof file === 'string') {
-        return c.text('No Audio uploaded', 400);
+        throw badRequest('No Audio uploaded');
     }
 
-    if (file.type !== 'audio/mpeg' && file.type !== 'audio/mp3') {
-        return c.text('Invalid file type', 400);
+    const workspaceField = formData.get('workspaceId');
+    const workspaceId =
+        typeof workspaceField === 'string' && workspaceField ? workspaceField : undefined;
+    await assertCanCreateIn(c.env, workspaceId, c.get('user'));
+
+    const format = resolveAudioFormat(file.type, file.name);
+    if (!format) {
+        throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Invalid file type', {
+            details: { supported: SUPPORTED_AUDIO_EXTENSIONS },
+        });
     }
 
     // We need to clone the file for metadata extraction since we'll consume the stream later
@@ -285,110 +630,62 @@ audio.post('/', async (c) => {
     const fileHash = await generateFileHash(uint8Array);
 
     // Check if a file with the same hash already exists
-    const existingFile = await findFileByHash(c.env.AUDIO_KV, fileHash);
-
-    if (existingFile) {
-        // Return information about the existing file instead of creating a duplicate
-        return c.json(
-            {
-                message: 'File already exists',
-                duplicate: true,
-                existingFile: {
-                    id: existingFile.id,
-                    filename: existingFile.filename,
-                    metadata: existingFile.metadata,
-                },
-            },
-            400
-        );
-    }
+    await assertNotDuplicate(c.env, fileHash, c.get('user'));
 
     const audioId = uuidv4();
-    const key = `${audioId}.mp3`;
+    const key = `${audioId}.${format.extension}`;
 
     // Extract metadata using music-metadata
     let metadata;
     let coverArtInfo;
 
     try {
-        metadata = await mm.parseBuffer(uint8Array, { mimeType: file.type });
+        metadata = await mm.parseBuffer(uint8Array, {
+            mimeType: format.contentType,
+            size: uint8Array.length,
+        });
 
         // Check if there's cover art in the file
-        if (metadata.common.picture && metadata.common.picture.length > 0) {
-            const coverArt = metadata.common.picture[0];
-            const coverArtId = `${audioId}-cover`;
-            const coverKey = `${coverArtId}.${coverArt.format.split('/')[1] || 'jpg'
-                }`;
-
-            // Save cover art to R2
-            await c.env.COVER_FILES.put(coverKey, coverArt.data, {
-                httpMetadata: {
-                    contentType: coverArt.format,
-                },
-            });
-
-            coverArtInfo = {
-                id: coverArtId,
-                format: coverArt.format,
-                size: coverArt.data.length,
-            };
-        }
+        coverArtInfo = await storeCoverArt(c.env.COVER_FILES, audioId, metadata);
     } catch (error) {
-        return c.text(
+        throw badRequest(
             `Error extracting metadata: ${error instanceof Error ? error.message : String(error)
-            }`,
-            500
+            }`
         );
     }
 
     // Save to R2
     await c.env.AUDIO_FILES.put(key, new Uint8Array(fileBuffer), {
         httpMetadata: {
-            contentType: file.type,
+            contentType: format.contentType,
         },
     });
 
     const meta: Audio = {
         id: audioId,
         filename: file.name,
-        contentType: file.type,
+        contentType: format.contentType,
+        storageKey: key,
         size: file.size,
         fileHash: fileHash, // Store the hash for future duplicate checks
+        ownerId: c.get('user').id,
+        workspaceId,
         createdAt: new Date().toISOString(),
-        metadata: metadata
-            ? {
-                title: metadata.common.title,
-                artist: metadata.common.artist,
-                album: metadata.common.album,
-                year: metadata.common.year?.toString(),
-                genre: metadata.common.genre,
-                duration: metadata.format.duration,
-            }
-            : undefined,
+        metadata: toAudioMetadata(metadata),
         coverArt: coverArtInfo,
     };
 
-    await c.env.AUDIO_KV.put(`audio:${audioId}`, JSON.stringify(meta));
-
-    // create project
-    const projectId = uuidv4();
-    const now = new Date().toISOString();
-
-    const project: Project = {
-        id: projectId,
-        name: `${meta.metadata?.title || 'New Project'} - ${meta.metadata?.artist || 'Unknown Artist'
-            }`,
-        createdAt: now,
-        updatedAt: now,
-        audioId: audioId,
-    };
-
-    await saveProject(c.env.PROJECT_KV, project);
+    const { project, lyrics } = await createAudioProject(
+        c.env,
+        meta,
+        extractEmbeddedLyrics(metadata)
+    );
 
     return c.json({
         message: 'Uploaded',
-        projectId: projectId,
+        projectId: project.id,
         audioMetadata: meta,
+        embeddedLyrics: lyrics,
     });
 });
 
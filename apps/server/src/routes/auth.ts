@@ -0,0 +1,95 @@
+import { Hono } from 'hono';
+import { Bindings } from '../types';
+import { ApiError } from '../errors';
+import { validate } from '../validation';
+import { loginSchema, registerSchema } from '../schemas';
+import {
+	createMediaToken,
+	createSession,
+	createUser,
+	deleteSession,
+	getBearerToken,
+	requireUser,
+	toAuthUser,
+	verifyCredentials,
+} from '../auth';
+
+const auth = new Hono<{
+	Bindings: Bindings;
+}>();
+
+/**
+ * Create an account and sign it in
+ * @route POST /auth/register
+ * @param {Object} request.body - Email, password of at least 8 characters and optional name
+ * @returns {Object} JSON response with the user, the bearer token, its expiry and a media token
+ * @throws {VALIDATION_ERROR} If the email or password is invalid
+ * @throws {CONFLICT} If the email is already registered
+ */
+auth.post('/register', validate('json', registerSchema), async (c) => {
+	const data = c.req.valid('json');
+
+	const user = await createUser(c.env.USERS_KV, data);
+	const session = await createSession(c.env.USERS_KV, user.id);
+	const media = await createMediaToken(c.env.USERS_KV, user.id);
+
+	return c.json({ user: toAuthUser(user), ...session, media }, 201);
+});
+
+/**
+ * Sign in with email and password
+ * @route POST /auth/login
+ * @param {Object} request.body - Email and password
+ * @returns {Object} JSON response with the user, the bearer token, its expiry and a media token
+ * @throws {UNAUTHORIZED} If the email is unknown or the password is wrong
+ */
+auth.post('/login', validate('json', loginSchema), async (c) => {
+	const { email, password } = c.req.valid('json');
+
+	const user = await verifyCredentials(c.env.USERS_KV, email, password);
+	if (!user) {
+		throw new ApiError(401, 'UNAUTHORIZED', 'Invalid email or password');
+	}
+	const session = await createSession(c.env.USERS_KV, user.id);
+	const media = await createMediaToken(c.env.USERS_KV, user.id);
+
+	return c.json({ user: toAuthUser(user), ...session, media });
+});
+
+/**
+ * End the session of the bearer token
+ * @route POST /auth/logout
+ * @returns {Object} JSON confirmation
+ * @throws {UNAUTHORIZED} Without a valid session
+ */
+auth.post('/logout', requireUser, async (c) => {
+	const token = getBearerToken(c.req.header('Authorization'));
+	if (token) await deleteSession(c.env.USERS_KV, token);
+
+	return c.json({ message: 'Signed out' });
+});
+
+/**
+ * Get the signed-in user
+ * @route GET /auth/me
+ * @returns {Object} JSON response with the user
+ * @throws {UNAUTHORIZED} Without a valid session
+ */
+auth.get('/me', requireUser, async (c) => {
+	return c.json({ user: c.get('user') });
+});
+
+/**
+ * Issue a short-lived token for media URLs, the only token accepted in the
+ * access_token query parameter of audio, cover, asset and download routes
+ * @route POST /auth/media-token
+ * @returns {Object} JSON response with the media token and its expiry
+ * @throws {UNAUTHORIZED} Without a valid session
+ */
+auth.post('/media-token', requireUser, async (c) => {
+	const media = await createMediaToken(c.env.USERS_KV, c.get('user').id);
+
+	return c.json(media, 201);
+});
+
+export default auth;
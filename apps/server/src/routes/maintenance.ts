@@ -0,0 +1,160 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { Bindings } from '../types';
+import { ApiError, notFound } from '../errors';
+import { validate } from '../validation';
+import {
+	assignUnownedRecords,
+	backfillAudioReferences,
+	backfillAudioScopes,
+	backfillHashIndex,
+	backfillShareTokens,
+	GC_BATCH_SIZE,
+	collectGarbage,
+	reindexProjects,
+} from '../cleanup';
+import { getUserById } from '../auth';
+
+const maintenance = new Hono<{
+	Bindings: Bindings;
+}>();
+
+/**
+ * Only callers presenting ADMIN_TOKEN as a bearer token may use these routes.
+ * Without a configured token every request is refused.
+ */
+maintenance.use('*', async (c, next) => {
+	const token = c.env.ADMIN_TOKEN;
+	const authorization = c.req.header('Authorization');
+
+	if (!authorization?.startsWith('Bearer ')) {
+		throw new ApiError(401, 'UNAUTHORIZED', 'Missing bearer token', {
+			headers: { 'WWW-Authenticate': 'Bearer' },
+		});
+	}
+	if (!token || authorization.slice(7) !== token) {
+		throw new ApiError(403, 'FORBIDDEN', 'Invalid admin token');
+	}
+
+	await next();
+});
+
+const gcQuerySchema = z.object({
+	dryRun: z
+		.enum(['true', 'false'])
+		.default('true')
+		.transform((value) => value === 'true'),
+	cursor: z.string().max(2048).optional(),
+	limit: z.coerce.number().int().min(1).max(GC_BATCH_SIZE).optional(),
+});
+
+/**
+ * Find orphaned lyrics, audio, covers and YouTube metadata in one batch and
+ * purge the ones an earlier batch already found, like the scheduled
+ * collection does
+ * @route POST /maintenance/gc
+ * @param {string} [request.query.dryRun=true] - Only report orphans when "true"
+ * @param {string} [request.query.cursor] - Cursor returned by the previous batch, starts a new pass when missing
+ * @param {number} [request.query.limit=100] - Keys to check, at most 100
+ * @returns {Object} JSON report of scanned, orphaned and deleted entries with the cursor of the next batch
+ * @throws {BAD_REQUEST} If the cursor is invalid
+ * @throws {UNAUTHORIZED} If no bearer token is sent
+ * @throws {FORBIDDEN} If the token does not match ADMIN_TOKEN
+ */
+maintenance.post('/gc', validate('query', gcQuerySchema), async (c) => {
+	const report = await collectGarbage(c.env, c.req.valid('query'));
+	return c.json(report);
+});
+
+/**
+ * Rebuild the project listing and search indexes from the stored projects
+ * @route POST /maintenance/reindex
+ * @returns {Object} JSON response with the number of indexed projects
+ * @throws {UNAUTHORIZED} If no bearer token is sent
+ * @throws {FORBIDDEN} If the token does not match ADMIN_TOKEN
+ */
+maintenance.post('/reindex', async (c) => {
+	const indexed = await reindexProjects(c.env);
+	return c.json({ message: 'Projects reindexed', indexed });
+});
+
+/**
+ * One-off migration writing the hash index of audio uploaded before it existed
+ * @route POST /maintenance/migrate/hash-index
+ * @returns {Object} JSON response with the number of indexed and skipped audio records
+ * @throws {UNAUTHORIZED} If no bearer token is sent
+ * @throws {FORBIDDEN} If the token does not match ADMIN_TOKEN
+ */
+maintenance.post('/migrate/hash-index', async (c) => {
+	const result = await backfillHashIndex(c.env);
+	return c.json({ message: 'Hash index backfilled', ...result });
+});
+
+/**
+ * One-off migration writing the audio reference of projects created before
+ * references existed; run it before deleting projects that share audio
+ * @route POST /maintenance/migrate/audio-refs
+ * @returns {Object} JSON response with the number of written references
+ * @throws {UNAUTHORIZED} If no bearer token is sent
+ * @throws {FORBIDDEN} If the token does not match ADMIN_TOKEN
+ */
+maintenance.post('/migrate/audio-refs', async (c) => {
+	const written = await backfillAudioReferences(c.env);
+	return c.json({ message: 'Audio references backfilled', written });
+});
+
+/**
+ * One-off migration listing the audio uploaded before GET /audio/all read
+ * the per-space listing keys
+ * @route POST /maintenance/migrate/audio-scopes
+ * @returns {Object} JSON response with the number of listed audio records
+ * @throws {UNAUTHORIZED} If no bearer token is sent
+ * @throws {FORBIDDEN} If the token does not match ADMIN_TOKEN
+ */
+maintenance.post('/migrate/audio-scopes', async (c) => {
+	const indexed = await backfillAudioScopes(c.env);
+	return c.json({ message: 'Audio listing backfilled', indexed });
+});
+
+/**
+ * One-off migration registering the share tokens created before they
+ * resolved through the ShareToken Durable Object
+ * @route POST /maintenance/migrate/share-tokens
+ * @returns {Object} JSON response with the number of registered tokens
+ * @throws {UNAUTHORIZED} If no bearer token is sent
+ * @throws {FORBIDDEN} If the token does not match ADMIN_TOKEN
+ */
+maintenance.post('/migrate/share-tokens', async (c) => {
+	const registered = await backfillShareTokens(c.env);
+	return c.json({ message: 'Share tokens registered', registered });
+});
+
+const assignOwnerSchema = z.object({
+	userId: z.string().min(1).max(100),
+});
+
+/**
+ * One-off migration giving the projects and audio created before accounts
+ * existed to a user
+ * @route POST /maintenance/migrate/owner
+ * @param {Object} request.body - The ID of the user receiving the records
+ * @returns {Object} JSON response with the number of assigned projects and audio records
+ * @throws {UNAUTHORIZED} If no bearer token is sent
+ * @throws {FORBIDDEN} If the token does not match ADMIN_TOKEN
+ * @throws {NOT_FOUND} If the user does not exist
+ */
+maintenance.post(
+	'/migrate/owner',
+	validate('json', assignOwnerSchema),
+	async (c) => {
+		const { userId } = c.req.valid('json');
+		if (!(await getUserById(c.env.USERS_KV, userId))) {
+			throw notFound('User not found');
+		}
+
+		const result = await assignUnownedRecords(c.env, userId);
+		return c.json({ message: 'Records assigned', userId, ...result });
+	}
+);
+
+export default maintenance;
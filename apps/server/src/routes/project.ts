@@ -1,193 +1,1190 @@
 import { Hono } from 'hono';
 import { v4 as uuidv4 } from 'uuid';
 
-import { Bindings, Lyrics, Project } from '../types';
-import { saveProject } from '../utils';
+import { KVNamespace } from '@cloudflare/workers-types';
+import {
+	Audio,
+	AuthUser,
+	Bindings,
+	LyricsDiffEntry,
+	Project,
+	WorkspaceRole,
+} from '../types';
+import {
+	getProjectOrThrow,
+	ifMatchSatisfied,
+	lyricsETag,
+	projectETag,
+	saveProject,
+} from '../utils';
+import { ApiError, badRequest, notFound } from '../errors';
+import { validate } from '../validation';
+import {
+	createProjectSchema,
+	coverCropQuerySchema,
+	coverQuerySchema,
+	duplicateProjectSchema,
+	importBundleQuerySchema,
+	lyricsBodySchema,
+	lyricsDiffQuerySchema,
+	lyricsFileParamSchema,
+	lyricsImportQuerySchema,
+	lyricsVersionParamSchema,
+	projectIdParamSchema,
+	projectListQuerySchema,
+	updateProjectSchema,
+} from '../schemas';
+import {
+	diffLyricsLines,
+	getLyricsById,
+	listLyricsVersions,
+	saveLyricsVersion,
+} from '../lyrics';
+import {
+	LYRICS_FORMATS,
+	MAX_LYRICS_FILE_SIZE,
+	parseLyricsFile,
+	readTrackInfo,
+} from '../lyrics-formats';
+import { deleteProjectCascade, releaseAudio } from '../cleanup';
+import { addAudioReference } from '../audio-refs';
+import {
+	SUPPORTED_IMAGE_EXTENSIONS,
+	assertAttachableAssets,
+	resolveAssetFormat,
+	syncAssetReferences,
+} from '../assets';
+import { queryProjectIndex } from '../project-index';
+import { indexProjectForSearch } from '../search';
+import { requireMediaUser, requireUser } from '../auth';
+import { assertCan, assertCanCreateIn, can } from '../workspaces';
+import { revokeProjectShare, shareProject } from '../shares';
+import {
+	MAX_BUNDLE_SIZE,
+	buildProjectBundle,
+	estimateBundleSize,
+	importProjectBundle,
+	r2BundleSource,
+} from '../bundles';
+import {
+	MAX_COVER_SIZE,
+	copyProjectCover,
+	deleteProjectCover,
+	readCoverOriginal,
+	readProjectCover,
+	storeCoverOriginal,
+	writeCoverThumbnails,
+} from '../covers';
+import { createZipStream } from '../zip';
+import {
+	assembleUpload,
+	deleteUploadSession,
+	getUploadSession,
+} from '../audio-upload';
 
 const project = new Hono<{
     Bindings: Bindings;
 }>();
 
+const bundleTooLarge = () =>
+	new ApiError(
+		413,
+		'PAYLOAD_TOO_LARGE',
+		`Bundles are limited to ${MAX_BUNDLE_SIZE / (1024 * 1024)} MB`,
+		{ details: { maxSize: MAX_BUNDLE_SIZE } }
+	);
 
 
 /**
  * Save or update lyrics for a project
  * @route POST /project/:id/lyrics
  * @param {string} request.params.id - The project ID
- * @param {Object} request.body - Lyrics data containing text and lines
+ * @param {string} [request.headers.If-Match] - ETag of the lyrics the edit is based on
+ * @param {Object} request.body - Lyrics data containing text and lines, optionally the baseVersionId
  * @returns {Object} JSON response with lyrics ID and confirmation
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing lyrics
  * @throws {404} If project is not found
- * @throws {400} If required data is missing
+ * @throws {400} If the body is invalid
+ * @throws {409} If baseVersionId is not the current version, with the current lyrics
+ * @throws {412} If If-Match does not match the current lyrics, with the current lyrics
  */
-project.post('/:id/lyrics', async (c) => {
-	const projectId = c.req.param('id');
+project.post(
+	'/:id/lyrics',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	validate('json', lyricsBodySchema),
+	async (c) => {
+		const { id: projectId } = c.req.valid('param');
+		const { text, lines, baseVersionId } = c.req.valid('json');
+
+		// Verify project exists
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+		await assertCan(c.env, project, c.get('user'), 'editLyrics');
+
+		await assertLyricsPrecondition(
+			c.env.LYRICS_KV,
+			project,
+			c.req.header('If-Match'),
+			baseVersionId
+		);
 
-	// Verify project exists
-	const projectRaw = await c.env.PROJECT_KV.get(`project:${projectId}`);
-	if (!projectRaw) return c.text('Project not found', 404);
+		const lyrics = await saveLyricsVersion(c.env.LYRICS_KV, project, {
+			text,
+			lines,
+		});
 
-	const { text, lines } = await c.req.json();
+		// Update project with lyrics reference
+		await saveProject(c.env.PROJECT_KV, project);
+		await indexProjectForSearch(c.env, project);
 
-	if (!text && !lines) {
-		return c.text('Text or lines are required', 400);
+		c.header('ETag', lyricsETag(lyrics.id));
+		return c.json({
+			message: 'Lyrics saved successfully',
+			lyricsId: lyrics.id,
+			projectId: projectId,
+			version: lyrics.metadata?.version,
+		});
 	}
+);
+
+/**
+ * Import synced lyrics from an LRC, enhanced LRC, SRT, WebVTT or ASS file as
+ * a new lyrics version. Header tags such as [ti:], [ar:] and [offset:] are
+ * kept in the version metadata; the offset is applied to the timestamps.
+ * @route POST /project/:id/lyrics/import
+ * @param {string} request.params.id - The project ID
+ * @param {string} [request.query.format] - lrc, elrc, srt, vtt or ass, detected from the content when missing
+ * @param {string} [request.headers.If-Match] - ETag of the lyrics the import replaces
+ * @param {string} request.body - The raw file text
+ * @returns {Object} JSON response with the new version, its tags and a warning per skipped line
+ * @throws {400} If the format is unknown or no line has a time
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing lyrics
+ * @throws {404} If project is not found
+ * @throws {412} If If-Match does not match the current lyrics, with the current lyrics
+ * @throws {413} If the file is larger than 1 MB
+ */
+project.post(
+	'/:id/lyrics/import',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	validate('query', lyricsImportQuerySchema),
+	async (c) => {
+		const { id: projectId } = c.req.valid('param');
+		const { format } = c.req.valid('query');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+		await assertCan(c.env, project, c.get('user'), 'editLyrics');
 
-	const lyricsId = uuidv4();
-	const now = new Date().toISOString();
+		const content = await c.req.text();
+		if (new TextEncoder().encode(content).byteLength > MAX_LYRICS_FILE_SIZE) {
+			throw new ApiError(
+				413,
+				'PAYLOAD_TOO_LARGE',
+				`Lyrics files are limited to ${MAX_LYRICS_FILE_SIZE / 1024 / 1024} MB`
+			);
+		}
 
-	const lyrics: Lyrics = {
-		id: lyricsId,
-		createdAt: now,
-		updatedAt: now,
-		text: text || '',
-		projectId: projectId,
-		lines: lines || [],
-	};
+		await assertLyricsPrecondition(
+			c.env.LYRICS_KV,
+			project,
+			c.req.header('If-Match')
+		);
 
-	await c.env.LYRICS_KV.put(`lyrics:${lyricsId}`, JSON.stringify(lyrics));
+		const imported = parseLyricsFile(content, format);
+		const hasTags = Object.keys(imported.tags).length > 0;
+		const lyrics = await saveLyricsVersion(c.env.LYRICS_KV, project, {
+			text: imported.lines.map((line) => line.text).join('\n'),
+			lines: imported.lines,
+			metadata: {
+				source: 'imported',
+				format: imported.format,
+				tags: hasTags ? imported.tags : undefined,
+			},
+		});
 
-	// Update project with lyrics reference
-	const project = JSON.parse(projectRaw);
-	project.lyricsId = lyricsId;
-	project.updatedAt = now;
-	await saveProject(c.env.PROJECT_KV, project);
+		await saveProject(c.env.PROJECT_KV, project);
+		await indexProjectForSearch(c.env, project);
 
-	return c.json({
-		message: 'Lyrics saved successfully',
-		lyricsId: lyricsId,
-		projectId: projectId,
-	});
-});
+		c.header('ETag', lyricsETag(lyrics.id));
+		return c.json({
+			message: 'Lyrics imported successfully',
+			lyricsId: lyrics.id,
+			projectId,
+			version: lyrics.metadata?.version,
+			format: imported.format,
+			lineCount: imported.lines.length,
+			tags: imported.tags,
+			warnings: imported.warnings,
+		});
+	}
+);
 
 /**
  * Get lyrics for a project
  * @route GET /project/:id/lyrics
  * @param {string} request.params.id - The project ID
  * @returns {Object} JSON response with lyrics data
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the project
  * @throws {404} If project or lyrics not found
  */
-project.get('/:id/lyrics', async (c) => {
-	const projectId = c.req.param('id');
+project.get(
+	'/:id/lyrics',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	async (c) => {
+		const { id: projectId } = c.req.valid('param');
 
-	// Get project to find lyrics ID
-	const projectRaw = await c.env.PROJECT_KV.get(`project:${projectId}`);
-	if (!projectRaw) return c.text('Project not found', 404);
+		// Get project to find lyrics ID
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+		await assertCan(c.env, project, c.get('user'), 'read');
+		if (!project.lyricsId)
+			throw notFound('No lyrics found for this project');
 
-	const project = JSON.parse(projectRaw);
-	if (!project.lyricsId)
-		return c.text('No lyrics found for this project', 404);
+		const lyricsRaw = await c.env.LYRICS_KV.get(`lyrics:${project.lyricsId}`);
+		if (!lyricsRaw) throw notFound('Lyrics not found');
 
-	const lyricsRaw = await c.env.LYRICS_KV.get(`lyrics:${project.lyricsId}`);
-	if (!lyricsRaw) return c.text('Lyrics not found', 404);
+		c.header('ETag', lyricsETag(project.lyricsId));
+		return c.json(JSON.parse(lyricsRaw));
+	}
+);
 
-	return c.json(JSON.parse(lyricsRaw));
-});
+/**
+ * Download the current lyrics of a project as a synced lyrics file, tagged
+ * with the title, artist and album of its track
+ * @route GET /project/:id/lyrics.lrc|srt|vtt|ttml
+ * @param {string} request.params.id - The project ID
+ * @returns {Stream} LRC, SRT, WebVTT or TTML file named after the project
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the project
+ * @throws {404} If project or lyrics not found
+ */
+project.get(
+	'/:id/:file{lyrics\\.(?:lrc|srt|vtt|ttml)}',
+	requireUser,
+	validate('param', lyricsFileParamSchema),
+	async (c) => {
+		const { id, file: format } = c.req.valid('param');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		await assertCan(c.env, project, c.get('user'), 'read');
+		if (!project.lyricsId) throw notFound('No lyrics found for this project');
+
+		const lyrics = await getLyricsById(c.env.LYRICS_KV, project.lyricsId);
+		if (!lyrics) throw notFound('Lyrics not found');
+
+		const info = await readTrackInfo(c.env, project);
+		const { contentType, format: formatLyrics } = LYRICS_FORMATS[format];
+		const filename = `${project.name.replace(/[^\w\- ]+/g, '').trim() || 'lyrics'}.${format}`;
+
+		return c.body(formatLyrics(lyrics.lines, info), 200, {
+			'Content-Type': contentType,
+			'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+			'Cache-Control': 'private, no-cache',
+			ETag: lyricsETag(project.lyricsId),
+		});
+	}
+);
 
 /**
- * Get a list of all uploaded audio files
- * @route GET /audios
- * @returns {Object} JSON response with array of audio metadata
+ * List the lyrics versions of a project
+ * @route GET /project/:id/lyrics/versions
+ * @param {string} request.params.id - The project ID
+ * @returns {Object} JSON response with the current version ID and version summaries, newest first
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow reviewing lyrics
+ * @throws {404} If project is not found
  */
-project.get('/all', async (c) => {
-	const keys = await c.env.PROJECT_KV.list({ prefix: 'project:' });
+project.get(
+	'/:id/lyrics/versions',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	async (c) => {
+		const { id: projectId } = c.req.valid('param');
 
-	if (!keys.keys.length) return c.json({ projects: [] });
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+		await assertCan(c.env, project, c.get('user'), 'reviewLyrics');
+		const versions = await listLyricsVersions(c.env.LYRICS_KV, project);
 
-	const projects = await Promise.all(
-		keys.keys.map(async (key) => {
-			const raw = await c.env.PROJECT_KV.get(key.name);
-			return raw ? JSON.parse(raw) : null;
-		})
-	);
+		return c.json({
+			projectId,
+			currentVersionId: project.lyricsId ?? null,
+			versions,
+		});
+	}
+);
+
+/**
+ * Get a specific lyrics version of a project
+ * @route GET /project/:id/lyrics/versions/:versionId
+ * @param {string} request.params.id - The project ID
+ * @param {string} request.params.versionId - The lyrics version ID
+ * @returns {Object} JSON response with lyrics data
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow reviewing lyrics
+ * @throws {404} If the version does not exist or belongs to another project
+ */
+project.get(
+	'/:id/lyrics/versions/:versionId',
+	requireUser,
+	validate('param', lyricsVersionParamSchema),
+	async (c) => {
+		const { id: projectId, versionId } = c.req.valid('param');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+		await assertCan(c.env, project, c.get('user'), 'reviewLyrics');
+
+		const lyrics = await getLyricsById(c.env.LYRICS_KV, versionId);
+		if (!lyrics || lyrics.projectId !== projectId)
+			throw notFound('Lyrics version not found');
+
+		return c.json(lyrics);
+	}
+);
+
+/**
+ * Get a line-level diff between two lyrics versions of a project
+ * @route GET /project/:id/lyrics/diff
+ * @param {string} request.params.id - The project ID
+ * @param {string} request.query.from - The older version ID
+ * @param {string} [request.query.to] - The newer version ID, defaults to the current version
+ * @returns {Object} JSON response with diff entries and a summary of changes
+ * @throws {400} If the from version is missing or invalid
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow reviewing lyrics
+ * @throws {404} If project or one of the versions is not found
+ */
+project.get(
+	'/:id/lyrics/diff',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	validate('query', lyricsDiffQuerySchema),
+	async (c) => {
+		const { id: projectId } = c.req.valid('param');
+		const { from: fromId, to } = c.req.valid('query');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+		await assertCan(c.env, project, c.get('user'), 'reviewLyrics');
+		const toId = to || project.lyricsId;
+		if (!toId) throw notFound('No lyrics found for this project');
+
+		const [from, toLyrics] = await Promise.all([
+			getLyricsById(c.env.LYRICS_KV, fromId),
+			getLyricsById(c.env.LYRICS_KV, toId),
+		]);
+		if (!from || from.projectId !== projectId)
+			throw notFound('Lyrics version not found');
+		if (!toLyrics || toLyrics.projectId !== projectId)
+			throw notFound('Lyrics version not found');
+
+		const changes = diffLyricsLines(from.lines, toLyrics.lines);
+		const count = (type: LyricsDiffEntry['type']) =>
+			changes.filter((entry) => entry.type === type).length;
+
+		return c.json({
+			from: from.id,
+			to: toLyrics.id,
+			summary: {
+				unchanged: count('unchanged'),
+				retimed: count('retimed'),
+				added: count('added'),
+				removed: count('removed'),
+			},
+			changes,
+		});
+	}
+);
+
+/**
+ * Restore a previous lyrics version
+ * The restored content is saved as a new version so no history is lost.
+ * @route POST /project/:id/lyrics/versions/:versionId/restore
+ * @param {string} request.params.id - The project ID
+ * @param {string} request.params.versionId - The lyrics version ID to restore
+ * @param {string} [request.headers.If-Match] - ETag of the lyrics the restore is based on
+ * @returns {Object} JSON response with the new lyrics ID and confirmation
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow reviewing lyrics
+ * @throws {404} If project or version is not found
+ * @throws {412} If If-Match does not match the current lyrics, with the current lyrics
+ */
+project.post(
+	'/:id/lyrics/versions/:versionId/restore',
+	requireUser,
+	validate('param', lyricsVersionParamSchema),
+	async (c) => {
+		const { id: projectId, versionId } = c.req.valid('param');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+		await assertCan(c.env, project, c.get('user'), 'reviewLyrics');
+
+		const source = await getLyricsById(c.env.LYRICS_KV, versionId);
+		if (!source || source.projectId !== projectId)
+			throw notFound('Lyrics version not found');
+
+		await assertLyricsPrecondition(
+			c.env.LYRICS_KV,
+			project,
+			c.req.header('If-Match')
+		);
+
+		const lyrics = await saveLyricsVersion(c.env.LYRICS_KV, project, {
+			text: source.text,
+			lines: source.lines,
+			metadata: {
+				language: source.metadata?.language,
+				source: source.metadata?.source,
+				restoredFrom: source.id,
+			},
+		});
+		await saveProject(c.env.PROJECT_KV, project);
+		await indexProjectForSearch(c.env, project);
+
+		c.header('ETag', lyricsETag(lyrics.id));
+		return c.json({
+			message: 'Lyrics restored successfully',
+			lyricsId: lyrics.id,
+			projectId: projectId,
+			version: lyrics.metadata?.version,
+			restoredFrom: source.id,
+		});
+	}
+);
+
+/**
+ * List the caller's personal projects, or those of a workspace, a page at a time, from the project index
+ * @route GET /project/all
+ * @param {string} [request.query.workspaceId] - List this workspace instead of the personal projects
+ * @param {string} [request.query.cursor] - Cursor returned by the previous page
+ * @param {number} [request.query.limit=24] - Page size, at most 100
+ * @param {string} [request.query.sort=updatedAt] - updatedAt or createdAt (newest first) or name (A-Z)
+ * @param {string} [request.query.tags] - Comma-separated tags the project must all have
+ * @param {string} [request.query.category] - Exact metadata category, e.g. youtube-import
+ * @param {string} [request.query.public] - "true" or "false"
+ * @param {string} [request.query.q] - Case-insensitive name substring
+ * @returns {Object} JSON response with projects and the next cursor, null on the last page
+ * @throws {BAD_REQUEST} If the cursor is invalid
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ * @throws {FORBIDDEN} If the caller is not a member of the workspace
+ */
+project.get(
+	'/all',
+	requireUser,
+	validate('query', projectListQuerySchema),
+	async (c) => {
+		const { cursor, limit, sort, workspaceId, ...filters } =
+			c.req.valid('query');
+		const user = c.get('user');
+
+		const role = workspaceId
+			? await assertCan(c.env, { workspaceId }, user, 'read')
+			: 'owner';
+
+		const page = await queryProjectIndex(c.env.PROJECT_KV, {
+			scope: workspaceId ? { workspaceId } : { ownerId: user.id },
+			sort,
+			limit,
+			cursor,
+			filters,
+		});
 
-	return c.json(projects.filter((p) => p !== null));
-});
-
-project.get('/:id', async (c) => {
-	const id = c.req.param('id');
-	const raw = await c.env.PROJECT_KV.get(`project:${id}`);
-	if (!raw) return c.text('Project not found', 404);
-	return c.json(JSON.parse(raw));
-});
-
-project.post('/', async (c) => {
-	const { name, audioId } = await c.req.json();
-
-	const id = uuidv4();
-	const now = new Date().toISOString();
-	const project: Project = {
-		id,
-		name,
-		createdAt: now,
-		updatedAt: now,
-		audioId,
-	};
-
-	await saveProject(c.env.PROJECT_KV, project);
-
-	return c.json({ message: 'Project created', id });
-});
-
-project.put('/:id', async (c) => {
-	const id = c.req.param('id');
-	const raw = await c.env.PROJECT_KV.get(`project:${id}`);
-	if (!raw) return c.text('Project not found', 404);
-
-	const project = JSON.parse(raw);
-	const updates = await c.req.json();
-
-	// Handle lyrics if provided
-	if (updates.lyrics) {
-		const lyricsId = uuidv4();
+		const projects = await Promise.all(
+			page.ids.map(async (id) => {
+				const raw = await c.env.PROJECT_KV.get(`project:${id}`);
+				return raw ? (JSON.parse(raw) as Project) : null;
+			})
+		);
+
+		return c.json({
+			projects: projects
+				.filter((p) => p !== null)
+				.map((p) => withoutShareFor(role, p)),
+			nextCursor: page.cursor,
+		});
+	}
+);
+
+/**
+ * Get a project
+ * @route GET /project/:id
+ * @param {string} request.params.id - The project ID
+ * @returns {Object} JSON response with the project
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the project
+ * @throws {404} If project is not found
+ */
+project.get(
+	'/:id',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		const role = await assertCan(c.env, project, c.get('user'), 'read');
+		c.header('ETag', projectETag(project));
+		return c.json(withoutShareFor(role, project));
+	}
+);
+
+/**
+ * Create a project for an existing audio file, which can already be used by
+ * other projects
+ * @route POST /project
+ * @param {Object} request.body - Project name, audio ID and optional description, asset IDs, render assets, metadata and workspace ID
+ * @returns {Object} JSON response with the project ID
+ * @throws {400} If the body is invalid, attaches assets of another library or puts an asset in a render slot it does not fit
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller cannot create projects in the workspace or has no access to the audio
+ * @throws {404} If the audio or an attached asset is not found
+ */
+project.post(
+	'/',
+	requireUser,
+	validate('json', createProjectSchema),
+	async (c) => {
+		const {
+			name,
+			audioId,
+			assetIds,
+			renderAssets,
+			description,
+			metadata,
+			workspaceId,
+		} = c.req.valid('json');
+		const user = c.get('user');
+
+		await assertCanCreateIn(c.env, workspaceId, user);
+		await assertCanUseAudio(c.env, audioId, user);
+		await assertAttachableAssets(c.env.PROJECT_KV, {
+			ownerId: user.id,
+			workspaceId,
+			assetIds,
+			renderAssets,
+		});
+
+		const id = uuidv4();
 		const now = new Date().toISOString();
-		const lyrics: Lyrics = {
-			id: lyricsId,
+		const project: Project = {
+			id,
+			name,
+			description,
 			createdAt: now,
 			updatedAt: now,
-			text: updates.lyrics.text || '',
-			projectId: id,
-			lines: updates.lyrics.lines || [],
+			ownerId: user.id,
+			workspaceId,
+			audioId,
+			assetIds,
+			renderAssets,
+			metadata,
 		};
 
-		await c.env.LYRICS_KV.put(`lyrics:${lyricsId}`, JSON.stringify(lyrics));
+		await addAudioReference(c.env.AUDIO_KV, audioId, id);
+		await syncAssetReferences(c.env.PROJECT_KV, project);
+		await saveProject(c.env.PROJECT_KV, project);
+		await indexProjectForSearch(c.env, project);
 
-		// Remove lyrics from updates to avoid storing in project
-		delete updates.lyrics;
+		return c.json({ message: 'Project created', id });
 	}
+);
+
+/**
+ * Duplicate a project: the copy gets a new name and the current lyrics, and
+ * plays the same audio without storing it again
+ * @route POST /project/:id/duplicate
+ * @param {string} request.params.id - The project ID
+ * @param {Object} request.body - Optional name and workspace ID of the copy, by default "<name> (copy)" in the same workspace
+ * @returns {Object} JSON response with the new project
+ * @throws {400} If the body is invalid
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller cannot read the project or create projects in the workspace
+ * @throws {404} If project is not found
+ */
+project.post(
+	'/:id/duplicate',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	validate('json', duplicateProjectSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const body = c.req.valid('json');
+		const user = c.get('user');
+
+		const source = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		await assertCan(c.env, source, user, 'read');
+		const workspaceId =
+			'workspaceId' in body ? body.workspaceId : source.workspaceId;
+		await assertCanCreateIn(c.env, workspaceId, user);
+
+		// Library assets only follow the copy within the same library
+		const sameLibrary = workspaceId
+			? workspaceId === source.workspaceId
+			: !source.workspaceId && source.ownerId === user.id;
+
+		const now = new Date().toISOString();
+		// The share link belongs to the original
+		const { public: _shared, ...metadata } = source.metadata ?? {};
+		const copy: Project = {
+			id: uuidv4(),
+			name: body.name ?? `${source.name} (copy)`.slice(0, 200),
+			description: source.description,
+			createdAt: now,
+			updatedAt: now,
+			ownerId: user.id,
+			workspaceId,
+			audioId: source.audioId,
+			assetIds: sameLibrary ? source.assetIds : undefined,
+			renderAssets: sameLibrary ? source.renderAssets : undefined,
+			metadata,
+		};
 
-	// Apply other changes
-	Object.assign(project, updates);
-	await saveProject(c.env.PROJECT_KV, project);
+		// Only the current lyrics, the history stays with the original
+		const lyrics = source.lyricsId
+			? await getLyricsById(c.env.LYRICS_KV, source.lyricsId)
+			: null;
+		if (lyrics) {
+			const { restoredFrom: _restored, ...lyricsMetadata } =
+				lyrics.metadata ?? {};
+			await saveLyricsVersion(c.env.LYRICS_KV, copy, {
+				text: lyrics.text,
+				lines: lyrics.lines,
+				metadata: lyricsMetadata,
+			});
+		}
 
-	return c.json({ message: 'Project updated', project });
-});
+		// YouTube projects keep their video details next to the project
+		const youtubeMeta = await c.env.PROJECT_KV.get(
+			`youtube-meta:${source.id}`
+		);
+		if (youtubeMeta) {
+			await c.env.PROJECT_KV.put(`youtube-meta:${copy.id}`, youtubeMeta);
+		}
 
+		if (source.cover) {
+			await copyProjectCover(c.env, source.id, copy.id);
+			copy.cover = source.cover;
+		}
 
-project.delete('/:id', async (c) => {
-	const id = c.req.param('id');
-	const rawProject = await c.env.PROJECT_KV.get(`project:${id}`);
-	if (!rawProject) return c.text('Project not found', 404);
+		// The original may predate audio references
+		await addAudioReference(c.env.AUDIO_KV, source.audioId, source.id);
+		await addAudioReference(c.env.AUDIO_KV, copy.audioId, copy.id);
+		await syncAssetReferences(c.env.PROJECT_KV, copy);
+		await saveProject(c.env.PROJECT_KV, copy);
+		await indexProjectForSearch(c.env, copy);
 
-	const project = JSON.parse(rawProject);
+		return c.json(
+			{ message: 'Project duplicated', id: copy.id, project: copy },
+			201
+		);
+	}
+);
 
-	const rawAudio = await c.env.AUDIO_KV.get(`audio:${project.audioId}`);
+/**
+ * Update a project
+ * @route PUT /project/:id
+ * @param {string} request.params.id - The project ID
+ * @param {string} [request.headers.If-Match] - ETag of the project the edit is based on
+ * @param {Object} request.body - Fields to update, optionally the revision the edit is based on; metadata.public shares or unshares the project
+ * @returns {Object} JSON response with the updated project
+ * @throws {400} If the body is invalid, tries to change server-owned fields, attaches assets of another library or puts an asset in a render slot it does not fit
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing the project, or its lyrics when they are included, or playing the new audio
+ * @throws {404} If project, the new audio or an attached asset is not found
+ * @throws {409} If the revision in the body is stale, with the current project
+ * @throws {412} If If-Match does not match the current project, with the current project
+ */
+project.put(
+	'/:id',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	validate('json', updateProjectSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const updates = c.req.valid('json');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		const user = c.get('user');
+		await assertCan(c.env, project, user, 'editProject');
+		if (updates.lyrics) await assertCan(c.env, project, user, 'editLyrics');
 
-	if (!rawAudio) return c.text('Audio not found', 404);
+		const etag = projectETag(project);
+		if (!ifMatchSatisfied(c.req.header('If-Match'), etag)) {
+			throw new ApiError(
+				412,
+				'PRECONDITION_FAILED',
+				'Project was modified by someone else',
+				{ details: { current: project }, headers: { ETag: etag } }
+			);
+		}
+		if (
+			updates.revision !== undefined &&
+			updates.revision !== (project.revision ?? 0)
+		) {
+			throw new ApiError(
+				409,
+				'CONFLICT',
+				'Project was modified by someone else',
+				{ details: { current: project }, headers: { ETag: etag } }
+			);
+		}
+		// The revision is owned by the server
+		delete updates.revision;
 
-	const audio = JSON.parse(rawAudio);
+		const previousAudioId = project.audioId;
+		const nextAudioId = updates.audioId ?? previousAudioId;
+		const audioChanged = nextAudioId !== previousAudioId;
+		if (audioChanged) await assertCanUseAudio(c.env, nextAudioId, user);
+		const previousAssetIds = project.assetIds ?? [];
+		const assetsChanged = Boolean(updates.assetIds || updates.renderAssets);
+		if (assetsChanged) {
+			await assertAttachableAssets(c.env.PROJECT_KV, {
+				...project,
+				assetIds: updates.assetIds ?? project.assetIds,
+				renderAssets: updates.renderAssets ?? project.renderAssets,
+			});
+		}
 
-	await c.env.PROJECT_KV.delete(`project:${id}`);
-	await c.env.AUDIO_KV.delete(`audio:${audio.id}`);
+		// Handle lyrics if provided
+		if (updates.lyrics) {
+			await saveLyricsVersion(c.env.LYRICS_KV, project, {
+				text: updates.lyrics.text,
+				lines: updates.lyrics.lines,
+			});
 
-	await c.env.AUDIO_FILES.delete(`${audio.id}.mp3`);
+			// Remove lyrics from updates to avoid storing in project
+			delete updates.lyrics;
+		}
 
-	const coverKey = `${audio.coverArt.id}.${
-		audio.coverArt.format.split('/')[1] || 'jpg'
-	}`;
+		// Apply other changes
+		const publicRequested = updates.metadata?.public;
+		Object.assign(project, updates);
 
-	await c.env.COVER_FILES.delete(coverKey);
+		// metadata.public mirrors the share link: setting it shares or revokes
+		if (publicRequested === true) {
+			await shareProject(c.env, project, user);
+		} else if (publicRequested === false) {
+			await revokeProjectShare(c.env, project);
+		} else if (project.share) {
+			project.metadata = { ...project.metadata, public: true };
+		}
+		if (audioChanged) {
+			await addAudioReference(c.env.AUDIO_KV, project.audioId, project.id);
+		}
+		if (assetsChanged) {
+			await syncAssetReferences(c.env.PROJECT_KV, project, previousAssetIds);
+		}
+		await saveProject(c.env.PROJECT_KV, project);
+		await indexProjectForSearch(c.env, project);
+		// The previous audio goes away unless another project uses it
+		if (audioChanged && !previousAudioId.startsWith('youtube-virtual-')) {
+			await releaseAudio(c.env, previousAudioId, project.id);
+		}
+
+		c.header('ETag', projectETag(project));
+		return c.json({ message: 'Project updated', project });
+	}
+);
+
+/**
+ * Create a public read-only share link, or return the active one
+ * @route POST /project/:id/share
+ * @param {string} request.params.id - The project ID
+ * @returns {Object} JSON response with the share token, its creation date and the share page path
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing the project
+ * @throws {404} If project is not found
+ */
+project.post(
+	'/:id/share',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const user = c.get('user');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		await assertCan(c.env, project, user, 'editProject');
+
+		const existing = project.share;
+		const share = await shareProject(c.env, project, user);
+		if (!existing) await saveProject(c.env.PROJECT_KV, project);
+
+		return c.json(
+			{ ...share, path: `/share/${share.token}` },
+			existing ? 200 : 201
+		);
+	}
+);
+
+/**
+ * Revoke the share link of a project; the token stops working right away
+ * @route DELETE /project/:id/share
+ * @param {string} request.params.id - The project ID
+ * @returns {Object} JSON confirmation
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing the project
+ * @throws {404} If project is not found
+ */
+project.delete(
+	'/:id/share',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		await assertCan(c.env, project, c.get('user'), 'editProject');
+
+		await revokeProjectShare(c.env, project);
+		await saveProject(c.env.PROJECT_KV, project);
+
+		return c.json({ message: 'Share link revoked', projectId: id });
+	}
+);
+
+/**
+ * Upload cover art for a project, or crop the uploaded one again. Square
+ * thumbnails are generated for every size in COVER_SIZES.
+ * @route PUT /project/:id/cover
+ * @param {string} request.params.id - The project ID
+ * @param {number} [request.query.x] - Horizontal position of the crop, 0 to 1, centered by default
+ * @param {number} [request.query.y] - Vertical position of the crop, 0 to 1, centered by default
+ * @param {number} [request.query.size] - Side of the crop as a share of the shorter edge, 0.1 to 1
+ * @param {FormData} [request.body.image] - PNG, JPEG, WebP or GIF image; without it the stored original is cropped again
+ * @returns {Object} JSON response with the cover info
+ * @throws {400} If the query is invalid
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing the project
+ * @throws {404} If project is not found, or there is no image to crop again
+ * @throws {413} If the image is larger than 10 MB
+ * @throws {415} If the file is not an image that can be read
+ */
+project.put(
+	'/:id/cover',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	validate('query', coverCropQuerySchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const crop = c.req.valid('query');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		await assertCan(c.env, project, c.get('user'), 'editProject');
+
+		let original: ArrayBuffer;
+		let contentType: string;
+		const file = (c.req.header('content-type') || '').includes(
+			'multipart/form-data'
+		)
+			? (await c.req.formData()).get('image')
+			: null;
+
+		if (file && typeof file !== 'string') {
+			const format = resolveAssetFormat(file.type, file.name);
+			if (format?.kind !== 'image') {
+				throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Invalid file type', {
+					details: { supported: SUPPORTED_IMAGE_EXTENSIONS },
+				});
+			}
+			if (file.size > MAX_COVER_SIZE) {
+				throw new ApiError(
+					413,
+					'PAYLOAD_TOO_LARGE',
+					`Cover art is limited to ${MAX_COVER_SIZE / (1024 * 1024)} MB`
+				);
+			}
+			original = await file.arrayBuffer();
+			contentType = format.contentType;
+		} else {
+			const stored = await readCoverOriginal(c.env, id);
+			original = await new Response(stored.body).arrayBuffer();
+			contentType = stored.contentType;
+		}
+
+		try {
+			await writeCoverThumbnails(c.env, id, original, crop);
+		} catch (error) {
+			if (error instanceof ApiError) throw error;
+			throw new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'The image could not be read');
+		}
+		if (file) await storeCoverOriginal(c.env, id, original, contentType);
+
+		project.cover = { contentType, crop, updatedAt: new Date().toISOString() };
+		await saveProject(c.env.PROJECT_KV, project);
+
+		c.header('ETag', projectETag(project));
+		return c.json({ message: 'Cover updated', cover: project.cover });
+	}
+);
+
+/**
+ * Remove the uploaded cover art; the project shows the embedded picture or
+ * YouTube thumbnail again
+ * @route DELETE /project/:id/cover
+ * @param {string} request.params.id - The project ID
+ * @returns {Object} JSON confirmation
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow editing the project
+ * @throws {404} If project is not found
+ */
+project.delete(
+	'/:id/cover',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		await assertCan(c.env, project, c.get('user'), 'editProject');
+
+		await deleteProjectCover(c.env, id);
+		if (project.cover) {
+			delete project.cover;
+			await saveProject(c.env.PROJECT_KV, project);
+		}
+
+		return c.json({ message: 'Cover removed', projectId: id });
+	}
+);
+
+/**
+ * Get the cover art of a project: a square thumbnail of the uploaded cover,
+ * otherwise the picture embedded in the audio or the YouTube thumbnail
+ * @route GET /project/:id/cover
+ * @param {string} request.params.id - The project ID
+ * @param {number} [request.query.size] - Wanted side in pixels, the smallest thumbnail at least that large is sent
+ * @param {boolean} [request.query.original] - Send the uncropped upload instead, for the crop editor
+ * @param {string} [request.query.access_token] - Media token, for images that cannot send headers
+ * @returns {Stream} The image, or a redirect to the YouTube thumbnail
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the project
+ * @throws {404} If project is not found or has no cover art, or no upload when the original is asked for
+ */
+project.get(
+	'/:id/cover',
+	requireMediaUser,
+	validate('param', projectIdParamSchema),
+	validate('query', coverQuerySchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const { size, original } = c.req.valid('query');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		await assertCan(c.env, project, c.get('user'), 'read');
+
+		const cover = original
+			? await readCoverOriginal(c.env, id)
+			: await readProjectCover(c.env, project, size);
+		if ('redirect' in cover) return c.redirect(cover.redirect, 302);
+
+		return c.body(cover.body, {
+			headers: {
+				'Content-Type': cover.contentType,
+				// Access depends on the caller, so shared caches must not keep it
+				'Cache-Control': 'private, max-age=3600',
+			},
+		});
+	}
+);
+
+/**
+ * Download a project as a portable bundle: project.json, every lyrics
+ * version, the audio file and cover art, or the YouTube metadata
+ * @route GET /project/:id/export
+ * @param {string} request.params.id - The project ID
+ * @param {string} [request.query.access_token] - Media token, for download links that cannot send headers
+ * @returns {Stream} ZIP archive named `<project name>.chantastik.zip`
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow reviewing lyrics versions
+ * @throws {404} If project or its audio file is not found
+ * @throws {413} If the bundle would be too large to import again, see GET /project/:id/export/size
+ */
+project.get(
+	'/:id/export',
+	requireMediaUser,
+	validate('param', projectIdParamSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		// The bundle carries the whole lyrics history
+		await assertCan(c.env, project, c.get('user'), 'reviewLyrics');
+
+		if ((await estimateBundleSize(c.env, project)) > MAX_BUNDLE_SIZE) {
+			throw bundleTooLarge();
+		}
+
+		const entries = await buildProjectBundle(c.env, project);
+		const filename = `${project.name.replace(/[^\w\- ]+/g, '').trim() || 'project'}.chantastik.zip`;
+
+		return c.body(createZipStream(entries), 200, {
+			'Content-Type': 'application/zip',
+			'Content-Disposition': `attachment; filename="${filename}"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+			'Cache-Control': 'private, no-store',
+		});
+	}
+);
+
+/**
+ * Get the size of the bundle of a project and the largest bundle an import
+ * accepts, so clients can tell before exporting
+ * @route GET /project/:id/export/size
+ * @param {string} request.params.id - The project ID
+ * @returns {Object} JSON response with the estimated size and the maximum size, in bytes
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller's role does not allow reviewing lyrics versions
+ * @throws {404} If project or its audio file is not found
+ */
+project.get(
+	'/:id/export/size',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		await assertCan(c.env, project, c.get('user'), 'reviewLyrics');
+
+		return c.json({
+			size: await estimateBundleSize(c.env, project),
+			maxSize: MAX_BUNDLE_SIZE,
+		});
+	}
+);
+
+/**
+ * Create a project from a bundle made by GET /project/:id/export. Records get
+ * new IDs; audio already stored with the same content is reused when the
+ * caller can read it. The bundle is uploaded in parts first, see
+ * POST /audio/uploads with `bundle: true`, and read from R2 so the audio never
+ * has to fit in memory. The upload is discarded afterwards, whatever the outcome.
+ * @route POST /project/import
+ * @param {string} request.query.uploadId - The finished upload of the `.chantastik.zip` bundle
+ * @returns {Object} JSON response with the new project ID, status 201
+ * @throws {400} If parts are missing, the upload is not a bundle or the bundle is invalid
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the upload was started by someone else or the caller cannot create projects in its workspace
+ * @throws {404} If the upload does not exist or expired
+ * @throws {415} If the audio format of the bundle is unsupported
+ */
+project.post(
+	'/import',
+	requireUser,
+	validate('query', importBundleQuerySchema),
+	async (c) => {
+		const { uploadId } = c.req.valid('query');
+		const user = c.get('user');
+
+		const session = await getUploadSession(c.env.AUDIO_KV, uploadId, user);
+		if (session.audioId) throw badRequest('Upload is not a project bundle');
+		// Membership may have changed since the upload started
+		await assertCanCreateIn(c.env, session.workspaceId, user);
+		await assembleUpload(c.env, session);
+
+		try {
+			const project = await importProjectBundle(
+				c.env,
+				r2BundleSource(c.env.AUDIO_FILES, session.key, session.size),
+				user,
+				session.workspaceId
+			);
+
+			return c.json(
+				{
+					message: 'Project imported',
+					projectId: project.id,
+					audioId: project.audioId,
+				},
+				201
+			);
+		} finally {
+			await Promise.all([
+				c.env.AUDIO_FILES.delete(session.key),
+				deleteUploadSession(c.env.AUDIO_KV, uploadId),
+			]);
+		}
+	}
+);
+
+/**
+ * Delete a project along with its lyrics history, YouTube metadata, audio and covers
+ * @route DELETE /project/:id
+ * @param {string} request.params.id - The project ID
+ * @returns {Object} JSON response with the deleted project ID
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ * @throws {FORBIDDEN} If the caller's role does not allow deleting the project
+ * @throws {NOT_FOUND} If the project does not exist
+ */
+project.delete(
+	'/:id',
+	requireUser,
+	validate('param', projectIdParamSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const project = await getProjectOrThrow(c.env.PROJECT_KV, id);
+		await assertCan(c.env, project, c.get('user'), 'deleteProject');
+
+		await deleteProjectCascade(c.env, project);
+
+		return c.json({ message: 'Project deleted', id });
+	}
+);
+
+/**
+ * Hide the share token from roles that cannot manage the share link
+ */
+function withoutShareFor(role: WorkspaceRole, project: Project): Project {
+	if (!project.share || can(role, 'editProject')) return project;
+	const { share: _share, ...rest } = project;
+	return rest;
+}
+
+/**
+ * Check the preconditions of a lyrics write against the current version
+ * @throws {ApiError} 412 if If-Match does not match, 409 if baseVersionId is stale, with the current lyrics
+ */
+async function assertLyricsPrecondition(
+	kv: KVNamespace,
+	project: Project,
+	ifMatch: string | undefined,
+	baseVersionId?: string
+): Promise<void> {
+	const etag = project.lyricsId ? lyricsETag(project.lyricsId) : undefined;
+	const ifMatchOk = ifMatchSatisfied(ifMatch, etag);
+	const baseOk =
+		baseVersionId === undefined || baseVersionId === project.lyricsId;
+
+	if (ifMatchOk && baseOk) return;
+
+	const current = project.lyricsId
+		? await getLyricsById(kv, project.lyricsId)
+		: null;
+
+	throw new ApiError(
+		ifMatchOk ? 409 : 412,
+		ifMatchOk ? 'CONFLICT' : 'PRECONDITION_FAILED',
+		'Lyrics were modified by someone else',
+		{ details: { current }, headers: etag ? { ETag: etag } : undefined }
+	);
+}
+
+/**
+ * Check that an audio record exists and the caller may play it in a new
+ * project; YouTube projects use a virtual audio ID and always pass
+ * @throws {ApiError} 404 if the audio does not exist, 403 without access to it
+ */
+async function assertCanUseAudio(
+	env: Bindings,
+	audioId: string,
+	user: AuthUser
+): Promise<void> {
+	if (audioId.startsWith('youtube-virtual-')) return;
 
-	return c.json({ message: 'Project deleted', id });
-});
+	const raw = await env.AUDIO_KV.get(`audio:${audioId}`);
+	if (!raw) throw notFound('Audio not found');
+	await assertCan(env, JSON.parse(raw) as Audio, user, 'read');
+}
 
 export default project;
\ No newline at end of file
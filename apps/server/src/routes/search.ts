@@ -0,0 +1,36 @@
+import { Hono } from 'hono';
+import { Bindings } from '../types';
+import { validate } from '../validation';
+import { searchQuerySchema } from '../schemas';
+import { searchProjects } from '../search';
+import { requireUser } from '../auth';
+import { listMemberships } from '../workspaces';
+
+const search = new Hono<{
+	Bindings: Bindings;
+}>();
+
+/**
+ * Search lyrics, project names and audio tags of the caller's projects and those of their workspaces
+ * @route GET /search
+ * @param {string} request.query.q - Search text, the last word also matches as a prefix
+ * @param {number} [request.query.limit=20] - Maximum number of hits, at most 50
+ * @returns {Object} JSON response with hits ranked by score, lyric hits carry the line ID and timestamp
+ * @throws {VALIDATION_ERROR} If q is missing or shorter than 2 characters
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ */
+search.get('/', requireUser, validate('query', searchQuerySchema), async (c) => {
+	const { q, limit } = c.req.valid('query');
+
+	const user = c.get('user');
+	const memberships = await listMemberships(c.env.USERS_KV, user.id);
+
+	const hits = await searchProjects(c.env, q, limit, {
+		ownerId: user.id,
+		workspaceIds: memberships.map((m) => m.workspaceId),
+	});
+
+	return c.json({ query: q, hits });
+});
+
+export default search;
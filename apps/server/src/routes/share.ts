@@ -0,0 +1,149 @@
+import { Hono } from 'hono';
+import { Audio, Bindings, Project } from '../types';
+import { notFound } from '../errors';
+import { validate } from '../validation';
+import { shareTokenParamSchema } from '../schemas';
+import { getSharedProject } from '../shares';
+import { getLyricsById } from '../lyrics';
+import { getAudioKey } from '../audio-formats';
+import { readAudioFile } from '../media';
+import { readProjectCover } from '../covers';
+
+/**
+ * Public, read-only access to shared projects. No session is needed: the
+ * token in the path is the credential, so nothing here may be cached where
+ * it would outlive a revoked link.
+ */
+const share = new Hono<{
+	Bindings: Bindings;
+}>();
+
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+const isYoutubeAudio = (audioId: string) =>
+	audioId.startsWith('youtube-virtual-');
+
+async function getSharedProjectOrThrow(
+	env: Bindings,
+	token: string
+): Promise<Project> {
+	const project = await getSharedProject(env, token);
+	if (!project) throw notFound('Share link not found or revoked');
+	return project;
+}
+
+/**
+ * Get a shared project for the read-only player
+ * @route GET /share/:token
+ * @param {string} request.params.token - The share token
+ * @returns {Object} JSON response with the project name, track details, cover and audio URLs and the timed lyric lines
+ * @throws {NOT_FOUND} If the token is unknown or was revoked
+ */
+share.get('/:token', validate('param', shareTokenParamSchema), async (c) => {
+	const { token } = c.req.valid('param');
+	const project = await getSharedProjectOrThrow(c.env, token);
+
+	const lyrics = project.lyricsId
+		? await getLyricsById(c.env.LYRICS_KV, project.lyricsId)
+		: null;
+	const lines = (lyrics?.lines ?? []).map(({ id, text, timestamp }) => ({
+		id,
+		text,
+		timestamp,
+	}));
+
+	// The media routes below this one: /share/:token/audio and /cover
+	const baseUrl = new URL(`${c.req.path}/`, c.req.url);
+
+	let track: {
+		title?: string;
+		artist?: string;
+		duration?: number;
+	} = {};
+	let youtube: { videoId: string; url?: string } | null = null;
+
+	if (isYoutubeAudio(project.audioId)) {
+		const youtubeMetaRaw = await c.env.PROJECT_KV.get(
+			`youtube-meta:${project.id}`
+		);
+		const youtubeMeta = youtubeMetaRaw ? JSON.parse(youtubeMetaRaw) : null;
+		track = {
+			title: youtubeMeta?.title,
+			artist: youtubeMeta?.channelTitle,
+			duration: youtubeMeta?.parsedDuration,
+		};
+		youtube = {
+			videoId: project.audioId.replace('youtube-virtual-', ''),
+			url: youtubeMeta?.url ?? undefined,
+		};
+	} else {
+		const raw = await c.env.AUDIO_KV.get(`audio:${project.audioId}`);
+		const audio = raw ? (JSON.parse(raw) as Audio) : null;
+		track = {
+			title: audio?.metadata?.title,
+			artist: audio?.metadata?.artist,
+			duration: audio?.metadata?.duration,
+		};
+	}
+
+	return c.json(
+		{
+			name: project.name,
+			...track,
+			coverUrl: new URL('cover', baseUrl).toString(),
+			audioUrl: youtube ? null : new URL('audio', baseUrl).toString(),
+			youtube,
+			lines,
+		},
+		200,
+		NO_STORE
+	);
+});
+
+/**
+ * Stream the audio of a shared project with range request support
+ * @route GET /share/:token/audio
+ * @param {string} request.params.token - The share token
+ * @returns {Stream} Audio file stream with appropriate content-type
+ * @throws {NOT_FOUND} If the token is unknown or revoked, or the project has no uploaded audio
+ */
+share.get('/:token/audio', validate('param', shareTokenParamSchema), async (c) => {
+	const { token } = c.req.valid('param');
+	const project = await getSharedProjectOrThrow(c.env, token);
+	if (isYoutubeAudio(project.audioId)) {
+		throw notFound('YouTube projects have no audio file');
+	}
+
+	const raw = await c.env.AUDIO_KV.get(`audio:${project.audioId}`);
+	const audio = raw ? (JSON.parse(raw) as Audio) : null;
+
+	const { body, status, headers } = await readAudioFile(
+		c.env.AUDIO_FILES,
+		getAudioKey(audio ?? { id: project.audioId }),
+		c.req.header('range'),
+		audio?.contentType
+	);
+
+	return c.body(body, { status, headers: { ...headers, ...NO_STORE } });
+});
+
+/**
+ * Get the cover art of a shared project, the uploaded cover when it has one
+ * @route GET /share/:token/cover
+ * @param {string} request.params.token - The share token
+ * @returns {Stream} Cover art image stream, or a redirect to the YouTube thumbnail
+ * @throws {NOT_FOUND} If the token is unknown or revoked, or there is no cover art
+ */
+share.get('/:token/cover', validate('param', shareTokenParamSchema), async (c) => {
+	const { token } = c.req.valid('param');
+	const project = await getSharedProjectOrThrow(c.env, token);
+
+	const cover = await readProjectCover(c.env, project, 1080);
+	if ('redirect' in cover) return c.redirect(cover.redirect, 302);
+
+	return c.body(cover.body, {
+		headers: { 'Content-Type': cover.contentType, ...NO_STORE },
+	});
+});
+
+export default share;
@@ -0,0 +1,360 @@
+import { Hono } from 'hono';
+import { v4 as uuidv4 } from 'uuid';
+import { Audio, AuthUser, Bindings, UploadSession } from '../types';
+import { ApiError, badRequest, notFound } from '../errors';
+import { validate } from '../validation';
+import {
+	initiateUploadSchema,
+	uploadIdParamSchema,
+	uploadPartParamSchema,
+} from '../schemas';
+import { SUPPORTED_AUDIO_EXTENSIONS, resolveAudioFormat } from '../audio-formats';
+import {
+	MAX_UPLOAD_SIZE,
+	UPLOAD_SESSION_TTL,
+	UploadedPart,
+	assembleUpload,
+	assertNotDuplicate,
+	createAudioProject,
+	deleteUploadSession,
+	extractEmbeddedLyrics,
+	getProjectsOfReplacedAudio,
+	getUploadSession,
+	hashUploadedFile,
+	listUploadedParts,
+	parseUploadedFile,
+	toAudioMetadata,
+	uploadPartKey,
+	uploadSessionKey,
+} from '../audio-upload';
+import { resolveBundleFormat } from '../bundles';
+import { requireUser } from '../auth';
+import { assertCanCreateIn } from '../workspaces';
+
+const uploads = new Hono<{
+	Bindings: Bindings;
+	Variables: { user: AuthUser };
+}>();
+
+// Uploads belong to the user who started them
+uploads.use('*', requireUser);
+
+// R2 needs equally sized parts of at least 5 MiB, except the last one
+const PART_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Hash the assembled file, check for duplicates, extract metadata and cover
+ * art and create the project, as POST /audio does. The file is read twice,
+ * once per pass, so it never sits in memory.
+ */
+async function createUploadedAudio(
+	env: Bindings,
+	session: UploadSession,
+	audioId: string,
+	user: AuthUser
+) {
+	const fileHash = await hashUploadedFile(env, session);
+	await assertNotDuplicate(env, fileHash, user);
+
+	const { metadata, coverArt } = await parseUploadedFile(
+		env,
+		session,
+		audioId
+	);
+
+	const meta: Audio = {
+		id: audioId,
+		filename: session.filename,
+		contentType: session.contentType,
+		storageKey: session.key,
+		size: session.size,
+		fileHash,
+		ownerId: session.ownerId,
+		workspaceId: session.workspaceId,
+		createdAt: new Date().toISOString(),
+		metadata: toAudioMetadata(metadata),
+		coverArt,
+	};
+
+	const { project, lyrics } = await createAudioProject(
+		env,
+		meta,
+		extractEmbeddedLyrics(metadata)
+	);
+	return { meta, project, lyrics };
+}
+
+/**
+ * Start a resumable upload, of a new track, of a file replacing the one of
+ * an audio record, which PUT /audio/:id then puts in place, or of a project
+ * bundle, which POST /project/import then reads
+ * @route POST /audio/uploads
+ * @param {Object} request.body - File name, MIME type and size in bytes, optionally the workspace of the new project, the audio to replace or `bundle: true`
+ * @returns {Object} JSON response with the upload ID, part size and part count
+ * @throws {UNSUPPORTED_MEDIA_TYPE} If the format is not supported or a bundle is not a ZIP archive
+ * @throws {PAYLOAD_TOO_LARGE} If the file is larger than 2 GB
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ * @throws {FORBIDDEN} If the caller cannot create projects in the workspace, or edit the audio to replace and every project using it
+ * @throws {NOT_FOUND} If the audio to replace does not exist
+ */
+uploads.post('/', validate('json', initiateUploadSchema), async (c) => {
+	const { filename, contentType, size, workspaceId, replaceAudioId, bundle } =
+		c.req.valid('json');
+	const user = c.get('user');
+
+	let replaced: Audio | null = null;
+	if (replaceAudioId) {
+		const raw = await c.env.AUDIO_KV.get(`audio:${replaceAudioId}`);
+		if (!raw) throw notFound('Audio not found');
+		replaced = JSON.parse(raw) as Audio;
+		// Checked again when the file is put in place
+		await getProjectsOfReplacedAudio(c.env, replaced, user);
+	} else {
+		await assertCanCreateIn(c.env, workspaceId, user);
+	}
+
+	const format = bundle
+		? resolveBundleFormat(contentType, filename)
+		: resolveAudioFormat(contentType, filename);
+	if (!format) {
+		throw bundle
+			? new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Expected application/zip')
+			: new ApiError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Invalid file type', {
+					details: { supported: SUPPORTED_AUDIO_EXTENSIONS },
+				});
+	}
+	if (size > MAX_UPLOAD_SIZE) {
+		throw new ApiError(
+			413,
+			'PAYLOAD_TOO_LARGE',
+			`File size exceeds the maximum limit of ${MAX_UPLOAD_SIZE / (1024 * 1024 * 1024)} GB`
+		);
+	}
+
+	const sessionId = uuidv4();
+	const audioId = bundle ? undefined : (replaced?.id ?? uuidv4());
+	// A replacement gets its own key, the current file plays until it is
+	// swapped. Bundles are deleted once imported.
+	const key = bundle
+		? `imports/${sessionId}.${format.extension}`
+		: replaced
+			? `${audioId}-${sessionId}.${format.extension}`
+			: `${audioId}.${format.extension}`;
+	const multipart = await c.env.AUDIO_FILES.createMultipartUpload(key, {
+		httpMetadata: { contentType: format.contentType },
+	});
+
+	const session: UploadSession = {
+		id: sessionId,
+		r2UploadId: multipart.uploadId,
+		ownerId: user.id,
+		workspaceId: replaced ? replaced.workspaceId : workspaceId,
+		audioId,
+		replacesAudio: replaced ? true : undefined,
+		key,
+		filename,
+		contentType: format.contentType,
+		size,
+		partSize: PART_SIZE,
+		partCount: Math.ceil(size / PART_SIZE),
+		createdAt: new Date().toISOString(),
+	};
+
+	await c.env.AUDIO_KV.put(
+		uploadSessionKey(session.id),
+		JSON.stringify(session),
+		{ expirationTtl: UPLOAD_SESSION_TTL }
+	);
+
+	return c.json({
+		uploadId: session.id,
+		audioId,
+		partSize: session.partSize,
+		partCount: session.partCount,
+	});
+});
+
+/**
+ * Get the state of an upload, to resume it after a pause or a failure
+ * @route GET /audio/uploads/:uploadId
+ * @param {string} request.params.uploadId - The upload ID
+ * @returns {Object} JSON response with the part layout and the part numbers already stored
+ * @throws {FORBIDDEN} If the upload was started by someone else
+ * @throws {NOT_FOUND} If the upload does not exist or expired
+ */
+uploads.get('/:uploadId', validate('param', uploadIdParamSchema), async (c) => {
+	const { uploadId } = c.req.valid('param');
+	const session = await getUploadSession(
+		c.env.AUDIO_KV,
+		uploadId,
+		c.get('user')
+	);
+	const { parts } = await listUploadedParts(c.env.AUDIO_KV, uploadId);
+
+	return c.json({
+		uploadId,
+		audioId: session.audioId,
+		size: session.size,
+		partSize: session.partSize,
+		partCount: session.partCount,
+		uploadedParts: parts.map((part) => part.partNumber),
+	});
+});
+
+/**
+ * Upload one part. Uploading a part again replaces it, so failed parts can be retried.
+ * @route PUT /audio/uploads/:uploadId/parts/:partNumber
+ * @param {string} request.params.uploadId - The upload ID
+ * @param {number} request.params.partNumber - 1-based part number
+ * @param {ArrayBuffer} request.body - Raw bytes of the part
+ * @returns {Object} JSON response with the stored part
+ * @throws {FORBIDDEN} If the upload was started by someone else
+ * @throws {NOT_FOUND} If the upload does not exist or expired
+ * @throws {BAD_REQUEST} If the part number or size does not match the layout
+ */
+uploads.put(
+	'/:uploadId/parts/:partNumber',
+	validate('param', uploadPartParamSchema),
+	async (c) => {
+		const { uploadId, partNumber } = c.req.valid('param');
+		const session = await getUploadSession(
+			c.env.AUDIO_KV,
+			uploadId,
+			c.get('user')
+		);
+
+		if (partNumber > session.partCount) {
+			throw badRequest(
+				`Part number must be between 1 and ${session.partCount}`
+			);
+		}
+
+		const expectedSize =
+			partNumber < session.partCount
+				? session.partSize
+				: session.size - session.partSize * (session.partCount - 1);
+		const body = await c.req.arrayBuffer();
+		if (body.byteLength !== expectedSize) {
+			throw badRequest(
+				`Part ${partNumber} must be ${expectedSize} bytes, got ${body.byteLength}`
+			);
+		}
+
+		const multipart = c.env.AUDIO_FILES.resumeMultipartUpload(
+			session.key,
+			session.r2UploadId
+		);
+		const uploaded = await multipart.uploadPart(partNumber, body);
+
+		const part: UploadedPart = {
+			partNumber,
+			etag: uploaded.etag,
+			size: body.byteLength,
+		};
+		await c.env.AUDIO_KV.put(
+			uploadPartKey(uploadId, partNumber),
+			JSON.stringify(part),
+			{ expirationTtl: UPLOAD_SESSION_TTL }
+		);
+
+		return c.json(part);
+	}
+);
+
+/**
+ * Assemble the parts, then hash the file, check for duplicates, extract
+ * metadata and cover art and create the project, as POST /audio does. The
+ * upload stays open until the project exists, so a request that timed out
+ * can be sent again.
+ * @route POST /audio/uploads/:uploadId/complete
+ * @param {string} request.params.uploadId - The upload ID
+ * @returns {Object} JSON response with the project ID, audio metadata and the lyrics imported from its tags
+ * @throws {FORBIDDEN} If the upload was started by someone else
+ * @throws {NOT_FOUND} If the upload does not exist or expired
+ * @throws {BAD_REQUEST} If parts are missing or metadata cannot be extracted
+ * @throws {DUPLICATE_FILE} If the same file was already uploaded
+ */
+uploads.post(
+	'/:uploadId/complete',
+	validate('param', uploadIdParamSchema),
+	async (c) => {
+		const { uploadId } = c.req.valid('param');
+		const session = await getUploadSession(
+			c.env.AUDIO_KV,
+			uploadId,
+			c.get('user')
+		);
+		if (session.replacesAudio) {
+			throw badRequest('Finish a replacement with PUT /audio/:id');
+		}
+		const { audioId } = session;
+		if (!audioId) {
+			throw badRequest('Finish a bundle upload with POST /project/import');
+		}
+
+		await assembleUpload(c.env, session);
+
+		// The session goes once the audio record exists, a failure before
+		// removes the file as well since the upload cannot be completed anymore
+		let result;
+		try {
+			result = await createUploadedAudio(
+				c.env,
+				session,
+				audioId,
+				c.get('user')
+			);
+		} catch (error) {
+			await Promise.all([
+				c.env.AUDIO_FILES.delete(session.key),
+				deleteUploadSession(c.env.AUDIO_KV, uploadId),
+			]);
+			throw error;
+		}
+		await deleteUploadSession(c.env.AUDIO_KV, uploadId);
+
+		const { meta, project, lyrics } = result;
+		return c.json({
+			message: 'Uploaded',
+			projectId: project.id,
+			audioMetadata: meta,
+			embeddedLyrics: lyrics,
+		});
+	}
+);
+
+/**
+ * Abort an upload and discard its parts
+ * @route DELETE /audio/uploads/:uploadId
+ * @param {string} request.params.uploadId - The upload ID
+ * @returns {Object} JSON response with the aborted upload ID
+ * @throws {FORBIDDEN} If the upload was started by someone else
+ * @throws {NOT_FOUND} If the upload does not exist or expired
+ */
+uploads.delete(
+	'/:uploadId',
+	validate('param', uploadIdParamSchema),
+	async (c) => {
+		const { uploadId } = c.req.valid('param');
+		const session = await getUploadSession(
+			c.env.AUDIO_KV,
+			uploadId,
+			c.get('user')
+		);
+
+		await c.env.AUDIO_FILES.resumeMultipartUpload(
+			session.key,
+			session.r2UploadId
+		)
+			.abort()
+			.catch((error) => {
+				// Already aborted or expired on the R2 side
+				console.error('Error aborting upload:', error);
+			});
+		await deleteUploadSession(c.env.AUDIO_KV, uploadId);
+
+		return c.json({ message: 'Upload aborted', uploadId });
+	}
+);
+
+export default uploads;
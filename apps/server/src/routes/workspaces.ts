@@ -0,0 +1,317 @@
+import { Hono } from 'hono';
+import { AuthUser, Bindings, Workspace, WorkspaceRole } from '../types';
+import { ApiError, notFound } from '../errors';
+import { validate } from '../validation';
+import {
+	addWorkspaceMemberSchema,
+	updateWorkspaceMemberSchema,
+	workspaceBodySchema,
+	workspaceIdParamSchema,
+	workspaceMemberParamSchema,
+} from '../schemas';
+import { getUserByEmail, getUserById, requireUser } from '../auth';
+import {
+	assertKeepsOwner,
+	can,
+	createWorkspace,
+	deleteWorkspace,
+	getMemberOrThrow,
+	getMemberRole,
+	getWorkspaceOrThrow,
+	listMemberships,
+	permissionsOf,
+	saveWorkspace,
+} from '../workspaces';
+import { queryProjectIndex } from '../project-index';
+
+const workspaces = new Hono<{
+	Bindings: Bindings;
+	Variables: { user: AuthUser };
+}>();
+
+workspaces.use('*', requireUser);
+
+/**
+ * Add the email and name of every member and the caller's permissions
+ */
+async function toWorkspaceResponse(
+	env: Bindings,
+	workspace: Workspace,
+	role: WorkspaceRole
+) {
+	const members = await Promise.all(
+		workspace.members.map(async (member) => {
+			const user = await getUserById(env.USERS_KV, member.userId);
+			return { ...member, email: user?.email, name: user?.name };
+		})
+	);
+	return { ...workspace, members, role, permissions: permissionsOf(role) };
+}
+
+/**
+ * Load a workspace the caller belongs to
+ * @throws {ApiError} 404 if the workspace does not exist or the caller is not a member
+ */
+async function getWorkspaceForMember(
+	env: Bindings,
+	workspaceId: string,
+	user: AuthUser
+) {
+	const role = await getMemberRole(env.USERS_KV, workspaceId, user.id);
+	// Non-members cannot tell a foreign workspace from a missing one
+	if (!role) throw notFound('Workspace not found');
+	const workspace = await getWorkspaceOrThrow(env.USERS_KV, workspaceId);
+	return { workspace, role };
+}
+
+function assertCanManage(role: WorkspaceRole) {
+	if (!can(role, 'manageWorkspace')) {
+		throw new ApiError(
+			403,
+			'FORBIDDEN',
+			`Your role (${role}) does not allow this action`,
+			{ details: { role, permission: 'manageWorkspace' } }
+		);
+	}
+}
+
+/**
+ * Create a workspace with the caller as its owner
+ * @route POST /workspaces
+ * @param {Object} request.body - The workspace name
+ * @returns {Object} JSON response with the workspace, status 201
+ * @throws {VALIDATION_ERROR} If the name is missing
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ */
+workspaces.post('/', validate('json', workspaceBodySchema), async (c) => {
+	const { name } = c.req.valid('json');
+
+	const workspace = await createWorkspace(c.env.USERS_KV, name, c.get('user'));
+
+	return c.json(await toWorkspaceResponse(c.env, workspace, 'owner'), 201);
+});
+
+/**
+ * List the workspaces of the caller with their role and permissions
+ * @route GET /workspaces
+ * @returns {Object} JSON response with the workspaces, sorted by name
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ */
+workspaces.get('/', async (c) => {
+	const memberships = await listMemberships(c.env.USERS_KV, c.get('user').id);
+
+	return c.json({
+		workspaces: memberships.map((membership) => ({
+			...membership,
+			permissions: permissionsOf(membership.role),
+		})),
+	});
+});
+
+/**
+ * Get a workspace with its members
+ * @route GET /workspaces/:id
+ * @param {string} request.params.id - The workspace ID
+ * @returns {Object} JSON response with the workspace, its members and the caller's role
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ * @throws {NOT_FOUND} If the workspace does not exist or the caller is not a member
+ */
+workspaces.get('/:id', validate('param', workspaceIdParamSchema), async (c) => {
+	const { id } = c.req.valid('param');
+
+	const { workspace, role } = await getWorkspaceForMember(
+		c.env,
+		id,
+		c.get('user')
+	);
+
+	return c.json(await toWorkspaceResponse(c.env, workspace, role));
+});
+
+/**
+ * Rename a workspace
+ * @route PUT /workspaces/:id
+ * @param {string} request.params.id - The workspace ID
+ * @param {Object} request.body - The new name
+ * @returns {Object} JSON response with the workspace
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ * @throws {FORBIDDEN} If the caller is not an owner
+ * @throws {NOT_FOUND} If the workspace does not exist or the caller is not a member
+ */
+workspaces.put(
+	'/:id',
+	validate('param', workspaceIdParamSchema),
+	validate('json', workspaceBodySchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const { name } = c.req.valid('json');
+
+		const { workspace, role } = await getWorkspaceForMember(
+			c.env,
+			id,
+			c.get('user')
+		);
+		assertCanManage(role);
+
+		workspace.name = name;
+		// Membership keys carry the name, so they are rewritten as well
+		await saveWorkspace(c.env.USERS_KV, workspace);
+
+		return c.json(await toWorkspaceResponse(c.env, workspace, role));
+	}
+);
+
+/**
+ * Delete an empty workspace
+ * @route DELETE /workspaces/:id
+ * @param {string} request.params.id - The workspace ID
+ * @returns {Object} JSON response with the deleted workspace ID
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ * @throws {FORBIDDEN} If the caller is not an owner
+ * @throws {NOT_FOUND} If the workspace does not exist or the caller is not a member
+ * @throws {CONFLICT} If the workspace still has projects
+ */
+workspaces.delete('/:id', validate('param', workspaceIdParamSchema), async (c) => {
+	const { id } = c.req.valid('param');
+
+	const { workspace, role } = await getWorkspaceForMember(
+		c.env,
+		id,
+		c.get('user')
+	);
+	assertCanManage(role);
+
+	const { ids } = await queryProjectIndex(c.env.PROJECT_KV, {
+		scope: { workspaceId: id },
+		sort: 'updatedAt',
+		limit: 1,
+		filters: {},
+	});
+	if (ids.length > 0) {
+		throw new ApiError(
+			409,
+			'CONFLICT',
+			'Delete or move the projects of this workspace first'
+		);
+	}
+
+	await deleteWorkspace(c.env.USERS_KV, workspace);
+
+	return c.json({ message: 'Workspace deleted', id });
+});
+
+/**
+ * Add a registered user to a workspace
+ * @route POST /workspaces/:id/members
+ * @param {string} request.params.id - The workspace ID
+ * @param {Object} request.body - Email of the user and their role
+ * @returns {Object} JSON response with the workspace, status 201
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ * @throws {FORBIDDEN} If the caller is not an owner
+ * @throws {NOT_FOUND} If the workspace or the user does not exist
+ * @throws {CONFLICT} If the user is already a member
+ */
+workspaces.post(
+	'/:id/members',
+	validate('param', workspaceIdParamSchema),
+	validate('json', addWorkspaceMemberSchema),
+	async (c) => {
+		const { id } = c.req.valid('param');
+		const { email, role: memberRole } = c.req.valid('json');
+
+		const { workspace, role } = await getWorkspaceForMember(
+			c.env,
+			id,
+			c.get('user')
+		);
+		assertCanManage(role);
+
+		const member = await getUserByEmail(c.env.USERS_KV, email);
+		if (!member) throw notFound('No account uses this email');
+		if (workspace.members.some((m) => m.userId === member.id)) {
+			throw new ApiError(409, 'CONFLICT', 'User is already a member');
+		}
+
+		workspace.members.push({
+			userId: member.id,
+			role: memberRole,
+			addedAt: new Date().toISOString(),
+		});
+		await saveWorkspace(c.env.USERS_KV, workspace);
+
+		return c.json(await toWorkspaceResponse(c.env, workspace, role), 201);
+	}
+);
+
+/**
+ * Change the role of a member
+ * @route PUT /workspaces/:id/members/:userId
+ * @param {string} request.params.id - The workspace ID
+ * @param {string} request.params.userId - The member's user ID
+ * @param {Object} request.body - The new role
+ * @returns {Object} JSON response with the workspace
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ * @throws {FORBIDDEN} If the caller is not an owner
+ * @throws {NOT_FOUND} If the workspace or the member does not exist
+ * @throws {CONFLICT} If the last owner would lose the owner role
+ */
+workspaces.put(
+	'/:id/members/:userId',
+	validate('param', workspaceMemberParamSchema),
+	validate('json', updateWorkspaceMemberSchema),
+	async (c) => {
+		const { id, userId } = c.req.valid('param');
+		const { role: memberRole } = c.req.valid('json');
+		const user = c.get('user');
+
+		const { workspace, role } = await getWorkspaceForMember(c.env, id, user);
+		assertCanManage(role);
+
+		const member = getMemberOrThrow(workspace, userId);
+		if (memberRole !== 'owner') assertKeepsOwner(workspace, userId);
+		member.role = memberRole;
+		await saveWorkspace(c.env.USERS_KV, workspace);
+
+		return c.json(
+			await toWorkspaceResponse(
+				c.env,
+				workspace,
+				userId === user.id ? memberRole : role
+			)
+		);
+	}
+);
+
+/**
+ * Remove a member, or leave a workspace when the user is the caller
+ * @route DELETE /workspaces/:id/members/:userId
+ * @param {string} request.params.id - The workspace ID
+ * @param {string} request.params.userId - The member's user ID
+ * @returns {Object} JSON response with the removed user ID
+ * @throws {UNAUTHORIZED} If the caller is not signed in
+ * @throws {FORBIDDEN} If the caller removes someone else without being an owner
+ * @throws {NOT_FOUND} If the workspace or the member does not exist
+ * @throws {CONFLICT} If the member is the last owner
+ */
+workspaces.delete(
+	'/:id/members/:userId',
+	validate('param', workspaceMemberParamSchema),
+	async (c) => {
+		const { id, userId } = c.req.valid('param');
+		const user = c.get('user');
+
+		const { workspace, role } = await getWorkspaceForMember(c.env, id, user);
+		if (userId !== user.id) assertCanManage(role);
+
+		getMemberOrThrow(workspace, userId);
+		assertKeepsOwner(workspace, userId);
+
+		const previous = structuredClone(workspace);
+		workspace.members = workspace.members.filter((m) => m.userId !== userId);
+		await saveWorkspace(c.env.USERS_KV, workspace, previous);
+
+		return c.json({ message: 'Member removed', id, userId });
+	}
+);
+
+export default workspaces;
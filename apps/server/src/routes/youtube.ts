@@ -1,7 +1,13 @@
 import { Hono } from "hono";
 import { v4 as uuidv4 } from 'uuid';
 import { Bindings, Project } from "../types";
-import { checkRateLimit, extractLyricsFromTitle, extractVideoId, parseDurationToSeconds, sanitizeSearchQuery, sanitizeYouTubeResponse, saveProject } from "../utils";
+import { checkRateLimit, extractLyricsFromTitle, extractVideoId, getProjectOrThrow, parseDurationToSeconds, sanitizeSearchQuery, sanitizeYouTubeResponse, saveProject } from "../utils";
+import { ApiError, badRequest, notFound } from "../errors";
+import { validate } from "../validation";
+import { indexProjectForSearch } from "../search";
+import { requireUser } from "../auth";
+import { assertCan, assertCanCreateIn } from "../workspaces";
+import { lyricsExtractSchema, projectIdParamSchema, youtubeProjectSchema, youtubeSearchQuerySchema } from "../schemas";
 
 const youtube = new Hono<{
     Bindings: Bindings;
@@ -10,98 +16,92 @@ const youtube = new Hono<{
 /**
  * Create a project from YouTube video metadata without downloading audio
  * @route POST /from-youtube
- * @param {Object} request.body - YouTube video metadata
+ * @param {Object} request.body - YouTube video metadata, optionally the workspace of the new project
  * @returns {Object} JSON response with project ID
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller cannot create projects in the workspace
  */
-youtube.post('/from-youtube', async (c) => {
-	try {
-		const { videoId, title, channelTitle, duration, thumbnail, url, description } = await c.req.json();
-
-		if (!videoId || !title) {
-			return c.json({ error: 'Video ID and title are required' }, 400);
-		}
-
-		// Create simplified project without audio dependency
-		const projectId = uuidv4();
-		const now = new Date().toISOString();
-
-		const project: Project = {
-			id: projectId,
-			name: `${title.substring(0, 100)} - ${channelTitle.substring(0, 50)}`,
-			createdAt: now,
-			updatedAt: now,
-			audioId: `youtube-virtual-${videoId}`, // Use a virtual audio ID
-			metadata: {
-				tags: ['youtube', 'playlist', 'virtual'],
-				category: 'youtube-import',
-        link: url,
-			},
-		};
-
-		// Store YouTube metadata separately in project KV with a special key
-		const youtubeMetadata = {
-			videoId,
-			title,
-			channelTitle,
-			duration,
-			thumbnail,
-			url,
-			description: description?.substring(0, 500) || '',
-			parsedDuration: parseDurationToSeconds(duration),
-			isVirtual: true,
-			importedAt: now,
-		};
-
-		await saveProject(c.env.PROJECT_KV, project);
-    await c.env.COVER_FILES.put(`cover:${projectId}`, thumbnail || '');
-		
-		// Store YouTube metadata with special key
-		await c.env.PROJECT_KV.put(`youtube-meta:${projectId}`, JSON.stringify(youtubeMetadata));
-
-		return c.json({
-			message: 'Project created from YouTube video',
-			projectId: projectId,
-			youtubeMetadata: youtubeMetadata,
-		});
-	} catch (error) {
-		console.error('Error creating YouTube project:', error);
-		return c.json({ error: 'Failed to create project' }, 500);
-	}
+youtube.post('/from-youtube', requireUser, validate('json', youtubeProjectSchema), async (c) => {
+	const { videoId, title, channelTitle, duration, thumbnail, url, description, workspaceId } = c.req.valid('json');
+	await assertCanCreateIn(c.env, workspaceId, c.get('user'));
+
+	// Create simplified project without audio dependency
+	const projectId = uuidv4();
+	const now = new Date().toISOString();
+
+	const project: Project = {
+		id: projectId,
+		name: `${title.substring(0, 100)} - ${channelTitle.substring(0, 50)}`,
+		createdAt: now,
+		updatedAt: now,
+		ownerId: c.get('user').id,
+		workspaceId,
+		audioId: `youtube-virtual-${videoId}`, // Use a virtual audio ID
+		metadata: {
+			tags: ['youtube', 'playlist', 'virtual'],
+			category: 'youtube-import',
+        link: url ?? undefined,
+		},
+	};
+
+	// Store YouTube metadata separately in project KV with a special key
+	const youtubeMetadata = {
+		videoId,
+		title,
+		channelTitle,
+		duration,
+		thumbnail,
+		url,
+		description: description?.substring(0, 500) || '',
+		parsedDuration: parseDurationToSeconds(duration),
+		isVirtual: true,
+		importedAt: now,
+	};
+
+	await saveProject(c.env.PROJECT_KV, project);
+
+	// Store YouTube metadata with special key
+	await c.env.PROJECT_KV.put(`youtube-meta:${projectId}`, JSON.stringify(youtubeMetadata));
+	await indexProjectForSearch(c.env, project);
+
+	return c.json({
+		message: 'Project created from YouTube video',
+		projectId: projectId,
+		youtubeMetadata: youtubeMetadata,
+	});
 });
 
 
 
-youtube.get('/search', async (c) => {
-  const input = c.req.query('input')?.trim();
-  if (!input) {
-    return c.text('Missing input', 400);
-  }
+youtube.get('/search', requireUser, validate('query', youtubeSearchQuerySchema), async (c) => {
+  const { input } = c.req.valid('query');
 
   // Rate limiting
   const clientIP = c.req.header('CF-Connecting-IP') || c.req.header('X-Forwarded-For') || 'unknown';
   const { allowed } = await checkRateLimit(c.env.AUDIO_KV, `youtube:${clientIP}`, 10, 60);
   if (!allowed) {
-    return c.text('Rate limit exceeded. Please try again later.', 429);
+    throw new ApiError(429, 'RATE_LIMITED', 'Rate limit exceeded. Please try again later.');
   }
 
   // Check if it's a URL
   const isUrl = /^https?:\/\//i.test(input);
 
+  const apiKey = c.env.YOUTUBE_API_KEY;
+  if (!apiKey) {
+    throw new ApiError(500, 'INTERNAL_ERROR', 'YouTube API key not configured');
+  }
+
   try {
-    const apiKey = c.env.YOUTUBE_API_KEY;
-    if (!apiKey) {
-      return c.text('YouTube API key not configured', 500);
-    }
 
     if (isUrl) {
       // 🔹 URL case → extract the ID and fetch directly
       const videoId = extractVideoId(input);
       if (!videoId) {
-        return c.text('Invalid YouTube URL', 400);
+        throw badRequest('Invalid YouTube URL');
       }
       const detailsUrl = `https://www.googleapis.com/youtube/v3/videos?part=snippet,contentDetails&id=${encodeURIComponent(videoId)}&key=${apiKey}`;
       const resp = await fetch(detailsUrl);
-      if (!resp.ok) return c.text('Failed to fetch video details', 503);
+      if (!resp.ok) throw new ApiError(503, 'UPSTREAM_ERROR', 'Failed to fetch video details');
 
       const data = await resp.json();
       if (!data.items?.length) return c.json({ results: [] });
@@ -123,7 +123,7 @@ youtube.get('/search', async (c) => {
       let searchQuery = `part=snippet&type=video&maxResults=10&key=${apiKey}&q=${encodeURIComponent(sanitized)}&order=relevance&videoEmbeddable=true&videoSyndicated=true`;
       const searchUrl = `https://www.googleapis.com/youtube/v3/search?${searchQuery}`;
       const resp = await fetch(searchUrl);
-      if (!resp.ok) return c.text('YouTube search temporarily unavailable', 503);
+      if (!resp.ok) throw new ApiError(503, 'UPSTREAM_ERROR', 'YouTube search temporarily unavailable');
 
       const data = await resp.json();
       let results = sanitizeYouTubeResponse(data);
@@ -151,8 +151,9 @@ youtube.get('/search', async (c) => {
       return c.json({ results });
     }
   } catch (error) {
+    if (error instanceof ApiError) throw error;
     console.error('YouTube search error:', error);
-    return c.text('Search failed. Please try again later.', 500);
+    throw new ApiError(502, 'UPSTREAM_ERROR', 'Search failed. Please try again later.');
   }
 });
 
@@ -162,13 +163,10 @@ youtube.get('/search', async (c) => {
  * @route POST /lyrics/extract
  * @param {Object} request.body - Video metadata for lyrics extraction
  * @returns {Object} JSON response with extracted lyrics
+ * @throws {401} If the caller is not signed in
  */
-youtube.post('/lyrics/extract', async (c) => {
-	const { videoId, title, channelTitle } = await c.req.json();
-
-	if (!videoId || !title) {
-		return c.text('Video ID and title are required', 400);
-	}
+youtube.post('/lyrics/extract', requireUser, validate('json', lyricsExtractSchema), async (c) => {
+	const { title, channelTitle } = c.req.valid('json');
 
 	// Simple lyrics extraction from title patterns
 	const extractedLyrics = extractLyricsFromTitle(title, channelTitle);
@@ -185,22 +183,21 @@ youtube.post('/lyrics/extract', async (c) => {
  * @route GET /youtube-metadata/:id
  * @param {string} id - Project ID
  * @returns {Object} YouTube metadata
+ * @throws {401} If the caller is not signed in
+ * @throws {403} If the caller has no access to the project
  */
-youtube.get('/youtube-metadata/:id', async (c) => {
-	try {
-		const projectId = c.req.param('id');
-		
-		const metadataJson = await c.env.PROJECT_KV.get(`youtube-meta:${projectId}`);
-		if (!metadataJson) {
-			return c.json({ error: 'YouTube metadata not found for this project' }, 404);
-		}
-
-		const metadata = JSON.parse(metadataJson);
-		return c.json(metadata);
-	} catch (error) {
-		console.error('Error getting YouTube metadata:', error);
-		return c.json({ error: 'Failed to get YouTube metadata' }, 500);
+youtube.get('/youtube-metadata/:id', requireUser, validate('param', projectIdParamSchema), async (c) => {
+	const { id: projectId } = c.req.valid('param');
+	const project = await getProjectOrThrow(c.env.PROJECT_KV, projectId);
+	await assertCan(c.env, project, c.get('user'), 'read');
+
+	const metadataJson = await c.env.PROJECT_KV.get(`youtube-meta:${projectId}`);
+	if (!metadataJson) {
+		throw notFound('YouTube metadata not found for this project');
 	}
+
+	const metadata = JSON.parse(metadataJson);
+	return c.json(metadata);
 });
 
 
@@ -0,0 +1,437 @@
+import { z } from "zod";
+import {
+  CoverCrop,
+  Lyrics,
+  LyricsLine,
+  Project,
+  RenderAssets,
+} from "./types";
+import { projectSorts } from "./project-index";
+import { workspaceRoles } from "./workspaces";
+import { assetKinds } from "./assets";
+import { PEAKS_UPLOAD_LENGTH, PEAK_RESOLUTIONS } from "./peaks";
+import { lyricsImportFormats, type LyricsFormat } from "./lyrics-formats";
+
+/**
+ * Request validation schemas. The entity schemas are checked against the
+ * types in types.ts so the two cannot drift apart.
+ */
+
+export const uuidSchema = z.string().uuid();
+
+export const projectIdParamSchema = z.object({
+  id: uuidSchema,
+});
+
+export const audioIdSchema = z
+  .string()
+  .min(1)
+  .max(200)
+  .regex(/^[\w-]+$/, "Invalid audio ID");
+
+export const audioIdParamSchema = z.object({
+  id: audioIdSchema,
+});
+
+export const lyricsLineSchema = z.object({
+  id: z.number().int().nonnegative(),
+  text: z.string().max(1000),
+  timestamp: z.number().nonnegative().optional(),
+  style: z
+    .object({
+      emphasis: z.boolean().optional(),
+      volume: z.enum(["soft", "normal", "loud"]).optional(),
+      duration: z.number().nonnegative().optional(),
+    })
+    .optional(),
+}) satisfies z.ZodType<LyricsLine>;
+
+export const lyricsMetadataSchema = z.object({
+  language: z.string().max(35).optional(),
+  source: z.enum(["manual", "imported", "generated"]).optional(),
+  confidence: z.number().min(0).max(1).optional(),
+  version: z.number().int().positive().optional(),
+  restoredFrom: uuidSchema.optional(),
+  format: z.enum([...lyricsImportFormats, "sylt", "uslt"]).optional(),
+  tags: z.record(z.string().max(50), z.string().max(500)).optional(),
+}) satisfies z.ZodType<NonNullable<Lyrics["metadata"]>>;
+
+export const lyricsSchema = z.object({
+  id: uuidSchema,
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  text: z.string().max(100_000),
+  projectId: uuidSchema,
+  lines: z.array(lyricsLineSchema).max(5000),
+  metadata: lyricsMetadataSchema.optional(),
+}) satisfies z.ZodType<Lyrics>;
+
+export const projectMetadataSchema = z.object({
+  tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+  category: z.string().trim().min(1).max(50).optional(),
+  link: z.string().url().optional(),
+  public: z.boolean().optional(),
+}) satisfies z.ZodType<NonNullable<Project["metadata"]>>;
+
+export const renderAssetsSchema = z
+  .object({
+    background: uuidSchema.optional(),
+    logo: uuidSchema.optional(),
+    font: uuidSchema.optional(),
+  })
+  .strict() satisfies z.ZodType<RenderAssets>;
+
+export const projectSchema = z.object({
+  id: uuidSchema,
+  name: z.string().trim().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  createdAt: z.string().datetime(),
+  updatedAt: z.string().datetime(),
+  revision: z.number().int().nonnegative().optional(),
+  audioId: audioIdSchema,
+  lyricsId: uuidSchema.optional(),
+  assetIds: z.array(uuidSchema).max(100).optional(),
+  renderAssets: renderAssetsSchema.optional(),
+  metadata: projectMetadataSchema.optional(),
+}) satisfies z.ZodType<Project>;
+
+export const lyricsBodySchema = lyricsSchema
+  .pick({ text: true, lines: true })
+  .partial()
+  .extend({
+    baseVersionId: uuidSchema.optional(),
+  })
+  .refine((body) => body.text || body.lines, {
+    message: "Text or lines are required",
+  });
+
+export const createProjectSchema = projectSchema
+  .pick({
+    name: true,
+    description: true,
+    audioId: true,
+    assetIds: true,
+    renderAssets: true,
+    metadata: true,
+  })
+  .extend({ workspaceId: uuidSchema.optional() });
+
+/**
+ * Body of a project duplication. The copy gets "<name> (copy)" and stays in
+ * the workspace of the original unless told otherwise.
+ */
+export const duplicateProjectSchema = projectSchema
+  .pick({ name: true })
+  .partial()
+  .extend({ workspaceId: uuidSchema.optional() });
+
+/**
+ * Fields a client may change on an existing project. Server-owned fields such
+ * as id, createdAt and lyricsId are rejected.
+ */
+export const updateProjectSchema = projectSchema
+  .pick({
+    name: true,
+    description: true,
+    audioId: true,
+    assetIds: true,
+    renderAssets: true,
+    metadata: true,
+    revision: true,
+  })
+  .partial()
+  .extend({
+    lyrics: lyricsSchema.pick({ text: true, lines: true }).partial().optional(),
+  })
+  .strict();
+
+/**
+ * Query of the project listing. Tags are comma-separated and must all be
+ * present on a project for it to match.
+ */
+export const projectListQuerySchema = z.object({
+  cursor: z.string().max(2000).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(24),
+  sort: z.enum(projectSorts).default("updatedAt"),
+  tags: z
+    .string()
+    .max(1000)
+    .transform((value) =>
+      value
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    )
+    .optional(),
+  category: z.string().trim().min(1).max(50).optional(),
+  public: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+  q: z.string().trim().min(1).max(200).optional(),
+  workspaceId: uuidSchema.optional(),
+});
+
+/**
+ * Query of the audio listing, the caller's personal files without a workspace
+ */
+export const audioListQuerySchema = z.object({
+  cursor: z.string().max(2000).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  workspaceId: uuidSchema.optional(),
+});
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(2).max(200),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const lyricsVersionParamSchema = z.object({
+  id: uuidSchema,
+  versionId: uuidSchema,
+});
+
+export const lyricsDiffQuerySchema = z.object({
+  from: uuidSchema,
+  to: uuidSchema.optional(),
+});
+
+// `lyrics.<format>` file names of GET /project/:id/lyrics.<format>
+export const lyricsFileParamSchema = projectIdParamSchema.extend({
+  file: z
+    .enum(["lyrics.lrc", "lyrics.srt", "lyrics.vtt", "lyrics.ttml"])
+    .transform((file) => file.slice("lyrics.".length) as LyricsFormat),
+});
+
+export const lyricsImportQuerySchema = z.object({
+  format: z.enum(lyricsImportFormats).optional(),
+});
+
+export const audioMetaParamSchema = z.object({
+  id: audioIdSchema,
+  projectId: z.string().min(1).max(200),
+});
+
+const audioTagSchema = z.string().trim().max(500).nullable();
+
+/**
+ * Body of an audio metadata edit. The given tags replace the stored ones,
+ * null or an empty value removes one; the duration always comes from the file.
+ */
+export const updateAudioMetadataSchema = z
+  .object({
+    title: audioTagSchema,
+    artist: audioTagSchema,
+    album: audioTagSchema,
+    year: z
+      .string()
+      .trim()
+      .regex(/^(\d{4})?$/, "Year must have four digits")
+      .nullable(),
+    genre: z.array(z.string().trim().min(1).max(100)).max(20).nullable(),
+  })
+  .partial()
+  .strict()
+  .refine((body) => Object.keys(body).length > 0, {
+    message: "No metadata to update",
+  });
+
+export const audioPeaksQuerySchema = z.object({
+  resolution: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(PEAK_RESOLUTIONS[0])
+    .default(128),
+});
+
+/**
+ * Peaks a client computed from the decoded audio, see peaks.ts
+ */
+export const audioPeaksBodySchema = z.object({
+  peaks: z.array(z.number().min(0).max(1)).length(PEAKS_UPLOAD_LENGTH),
+});
+
+export const taggedAudioQuerySchema = z.object({
+  projectId: uuidSchema,
+});
+
+/**
+ * Options of an audio replacement. Lyric timings of the projects using the
+ * audio are moved by `offset` seconds or stretched to the new duration;
+ * `none` keeps them as is.
+ */
+export const replaceAudioQuerySchema = z
+  .object({
+    uploadId: uuidSchema,
+    timing: z.enum(["none", "offset", "stretch"]).default("none"),
+    offset: z.coerce.number().min(-3600).max(3600).optional(),
+  })
+  .refine((query) => query.timing !== "offset" || query.offset !== undefined, {
+    message: "offset is required with timing=offset",
+    path: ["offset"],
+  });
+
+export const assetIdParamSchema = z.object({
+  id: uuidSchema,
+});
+
+/**
+ * Query of the asset library: the workspace library, or the caller's
+ * personal one without workspaceId
+ */
+export const assetListQuerySchema = z.object({
+  workspaceId: uuidSchema.optional(),
+  kind: z.enum(assetKinds).optional(),
+});
+
+/**
+ * Crop of an uploaded cover, see CoverCrop. Sent in the query so the body
+ * can stay the image, or empty to crop the stored original again.
+ */
+export const coverCropQuerySchema = z.object({
+  x: z.coerce.number().min(0).max(1).default(0.5),
+  y: z.coerce.number().min(0).max(1).default(0.5),
+  size: z.coerce.number().min(0.1).max(1).default(1),
+}) satisfies z.ZodType<CoverCrop, z.ZodTypeDef, unknown>;
+
+export const coverQuerySchema = z.object({
+  size: z.coerce.number().int().min(1).max(4096).optional(),
+  original: z
+    .enum(["true", "false"])
+    .transform((value) => value === "true")
+    .optional(),
+});
+
+export const initiateUploadSchema = z
+  .object({
+    filename: z.string().trim().min(1).max(255),
+    contentType: z.string().max(100).default(""),
+    size: z.number().int().positive(),
+    workspaceId: uuidSchema.optional(),
+    replaceAudioId: uuidSchema.optional(), // see PUT /audio/:id
+    bundle: z.boolean().default(false), // see POST /project/import
+  })
+  .refine((body) => !(body.bundle && body.replaceAudioId), {
+    message: "A bundle cannot replace an audio file",
+    path: ["bundle"],
+  });
+
+export const uploadIdParamSchema = z.object({
+  uploadId: uuidSchema,
+});
+
+export const uploadPartParamSchema = uploadIdParamSchema.extend({
+  partNumber: z.coerce.number().int().min(1).max(10_000),
+});
+
+const emailSchema = z.string().trim().toLowerCase().email().max(254);
+
+export const registerSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(8).max(200),
+  name: z.string().trim().min(1).max(100).optional(),
+});
+
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1).max(200),
+});
+
+export const shareTokenParamSchema = z.object({
+  token: z.string().regex(/^[\w-]{16,64}$/, "Invalid share token"),
+});
+
+export const workspaceBodySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const workspaceIdParamSchema = z.object({
+  id: uuidSchema,
+});
+
+export const workspaceMemberParamSchema = z.object({
+  id: uuidSchema,
+  userId: z.string().min(1).max(100),
+});
+
+export const addWorkspaceMemberSchema = z.object({
+  email: emailSchema,
+  role: z.enum(workspaceRoles),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: z.enum(workspaceRoles),
+});
+
+export const youtubeProjectSchema = z.object({
+  videoId: z.string().regex(/^[\w-]{6,20}$/, "Invalid video ID"),
+  title: z.string().trim().min(1).max(500),
+  channelTitle: z.string().max(200).default(""),
+  duration: z.string().max(50).default("PT0S"),
+  thumbnail: z.string().url().nullish(),
+  url: z.string().url().nullish(),
+  description: z.string().nullish(),
+  workspaceId: uuidSchema.optional(),
+});
+
+export const youtubeSearchQuerySchema = z.object({
+  input: z.string().trim().min(1).max(500),
+});
+
+export const lyricsExtractSchema = z.object({
+  videoId: z.string().min(1).max(50),
+  title: z.string().trim().min(1).max(500),
+  channelTitle: z.string().max(200).default(""),
+});
+
+/**
+ * project.json of a project bundle, see bundles.ts
+ */
+export const projectBundleSchema = z.object({
+  format: z.literal("chantastik-project"),
+  version: z.literal(1),
+  project: projectSchema.pick({
+    name: true,
+    description: true,
+    audioId: true,
+    metadata: true,
+  }),
+  audio: z
+    .object({
+      filename: z.string().trim().min(1).max(255),
+      contentType: z.string().max(100).default(""),
+      metadata: z
+        .object({
+          title: z.string().max(500).optional(),
+          artist: z.string().max(500).optional(),
+          album: z.string().max(500).optional(),
+          year: z.string().max(20).optional(),
+          genre: z.array(z.string().max(100)).max(20).optional(),
+          duration: z.number().nonnegative().optional(),
+        })
+        .optional(),
+      coverArt: z
+        .object({
+          format: z.string().regex(/^image\/[\w.+-]+$/, "Invalid image type"),
+        })
+        .optional(),
+    })
+    .nullable(),
+});
+
+export const importBundleQuerySchema = z.object({
+  uploadId: uuidSchema,
+});
+
+export const lyricsBundleSchema = z.object({
+  currentVersionId: uuidSchema.nullable(),
+  versions: z.array(lyricsSchema).max(1000),
+});
+
+export const youtubeBundleSchema = z
+  .object({
+    videoId: z.string().regex(/^[\w-]{6,20}$/, "Invalid video ID"),
+    thumbnail: z.string().url().nullish(),
+  })
+  .passthrough();
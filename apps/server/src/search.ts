@@ -0,0 +1,408 @@
+import { KVNamespace } from "@cloudflare/workers-types";
+import { Audio, Bindings, Project } from "./types";
+import { getLyricsById } from "./lyrics";
+
+/**
+ * Full-text search over project names, audio tags and current lyrics.
+ * Every project has one search document holding its normalized content and
+ * one `search-token:<space>:<token>:<projectId>` key per distinct token, where
+ * the space is `user:<ownerId>` or `workspace:<id>`. The projects of a space
+ * containing a token are found with a single prefix listing, and a search
+ * never lists the tokens of spaces the caller cannot read.
+ *
+ * A document keeps at most MAX_DOCUMENT_TOKENS tokens, the ones of the name
+ * and tags first, then the lyrics in order, so indexing a project writes a
+ * bounded number of keys. Words past the cap in very long lyrics do not make
+ * a project a candidate, but are still scored once it is one.
+ */
+
+export const SEARCH_DOC_PREFIX = "search-doc:";
+export const SEARCH_TOKEN_PREFIX = "search-token:";
+
+const MAX_QUERY_TOKENS = 8;
+const MAX_CANDIDATES = 200;
+// Keys listed per token and space, a common prefix could match thousands
+const MAX_TOKEN_KEYS = 1000;
+const MAX_HITS_PER_PROJECT = 3;
+// Token keys per project, an invocation may send 1000 subrequests and
+// moving a project to another space deletes and writes all of them
+const MAX_DOCUMENT_TOKENS = 250;
+
+export type SearchField = "lyrics" | "name" | "title" | "artist" | "album";
+
+export type SearchHit = {
+  projectId: string;
+  projectName: string;
+  audioId: string;
+  field: SearchField;
+  text: string;
+  lineId?: number;
+  timestamp?: number;
+  score: number;
+};
+
+type SearchDocument = {
+  projectId: string;
+  projectName: string;
+  audioId: string;
+  ownerId?: string;
+  workspaceId?: string;
+  fields: Partial<Record<Exclude<SearchField, "lyrics">, string>>;
+  lines: { id: number; text: string; timestamp?: number }[];
+  tokens: string[];
+};
+
+/**
+ * Lowercase, strip accents and apostrophes and collapse everything that is
+ * not a letter or digit, so "Missin'" and "missin" compare equal
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/['’`]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(" ")
+    .filter((token) => token.length >= 2 && token.length <= 50);
+}
+
+async function buildDocument(
+  env: Bindings,
+  project: Project
+): Promise<SearchDocument> {
+  const fields: SearchDocument["fields"] = { name: project.name };
+
+  if (project.audioId.startsWith("youtube-virtual-")) {
+    const raw = await env.PROJECT_KV.get(`youtube-meta:${project.id}`);
+    if (raw) {
+      const meta = JSON.parse(raw) as {
+        title?: string;
+        channelTitle?: string;
+      };
+      fields.title = meta.title;
+      fields.artist = meta.channelTitle;
+    }
+  } else {
+    const raw = await env.AUDIO_KV.get(`audio:${project.audioId}`);
+    if (raw) {
+      const { metadata } = JSON.parse(raw) as Audio;
+      fields.title = metadata?.title;
+      fields.artist = metadata?.artist;
+      fields.album = metadata?.album;
+    }
+  }
+
+  const lyrics = project.lyricsId
+    ? await getLyricsById(env.LYRICS_KV, project.lyricsId)
+    : null;
+  const lines = (lyrics?.lines ?? [])
+    .filter((line) => line.text.trim())
+    .map(({ id, text, timestamp }) => ({ id, text, timestamp }));
+
+  const tokens = new Set<string>();
+  for (const value of Object.values(fields)) {
+    if (value) tokenize(value).forEach((token) => tokens.add(token));
+  }
+  for (const line of lines) {
+    tokenize(line.text).forEach((token) => tokens.add(token));
+  }
+
+  return {
+    projectId: project.id,
+    projectName: project.name,
+    audioId: project.audioId,
+    ownerId: project.ownerId,
+    workspaceId: project.workspaceId,
+    fields,
+    lines,
+    tokens: [...tokens].slice(0, MAX_DOCUMENT_TOKENS),
+  };
+}
+
+async function getDocument(
+  kv: KVNamespace,
+  projectId: string
+): Promise<SearchDocument | null> {
+  const raw = await kv.get(`${SEARCH_DOC_PREFIX}${projectId}`);
+  return raw ? (JSON.parse(raw) as SearchDocument) : null;
+}
+
+/**
+ * Get the space part of the token keys of a project
+ */
+export const searchSpace = (resource: {
+  ownerId?: string;
+  workspaceId?: string;
+}) =>
+  resource.workspaceId
+    ? `workspace:${resource.workspaceId}`
+    : `user:${resource.ownerId}`;
+
+const tokenKey = (space: string, token: string, projectId: string) =>
+  `${SEARCH_TOKEN_PREFIX}${space}:${token}:${projectId}`;
+
+/**
+ * (Re)index a project after its name, audio, lyrics or space changed.
+ * Only the tokens that appeared or disappeared since the last indexing are
+ * written or deleted, all of them when the project moved to another space.
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - The saved project
+ */
+export async function indexProjectForSearch(env: Bindings, project: Project) {
+  const previous = await getDocument(env.PROJECT_KV, project.id);
+  const document = await buildDocument(env, project);
+
+  const space = searchSpace(document);
+  const previousSpace = previous ? searchSpace(previous) : space;
+  const previousTokens = new Set(
+    previousSpace === space ? previous?.tokens ?? [] : []
+  );
+  const tokens = new Set(previousSpace === space ? document.tokens : []);
+
+  await env.PROJECT_KV.put(
+    `${SEARCH_DOC_PREFIX}${project.id}`,
+    JSON.stringify(document)
+  );
+  await Promise.all([
+    ...document.tokens
+      .filter((token) => !previousTokens.has(token))
+      .map((token) =>
+        env.PROJECT_KV.put(tokenKey(space, token, project.id), "")
+      ),
+    ...(previous?.tokens ?? [])
+      .filter((token) => !tokens.has(token))
+      .map((token) =>
+        env.PROJECT_KV.delete(tokenKey(previousSpace, token, project.id))
+      ),
+  ]);
+}
+
+/**
+ * Reindex several projects one after the other, e.g. every project using an
+ * audio whose tags changed. Meant for waitUntil, so a failure is logged and
+ * the next project is still indexed.
+ * @param {Bindings} env - Worker bindings
+ * @param {string[]} projectIds - The projects to reindex, missing ones are skipped
+ */
+export async function indexProjectsForSearch(
+  env: Bindings,
+  projectIds: string[]
+) {
+  for (const projectId of projectIds) {
+    try {
+      const raw = await env.PROJECT_KV.get(`project:${projectId}`);
+      if (raw) await indexProjectForSearch(env, JSON.parse(raw) as Project);
+    } catch (error) {
+      console.error(`Error indexing project ${projectId}:`, error);
+    }
+  }
+}
+
+/**
+ * Remove a project from the search index
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {string} projectId - The project ID
+ */
+export async function removeProjectFromSearch(
+  kv: KVNamespace,
+  projectId: string
+) {
+  const document = await getDocument(kv, projectId);
+  const tokenKeys = document
+    ? document.tokens.map((token) =>
+        tokenKey(searchSpace(document), token, projectId)
+      )
+    : [];
+  await Promise.all([
+    ...tokenKeys.map((key) => kv.delete(key)),
+    kv.delete(`${SEARCH_DOC_PREFIX}${projectId}`),
+  ]);
+}
+
+/**
+ * Get the space and project ID a token key points to, null for keys of the
+ * layout without spaces
+ */
+export function parseTokenKey(
+  key: string
+): { space: string; projectId: string } | null {
+  const parts = key.slice(SEARCH_TOKEN_PREFIX.length).split(":");
+  if (parts.length !== 4) return null;
+  return { space: `${parts[0]}:${parts[1]}`, projectId: parts[3] };
+}
+
+
+
+/**
+ * Score how well a piece of text matches the query: a verbatim phrase match
+ * beats all tokens present, which beats a partial match. The last query
+ * token also matches as a prefix so results show up while typing.
+ */
+function scoreText(text: string, phrase: string, queryTokens: string[]) {
+  const normalized = normalizeText(text);
+  if (!normalized) return 0;
+
+  const textTokens = normalized.split(" ");
+  const matched = queryTokens.filter((token, index) =>
+    index === queryTokens.length - 1
+      ? textTokens.some((t) => t.startsWith(token))
+      : textTokens.includes(token)
+  ).length;
+  if (matched === 0) return 0;
+
+  let score = (matched / queryTokens.length) * 50;
+  if (normalized.includes(phrase)) score += 50;
+  // Shorter texts that match are more specific
+  score += Math.max(0, 10 - textTokens.length / 5);
+
+  return Math.round(score * 10) / 10;
+}
+
+async function projectsWithToken(
+  kv: KVNamespace,
+  space: string,
+  token: string,
+  prefixMatch: boolean
+): Promise<Set<string>> {
+  const projectIds = new Set<string>();
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({
+      prefix: `${SEARCH_TOKEN_PREFIX}${space}:${token}${prefixMatch ? "" : ":"}`,
+      cursor,
+    });
+    for (const { name } of page.keys) {
+      projectIds.add(name.slice(name.lastIndexOf(":") + 1));
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor && projectIds.size < MAX_TOKEN_KEYS);
+
+  return projectIds;
+}
+
+/**
+ * Projects a search may return: the personal projects of a user and the
+ * projects of the workspaces they belong to
+ */
+export type SearchScope = {
+  ownerId: string;
+  workspaceIds: string[];
+};
+
+async function candidatesInSpace(
+  kv: KVNamespace,
+  space: string,
+  queryTokens: string[]
+): Promise<string[]> {
+  let candidates: string[] = [];
+  for (const [index, token] of queryTokens.entries()) {
+    const projectIds = await projectsWithToken(
+      kv,
+      space,
+      token,
+      index === queryTokens.length - 1
+    );
+    candidates =
+      index === 0
+        ? [...projectIds]
+        : candidates.filter((id) => projectIds.has(id));
+    if (candidates.length === 0) return [];
+  }
+  return candidates;
+}
+
+function inScope(document: SearchDocument, scope: SearchScope): boolean {
+  return document.workspaceId
+    ? scope.workspaceIds.includes(document.workspaceId)
+    : document.ownerId === scope.ownerId;
+}
+
+/**
+ * Search the indexed projects of a user and return ranked hits. A project is
+ * a candidate only if it contains every query token; its lyric lines and
+ * fields are then scored individually. Only the spaces in scope are listed,
+ * so the candidate cap never drops readable projects for others.
+ * @param {Bindings} env - Worker bindings
+ * @param {string} query - The raw search query
+ * @param {number} limit - Maximum number of hits
+ * @param {SearchScope} scope - Only projects the user can read are searched
+ * @returns {Promise<SearchHit[]>} - Hits, best first
+ */
+export async function searchProjects(
+  env: Bindings,
+  query: string,
+  limit: number,
+  scope: SearchScope
+): Promise<SearchHit[]> {
+  const queryTokens = tokenize(query).slice(0, MAX_QUERY_TOKENS);
+  if (queryTokens.length === 0) return [];
+  const phrase = queryTokens.join(" ");
+
+  const spaces = [
+    searchSpace({ ownerId: scope.ownerId }),
+    ...scope.workspaceIds.map((workspaceId) => searchSpace({ workspaceId })),
+  ];
+  const candidates: string[] = [];
+  for (const space of spaces) {
+    if (candidates.length >= MAX_CANDIDATES) break;
+    candidates.push(
+      ...(await candidatesInSpace(env.PROJECT_KV, space, queryTokens))
+    );
+  }
+
+  const documents = await Promise.all(
+    candidates
+      .slice(0, MAX_CANDIDATES)
+      .map((projectId) => getDocument(env.PROJECT_KV, projectId))
+  );
+
+  const hits: SearchHit[] = [];
+  for (const document of documents) {
+    if (!document || !inScope(document, scope)) continue;
+    const base = {
+      projectId: document.projectId,
+      projectName: document.projectName,
+      audioId: document.audioId,
+    };
+    const projectHits: SearchHit[] = [];
+
+    for (const [field, value] of Object.entries(document.fields)) {
+      if (!value) continue;
+      const score = scoreText(value, phrase, queryTokens);
+      if (score > 0) {
+        projectHits.push({
+          ...base,
+          field: field as SearchField,
+          text: value,
+          score,
+        });
+      }
+    }
+
+    for (const line of document.lines) {
+      const score = scoreText(line.text, phrase, queryTokens);
+      if (score > 0) {
+        projectHits.push({
+          ...base,
+          field: "lyrics",
+          text: line.text,
+          lineId: line.id,
+          timestamp: line.timestamp,
+          score,
+        });
+      }
+    }
+
+    projectHits.sort((a, b) => b.score - a.score);
+    hits.push(...projectHits.slice(0, MAX_HITS_PER_PROJECT));
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+}
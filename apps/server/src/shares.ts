@@ -0,0 +1,157 @@
+import type {
+  DurableObject,
+  DurableObjectState,
+  Request as BindingRequest,
+  Response as BindingResponse,
+} from "@cloudflare/workers-types";
+import { AuthUser, Bindings, Project, ProjectShare } from "./types";
+
+/**
+ * Public read-only share links. The active link is stored on the project for
+ * its members to see, and each token has a ShareToken Durable Object naming
+ * the project it opens. Only the Durable Object decides whether a token
+ * works: unlike KV it is strongly consistent, so a revoked token is dead as
+ * soon as the revoking request returns.
+ */
+
+/**
+ * The project a share token opens, one instance per token: GET returns the
+ * project ID (404 once revoked), PUT stores the project ID sent as the body
+ * and DELETE revokes the token
+ */
+export class ShareToken implements DurableObject {
+  constructor(private state: DurableObjectState) {}
+
+  async fetch(request: BindingRequest): Promise<BindingResponse> {
+    const { storage } = this.state;
+
+    switch (request.method) {
+      case "GET": {
+        const projectId = await storage.get<string>("projectId");
+        return toBindingResponse(
+          projectId
+            ? new Response(projectId)
+            : new Response(null, { status: 404 })
+        );
+      }
+      case "PUT":
+        await storage.put("projectId", await request.text());
+        return toBindingResponse(new Response(null, { status: 204 }));
+      case "DELETE":
+        await storage.deleteAll();
+        return toBindingResponse(new Response(null, { status: 204 }));
+      default:
+        return toBindingResponse(new Response(null, { status: 405 }));
+    }
+  }
+}
+
+const toBindingResponse = (response: Response) =>
+  response as unknown as BindingResponse;
+
+// The host is ignored, the stub always reaches the token's own instance
+async function callShareToken(
+  env: Bindings,
+  token: string,
+  method: "GET" | "PUT" | "DELETE",
+  projectId?: string
+): Promise<string | null> {
+  const stub = env.SHARE_TOKENS.get(env.SHARE_TOKENS.idFromName(token));
+  const response = await stub.fetch("https://share-token/", {
+    method,
+    body: projectId,
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Share token ${method} failed with ${response.status}`);
+  }
+  return method === "GET" ? response.text() : null;
+}
+
+// 192 bits of randomness, base64url so it fits in a URL path unescaped
+function createShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Register the share token of a project, for links created before tokens
+ * had a Durable Object
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - A shared project
+ */
+export async function registerShareToken(env: Bindings, project: Project) {
+  if (project.share) {
+    await callShareToken(env, project.share.token, "PUT", project.id);
+  }
+}
+
+/**
+ * Share a project publicly, keeping the current link if there is one
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - The project to share, updated in place for the caller to save
+ * @param {AuthUser} user - The caller
+ * @returns {Promise<ProjectShare>} - The active share
+ */
+export async function shareProject(
+  env: Bindings,
+  project: Project,
+  user: AuthUser
+): Promise<ProjectShare> {
+  if (project.share) return project.share;
+
+  const share: ProjectShare = {
+    token: createShareToken(),
+    createdAt: new Date().toISOString(),
+    createdBy: user.id,
+  };
+
+  await callShareToken(env, share.token, "PUT", project.id);
+  project.share = share;
+  project.metadata = { ...project.metadata, public: true };
+
+  return share;
+}
+
+/**
+ * Revoke the share link of a project, if any
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - The project, updated in place for the caller to save
+ */
+export async function revokeProjectShare(env: Bindings, project: Project) {
+  await deleteProjectShare(env, project);
+  delete project.share;
+  project.metadata = { ...project.metadata, public: false };
+}
+
+/**
+ * Revoke the share token of a project that is being deleted
+ * @param {Bindings} env - Worker bindings
+ * @param {Project} project - The project being deleted
+ */
+export async function deleteProjectShare(env: Bindings, project: Project) {
+  if (project.share) {
+    await callShareToken(env, project.share.token, "DELETE");
+  }
+}
+
+/**
+ * Resolve a share token to its project
+ * @param {Bindings} env - Worker bindings
+ * @param {string} token - The share token
+ * @returns {Promise<Project|null>} - The project, null if the token is unknown or revoked
+ */
+export async function getSharedProject(
+  env: Bindings,
+  token: string
+): Promise<Project | null> {
+  const projectId = await callShareToken(env, token, "GET");
+  if (!projectId) return null;
+
+  const raw = await env.PROJECT_KV.get(`project:${projectId}`);
+  return raw ? (JSON.parse(raw) as Project) : null;
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import * as mm from "music-metadata";
+import { id3TagSize, writeId3Tag } from "../id3";
+
+const lines = [
+  { id: 1, text: "First line", timestamp: 1.5 },
+  { id: 2, text: "Ünïcode line", timestamp: 12.25 },
+  { id: 3, text: "Untimed line" },
+];
+
+// Frame IDs of a tag, in order
+function frameIds(tag: Uint8Array): string[] {
+  const ids: string[] = [];
+  let offset = 10;
+  while (offset + 10 <= tag.length && tag[offset] !== 0) {
+    ids.push(String.fromCharCode(...tag.subarray(offset, offset + 4)));
+    const size =
+      tag[3] === 4
+        ? (tag[offset + 4] << 21) |
+          (tag[offset + 5] << 14) |
+          (tag[offset + 6] << 7) |
+          tag[offset + 7]
+        : new DataView(tag.buffer, tag.byteOffset).getUint32(offset + 4);
+    offset += 10 + size;
+  }
+  return ids;
+}
+
+const parse = (tag: Uint8Array) =>
+  mm.parseBuffer(tag, { mimeType: "audio/mpeg", size: tag.length });
+
+describe("writeId3Tag", () => {
+  it("writes track info and lyrics into a new v2.4 tag", async () => {
+    const tag = writeId3Tag(null, {
+      title: "Song",
+      artist: "Artist",
+      album: "Album",
+      language: "eng",
+      lines,
+    });
+
+    expect(tag[3]).toBe(4);
+    expect(id3TagSize(tag)).toBe(tag.length);
+    expect(frameIds(tag)).toEqual(["TIT2", "TPE1", "TALB", "USLT", "SYLT"]);
+
+    const { common } = await parse(tag);
+    expect(common).toMatchObject({
+      title: "Song",
+      artist: "Artist",
+      album: "Album",
+    });
+    const [uslt, sylt] = common.lyrics ?? [];
+    expect(uslt.text).toBe("First line\nÜnïcode line\nUntimed line");
+    expect(sylt.syncText).toEqual([
+      { text: "First line", timestamp: 1500 },
+      { text: "Ünïcode line", timestamp: 12250 },
+    ]);
+  });
+
+  it("leaves SYLT out when no line is timed", () => {
+    const tag = writeId3Tag(null, { lines: [{ id: 1, text: "Plain" }] });
+    expect(frameIds(tag)).toEqual(["USLT"]);
+  });
+
+  it("keeps the other frames and the version of an existing tag", async () => {
+    const existing = writeId3Tag(null, {
+      title: "Old title",
+      album: "Kept album",
+      lines: [{ id: 1, text: "Old lyrics", timestamp: 0 }],
+    });
+    const tag = writeId3Tag(existing, { title: "New title", lines });
+
+    expect(frameIds(tag)).toEqual(["TALB", "TIT2", "USLT", "SYLT"]);
+    const { common } = await parse(tag);
+    expect(common.title).toBe("New title");
+    expect(common.album).toBe("Kept album");
+    expect(common.lyrics?.[0].text).toBe(
+      "First line\nÜnïcode line\nUntimed line"
+    );
+  });
+
+  it("writes UTF-16 text into v2.3 tags", async () => {
+    // A v2.3 header without frames
+    const existing = Uint8Array.of(0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 0);
+    const tag = writeId3Tag(existing, { artist: "Ärtist", lines });
+
+    expect(tag[3]).toBe(3);
+    const { common } = await parse(tag);
+    expect(common.artist).toBe("Ärtist");
+    expect(common.lyrics?.[1].syncText).toHaveLength(2);
+  });
+
+  it("has no size without a tag", () => {
+    expect(id3TagSize(new TextEncoder().encode("not a tag!"))).toBe(0);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { detectLyricsFormat, parseLyricsFile } from "../lyrics-formats";
+
+describe("detectLyricsFormat", () => {
+  it("recognises each format from its content", () => {
+    expect(detectLyricsFormat("[00:01.00]Line")).toBe("lrc");
+    expect(detectLyricsFormat("[00:01.00]<00:01.00>Word <00:01.50>by")).toBe(
+      "elrc"
+    );
+    expect(detectLyricsFormat("1\n00:00:01,000 --> 00:00:02,000\nLine")).toBe(
+      "srt"
+    );
+    expect(detectLyricsFormat("﻿WEBVTT\n\n00:01.000 --> 00:02.000\nLine")).toBe(
+      "vtt"
+    );
+    expect(detectLyricsFormat("[Script Info]\nTitle: Song")).toBe("ass");
+    expect(detectLyricsFormat("Just some words")).toBeNull();
+  });
+});
+
+describe("parseLyricsFile", () => {
+  it("reads LRC lines, tags and repeated times", () => {
+    const { format, lines, tags, warnings } = parseLyricsFile(
+      [
+        "[ti:Song]",
+        "[ar:Artist]",
+        "[00:12.50]Second",
+        "[00:01.00][00:20.00]Chorus",
+        "No time here",
+        "[01:02:5]Late",
+      ].join("\n")
+    );
+
+    expect(format).toBe("lrc");
+    expect(tags).toEqual({ ti: "Song", ar: "Artist" });
+    expect(lines).toEqual([
+      { id: 1, text: "Chorus", timestamp: 1 },
+      { id: 2, text: "Second", timestamp: 12.5 },
+      { id: 3, text: "Chorus", timestamp: 20 },
+      { id: 4, text: "Late", timestamp: 62.5 },
+    ]);
+    expect(warnings).toEqual([{ line: 5, message: "No timestamp" }]);
+  });
+
+  it("strips enhanced LRC word times and applies the offset", () => {
+    const { format, lines } = parseLyricsFile(
+      "[offset:+500]\n[00:02.00]<00:02.00>Word <00:02.40>by <00:02.80>word"
+    );
+
+    expect(format).toBe("elrc");
+    expect(lines).toEqual([{ id: 1, text: "Word by word", timestamp: 1.5 }]);
+  });
+
+  it("reads SRT cues and keeps the length of cues ending early", () => {
+    const { format, lines } = parseLyricsFile(
+      [
+        "1",
+        "00:00:01,000 --> 00:00:02,500",
+        "First <i>line</i>",
+        "",
+        "2",
+        "00:00:04,000 --> 00:00:06,000",
+        "Second",
+        "line",
+        "",
+      ].join("\r\n")
+    );
+
+    expect(format).toBe("srt");
+    expect(lines).toEqual([
+      { id: 1, text: "First line", timestamp: 1, style: { duration: 1.5 } },
+      { id: 2, text: "Second line", timestamp: 4, style: { duration: 2 } },
+    ]);
+  });
+
+  it("reads WebVTT cues without header, notes and cue settings", () => {
+    const { format, lines, warnings } = parseLyricsFile(
+      [
+        "WEBVTT - Song",
+        "",
+        "NOTE written by hand",
+        "",
+        "intro",
+        "00:01.000 --> 00:03.000 align:start",
+        "Rock &amp; roll",
+        "",
+        "00:03.000 --> 00:bad",
+        "Broken",
+      ].join("\n")
+    );
+
+    expect(format).toBe("vtt");
+    // The cue runs into nothing after it, so it keeps its length
+    expect(lines).toEqual([
+      { id: 1, text: "Rock & roll", timestamp: 1, style: { duration: 2 } },
+    ]);
+    expect(warnings).toEqual([{ line: 9, message: "Invalid time" }]);
+  });
+
+  it("reads ASS dialogue with its own column order", () => {
+    const { format, lines, tags } = parseLyricsFile(
+      [
+        "[Script Info]",
+        "Title: Song",
+        "",
+        "[Events]",
+        "Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+        "Dialogue: 0,0:00:01.00,0:00:05.00,Default,,0,0,0,,{\\b1}Hello,\\Nworld",
+        "Comment: 0,0:00:02.00,0:00:03.00,Default,,0,0,0,,Skipped",
+        "Dialogue: 0,0:00:03.50,0:00:04.00,Default,,0,0,0,,Overlap",
+      ].join("\n")
+    );
+
+    expect(format).toBe("ass");
+    expect(tags).toEqual({ title: "Song" });
+    // The first cue runs into the second, so it gets no duration
+    expect(lines).toEqual([
+      { id: 1, text: "Hello, world", timestamp: 1 },
+      { id: 2, text: "Overlap", timestamp: 3.5, style: { duration: 0.5 } },
+    ]);
+  });
+
+  it("refuses unknown formats and files without timed lines", () => {
+    expect(() => parseLyricsFile("Just some words")).toThrow(
+      "Unrecognised lyrics format"
+    );
+    expect(() => parseLyricsFile("[ti:Only tags]", "lrc")).toThrow(
+      "No timed lyrics found"
+    );
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { diffLyricsLines, retimeLyricsLines } from "../lyrics";
+import { LyricsLine } from "../types";
+
+describe("diffLyricsLines", () => {
+  it("reports unchanged, retimed, added and removed lines in order", () => {
+    const from: LyricsLine[] = [
+      { id: 1, text: "Intro", timestamp: 0 },
+      { id: 2, text: "Verse", timestamp: 5 },
+      { id: 3, text: "Dropped", timestamp: 10 },
+      { id: 4, text: "Chorus", timestamp: 15 },
+    ];
+    const to: LyricsLine[] = [
+      { id: 1, text: "Intro", timestamp: 0 },
+      { id: 2, text: " Verse ", timestamp: 6 },
+      { id: 3, text: "Chorus", timestamp: 15 },
+      { id: 4, text: "Outro", timestamp: 20 },
+    ];
+
+    expect(
+      diffLyricsLines(from, to).map((entry) => [
+        entry.type,
+        entry.from?.id ?? null,
+        entry.to?.id ?? null,
+      ])
+    ).toEqual([
+      ["unchanged", 1, 1],
+      ["retimed", 2, 2],
+      ["removed", 3, null],
+      ["unchanged", 4, 3],
+      ["added", null, 4],
+    ]);
+  });
+
+  it("handles empty versions", () => {
+    const lines: LyricsLine[] = [{ id: 1, text: "Only" }];
+
+    expect(diffLyricsLines([], [])).toEqual([]);
+    expect(diffLyricsLines([], lines)).toEqual([
+      { type: "added", to: lines[0] },
+    ]);
+    expect(diffLyricsLines(lines, [])).toEqual([
+      { type: "removed", from: lines[0] },
+    ]);
+  });
+});
+
+describe("retimeLyricsLines", () => {
+  const lines: LyricsLine[] = [
+    { id: 1, text: "Start", timestamp: 0.5 },
+    { id: 2, text: "Held", timestamp: 10, style: { duration: 4, emphasis: true } },
+    { id: 3, text: "Untimed" },
+  ];
+
+  it("shifts timestamps by an offset and clamps them at 0", () => {
+    expect(retimeLyricsLines(lines, { mode: "offset", offset: -1 })).toEqual([
+      { id: 1, text: "Start", timestamp: 0 },
+      { id: 2, text: "Held", timestamp: 9, style: { duration: 4, emphasis: true } },
+      { id: 3, text: "Untimed" },
+    ]);
+  });
+
+  it("stretches timestamps and durations by a factor", () => {
+    expect(retimeLyricsLines(lines, { mode: "stretch", factor: 1.1 })).toEqual([
+      { id: 1, text: "Start", timestamp: 0.55 },
+      {
+        id: 2,
+        text: "Held",
+        timestamp: 11,
+        style: { duration: 4.4, emphasis: true },
+      },
+      { id: 3, text: "Untimed" },
+    ]);
+  });
+
+  it("leaves the original lines untouched", () => {
+    retimeLyricsLines(lines, { mode: "offset", offset: 3 });
+    expect(lines[1]).toEqual({
+      id: 2,
+      text: "Held",
+      timestamp: 10,
+      style: { duration: 4, emphasis: true },
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { ifMatchSatisfied, lyricsETag, projectETag } from "../utils";
+import { Project } from "../types";
+
+describe("ifMatchSatisfied", () => {
+  const etag = projectETag({ revision: 3 } as Project);
+
+  it("lets writes without If-Match through", () => {
+    expect(ifMatchSatisfied(undefined, etag)).toBe(true);
+    expect(ifMatchSatisfied("", etag)).toBe(true);
+  });
+
+  it("compares the tag with the current one", () => {
+    expect(ifMatchSatisfied('"3"', etag)).toBe(true);
+    expect(ifMatchSatisfied('"2"', etag)).toBe(false);
+  });
+
+  it("accepts any of a list of tags", () => {
+    expect(ifMatchSatisfied('"1", "3"', etag)).toBe(true);
+    expect(ifMatchSatisfied('"1","2"', etag)).toBe(false);
+  });
+
+  it("ignores the weak prefix", () => {
+    expect(ifMatchSatisfied('W/"3"', etag)).toBe(true);
+  });
+
+  it("matches * only when the resource exists", () => {
+    expect(ifMatchSatisfied("*", etag)).toBe(true);
+    expect(ifMatchSatisfied("*", undefined)).toBe(false);
+  });
+
+  it("refuses tags when the resource has none yet", () => {
+    expect(ifMatchSatisfied(lyricsETag("lyrics-1"), undefined)).toBe(false);
+  });
+
+  it("counts projects without a revision as revision 0", () => {
+    expect(projectETag({} as Project)).toBe('"0"');
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import { AuthUser, Bindings } from "../types";
+import { ApiError } from "../errors";
+import { Permission, assertCan, can, permissionsOf } from "../workspaces";
+
+const user: AuthUser = { id: "user-1", email: "user@example.com" };
+
+// Only the workspace member keys are read
+const envWithRoles = (roles: Record<string, string>) =>
+  ({
+    USERS_KV: {
+      get: async (key: string) => roles[key] ?? null,
+    },
+  }) as unknown as Bindings;
+
+describe("can", () => {
+  it("grants every permission to owners", () => {
+    const permissions: Permission[] = [
+      "read",
+      "reviewLyrics",
+      "editLyrics",
+      "editProject",
+      "deleteProject",
+      "manageWorkspace",
+    ];
+    for (const permission of permissions) {
+      expect(can("owner", permission)).toBe(true);
+    }
+  });
+
+  it("lets editors edit but not delete or manage", () => {
+    expect(can("editor", "editLyrics")).toBe(true);
+    expect(can("editor", "editProject")).toBe(true);
+    expect(can("editor", "deleteProject")).toBe(false);
+    expect(can("editor", "manageWorkspace")).toBe(false);
+  });
+
+  it("lets reviewers review lyrics without editing them", () => {
+    expect(can("reviewer", "reviewLyrics")).toBe(true);
+    expect(can("reviewer", "editLyrics")).toBe(false);
+  });
+
+  it("only lets viewers read", () => {
+    expect(permissionsOf("viewer")).toEqual(["read"]);
+    expect(can("viewer", "reviewLyrics")).toBe(false);
+  });
+
+  it("grants nothing without a role", () => {
+    expect(can(null, "read")).toBe(false);
+  });
+});
+
+describe("assertCan", () => {
+  it("treats the owner of a personal record as owner", async () => {
+    const env = envWithRoles({});
+    await expect(
+      assertCan(env, { ownerId: user.id }, user, "deleteProject")
+    ).resolves.toBe("owner");
+  });
+
+  it("refuses personal records of someone else", async () => {
+    const env = envWithRoles({});
+    const error = await assertCan(
+      env,
+      { ownerId: "someone-else" },
+      user,
+      "read"
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({
+      status: 403,
+      code: "FORBIDDEN",
+      message: "You do not have access to this resource",
+    });
+  });
+
+  it("uses the workspace role over the owner of the record", async () => {
+    const env = envWithRoles({
+      "workspace-member:user-1:workspace-1": "viewer",
+    });
+    const resource = { ownerId: user.id, workspaceId: "workspace-1" };
+
+    await expect(assertCan(env, resource, user, "read")).resolves.toBe(
+      "viewer"
+    );
+    await expect(
+      assertCan(env, resource, user, "editLyrics")
+    ).rejects.toMatchObject({
+      status: 403,
+      message: "Your role (viewer) does not allow this action",
+    });
+  });
+
+  it("refuses workspaces the caller is not a member of", async () => {
+    const env = envWithRoles({});
+    await expect(
+      assertCan(env, { workspaceId: "workspace-1" }, user, "read")
+    ).rejects.toMatchObject({ status: 403, code: "FORBIDDEN" });
+  });
+});
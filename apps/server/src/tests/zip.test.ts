@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  ZipSource,
+  createZipStream,
+  listZipEntries,
+  openZipEntry,
+  readZipEntry,
+} from "../zip";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+async function readAll(stream: ReadableStream<Uint8Array>) {
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// An archive held in memory, read by byte ranges like an R2 object
+function memorySource(archive: Uint8Array): ZipSource {
+  return {
+    size: archive.length,
+    read: async (offset, length) => archive.slice(offset, offset + length),
+    stream: async (offset, length) =>
+      new Blob([archive.slice(offset, offset + length)]).stream(),
+  };
+}
+
+const streamOf = (...chunks: string[]) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+
+describe("zip", () => {
+  it("reads back the entries it wrote", async () => {
+    const archive = await readAll(
+      createZipStream([
+        { name: "project.json", data: encoder.encode('{"name":"Song"}') },
+        { name: "audio.mp3", data: streamOf("first chunk, ", "second chunk") },
+        { name: "notes/Ünïcode.txt", data: encoder.encode("") },
+      ])
+    );
+    const source = memorySource(archive);
+
+    const entries = await listZipEntries(source);
+    expect(entries.map(({ name, size }) => ({ name, size }))).toEqual([
+      { name: "project.json", size: 15 },
+      { name: "audio.mp3", size: 25 },
+      { name: "notes/Ünïcode.txt", size: 0 },
+    ]);
+
+    const [json, audio, empty] = entries;
+    expect(decoder.decode(await readZipEntry(source, json, 1024))).toBe(
+      '{"name":"Song"}'
+    );
+    expect(decoder.decode(await readAll(await openZipEntry(source, audio)))).toBe(
+      "first chunk, second chunk"
+    );
+    expect(await readZipEntry(source, empty, 1024)).toHaveLength(0);
+  });
+
+  it("reads deflated entries", async () => {
+    const text = "la la la ".repeat(100);
+    const compressed = await readAll(
+      new Blob([text])
+        .stream()
+        .pipeThrough(new CompressionStream("deflate-raw"))
+    );
+    const archive = await readAll(
+      createZipStream([{ name: "lyrics.txt", data: compressed }])
+    );
+    // Mark the entry as deflated, in the local and the central header
+    const view = new DataView(archive.buffer);
+    const central = archive.length - 22 - (46 + "lyrics.txt".length);
+    view.setUint16(8, 8, true);
+    view.setUint16(central + 10, 8, true);
+    view.setUint32(central + 24, text.length, true);
+
+    const source = memorySource(archive);
+    const [entry] = await listZipEntries(source);
+    expect(entry).toMatchObject({ method: 8, size: text.length });
+    expect(decoder.decode(await readZipEntry(source, entry, 4096))).toBe(text);
+  });
+
+  it("refuses entries larger than the limit", async () => {
+    const archive = await readAll(
+      createZipStream([{ name: "big.json", data: encoder.encode("x".repeat(100)) }])
+    );
+    const source = memorySource(archive);
+    const [entry] = await listZipEntries(source);
+
+    await expect(readZipEntry(source, entry, 10)).rejects.toMatchObject({
+      status: 400,
+      message: "big.json is too large",
+    });
+  });
+
+  it("refuses files that are not archives", async () => {
+    await expect(
+      listZipEntries(memorySource(encoder.encode("not a zip archive at all")))
+    ).rejects.toMatchObject({ status: 400, message: "Not a ZIP archive" });
+  });
+});
@@ -1,12 +1,59 @@
-import { KVNamespace, R2Bucket } from '@cloudflare/workers-types';
+import {
+	DurableObjectNamespace,
+	ImagesBinding,
+	KVNamespace,
+	R2Bucket,
+} from '@cloudflare/workers-types';
 
 export type Bindings = {
 	YOUTUBE_API_KEY: string;
+	ADMIN_TOKEN?: string;
+	AUTH_MODE?: 'local'; // every request acts as one local user, for development and tests
 	AUDIO_FILES: R2Bucket;
 	AUDIO_KV: KVNamespace;
 	COVER_FILES: R2Bucket;
+	ASSET_FILES: R2Bucket;
+	IMAGES: ImagesBinding;
 	PROJECT_KV: KVNamespace;
 	LYRICS_KV: KVNamespace;
+	USERS_KV: KVNamespace;
+	SHARE_TOKENS: DurableObjectNamespace; // ShareToken instances, see shares.ts;
+};
+
+export type User = {
+	id: string;
+	email: string;
+	name?: string;
+	passwordHash: string; // PBKDF2-SHA256, hex
+	passwordSalt: string; // hex
+	createdAt: string;
+};
+
+/**
+ * A user as exposed to routes and clients, without credentials
+ */
+export type AuthUser = Pick<User, 'id' | 'email' | 'name'>;
+
+export type WorkspaceRole = 'owner' | 'editor' | 'reviewer' | 'viewer';
+
+export type WorkspaceMember = {
+	userId: string;
+	role: WorkspaceRole;
+	addedAt: string;
+};
+
+export type Workspace = {
+	id: string;
+	name: string;
+	createdAt: string;
+	updatedAt: string;
+	members: WorkspaceMember[];
+};
+
+export type Session = {
+	userId: string;
+	createdAt: string;
+	expiresAt: string;
 };
 
 export type Project = {
@@ -15,24 +62,56 @@ export type Project = {
 	description?: string;
 	createdAt: string;
 	updatedAt: string;
+	revision?: number; // incremented on every save, exposed as the ETag
+	ownerId?: string; // missing on projects created before accounts existed
+	workspaceId?: string; // shared with the workspace members, by role
 	audioId: string;
-	assetIds?: string[];
+	lyricsId?: string;
+	assetIds?: string[]; // library assets the project uses, asset-ref keys list the other direction
+	renderAssets?: RenderAssets;
+	cover?: ProjectCover; // uploaded cover art, replaces the embedded picture or YouTube thumbnail
+	share?: ProjectShare; // set while a public share link is active
 	metadata?: {
 		tags?: string[];
 		category?: string;
 		link?: string;
-		public?: boolean;
+		public?: boolean; // true while the project is shared
 	};
 };
 
+export type ProjectCover = {
+	contentType: string; // of the original upload
+	crop: CoverCrop;
+	updatedAt: string; // busts cached thumbnails
+};
+
+// Square part of the original the thumbnails show: size is the side as a
+// share of the shorter edge, x and y place it in the free space like
+// CSS object-position (0 left/top, 1 right/bottom)
+export type CoverCrop = {
+	x: number;
+	y: number;
+	size: number;
+};
+
+export type ProjectShare = {
+	token: string;
+	createdAt: string;
+	createdBy: string;
+};
+
 export type Audio = {
 	id: string;
 	filename: string;
 	contentType: string;
+	storageKey?: string; // R2 key including the real extension, `${id}.mp3` when missing
 	size: number;
 	createdAt: string;
+	updatedAt?: string; // set when the file is replaced
 	fileHash: string;
-	projectId?: string;
+	ownerId?: string;
+	workspaceId?: string;
+	projectId?: string; // project the file was uploaded with, audio-ref keys list every project using it
 	metadata?: {
 		title?: string;
 		artist?: string;
@@ -48,6 +127,43 @@ export type Audio = {
 	};
 };
 
+export type AssetKind = 'image' | 'video' | 'font';
+
+export type Asset = {
+	id: string;
+	kind: AssetKind;
+	filename: string;
+	contentType: string;
+	storageKey: string; // R2 key in ASSET_FILES, `${id}.${extension}`
+	size: number;
+	ownerId: string;
+	workspaceId?: string; // listed in the workspace library, the owner's personal one otherwise
+	createdAt: string;
+};
+
+// Attached assets a render uses instead of the embedded cover art and default font
+export type RenderAssets = {
+	background?: string; // an image or a video loop
+	logo?: string; // an image
+	font?: string;
+};
+
+export type UploadSession = {
+	id: string;
+	r2UploadId: string; // id of the R2 multipart upload, kept server-side
+	ownerId: string;
+	workspaceId?: string;
+	audioId?: string; // not set for a project bundle, see POST /project/import
+	replacesAudio?: true; // the file replaces the one of audioId, see PUT /audio/:id
+	key: string;
+	filename: string;
+	contentType: string;
+	size: number;
+	partSize: number;
+	partCount: number;
+	createdAt: string;
+};
+
 export type Lyrics = {
 	id: string;
 	createdAt: string;
@@ -60,9 +176,29 @@ export type Lyrics = {
 		source?: 'manual' | 'imported' | 'generated';
 		confidence?: number;
 		version?: number;
+		restoredFrom?: string; // id of the version this one was restored from
+		format?: LyricsImportFormat | 'sylt' | 'uslt'; // file or audio tag frame the lines were imported from
+		tags?: Record<string, string>; // header tags of that file, like ti, ar and offset
 	};
 };
 
+export type LyricsImportFormat = 'lrc' | 'elrc' | 'srt' | 'vtt' | 'ass';
+
+export type LyricsVersionSummary = {
+	id: string;
+	version: number;
+	createdAt: string;
+	lineCount: number;
+	source?: 'manual' | 'imported' | 'generated';
+	restoredFrom?: string;
+};
+
+export type LyricsDiffEntry = {
+	type: 'unchanged' | 'retimed' | 'added' | 'removed';
+	from?: LyricsLine;
+	to?: LyricsLine;
+};
+
 export type LyricsLine = {
 	id: number;
 	text: string;
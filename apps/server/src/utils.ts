@@ -1,15 +1,134 @@
-import { KVNamespace } from "@cloudflare/workers-types";
+import {
+  KVNamespace,
+  R2Bucket,
+  Crypto as WorkersCrypto,
+} from "@cloudflare/workers-types";
 import cryptojs from "crypto-js";
 import { Audio, Project } from "./types";
+import { notFound } from "./errors";
+import { writeProjectIndex } from "./project-index";
 
 export async function saveProject(env: KVNamespace, project: Project) {
+  const previousRaw = await env.get(`project:${project.id}`);
+  const previous = previousRaw ? (JSON.parse(previousRaw) as Project) : null;
+
   project.updatedAt = new Date().toISOString();
+  project.revision = (project.revision ?? 0) + 1;
   await env.put(`project:${project.id}`, JSON.stringify(project));
+  await writeProjectIndex(env, project, previous);
+}
+
+/**
+ * Load a project by ID
+ * @param {KVNamespace} kv - The project KV namespace
+ * @param {string} id - The project ID
+ * @returns {Promise<Project>} - The stored project
+ * @throws {ApiError} 404 if the project does not exist
+ */
+export async function getProjectOrThrow(
+  kv: KVNamespace,
+  id: string
+): Promise<Project> {
+  const raw = await kv.get(`project:${id}`);
+  if (!raw) throw notFound("Project not found");
+  return JSON.parse(raw) as Project;
+}
+
+/**
+ * Build the entity tag of a project from its revision
+ * @param {Project} project - The project
+ * @returns {string} - Quoted entity tag
+ */
+export function projectETag(project: Project): string {
+  return `"${project.revision ?? 0}"`;
+}
+
+/**
+ * Build the entity tag of a lyrics record. Every save creates a new
+ * lyrics version with a fresh ID, so the ID identifies the content.
+ * @param {string} lyricsId - The current lyrics ID
+ * @returns {string} - Quoted entity tag
+ */
+export function lyricsETag(lyricsId: string): string {
+  return `"${lyricsId}"`;
+}
+
+/**
+ * Check an If-Match request header against the current entity tag
+ * @param {string | undefined} ifMatch - Raw If-Match header value
+ * @param {string | undefined} etag - Current entity tag, undefined if the resource has no representation yet
+ * @returns {boolean} - True if the write may proceed
+ */
+export function ifMatchSatisfied(
+  ifMatch: string | undefined,
+  etag: string | undefined
+): boolean {
+  if (!ifMatch) return true;
+  if (!etag) return false;
+  if (ifMatch.trim() === "*") return true;
+
+  return ifMatch
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .includes(etag);
 }
 
 /**
- * Find a file with the given hash in the KV store
- * @param {KVNamespace} kv - The KV namespace to search
+ * List every key name under a prefix, following KV list cursors
+ * @param {KVNamespace} kv - The KV namespace to list
+ * @param {string} prefix - Key prefix
+ * @returns {Promise<string[]>} - Key names
+ */
+export async function listAllKeys(
+  kv: KVNamespace,
+  prefix: string
+): Promise<string[]> {
+  const names: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list({ prefix, cursor });
+    names.push(...page.keys.map((key) => key.name));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return names;
+}
+
+/**
+ * List every object key under a prefix, following R2 list cursors
+ * @param {R2Bucket} bucket - The R2 bucket to list
+ * @param {string} [prefix] - Key prefix
+ * @returns {Promise<string[]>} - Object keys
+ */
+export async function listAllObjectKeys(
+  bucket: R2Bucket,
+  prefix?: string
+): Promise<string[]> {
+  const keys: string[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await bucket.list({ prefix, cursor });
+    keys.push(...page.objects.map((object) => object.key));
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+
+  return keys;
+}
+
+/**
+ * Build the COVER_FILES key of an embedded cover art
+ * @param {NonNullable<Audio["coverArt"]>} coverArt - Cover art info of an audio file
+ * @returns {string} - Object key, e.g. `<audioId>-cover.jpeg`
+ */
+export function getCoverKey(coverArt: NonNullable<Audio["coverArt"]>): string {
+  return `${coverArt.id}.${coverArt.format.split("/")[1] || "jpg"}`;
+}
+
+/**
+ * Find a file with the given hash through the `hash:<sha256>` index
+ * @param {KVNamespace} kv - The audio KV namespace
  * @param {string} hash - File hash to search for
  * @returns {Promise<Audio|null>} - Returns file metadata if found, null otherwise
  */
@@ -17,21 +136,104 @@ export async function findFileByHash(
   kv: KVNamespace,
   hash: string
 ): Promise<Audio | null> {
-  // List all audio files
-  const { keys } = await kv.list({ prefix: "audio:" });
+  const audioId = await kv.get(`hash:${hash}`);
+  if (!audioId) return null;
 
-  // Check each file for matching hash
-  for (const key of keys) {
-    const raw = await kv.get(key.name);
-    if (!raw) continue;
+  const raw = await kv.get(`audio:${audioId}`);
+  if (!raw) return null;
 
-    const meta = JSON.parse(raw) as Audio;
-    if (meta.fileHash === hash) {
-      return meta;
-    }
-  }
+  // Guard against an index entry left behind by a replaced file
+  const meta = JSON.parse(raw) as Audio;
+  return meta.fileHash === hash ? meta : null;
+}
+
+/**
+ * Point the hash index at an audio record
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {Audio} audio - The stored audio record
+ */
+export async function indexFileHash(kv: KVNamespace, audio: Audio) {
+  if (audio.fileHash) await kv.put(`hash:${audio.fileHash}`, audio.id);
+}
+
+/**
+ * Point the hash index at an audio record unless another stored record with
+ * the same content holds it, e.g. a file of another user the uploader got a
+ * copy of
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {Audio} audio - The stored audio record
+ */
+export async function claimFileHash(kv: KVNamespace, audio: Audio) {
+  const holder = await findFileByHash(kv, audio.fileHash);
+  if (!holder || holder.id === audio.id) await indexFileHash(kv, audio);
+}
+
+/**
+ * Remove the hash index entry of an audio record, unless it already points
+ * to another record with the same content
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {Audio} audio - The audio record being removed
+ */
+export async function removeFileHash(kv: KVNamespace, audio: Audio) {
+  if (!audio.fileHash) return;
+  const key = `hash:${audio.fileHash}`;
+  if ((await kv.get(key)) === audio.id) await kv.delete(key);
+}
+
+export const AUDIO_SCOPE_PREFIX = "audio-scope:";
+
+const audioScopePrefix = (scope: { ownerId?: string; workspaceId?: string }) =>
+  scope.workspaceId
+    ? `${AUDIO_SCOPE_PREFIX}workspace:${scope.workspaceId}:`
+    : `${AUDIO_SCOPE_PREFIX}user:${scope.ownerId}:`;
+
+/**
+ * List an audio record in the personal space or workspace it belongs to,
+ * through an `audio-scope:<space>:<audioId>` key. Records without an owner
+ * are not listed until they are assigned one.
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {Audio} audio - The stored audio record
+ */
+export async function indexAudioScope(kv: KVNamespace, audio: Audio) {
+  if (!audio.ownerId && !audio.workspaceId) return;
+  await kv.put(`${audioScopePrefix(audio)}${audio.id}`, "");
+}
+
+/**
+ * Remove the listing key of an audio record
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {Audio} audio - The audio record being removed or moved
+ */
+export async function removeAudioScope(kv: KVNamespace, audio: Audio) {
+  if (!audio.ownerId && !audio.workspaceId) return;
+  await kv.delete(`${audioScopePrefix(audio)}${audio.id}`);
+}
+
+/**
+ * Page through the audio IDs of a personal space or workspace
+ * @param {KVNamespace} kv - The audio KV namespace
+ * @param {Object} scope - The workspace ID, or the owner ID for personal audio
+ * @param {Object} options - Page size and the cursor of the previous page
+ * @returns {Promise<{ids: string[], cursor: string|null}>} - Audio IDs and the next cursor
+ */
+export async function listAudioScope(
+  kv: KVNamespace,
+  scope: { ownerId?: string; workspaceId?: string },
+  options: { limit: number; cursor?: string }
+): Promise<{ ids: string[]; cursor: string | null }> {
+  const prefix = audioScopePrefix(scope);
+  const page = await kv.list({ prefix, ...options });
+  return {
+    ids: page.keys.map((key) => key.name.slice(prefix.length)),
+    cursor: page.list_complete ? null : page.cursor,
+  };
+}
 
-  return null;
+/**
+ * Get the audio ID a listing key points to
+ */
+export function audioIdFromScopeKey(key: string): string {
+  return key.slice(key.lastIndexOf(":") + 1);
 }
 
 /**
@@ -50,6 +252,25 @@ export async function generateFileHash(fileContent: Uint8Array): Promise<string>
   return hash.toString(cryptojs.enc.Hex);
 }
 
+/**
+ * Generate a SHA-256 hash from a stream, without holding the whole file in memory
+ * @param {ReadableStream<Uint8Array>} stream - The content to hash
+ * @returns {Promise<string>} - Hex string of the hash, equal to generateFileHash of the same bytes
+ */
+export async function generateStreamHash(
+  stream: ReadableStream<Uint8Array>
+): Promise<string> {
+  // The runtime's native digest, hashing large files in JavaScript runs out
+  // of CPU time
+  const { DigestStream } = crypto as unknown as WorkersCrypto;
+  const digestStream = new DigestStream("SHA-256");
+  await stream.pipeTo(digestStream as unknown as WritableStream<Uint8Array>);
+
+  return [...new Uint8Array(await digestStream.digest)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
 /**
  * Sanitize and validate search query
  */
@@ -0,0 +1,24 @@
+import { ValidationTargets } from "hono";
+import { validator } from "hono/validator";
+import { z, ZodSchema } from "zod";
+import { validationError } from "./errors";
+
+/**
+ * Validate a part of the request against a zod schema.
+ * Failures are thrown as a VALIDATION_ERROR and answered by the central error handler.
+ * @param {keyof ValidationTargets} target - The request part to validate (json, param, query, ...)
+ * @param {ZodSchema} schema - The schema to validate against
+ * @returns Middleware exposing the parsed value through c.req.valid(target)
+ */
+export const validate = <
+  Target extends keyof ValidationTargets,
+  Schema extends ZodSchema,
+>(
+  target: Target,
+  schema: Schema
+) =>
+  validator(target, (value): z.output<Schema> => {
+    const result = schema.safeParse(value);
+    if (!result.success) throw validationError(result.error);
+    return result.data;
+  });
@@ -0,0 +1,292 @@
+import { KVNamespace } from "@cloudflare/workers-types";
+import { v4 as uuidv4 } from "uuid";
+import {
+  AuthUser,
+  Bindings,
+  Workspace,
+  WorkspaceMember,
+  WorkspaceRole,
+} from "./types";
+import { ApiError, notFound } from "./errors";
+
+/**
+ * Shared workspaces and the permissions their roles grant. A workspace is
+ * stored at `workspace:<id>` in USERS_KV with its member list, and every
+ * member has a `workspace-member:<userId>:<workspaceId>` key so the
+ * workspaces of a user are found with one prefix listing.
+ *
+ * Projects and audio outside a workspace belong to their ownerId alone, who
+ * holds the owner role on them.
+ */
+
+export const workspaceRoles = ["owner", "editor", "reviewer", "viewer"] as const;
+
+export type Permission =
+  | "read" // open projects, read lyrics, stream audio
+  | "reviewLyrics" // compare and restore lyrics versions
+  | "editLyrics"
+  | "editProject" // create and update projects, upload and replace audio, upload assets
+  | "deleteProject" // delete projects and their audio, library assets
+  | "manageWorkspace"; // rename the workspace, manage members
+
+const rolePermissions: Record<WorkspaceRole, Permission[]> = {
+  owner: [
+    "read",
+    "reviewLyrics",
+    "editLyrics",
+    "editProject",
+    "deleteProject",
+    "manageWorkspace",
+  ],
+  editor: ["read", "reviewLyrics", "editLyrics", "editProject"],
+  reviewer: ["read", "reviewLyrics"],
+  viewer: ["read"],
+};
+
+export type WorkspaceMembership = {
+  workspaceId: string;
+  name: string;
+  role: WorkspaceRole;
+};
+
+const workspaceKey = (workspaceId: string) => `workspace:${workspaceId}`;
+const memberKey = (userId: string, workspaceId: string) =>
+  `workspace-member:${userId}:${workspaceId}`;
+
+export function can(role: WorkspaceRole | null, permission: Permission) {
+  return role !== null && rolePermissions[role].includes(permission);
+}
+
+/**
+ * Permissions of a role, sent to clients so they can hide what is not allowed
+ */
+export function permissionsOf(role: WorkspaceRole): Permission[] {
+  return rolePermissions[role];
+}
+
+/**
+ * Get a workspace by ID
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} workspaceId - The workspace ID
+ * @returns {Promise<Workspace|null>} - The workspace, null if missing
+ */
+export async function getWorkspace(
+  kv: KVNamespace,
+  workspaceId: string
+): Promise<Workspace | null> {
+  const raw = await kv.get(workspaceKey(workspaceId));
+  return raw ? (JSON.parse(raw) as Workspace) : null;
+}
+
+/**
+ * Get a workspace by ID or throw a 404 error
+ */
+export async function getWorkspaceOrThrow(
+  kv: KVNamespace,
+  workspaceId: string
+): Promise<Workspace> {
+  const workspace = await getWorkspace(kv, workspaceId);
+  if (!workspace) throw notFound("Workspace not found");
+  return workspace;
+}
+
+/**
+ * Store a workspace and bring the membership keys in line with its members
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {Workspace} workspace - The workspace to store
+ * @param {Workspace|null} [previous] - The workspace as it was stored before
+ */
+export async function saveWorkspace(
+  kv: KVNamespace,
+  workspace: Workspace,
+  previous?: Workspace | null
+) {
+  workspace.updatedAt = new Date().toISOString();
+  await kv.put(workspaceKey(workspace.id), JSON.stringify(workspace));
+
+  const memberIds = new Set(workspace.members.map((m) => m.userId));
+  await Promise.all([
+    ...workspace.members.map((member) =>
+      kv.put(memberKey(member.userId, workspace.id), member.role, {
+        metadata: {
+          workspaceId: workspace.id,
+          name: workspace.name,
+          role: member.role,
+        } satisfies WorkspaceMembership,
+      })
+    ),
+    ...(previous?.members ?? [])
+      .filter((member) => !memberIds.has(member.userId))
+      .map((member) => kv.delete(memberKey(member.userId, workspace.id))),
+  ]);
+}
+
+/**
+ * Create a workspace with the creator as its owner
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} name - The workspace name
+ * @param {AuthUser} owner - The creator
+ * @returns {Promise<Workspace>} - The stored workspace
+ */
+export async function createWorkspace(
+  kv: KVNamespace,
+  name: string,
+  owner: AuthUser
+): Promise<Workspace> {
+  const now = new Date().toISOString();
+  const workspace: Workspace = {
+    id: uuidv4(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    members: [{ userId: owner.id, role: "owner", addedAt: now }],
+  };
+
+  await saveWorkspace(kv, workspace);
+  return workspace;
+}
+
+/**
+ * Delete a workspace and its membership keys
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {Workspace} workspace - The workspace to delete
+ */
+export async function deleteWorkspace(kv: KVNamespace, workspace: Workspace) {
+  await Promise.all([
+    ...workspace.members.map((member) =>
+      kv.delete(memberKey(member.userId, workspace.id))
+    ),
+    kv.delete(workspaceKey(workspace.id)),
+  ]);
+}
+
+/**
+ * List the workspaces a user belongs to, with the user's role in each
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} userId - The user ID
+ * @returns {Promise<WorkspaceMembership[]>} - Memberships sorted by workspace name
+ */
+export async function listMemberships(
+  kv: KVNamespace,
+  userId: string
+): Promise<WorkspaceMembership[]> {
+  const memberships: WorkspaceMembership[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list<WorkspaceMembership>({
+      prefix: `workspace-member:${userId}:`,
+      cursor,
+    });
+    for (const { metadata } of page.keys) {
+      if (metadata) memberships.push(metadata);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return memberships.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get the role of a user in a workspace
+ * @param {KVNamespace} kv - The users KV namespace
+ * @param {string} workspaceId - The workspace ID
+ * @param {string} userId - The user ID
+ * @returns {Promise<WorkspaceRole|null>} - The role, null if the user is not a member
+ */
+export async function getMemberRole(
+  kv: KVNamespace,
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  return (await kv.get(memberKey(userId, workspaceId))) as WorkspaceRole | null;
+}
+
+/**
+ * Get the role of a user on a project or audio record: their workspace role
+ * when the record belongs to a workspace, owner when they own it directly
+ * @param {Bindings} env - Worker bindings
+ * @param {Object} resource - The record, with its ownerId and workspaceId
+ * @param {AuthUser} user - The caller
+ * @returns {Promise<WorkspaceRole|null>} - The role, null without access
+ */
+export async function getAccessRole(
+  env: Bindings,
+  resource: { ownerId?: string; workspaceId?: string },
+  user: AuthUser
+): Promise<WorkspaceRole | null> {
+  if (resource.workspaceId) {
+    return getMemberRole(env.USERS_KV, resource.workspaceId, user.id);
+  }
+  return resource.ownerId === user.id ? "owner" : null;
+}
+
+/**
+ * Check that the caller may perform an action on a project or audio record
+ * @param {Bindings} env - Worker bindings
+ * @param {Object} resource - The record, with its ownerId and workspaceId
+ * @param {AuthUser} user - The caller
+ * @param {Permission} permission - The permission the action needs
+ * @returns {Promise<WorkspaceRole>} - The caller's role
+ * @throws {ApiError} 403 FORBIDDEN if the caller's role lacks the permission
+ */
+export async function assertCan(
+  env: Bindings,
+  resource: { ownerId?: string; workspaceId?: string },
+  user: AuthUser,
+  permission: Permission
+): Promise<WorkspaceRole> {
+  const role = await getAccessRole(env, resource, user);
+  if (!role || !can(role, permission)) {
+    throw new ApiError(
+      403,
+      "FORBIDDEN",
+      role
+        ? `Your role (${role}) does not allow this action`
+        : "You do not have access to this resource",
+      { details: { role, permission } }
+    );
+  }
+  return role;
+}
+
+/**
+ * Check that the caller may create projects in a workspace, or in their
+ * personal space when no workspace is given
+ * @throws {ApiError} 403 FORBIDDEN if the caller is not an owner or editor of the workspace
+ */
+export async function assertCanCreateIn(
+  env: Bindings,
+  workspaceId: string | undefined,
+  user: AuthUser
+): Promise<void> {
+  if (!workspaceId) return;
+  await assertCan(env, { workspaceId }, user, "editProject");
+}
+
+/**
+ * Find a member, throwing a 404 error when the user is not one
+ */
+export function getMemberOrThrow(
+  workspace: Workspace,
+  userId: string
+): WorkspaceMember {
+  const member = workspace.members.find((m) => m.userId === userId);
+  if (!member) throw notFound("Member not found");
+  return member;
+}
+
+/**
+ * Refuse changes that would leave a workspace without an owner
+ * @throws {ApiError} 409 CONFLICT if the member is the last owner
+ */
+export function assertKeepsOwner(workspace: Workspace, userId: string) {
+  const owners = workspace.members.filter((m) => m.role === "owner");
+  if (owners.length === 1 && owners[0].userId === userId) {
+    throw new ApiError(
+      409,
+      "CONFLICT",
+      "A workspace needs at least one owner"
+    );
+  }
+}
@@ -0,0 +1,339 @@
+import { badRequest } from "./errors";
+
+/**
+ * Minimal ZIP support for project bundles. Archives are written without
+ * compression, since audio and images are compressed already, and streamed
+ * with data descriptors so an audio file goes from R2 to the client without
+ * being held in memory. Reading goes through byte ranges of a ZipSource for
+ * the same reason, and accepts stored and deflated entries, which covers
+ * archives repacked by common zip tools.
+ */
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array | ReadableStream<Uint8Array>;
+};
+
+const LOCAL_HEADER = 0x04034b50;
+const DATA_DESCRIPTOR = 0x08074b50;
+const CENTRAL_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+// Bit 3: sizes and CRC follow the data, bit 11: names are UTF-8
+const FLAGS = 0x0808;
+
+const encoder = new TextEncoder();
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc(crc: number, chunk: Uint8Array): number {
+  for (let i = 0; i < chunk.length; i++) {
+    crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+}
+
+function dosDateTime(date: Date) {
+  return {
+    time:
+      (date.getUTCHours() << 11) |
+      (date.getUTCMinutes() << 5) |
+      (date.getUTCSeconds() >> 1),
+    date:
+      ((date.getUTCFullYear() - 1980) << 9) |
+      ((date.getUTCMonth() + 1) << 5) |
+      date.getUTCDate(),
+  };
+}
+
+async function* chunksOf(
+  data: ZipEntry["data"]
+): AsyncGenerator<Uint8Array, void> {
+  if (data instanceof Uint8Array) {
+    yield data;
+    return;
+  }
+  const reader = data.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+}
+
+async function* zipChunks(
+  entries: ZipEntry[]
+): AsyncGenerator<Uint8Array, void> {
+  const { date, time } = dosDateTime(new Date());
+  const centralHeaders: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, LOCAL_HEADER, true);
+    localView.setUint16(4, 20, true); // version needed
+    localView.setUint16(6, FLAGS, true);
+    localView.setUint16(8, 0, true); // stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    // CRC and sizes stay 0 here, the data descriptor carries them
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+    yield local;
+
+    let crc = 0xffffffff;
+    let size = 0;
+    for await (const chunk of chunksOf(entry.data)) {
+      crc = updateCrc(crc, chunk);
+      size += chunk.length;
+      yield chunk;
+    }
+    crc = (crc ^ 0xffffffff) >>> 0;
+
+    const descriptor = new Uint8Array(16);
+    const descriptorView = new DataView(descriptor.buffer);
+    descriptorView.setUint32(0, DATA_DESCRIPTOR, true);
+    descriptorView.setUint32(4, crc, true);
+    descriptorView.setUint32(8, size, true);
+    descriptorView.setUint32(12, size, true);
+    yield descriptor;
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, CENTRAL_HEADER, true);
+    centralView.setUint16(4, 20, true); // version made by
+    centralView.setUint16(6, 20, true); // version needed
+    centralView.setUint16(8, FLAGS, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+    centralHeaders.push(central);
+
+    offset += local.length + size + descriptor.length;
+  }
+
+  let centralSize = 0;
+  for (const central of centralHeaders) {
+    centralSize += central.length;
+    yield central;
+  }
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+  yield end;
+}
+
+/**
+ * Stream a ZIP archive of the given entries, in order
+ * @param {ZipEntry[]} entries - File names and contents, streams are read once
+ * @returns {ReadableStream<Uint8Array>} - The archive
+ */
+export function createZipStream(
+  entries: ZipEntry[]
+): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries);
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = await chunks.next();
+      if (chunk.done) controller.close();
+      else controller.enqueue(chunk.value);
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * Random access to an archive that is not held in memory, e.g. an R2 object
+ */
+export type ZipSource = {
+  size: number;
+  read(offset: number, length: number): Promise<Uint8Array>;
+  stream(offset: number, length: number): Promise<ReadableStream<Uint8Array>>;
+};
+
+export type ZipFileEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  size: number;
+  localOffset: number;
+};
+
+async function collect(
+  stream: ReadableStream<Uint8Array>,
+  maxSize: number,
+  name: string
+): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw badRequest(`${name} is too large`);
+    }
+    chunks.push(value);
+  }
+
+  const result = new Uint8Array(size);
+  let position = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, position);
+    position += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * List the files of a ZIP archive from its central directory
+ * @param {ZipSource} source - The archive
+ * @returns {Promise<ZipFileEntry[]>} - The files, directories left out
+ * @throws {ApiError} 400 if the archive is malformed
+ */
+export async function listZipEntries(
+  source: ZipSource
+): Promise<ZipFileEntry[]> {
+  // The end record sits in the last 22 bytes, plus a comment of up to 64 KiB
+  const tailLength = Math.min(source.size, 22 + 0xffff);
+  const tail = await source.read(source.size - tailLength, tailLength);
+  const tailView = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+
+  let end = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw badRequest("Not a ZIP archive");
+
+  const count = tailView.getUint16(end + 10, true);
+  const directorySize = tailView.getUint32(end + 12, true);
+  const directoryOffset = tailView.getUint32(end + 16, true);
+  if (directoryOffset + directorySize > source.size) {
+    throw badRequest("Corrupt ZIP archive");
+  }
+
+  const directory = await source.read(directoryOffset, directorySize);
+  const view = new DataView(
+    directory.buffer,
+    directory.byteOffset,
+    directory.byteLength
+  );
+  const decoder = new TextDecoder();
+  const entries: ZipFileEntry[] = [];
+  let position = 0;
+
+  for (let i = 0; i < count; i++) {
+    if (
+      position + 46 > directory.length ||
+      view.getUint32(position, true) !== CENTRAL_HEADER
+    ) {
+      throw badRequest("Corrupt ZIP archive");
+    }
+
+    const nameLength = view.getUint16(position + 28, true);
+    const entry: ZipFileEntry = {
+      name: decoder.decode(
+        directory.subarray(position + 46, position + 46 + nameLength)
+      ),
+      method: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      localOffset: view.getUint32(position + 42, true),
+    };
+    position +=
+      46 +
+      nameLength +
+      view.getUint16(position + 30, true) +
+      view.getUint16(position + 32, true);
+
+    if (entry.name.endsWith("/")) continue;
+    if (entry.method !== 0 && entry.method !== 8) {
+      throw badRequest(`Unsupported compression in ${entry.name}`);
+    }
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Stream the uncompressed content of an archive file
+ * @param {ZipSource} source - The archive
+ * @param {ZipFileEntry} entry - The file, from listZipEntries
+ * @returns {Promise<ReadableStream<Uint8Array>>} - The content
+ * @throws {ApiError} 400 if the archive is malformed
+ */
+export async function openZipEntry(
+  source: ZipSource,
+  entry: ZipFileEntry
+): Promise<ReadableStream<Uint8Array>> {
+  if (entry.localOffset + 30 > source.size) {
+    throw badRequest("Corrupt ZIP archive");
+  }
+  const local = await source.read(entry.localOffset, 30);
+  const view = new DataView(local.buffer, local.byteOffset, local.byteLength);
+  if (view.getUint32(0, true) !== LOCAL_HEADER) {
+    throw badRequest("Corrupt ZIP archive");
+  }
+
+  const dataStart =
+    entry.localOffset +
+    30 +
+    view.getUint16(26, true) +
+    view.getUint16(28, true);
+  if (dataStart + entry.compressedSize > source.size) {
+    throw badRequest("Corrupt ZIP archive");
+  }
+
+  const data = await source.stream(dataStart, entry.compressedSize);
+  return entry.method === 8
+    ? data.pipeThrough(new DecompressionStream("deflate-raw"))
+    : data;
+}
+
+/**
+ * Read a small archive file into memory
+ * @param {ZipSource} source - The archive
+ * @param {ZipFileEntry} entry - The file, from listZipEntries
+ * @param {number} maxSize - Largest uncompressed size accepted, in bytes
+ * @returns {Promise<Uint8Array>} - The content
+ * @throws {ApiError} 400 if the archive is malformed or the file is too large
+ */
+export async function readZipEntry(
+  source: ZipSource,
+  entry: ZipFileEntry,
+  maxSize: number
+): Promise<Uint8Array> {
+  if (entry.size > maxSize) throw badRequest(`${entry.name} is too large`);
+  return collect(await openZipEntry(source, entry), maxSize, entry.name);
+}